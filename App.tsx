@@ -1,7 +1,7 @@
 
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { ToolName, SavedItem, ActionType, DailyAchievementState, XpState, AchievementType, Achievement, AudioFx } from './types';
+import { ToolName, SavedItem, ActionType, DailyAchievementState, XpState, Achievement, AudioFx } from './types';
 import Navbar from './components/Navbar';
 import StudyRoutineFixer from './components/StudyRoutineFixer';
 import NotesCleanerSummarizer from './components/NotesCleanerSummarizer';
@@ -17,90 +17,59 @@ import PredictMyGrade from './components/PredictMyGrade'; // Import new PredictM
 import DailyAchievementDashboard from './components/DailyAchievementDashboard'; // New Daily Achievement Dashboard
 import BadgeCelebrationOverlay from './components/BadgeCelebrationOverlay'; // New Badge Celebration Overlay
 import DeadlinePressureMeter from './components/DeadlinePressureMeter'; // Import new DeadlinePressureMeter
+import SettingsModal, { SettingsSection } from './components/SettingsModal';
+import UsageBudgetBanner from './components/UsageBudgetBanner';
+import StorageErrorBanner from './components/StorageErrorBanner';
+import ApiKeyPrompt from './components/ApiKeyPrompt';
+import { subscribeToApiKeyRequests } from './services/apiKeyManager';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import ProfileLockScreen from './components/ProfileLockScreen';
+import { getActiveProfile, createProfile, activateProfile, isProfileUnlocked } from './utils/profileService';
+import { flushPendingWrites } from './utils/persistentStore';
+import VaultLockScreen from './components/VaultLockScreen';
+import { isVaultEnabled, isVaultUnlocked, lockVault, getAutoLockMinutes } from './utils/vault';
+import { useInactivityTimer } from './hooks/useInactivityTimer';
+import { startAutoSync, subscribeToSyncedChanges } from './utils/syncEngine';
+import { compactActivityHistory, rebucketDailyCounts } from './utils/activityHistory';
+import { DEFAULT_DAY_START_HOUR, getTodayKey } from './utils/dateUtils';
+import { refreshQuestBoards, getQuestBoards, claimQuestReward, rerollQuest } from './utils/questEngine';
+import { advanceStreak, buyStreakFreeze, repairStreak, getStreakCalendar, getStreakFreezeCount, getRepairableStreak } from './utils/streaks';
+import { moveToTrash, restoreFromTrash, purgeExpiredTrash } from './utils/savedItemsTrash';
+import UndoToast, { UndoToastMessage } from './components/UndoToast';
+import XpNotice, { XpNoticeMessage } from './components/XpNotice';
+import { ACHIEVEMENT_DEFINITIONS, evaluateAchievements, getAchievementProgress } from './utils/achievementRules';
+import { getXpLedger, recordXpAward, linkSavedItemToXpAward, getSpendableXp, deriveXpState, getPrestigeCount, canPrestige, recordPrestige, compactXpLedger } from './utils/xpLedger';
+import { getXpForLevel } from './utils/levelCurve';
+import { countsTowardProgress, decideXpAward, rememberInput } from './utils/xpRules';
+import { createProgressCard } from './utils/progressCard';
 
 import {
   loadSavedItems, saveItems, generateUniqueId,
   loadDailyAchievementState, saveDailyAchievementState,
   loadSoundEnabled, saveSoundEnabled, // Import new sound preferences
+  loadHasSeenOnboarding, saveHasSeenOnboarding, loadLeaderboard,
 } from './utils/localStorageService'; // Import local storage utilities
 import { playAudioFx } from './utils/audioService'; // Import audio service
 
-// XP levels configuration: XP required to reach that level
-const XP_LEVELS = [0, 100, 250, 500, 1000, 2000, 3500, 5000, 7500, 10000]; // Max level 9 for 10000 XP
-
-// Base XP awards for actions
-const XP_AWARDS: Record<ActionType, number> = {
-  [ActionType.STUDY_PLAN_GENERATED]: 15,
-  [ActionType.NOTES_SUMMARIZED]: 20,
-  [ActionType.HOMEWORK_CHECKED]: 30,
-  [ActionType.MOOD_UPDATED]: 10,
-  [ActionType.DECISION_MADE]: 5,
-  [ActionType.GRADE_PREDICTED]: 5,
-  [ActionType.PRESSURE_CALCULATED]: 10, // Award for pressure calculation
+// Loads progress, moving daily counts saved under UTC dates onto the local calendar and
+// re-reading the level off the current curve (levels used to stop at 9)
+const loadUpgradedDailyAchievementState = (): DailyAchievementState => {
+  const loaded = loadDailyAchievementState();
+  const state = loaded.dayStartHour === undefined ? rebucketDailyCounts(loaded, DEFAULT_DAY_START_HOUR) : loaded;
+  const xpState = deriveXpState(getXpLedger(state));
+  return xpState.level !== state.xpState.level ? { ...state, xpState } : state;
 };
 
-// Achievement definitions
-const ALL_ACHIEVEMENTS: Record<AchievementType, Omit<Achievement, 'unlockedAt'>> = {
-  [AchievementType.FIRE_MASTER]: {
-    id: AchievementType.FIRE_MASTER,
-    name: 'Fire Master',
-    description: 'Generate study plans for 3 consecutive days.',
-    icon: '🔥',
-  },
-  [AchievementType.NOTES_HERO]: {
-    id: AchievementType.NOTES_HERO,
-    name: 'Notes Hero',
-    description: 'Create 5 unique notes summaries in a day.',
-    icon: '📝',
-  },
-  [AchievementType.HOMEWORK_LEGEND]: {
-    id: AchievementType.HOMEWORK_LEGEND,
-    name: 'Homework Legend',
-    description: 'Complete 5 unique homework checks in a day.',
-    icon: '📚',
-  },
-  [AchievementType.FOCUS_BEAST]: {
-    id: AchievementType.FOCUS_BEAST,
-    name: 'Focus Beast',
-    description: 'Generate a study plan of 2+ hours.',
-    icon: '🧠',
-  },
-  [AchievementType.CONSISTENCY_KING_QUEEN]: {
-    id: AchievementType.CONSISTENCY_KING_QUEEN,
-    name: 'Consistency King/Queen',
-    description: 'Maintain a 7-day app usage streak.',
-    icon: '👑',
-  },
-};
-
-// Helper to get today's date in YYYY-MM-DD format
-const getTodayDateString = () => {
-  return new Date().toISOString().split('T')[0];
-};
-
-// Pure helper function to check and unlock a badge logic
-// This function does NOT call setDailyAchievementState or other side effects.
-// It just computes the next state and whether a badge was newly unlocked.
-const getUpdatedStateAfterBadgeCheck = (
-  currentDailyAchievementState: DailyAchievementState,
-  badgeType: AchievementType,
-  allAchievements: Record<AchievementType, Omit<Achievement, 'unlockedAt'>>
-): { updatedState: DailyAchievementState; unlockedBadge: Achievement | null; didUnlock: boolean } => {
-  if (!currentDailyAchievementState.unlockedBadges.includes(badgeType)) {
-    const badgeDetails = allAchievements[badgeType];
-    const newBadge: Achievement = { ...badgeDetails, unlockedAt: new Date().toISOString() };
-
-    const updatedBadges = [...currentDailyAchievementState.unlockedBadges, badgeType];
-    const newDailyAchievementState = {
-      ...currentDailyAchievementState,
-      unlockedBadges: updatedBadges,
-    };
-    return { updatedState: newDailyAchievementState, unlockedBadge: newBadge, didUnlock: true };
+// Loads saved work, permanently removing items that have been in the trash too long
+const loadSavedItemsWithoutExpiredTrash = (): SavedItem[] => {
+  const items = loadSavedItems();
+  const keptItems = purgeExpiredTrash(items);
+  if (keptItems !== items) {
+    saveItems(keptItems);
   }
-  return { updatedState: currentDailyAchievementState, unlockedBadge: null, didUnlock: false };
+  return keptItems;
 };
 
-
 const App: React.FC = () => {
   const [activeTool, setActiveTool] = useState<ToolName>(ToolName.DAILY_ACHIEVEMENTS); // Set initial active tool to Daily Achievements
   const [showOnboarding, setShowOnboarding] = useState<boolean>(false);
@@ -109,205 +78,147 @@ const App: React.FC = () => {
 
   const [savedItems, setSavedItems] = useState<SavedItem[]>([]);
   const [showSavedWorkModal, setShowSavedWorkModal] = useState<boolean>(false);
+  const [showSettingsModal, setShowSettingsModal] = useState<boolean>(false);
+  const [settingsSection, setSettingsSection] = useState<SettingsSection>('provider'); // Section the settings modal opens on
+  const [showApiKeyPrompt, setShowApiKeyPrompt] = useState<boolean>(false);
+  const [undoToast, setUndoToast] = useState<UndoToastMessage | null>(null);
+  const [xpNotice, setXpNotice] = useState<XpNoticeMessage | null>(null); // Why the last action earned less XP than usual
+  const [showProfileSwitcher, setShowProfileSwitcher] = useState<boolean>(false);
+  const [isAddingProfile, setIsAddingProfile] = useState<boolean>(false);
+  const [isProfileLocked, setIsProfileLocked] = useState<boolean>(() => {
+    const profile = getActiveProfile();
+    return profile !== null && !isProfileUnlocked(profile);
+  });
+  const [isVaultLocked, setIsVaultLocked] = useState<boolean>(() => isVaultEnabled() && !isVaultUnlocked());
 
   // Gamification states
-  const [dailyAchievementState, setDailyAchievementState] = useState<DailyAchievementState>(() => loadDailyAchievementState());
+  const [dailyAchievementState, setDailyAchievementState] = useState<DailyAchievementState>(() => loadUpgradedDailyAchievementState());
   const [showBadgeCelebration, setShowBadgeCelebration] = useState<boolean>(false);
   const [newlyUnlockedBadge, setNewlyUnlockedBadge] = useState<Achievement | null>(null);
   const [soundEnabled, setSoundEnabled] = useState<boolean>(() => loadSoundEnabled()); // New state for sound preference
 
   // Derive XP, level, streak from dailyAchievementState
-  const { xpState, unlockedBadges, currentStreak, lastActivityDate, dailyActionCounts } = dailyAchievementState;
+  const { xpState, unlockedBadges, currentStreak, lastActivityDate } = dailyAchievementState;
   const { xp, level } = xpState;
 
   // Calculate XP needed for the next level
-  const xpForNextLevel = XP_LEVELS[level + 1] || XP_LEVELS[XP_LEVELS.length - 1]; // Max XP for last level
-
-  // Helper to calculate level from total XP
-  const calculateLevelFromXp = (currentXp: number): number => {
-    let currentLevel = 0;
-    for (let i = 0; i < XP_LEVELS.length; i++) {
-      if (currentXp >= XP_LEVELS[i]) {
-        currentLevel = i;
-      } else {
-        break;
-      }
-    }
-    return currentLevel;
-  };
-
-  // Memoize today's action counts for passing to dashboard
-  const today = getTodayDateString();
-  const todayActionCounts = useMemo(() => {
-    return dailyActionCounts[today] || {
-      studyPlansGenerated: 0,
-      notesSummarized: 0,
-      homeworkChecked: 0,
-      moodUpdates: 0,
-      decisionsMade: 0,
-      gradesPredicted: 0,
-      focusBeastEligibleToday: false,
-    };
-  }, [dailyActionCounts, today]);
-
-  // Calculate current study streak for display and badge progress (Fire Master)
-  const studyStreak = useMemo(() => {
-    let streak = 0;
-    // Check consecutive days backwards from yesterday to see existing banked streak
-    // Then add 1 if today has a study plan
-    const todayDate = new Date();
-    
-    // Check today first
-    if ((dailyActionCounts[today]?.studyPlansGenerated || 0) > 0) {
-      streak = 1;
-    }
+  const xpForNextLevel = getXpForLevel(level + 1);
+
+  const xpLedger = useMemo(() => getXpLedger(dailyAchievementState), [dailyAchievementState]);
+
+  // Progress towards locked badges, measured by the same rules that unlock them
+  const dayStartHour = dailyAchievementState.dayStartHour ?? DEFAULT_DAY_START_HOUR;
+  const today = getTodayKey(dayStartHour);
+  const achievementProgress = useMemo(() => getAchievementProgress(dailyAchievementState, today), [dailyAchievementState, today]);
+  const streakCalendar = useMemo(() => getStreakCalendar(dailyAchievementState, today), [dailyAchievementState, today]);
+  const questBoards = useMemo(() => getQuestBoards(dailyAchievementState, today), [dailyAchievementState, today]);
+  const [leaderboardCardId] = useState<string>(() => loadLeaderboard().cardId);
+  const progressCard = useMemo(
+    () => createProgressCard(dailyAchievementState, userName ?? '', leaderboardCardId),
+    [dailyAchievementState, userName, leaderboardCardId],
+  );
 
-    // Check yesterday and backwards
-    for (let i = 1; i < 7; i++) {
-       const d = new Date(todayDate);
-       d.setDate(todayDate.getDate() - i);
-       const dateStr = d.toISOString().split('T')[0];
-       if ((dailyActionCounts[dateStr]?.studyPlansGenerated || 0) > 0) {
-         streak++;
-       } else {
-         break;
-       }
+  // Shows the celebration for newly unlocked badges (the first, if several unlock at once)
+  const celebrateBadges = useCallback((badges: Achievement[]) => {
+    if (badges.length === 0) return;
+    setNewlyUnlockedBadge(badges[0]);
+    setShowBadgeCelebration(true);
+    if (soundEnabled) {
+      playAudioFx(AudioFx.BADGE_UNLOCK);
     }
-    return streak;
-  }, [dailyActionCounts, today]);
-
+    setTimeout(() => setShowBadgeCelebration(false), 5000);
+  }, [soundEnabled]);
 
-  // Initialize and manage streak/daily counts and Consistency King/Queen badge
+  // Initialize today's counts and move the streak on (using freezes for missed days), deal new quests, then re-check badges (streak rules)
   useEffect(() => {
-    const todayStr = getTodayDateString();
-    const lastActivity = dailyAchievementState.lastActivityDate;
-
-    let xpGainSoundPlayed = false;
-    let streakMaintainSoundPlayed = false;
-    let unlockedNewBadge: Achievement | null = null;
-    let playedBadgeSound = false;
+    const todayStr = getTodayKey(dayStartHour);
 
     setDailyAchievementState(prevState => {
-      let newStreak = prevState.currentStreak;
-      let newLastActivityDate = todayStr;
-      const newDailyCounts = { ...prevState.dailyActionCounts };
+      const { state: streakState, outcome } = advanceStreak(prevState, todayStr);
 
       // Initialize today's counts if not present
-      if (!newDailyCounts[todayStr]) {
-        newDailyCounts[todayStr] = {
-          studyPlansGenerated: 0,
-          notesSummarized: 0,
-          homeworkChecked: 0,
-          moodUpdates: 0,
-          decisionsMade: 0,
-          gradesPredicted: 0,
-          focusBeastEligibleToday: false,
-        };
-      }
-
-      let currentWorkingState = prevState; // Start with prevState for progressive updates
-
-      if (lastActivity) {
-        const lastActivityDateObj = new Date(lastActivity);
-        const todayDateObj = new Date(todayStr);
-        const oneDay = 24 * 60 * 60 * 1000;
-        const diffDays = Math.round(Math.abs((todayDateObj.getTime() - lastActivityDateObj.getTime()) / oneDay));
-
-        if (diffDays === 1) {
-          // Continuous streak
-          newStreak = prevState.currentStreak + 1;
-          if (newStreak > prevState.currentStreak) { // Check if streak actually increased
-            streakMaintainSoundPlayed = true;
-          }
-        } else if (diffDays > 1) {
-          // Streak broken
-          newStreak = 1;
-        } else {
-          // Same day, streak doesn't change
-          newStreak = prevState.currentStreak;
-          newLastActivityDate = prevState.lastActivityDate; // Don't update lastActivityDate if it's the same day
-        }
-      } else {
-        // First ever activity
-        newStreak = 1;
-      }
-
-      // Apply streak updates to working state
-      currentWorkingState = {
-        ...currentWorkingState,
-        currentStreak: newStreak,
-        lastActivityDate: newLastActivityDate,
-        dailyActionCounts: newDailyCounts,
+      const workingState = streakState.dailyActionCounts[todayStr] ? streakState : {
+        ...streakState,
+        dailyActionCounts: {
+          ...streakState.dailyActionCounts,
+          [todayStr]: {
+            studyPlansGenerated: 0,
+            notesSummarized: 0,
+            homeworkChecked: 0,
+            moodUpdates: 0,
+            decisionsMade: 0,
+            gradesPredicted: 0,
+            focusBeastEligibleToday: false,
+          },
+        },
       };
 
-      // Check Consistency King/Queen achievement
-      if (newStreak >= 7) {
-        const { updatedState, unlockedBadge, didUnlock } = getUpdatedStateAfterBadgeCheck(
-          currentWorkingState,
-          AchievementType.CONSISTENCY_KING_QUEEN,
-          ALL_ACHIEVEMENTS
-        );
-        currentWorkingState = updatedState; // Apply state changes from badge check
-        if (didUnlock) {
-          unlockedNewBadge = unlockedBadge;
-          playedBadgeSound = true; // Flag to play sound after state update
-        }
-      }
-
-      const finalUpdatedState = currentWorkingState; // This is the state to be returned
+      const { state: finalUpdatedState, unlocked } = evaluateAchievements({ state: refreshQuestBoards(workingState, todayStr), today: todayStr });
 
       // Side effects to be triggered after the state update
-      if (streakMaintainSoundPlayed && soundEnabled) {
+      if ((outcome === 'continued' || outcome === 'frozen') && soundEnabled) {
         playAudioFx(AudioFx.STREAK_MAINTAIN);
       }
-      if (unlockedNewBadge) {
-        setNewlyUnlockedBadge(unlockedNewBadge);
-        setShowBadgeCelebration(true);
-        if (soundEnabled && playedBadgeSound) {
-          playAudioFx(AudioFx.BADGE_UNLOCK);
-        }
-        setTimeout(() => setShowBadgeCelebration(false), 5000);
-      }
+      celebrateBadges(unlocked);
       
       saveDailyAchievementState(finalUpdatedState);
       return finalUpdatedState;
     });
 
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [dailyAchievementState.lastActivityDate, soundEnabled]); // Only re-run when lastActivityDate might change, or sound setting changes
+  }, [dailyAchievementState.lastActivityDate, dayStartHour, celebrateBadges]); // Only re-run when lastActivityDate or the day boundary might change, or sound setting changes
 
   useEffect(() => {
-    const storedUserName = localStorage.getItem('slsUserName');
-    if (storedUserName) {
-      setUserName(storedUserName);
+    const profile = getActiveProfile();
+    if (profile) {
+      setUserName(profile.name);
       setShowWelcomeScreen(false);
     } else {
       setShowWelcomeScreen(true);
     }
 
-    const hasSeenOnboarding = localStorage.getItem('hasSeenOnboarding');
-    if (storedUserName && !hasSeenOnboarding) {
+    if (profile && !loadHasSeenOnboarding()) {
       setShowOnboarding(true);
     }
 
-    setSavedItems(loadSavedItems());
+    setSavedItems(loadSavedItemsWithoutExpiredTrash());
     setSoundEnabled(loadSoundEnabled()); // Load sound preference
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Ask for a Gemini key whenever a request finds none configured
+  useEffect(() => subscribeToApiKeyRequests(() => setShowApiKeyPrompt(true)), []);
+
+  // Summarize old daily activity and XP history so neither grows forever
+  useEffect(() => {
+    setDailyAchievementState(prevState => {
+      const today = getTodayKey(prevState.dayStartHour);
+      const compactedState = compactXpLedger(compactActivityHistory(prevState, today), today);
+      if (compactedState !== prevState) {
+        saveDailyAchievementState(compactedState);
+      }
+      return compactedState;
+    });
+  }, []);
+
+  // Sync with the student's other devices, and show what they changed
+  useEffect(() => startAutoSync(), []);
+  useEffect(() => subscribeToSyncedChanges(() => {
+    setSavedItems(loadSavedItems());
+    setDailyAchievementState(loadUpgradedDailyAchievementState());
+  }), []);
+
   const handleOnboardingComplete = useCallback(() => {
     setShowOnboarding(false);
-    localStorage.setItem('hasSeenOnboarding', 'true');
+    saveHasSeenOnboarding();
   }, []);
 
-  const handleWelcomeComplete = useCallback((name: string) => {
-    setUserName(name);
-    localStorage.setItem('slsUserName', name);
-    setShowWelcomeScreen(false);
-    const hasSeenOnboarding = localStorage.getItem('hasSeenOnboarding');
-    if (!hasSeenOnboarding) {
-      setShowOnboarding(true);
-    }
+  const handleWelcomeComplete = useCallback(async (name: string) => {
+    const profile = createProfile(name);
+    activateProfile(profile.id);
+    // Reload so progress, saved work and tool inputs are read from the new profile's storage
+    await flushPendingWrites();
+    window.location.reload();
   }, []);
 
   const handleSaveItem = useCallback((item: Omit<SavedItem, 'id' | 'timestamp'>) => {
@@ -321,11 +232,43 @@ const App: React.FC = () => {
       saveItems(updatedItems);
       return updatedItems;
     });
+    // Record which award the saved item came from, for the XP history
+    setDailyAchievementState(prevState => {
+      const linkedState = linkSavedItemToXpAward(prevState, newItem.toolName, newItem.id);
+      if (linkedState !== prevState) {
+        saveDailyAchievementState(linkedState);
+      }
+      return linkedState;
+    });
   }, []);
 
-  const handleDeleteItem = useCallback((id: string) => {
+  // Moves items to or from the trash, with a toast to reverse it (Undo, then Redo, and so on)
+  const setItemsTrashed = useCallback((ids: string[], trashed: boolean, actionLabel: 'Undo' | 'Redo' = 'Undo') => {
     setSavedItems((prevItems) => {
-      const updatedItems = prevItems.filter((item) => item.id !== id);
+      const updatedItems = trashed ? moveToTrash(prevItems, ids) : restoreFromTrash(prevItems, ids);
+      saveItems(updatedItems);
+      return updatedItems;
+    });
+    const count = ids.length === 1 ? '1 item' : `${ids.length} items`;
+    setUndoToast({
+      message: trashed ? `Moved ${count} to the trash.` : `Restored ${count}.`,
+      actionLabel,
+      onAction: () => setItemsTrashed(ids, !trashed, actionLabel === 'Undo' ? 'Redo' : 'Undo'),
+    });
+  }, []);
+
+  const handleTrashItems = useCallback((ids: string[]) => setItemsTrashed(ids, true), [setItemsTrashed]);
+
+  const handleRestoreItems = useCallback((ids: string[]) => setItemsTrashed(ids, false), [setItemsTrashed]);
+
+  const dismissUndoToast = useCallback(() => setUndoToast(null), []);
+
+  const dismissXpNotice = useCallback(() => setXpNotice(null), []);
+
+  // Deletes items permanently (emptying the trash, storage cleanup)
+  const handleDeleteItems = useCallback((ids: string[]) => {
+    setSavedItems((prevItems) => {
+      const updatedItems = prevItems.filter((item) => !ids.includes(item.id));
       saveItems(updatedItems);
       return updatedItems;
     });
@@ -333,11 +276,9 @@ const App: React.FC = () => {
 
   const handleAction = useCallback((action: ActionType, data?: Record<string, any>) => {
     let xpEarned = 0;
-    let unlockedNewBadge: Achievement | null = null;
-    let playedBadgeSound = false; // Flag to indicate if badge sound should be played
 
     setDailyAchievementState(prevState => {
-      const todayStr = getTodayDateString();
+      const todayStr = getTodayKey(prevState.dayStartHour);
       const currentDayCounts = { // Ensure we always work with a fresh copy for the current day
         ...(prevState.dailyActionCounts[todayStr] || {
           studyPlansGenerated: 0,
@@ -350,146 +291,166 @@ const App: React.FC = () => {
         })
       };
 
-      let currentWorkingState = prevState; // Start with prevState for progressive updates
-
-      // 1. Determine XP to award and update daily counts
-      switch (action) {
-        case ActionType.STUDY_PLAN_GENERATED:
-          if (currentDayCounts.studyPlansGenerated === 0) { // Only award XP once per day for this action
-            xpEarned = XP_AWARDS[action];
-            currentDayCounts.studyPlansGenerated = 1;
-          }
-          // Check Focus Beast badge condition using the pure helper
-          if (data?.hoursPerDay >= 2) {
-            const { updatedState, unlockedBadge, didUnlock } = getUpdatedStateAfterBadgeCheck(
-              currentWorkingState,
-              AchievementType.FOCUS_BEAST,
-              ALL_ACHIEVEMENTS
-            );
-            currentWorkingState = updatedState; // Apply state changes from badge check
-            if (didUnlock) {
-              unlockedNewBadge = unlockedBadge;
-              playedBadgeSound = true;
-            }
-          }
-          break;
-        case ActionType.NOTES_SUMMARIZED:
-          xpEarned = XP_AWARDS[action];
-          currentDayCounts.notesSummarized += 1;
-          
-          // Check Notes Hero badge (Required: 5)
-          if (currentDayCounts.notesSummarized >= 5) {
-            const { updatedState: notesHeroState, unlockedBadge: notesHeroBadge, didUnlock: notesHeroDidUnlock } = getUpdatedStateAfterBadgeCheck(
-              currentWorkingState,
-              AchievementType.NOTES_HERO,
-              ALL_ACHIEVEMENTS
-            );
-            currentWorkingState = notesHeroState;
-            if (notesHeroDidUnlock) {
-              unlockedNewBadge = notesHeroBadge;
-              playedBadgeSound = true;
-            }
-          }
-          break;
-        case ActionType.HOMEWORK_CHECKED:
-          xpEarned = XP_AWARDS[action];
-          currentDayCounts.homeworkChecked += 1;
-          
-          // Check Homework Legend badge (Required: 5)
-          if (currentDayCounts.homeworkChecked >= 5) {
-            const { updatedState: homeworkLegendState, unlockedBadge: homeworkLegendBadge, didUnlock: homeworkLegendDidUnlock } = getUpdatedStateAfterBadgeCheck(
-              currentWorkingState,
-              AchievementType.HOMEWORK_LEGEND,
-              ALL_ACHIEVEMENTS
-            );
-            currentWorkingState = homeworkLegendState;
-            if (homeworkLegendDidUnlock) {
-              unlockedNewBadge = homeworkLegendBadge;
-              playedBadgeSound = true;
-            }
-          }
-          break;
-        case ActionType.MOOD_UPDATED:
-          xpEarned = XP_AWARDS[action]; // Can earn multiple times a day
-          currentDayCounts.moodUpdates += 1;
-          break;
-        case ActionType.DECISION_MADE:
-          xpEarned = XP_AWARDS[action];
-          currentDayCounts.decisionsMade += 1;
-          break;
-        case ActionType.GRADE_PREDICTED:
-          xpEarned = XP_AWARDS[action];
-          currentDayCounts.gradesPredicted += 1;
-          break;
-        case ActionType.PRESSURE_CALCULATED:
-          xpEarned = XP_AWARDS[action];
-          break;
-        default:
-          break;
+      // 1. Work out the XP under the action's rule (caps, cooldowns, repeats) and update daily counts
+      const input = typeof data?.input === 'string' ? data.input : undefined;
+      const decision = decideXpAward(prevState, { action, input, today: todayStr });
+      xpEarned = decision.xp;
+      const counted = countsTowardProgress(decision);
+      // Repeats and actions during a cooldown don't count towards badges and quests
+      if (counted) {
+        switch (action) {
+          case ActionType.STUDY_PLAN_GENERATED:
+            currentDayCounts.studyPlansGenerated = 1; // Counted once per day
+            break;
+          case ActionType.NOTES_SUMMARIZED:
+            currentDayCounts.notesSummarized += 1;
+            break;
+          case ActionType.HOMEWORK_CHECKED:
+            currentDayCounts.homeworkChecked += 1;
+            break;
+          case ActionType.MOOD_UPDATED:
+            currentDayCounts.moodUpdates += 1;
+            break;
+          case ActionType.DECISION_MADE:
+            currentDayCounts.decisionsMade += 1;
+            break;
+          case ActionType.GRADE_PREDICTED:
+            currentDayCounts.gradesPredicted += 1;
+            break;
+          default:
+            break;
+        }
       }
 
-      // Calculate new XP and Level from the potentially updated `currentWorkingState`
-      const newXp = currentWorkingState.xpState.xp + xpEarned;
-      const newLevel = calculateLevelFromXp(newXp);
-
-      // Construct the final updated state to be returned
-      const finalUpdatedState: DailyAchievementState = {
-        ...currentWorkingState, // This ensures any badge unlocks are already in `unlockedBadges`
-        xpState: { xp: newXp, level: newLevel },
-        lastActivityDate: todayStr, // Update last activity date on any action
+      // An action after midnight moves the streak on too, even if the app stayed open
+      const { state: streakState, outcome: streakOutcome } = advanceStreak(prevState, todayStr);
+      const countedState: DailyAchievementState = {
+        ...streakState,
         dailyActionCounts: {
-          ...currentWorkingState.dailyActionCounts, // Keep any counts from previous days
+          ...streakState.dailyActionCounts, // Keep any counts from previous days
           [todayStr]: currentDayCounts, // Update current day's specific action counts
         },
       };
 
+      // 2. Record the award in the XP ledger, which XP and level are derived from
+      const rememberedState = rememberInput(countedState, action, input);
+      const awardedState = xpEarned > 0 ? recordXpAward(rememberedState, action, xpEarned) : rememberedState;
+      const newLevel = awardedState.xpState.level;
+
+      // 3. Check every badge's rule against the updated counts and this action's data
+      const { state: finalUpdatedState, unlocked } = evaluateAchievements({
+        state: awardedState,
+        today: todayStr,
+        action: counted ? { type: action, data } : undefined,
+      });
+
       // Trigger side effects (sounds, celebration) AFTER the state update logic for
       // `setDailyAchievementState` is determined. These effects will be run after
       // `setDailyAchievementState` returns and potentially causes a re-render.
       if (xpEarned > 0 && soundEnabled) {
         playAudioFx(AudioFx.XP_GAIN);
       }
+      if ((streakOutcome === 'continued' || streakOutcome === 'frozen') && soundEnabled) {
+        playAudioFx(AudioFx.STREAK_MAINTAIN);
+      }
       if (newLevel > prevState.xpState.level && soundEnabled) { // Compare against prevState's level
         playAudioFx(AudioFx.LEVEL_UP);
       }
-      if (unlockedNewBadge) {
-        setNewlyUnlockedBadge(unlockedNewBadge);
-        setShowBadgeCelebration(true);
-        if (soundEnabled && playedBadgeSound) { // Only play sound if it was a new unlock and sound is enabled
-          playAudioFx(AudioFx.BADGE_UNLOCK);
-        }
-        setTimeout(() => setShowBadgeCelebration(false), 5000);
-      }
+      celebrateBadges(unlocked);
+      setXpNotice(decision.message ? { message: decision.message, withheld: decision.xp === 0 } : null);
       
       saveDailyAchievementState(finalUpdatedState); // Save the state to local storage
       return finalUpdatedState;
     });
-  }, [soundEnabled, calculateLevelFromXp]);
+  }, [soundEnabled, celebrateBadges]);
 
+  // An unlocked vault locks itself after the chosen idle time
+  const vaultAutoLockMs = !isVaultLocked && isVaultEnabled() ? getAutoLockMinutes() * 60 * 1000 : 0;
+  useInactivityTimer(vaultAutoLockMs, () => void lockVault());
 
-  // Check Fire Master achievement (3 consecutive study days)
-  useEffect(() => {
-    // Only attempt to unlock if we have 3 or more consecutive study days
-    if (studyStreak >= 3) {
-      setDailyAchievementState(prevState => {
-        const { updatedState, unlockedBadge, didUnlock } = getUpdatedStateAfterBadgeCheck(
-          prevState,
-          AchievementType.FIRE_MASTER,
-          ALL_ACHIEVEMENTS
-        );
-        if (didUnlock) {
-          setNewlyUnlockedBadge(unlockedBadge);
-          setShowBadgeCelebration(true);
-          if (soundEnabled) { // Play sound if newly unlocked and sound enabled
-            playAudioFx(AudioFx.BADGE_UNLOCK);
-          }
-          setTimeout(() => setShowBadgeCelebration(false), 5000);
-        }
+  const handleVaultUnlock = useCallback(() => {
+    setIsVaultLocked(false);
+    setSavedItems(loadSavedItemsWithoutExpiredTrash()); // Read while locked, so re-read the decrypted copy
+  }, []);
+
+  const handleBuyStreakFreeze = useCallback(() => {
+    setDailyAchievementState(prevState => {
+      const updatedState = buyStreakFreeze(prevState);
+      if (updatedState !== prevState) {
         saveDailyAchievementState(updatedState);
-        return updatedState;
-      });
-    }
-  }, [studyStreak, soundEnabled]); // Depend on calculated studyStreak
+      }
+      return updatedState;
+    });
+  }, []);
+
+  const handleRepairStreak = useCallback(() => {
+    setDailyAchievementState(prevState => {
+      const repairedState = repairStreak(prevState);
+      if (repairedState === prevState) {
+        return prevState;
+      }
+      // The restored streak can be long enough for a streak badge
+      const { state: finalUpdatedState, unlocked } = evaluateAchievements({ state: repairedState, today: getTodayKey(prevState.dayStartHour) });
+      if (soundEnabled) {
+        playAudioFx(AudioFx.STREAK_MAINTAIN);
+      }
+      celebrateBadges(unlocked);
+      saveDailyAchievementState(finalUpdatedState);
+      return finalUpdatedState;
+    });
+  }, [soundEnabled, celebrateBadges]);
+
+  const handleClaimQuest = useCallback((questId: string) => {
+    setDailyAchievementState(prevState => {
+      const updatedState = claimQuestReward(prevState, questId, getTodayKey(prevState.dayStartHour));
+      if (updatedState === prevState) {
+        return prevState;
+      }
+      if (soundEnabled) {
+        playAudioFx(updatedState.xpState.level > prevState.xpState.level ? AudioFx.LEVEL_UP : AudioFx.XP_GAIN);
+      }
+      saveDailyAchievementState(updatedState);
+      return updatedState;
+    });
+  }, [soundEnabled]);
+
+  const handleRerollQuest = useCallback((questId: string) => {
+    setDailyAchievementState(prevState => {
+      const updatedState = rerollQuest(prevState, questId, getTodayKey(prevState.dayStartHour));
+      if (updatedState !== prevState) {
+        saveDailyAchievementState(updatedState);
+      }
+      return updatedState;
+    });
+  }, []);
+
+  const handlePrestige = useCallback(() => {
+    setDailyAchievementState(prevState => {
+      const updatedState = recordPrestige(prevState);
+      if (updatedState === prevState) {
+        return prevState;
+      }
+      if (soundEnabled) {
+        playAudioFx(AudioFx.BADGE_UNLOCK);
+      }
+      saveDailyAchievementState(updatedState);
+      return updatedState;
+    });
+  }, [soundEnabled]);
+
+  // Moves daily counts onto the new day boundary; the streak effect then re-checks today
+  const handleDayStartHourChange = useCallback((hour: number) => {
+    setDailyAchievementState(prevState => {
+      const rebucketedState = rebucketDailyCounts(prevState, hour);
+      saveDailyAchievementState(rebucketedState);
+      return rebucketedState;
+    });
+  }, []);
+
+  const openSettings = useCallback((section: SettingsSection = 'provider') => {
+    setSettingsSection(section);
+    setShowSettingsModal(true);
+  }, []);
 
   const toggleSound = useCallback(() => {
     setSoundEnabled(prev => {
@@ -498,20 +459,48 @@ const App: React.FC = () => {
     });
   }, []);
 
-  if (showWelcomeScreen || !userName) {
-    return <WelcomeScreen onComplete={handleWelcomeComplete} />;
+  if (showWelcomeScreen || !userName || isAddingProfile) {
+    return <WelcomeScreen onComplete={handleWelcomeComplete} onCancel={isAddingProfile ? () => setIsAddingProfile(false) : undefined} />;
+  }
+
+  if (isProfileLocked) {
+    const lockedProfile = getActiveProfile();
+    return (
+      <>
+        {lockedProfile && (
+          <ProfileLockScreen
+            profile={lockedProfile}
+            onUnlock={() => setIsProfileLocked(false)}
+            onSwitchProfile={() => setShowProfileSwitcher(true)}
+          />
+        )}
+        {showProfileSwitcher && (
+          <ProfileSwitcher
+            onClose={() => setShowProfileSwitcher(false)}
+            onAddProfile={() => { setShowProfileSwitcher(false); setIsAddingProfile(true); }}
+          />
+        )}
+      </>
+    );
   }
 
   if (showOnboarding) {
     return <OnboardingTour onComplete={handleOnboardingComplete} />;
   }
 
+  if (isVaultLocked) {
+    return <VaultLockScreen userName={userName} onUnlock={handleVaultUnlock} />;
+  }
+
   return (
     <div className="min-h-screen flex flex-col">
       <Navbar
         activeTool={activeTool}
         onToolSelect={setActiveTool}
         onOpenSavedWork={() => setShowSavedWorkModal(true)}
+        onOpenSettings={() => openSettings()}
+        userName={userName}
+        onOpenProfiles={() => setShowProfileSwitcher(true)}
       />
       <main className="flex-grow container mx-auto px-4 py-8 sm:px-6 lg:px-8 max-w-4xl">
         <div className="text-center mb-8">
@@ -530,13 +519,29 @@ const App: React.FC = () => {
             xpForNextLevel={xpForNextLevel}
             currentStreak={currentStreak}
             unlockedBadges={unlockedBadges}
-            allAchievements={ALL_ACHIEVEMENTS}
+            allAchievements={ACHIEVEMENT_DEFINITIONS}
+            achievementProgress={achievementProgress}
+            xpLedger={xpLedger}
+            savedItems={savedItems}
+            dayStartHour={dayStartHour}
+            streakCalendar={streakCalendar}
+            streakFreezes={getStreakFreezeCount(dailyAchievementState)}
+            spendableXp={getSpendableXp(dailyAchievementState)}
+            repairableStreak={getRepairableStreak(dailyAchievementState)}
+            onBuyStreakFreeze={handleBuyStreakFreeze}
+            onRepairStreak={handleRepairStreak}
+            questBoards={questBoards}
+            today={today}
+            onClaimQuest={handleClaimQuest}
+            onRerollQuest={handleRerollQuest}
+            prestigeCount={getPrestigeCount(dailyAchievementState)}
+            canPrestige={canPrestige(dailyAchievementState)}
+            onPrestige={handlePrestige}
+            progressCard={progressCard}
             userName={userName}
             onAction={handleAction}
             soundEnabled={soundEnabled} // Pass sound preference
             toggleSound={toggleSound}    // Pass toggle function
-            todayActionCounts={todayActionCounts} // Pass engagement data
-            studyStreak={studyStreak} // Pass specific streak data
           />
         )}
         {activeTool === ToolName.STUDY_ROUTINE && <StudyRoutineFixer onSaveItem={handleSaveItem} onAction={handleAction} />}
@@ -551,11 +556,41 @@ const App: React.FC = () => {
       {showSavedWorkModal && (
         <SavedWorkModal
           savedItems={savedItems}
-          onDelete={handleDeleteItem}
+          onDelete={handleTrashItems}
+          onRestore={handleRestoreItems}
+          onPurge={handleDeleteItems}
           onClose={() => setShowSavedWorkModal(false)}
         />
       )}
 
+      {undoToast && <UndoToast toast={undoToast} onDismiss={dismissUndoToast} />}
+      {xpNotice && <XpNotice notice={xpNotice} onDismiss={dismissXpNotice} />}
+
+      {showSettingsModal && (
+        <SettingsModal
+          initialSection={settingsSection}
+          onClose={() => setShowSettingsModal(false)}
+          savedItems={savedItems}
+          onTrashSavedItems={handleTrashItems}
+          dayStartHour={dayStartHour}
+          onDayStartHourChange={handleDayStartHourChange}
+        />
+      )}
+
+      {showProfileSwitcher && (
+        <ProfileSwitcher
+          onClose={() => setShowProfileSwitcher(false)}
+          onAddProfile={() => { setShowProfileSwitcher(false); setIsAddingProfile(true); }}
+        />
+      )}
+
+      {showApiKeyPrompt && (
+        <ApiKeyPrompt onClose={() => setShowApiKeyPrompt(false)} />
+      )}
+
+      <UsageBudgetBanner onOpenUsage={() => openSettings('usage')} />
+      <StorageErrorBanner />
+
       {showBadgeCelebration && newlyUnlockedBadge && (
         <BadgeCelebrationOverlay badge={newlyUnlockedBadge} onClose={() => setShowBadgeCelebration(false)} />
       )}
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import {
+  getGeminiApiKey, getGeminiApiKeySource, maskApiKey,
+  validateGeminiApiKey, storeGeminiApiKey, removeGeminiApiKey,
+} from '../services/apiKeyManager';
+import { getActionableErrorMessage } from '../services/llmErrors';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
+
+interface ApiKeyPromptProps {
+  onClose: () => void;
+  onKeyChange?: () => void; // Called after a key is saved or removed
+}
+
+const API_KEY_HELP_URL = 'https://aistudio.google.com/apikey';
+
+// Modal for entering, switching or removing the Gemini API key at runtime.
+const ApiKeyPrompt: React.FC<ApiKeyPromptProps> = ({ onClose, onKeyChange }) => {
+  const [keyInput, setKeyInput] = useState<string>('');
+  const [showKey, setShowKey] = useState<boolean>(false);
+  const [shouldObfuscate, setShouldObfuscate] = useState<boolean>(true);
+  const [isValidating, setIsValidating] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [source, setSource] = useState(() => getGeminiApiKeySource());
+  const { startRequest, finishRequest } = useAbortableRequest();
+
+  const currentKey = getGeminiApiKey();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const key = keyInput.trim();
+    if (!key) {
+      setError('Please paste your API key.');
+      return;
+    }
+    setIsValidating(true);
+    setError(null);
+    const signal = startRequest();
+    try {
+      await validateGeminiApiKey(key, signal);
+      if (signal.aborted) return;
+      storeGeminiApiKey(key, shouldObfuscate);
+      onKeyChange?.();
+      onClose();
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error("Gemini API key validation failed", err);
+      setError(getActionableErrorMessage(err, 'That key could not be checked. Please try again.'));
+    } finally {
+      if (finishRequest(signal)) {
+        setIsValidating(false);
+      }
+    }
+  };
+
+  const handleRemove = () => {
+    if (!window.confirm('Remove the saved API key from this browser?')) return;
+    removeGeminiApiKey();
+    setSource(getGeminiApiKeySource());
+    onKeyChange?.();
+  };
+
+  const inputClasses = "w-full p-3 border-2 border-purple-200 bg-purple-50 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-300 font-medium text-gray-800 text-sm";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center p-4 z-[60] animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md p-6 relative border-4 border-purple-100" role="dialog" aria-modal="true" aria-labelledby="api-key-prompt-title">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-gray-700 transition-colors p-2 rounded-full hover:bg-gray-100 focus:outline-none"
+          aria-label="Close"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <h2 id="api-key-prompt-title" className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple-600 to-pink-500 mb-1">
+          🔑 Gemini API Key
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">
+          SLS needs a Gemini API key to talk to the AI. Get a free one from{' '}
+          <a href={API_KEY_HELP_URL} target="_blank" rel="noopener noreferrer" className="text-purple-600 font-bold hover:underline">Google AI Studio</a>.
+          It's stored only in this browser.
+        </p>
+
+        {currentKey && (
+          <div className="flex items-center justify-between gap-3 p-3 mb-4 bg-gray-50 rounded-lg border border-gray-200">
+            <p className="text-xs text-gray-600">
+              Current key: <code className="font-bold">{maskApiKey(currentKey)}</code>
+              <span className="text-gray-400"> ({source === 'stored' ? 'saved in this browser' : 'from the app build'})</span>
+            </p>
+            {source === 'stored' && (
+              <button type="button" onClick={handleRemove} className="px-3 py-1.5 bg-white border border-red-200 rounded-lg text-xs font-bold text-red-600 hover:bg-red-50 shrink-0">
+                Remove
+              </button>
+            )}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <label htmlFor="gemini-api-key" className="block text-sm font-bold text-gray-700">
+            {currentKey ? 'Switch to a new key' : 'Your API key'}
+          </label>
+          <div className="relative">
+            <input
+              id="gemini-api-key"
+              type={showKey ? 'text' : 'password'}
+              autoComplete="off"
+              spellCheck={false}
+              className={`${inputClasses} pr-16`}
+              placeholder="AIza..."
+              value={keyInput}
+              onChange={(e) => { setKeyInput(e.target.value); setError(null); }}
+              disabled={isValidating}
+              autoFocus
+            />
+            <button
+              type="button"
+              onClick={() => setShowKey(prev => !prev)}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-xs font-bold text-gray-500 hover:text-purple-700"
+            >
+              {showKey ? 'Hide' : 'Show'}
+            </button>
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              className="h-4 w-4 mt-0.5 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+              checked={shouldObfuscate}
+              onChange={(e) => setShouldObfuscate(e.target.checked)}
+              disabled={isValidating}
+            />
+            <span>
+              Obfuscate the saved key
+              <span className="block text-xs text-gray-400">Hides it from a quick look at browser storage. This is not encryption, so don't save keys on shared computers.</span>
+            </span>
+          </label>
+
+          {error && (
+            <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3" role="alert">{error}</p>
+          )}
+
+          <button
+            type="submit"
+            disabled={isValidating || !keyInput.trim()}
+            className="w-full py-3 rounded-xl font-bold transition-all duration-300 shadow-md bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-700 hover:to-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isValidating ? 'Checking key...' : 'Validate & Save'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeyPrompt;
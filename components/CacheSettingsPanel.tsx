@@ -0,0 +1,129 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  ResponseCacheEntry, listCacheEntries, deleteCacheEntry, clearResponseCache, purgeExpiredCacheEntries,
+} from '../services/responseCache';
+import { loadResponseCacheEnabled, saveResponseCacheEnabled } from '../utils/localStorageService';
+import { formatBytes } from '../utils/storageUsage';
+
+const formatRelative = (timestamp: number): string => {
+  const minutes = Math.round((timestamp - Date.now()) / 60000);
+  const abs = Math.abs(minutes);
+  const value = abs < 60 ? `${abs} min` : abs < 60 * 24 ? `${Math.round(abs / 60)} h` : `${Math.round(abs / (60 * 24))} d`;
+  return minutes >= 0 ? `in ${value}` : `${value} ago`;
+};
+
+const CacheSettingsPanel: React.FC = () => {
+  const [isEnabled, setIsEnabled] = useState<boolean>(() => loadResponseCacheEnabled());
+  const [entries, setEntries] = useState<ResponseCacheEntry[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEntries(await listCacheEntries());
+      setError(null);
+    } catch (err) {
+      console.error("Failed to read the response cache", err);
+      setError('The response cache is unavailable in this browser.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshEntries();
+  }, [refreshEntries]);
+
+  const handleToggleEnabled = (enabled: boolean) => {
+    setIsEnabled(enabled);
+    saveResponseCacheEnabled(enabled);
+  };
+
+  const handleDeleteEntry = async (key: string) => {
+    await deleteCacheEntry(key);
+    refreshEntries();
+  };
+
+  const handlePurgeExpired = async () => {
+    await purgeExpiredCacheEntries();
+    refreshEntries();
+  };
+
+  const handleClearAll = async () => {
+    if (window.confirm("Delete this profile's cached AI answers?")) {
+      await clearResponseCache();
+      refreshEntries();
+    }
+  };
+
+  const now = Date.now();
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  const expiredCount = entries.filter(entry => entry.expiresAt <= now).length;
+
+  return (
+    <div className="space-y-5 animate-fade-in">
+      <div>
+        <h3 className="text-lg font-bold text-gray-800 mb-1">⚡ Response Cache</h3>
+        <p className="text-sm text-gray-500">Identical requests (same notes, files, tool and model) reuse a recent answer instead of calling the AI again. Each tool has a "fresh answer" option to skip it. Each profile has its own cached answers.</p>
+      </div>
+
+      <div className="flex items-center justify-between gap-3 p-4 bg-gray-50 rounded-xl border border-gray-200">
+        <div>
+          <p className="text-sm font-bold text-gray-800">Use cached answers</p>
+          <p className="text-xs text-gray-500">{entries.length} answers stored · {formatBytes(totalBytes)}{expiredCount > 0 ? ` · ${expiredCount} expired` : ''}</p>
+        </div>
+        <input
+          type="checkbox"
+          className="h-5 w-5 text-purple-600 focus:ring-purple-500 border-gray-300 rounded-lg shadow-sm"
+          checked={isEnabled}
+          onChange={(e) => handleToggleEnabled(e.target.checked)}
+          aria-label="Use cached answers"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={handlePurgeExpired} disabled={expiredCount === 0} className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100 disabled:opacity-50">
+          Remove expired
+        </button>
+        <button type="button" onClick={handleClearAll} disabled={entries.length === 0} className="px-3 py-1.5 bg-white border border-red-200 rounded-lg text-xs font-bold text-red-600 hover:bg-red-50 disabled:opacity-50">
+          Clear cache
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-500 text-red-800 px-4 py-3 rounded-lg shadow-md text-sm" role="alert">{error}</div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading cache...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-6">No cached answers yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map(entry => (
+            <li key={entry.key} className={`p-3 rounded-xl border bg-white flex items-start justify-between gap-3 ${entry.expiresAt <= now ? 'border-gray-100 opacity-60' : 'border-gray-200'}`}>
+              <div className="min-w-0">
+                <p className="text-xs font-bold text-purple-700 uppercase tracking-wide">{entry.tool || 'Other'}</p>
+                <p className="text-sm text-gray-700 truncate">{entry.promptPreview || '(attachment only)'}</p>
+                <p className="text-xs text-gray-400">
+                  {entry.model} · {formatBytes(entry.sizeBytes)} · saved {formatRelative(entry.createdAt)} · {entry.expiresAt <= now ? 'expired' : `expires ${formatRelative(entry.expiresAt)}`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDeleteEntry(entry.key)}
+                className="text-gray-400 hover:text-red-600 p-1 shrink-0"
+                aria-label="Delete cached answer"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CacheSettingsPanel;
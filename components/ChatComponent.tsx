@@ -2,9 +2,9 @@
 import React, { useState, FormEvent, useEffect, useRef } from 'react';
 import MarkdownRenderer from './MarkdownRenderer';
 import Loader from './Loader';
-import { OnActionProps, ActionType } from '../types'; // Import OnActionProps and ActionType
+import StopGeneratingButton from './StopGeneratingButton';
 
-interface ChatComponentProps extends Partial<OnActionProps> { // Make onAction optional
+interface ChatComponentProps {
   placeholder: string | string[]; // Allow placeholder to be a string or an array of strings
   onSubmit: (prompt: string) => void;
   response: string | null;
@@ -13,9 +13,8 @@ interface ChatComponentProps extends Partial<OnActionProps> { // Make onAction o
   className?: string;
   inputColorClasses?: string; // New prop for input coloring
   buttonColorClasses?: string; // New prop for button coloring
-  actionType?: ActionType; // Optional action type for specific XP rewards
-  actionData?: Record<string, any>; // Optional data for the action
   loadingMessage?: string; // New prop for custom loader text
+  onStop?: () => void; // Cancels a streaming response; shows a Stop button while loading
 }
 
 const ChatComponent: React.FC<ChatComponentProps> = ({
@@ -27,10 +26,8 @@ const ChatComponent: React.FC<ChatComponentProps> = ({
   className,
   inputColorClasses = 'border-purple-400 bg-purple-50 focus:ring-purple-300 focus:border-purple-600 placeholder-purple-600', // Default purple theme
   buttonColorClasses = 'bg-gradient-to-r from-purple-600 to-fuchsia-600 hover:from-purple-700 hover:to-fuchsia-700 text-white focus:ring-purple-300', // Default purple theme
-  onAction, // Destructure onAction
-  actionType = ActionType.DECISION_MADE, // Default action type if not provided
-  actionData,
   loadingMessage = 'SLS is responding...', // Default loading message
+  onStop,
 }) => {
   const [input, setInput] = useState<string>('');
   const [currentDynamicPlaceholder, setCurrentDynamicPlaceholder] = useState<string>('');
@@ -63,10 +60,7 @@ const ChatComponent: React.FC<ChatComponentProps> = ({
     e.preventDefault();
     if (input.trim() && !loading) {
       clearResponse(); // Clear previous response before new submission
-      await onSubmit(input); // Wait for onSubmit to complete
-      if (onAction) { // Call onAction after onSubmit (assuming onSubmit is successful)
-        onAction(actionType, actionData);
-      }
+      await onSubmit(input); // Wait for onSubmit to complete; the tool awards XP only if its request succeeds
       setInput(''); // Clear input after submission
     }
   };
@@ -79,7 +73,7 @@ const ChatComponent: React.FC<ChatComponentProps> = ({
             <MarkdownRenderer content={response} />
           </div>
         ) : null}
-        {loading && (
+        {loading && !response && (
           <div className="flex justify-center p-4">
             <Loader message={loadingMessage} />
           </div>
@@ -97,13 +91,17 @@ const ChatComponent: React.FC<ChatComponentProps> = ({
           disabled={loading}
           aria-label="Your input"
         ></textarea>
-        <button
-          type="submit"
-          className={`mt-3 w-full font-bold py-3 px-6 rounded-xl transition-all duration-300 transform hover:scale-[1.01] active:scale-[0.98] active:shadow-inner disabled:opacity-50 disabled:cursor-not-allowed shadow-xl hover:shadow-2xl focus:outline-none ${buttonColorClasses}`}
-          disabled={loading || !input.trim()}
-        >
-          {loading ? 'Processing...' : 'Submit'}
-        </button>
+        {loading && onStop ? (
+          <StopGeneratingButton onStop={onStop} className="mt-3" />
+        ) : (
+          <button
+            type="submit"
+            className={`mt-3 w-full font-bold py-3 px-6 rounded-xl transition-all duration-300 transform hover:scale-[1.01] active:scale-[0.98] active:shadow-inner disabled:opacity-50 disabled:cursor-not-allowed shadow-xl hover:shadow-2xl focus:outline-none ${buttonColorClasses}`}
+            disabled={loading || !input.trim()}
+          >
+            {loading ? 'Processing...' : 'Submit'}
+          </button>
+        )}
       </form>
     </div>
   );
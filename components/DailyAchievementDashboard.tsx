@@ -1,8 +1,17 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import XpProgressMeter from './XpProgressMeter';
 import AchievementBadge from './AchievementBadge';
-import { Achievement, AchievementType, XpState, OnActionProps, DailyActivityCounts } from '../types';
+import XpHistoryPanel from './XpHistoryPanel';
+import StreakCalendar from './StreakCalendar';
+import QuestBoardPanel from './QuestBoardPanel';
+import LeaderboardPanel from './LeaderboardPanel';
+import { Achievement, AchievementType, XpState, OnActionProps, ToolName, XpLedgerEntry, SavedItem, BrokenStreak, ProgressCard } from '../types';
+import { AchievementProgress } from '../utils/achievementRules';
+import { QuestBoardView } from '../utils/questEngine';
+import { StreakCalendarDay, STREAK_FREEZE_COST, STREAK_REPAIR_COST, MAX_STREAK_FREEZES } from '../utils/streaks';
 import { callGeminiApi } from '../services/geminiService';
+import { resolvePrompt, joinPromptVersions } from '../services/promptRegistry';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
 import Loader from './Loader';
 
 interface DailyAchievementDashboardProps extends OnActionProps {
@@ -14,27 +23,26 @@ interface DailyAchievementDashboardProps extends OnActionProps {
   userName: string | null;
   soundEnabled: boolean;
   toggleSound: () => void;
-  todayActionCounts: DailyActivityCounts;
-  studyStreak: number;
+  achievementProgress: Partial<Record<AchievementType, AchievementProgress>>; // From each badge's rule
+  xpLedger: XpLedgerEntry[];
+  savedItems: SavedItem[]; // To name the saved work linked to awards
+  dayStartHour: number;
+  streakCalendar: StreakCalendarDay[];
+  streakFreezes: number;
+  spendableXp: number; // XP that can be spent without losing a level
+  repairableStreak: BrokenStreak | null;
+  onBuyStreakFreeze: () => void;
+  onRepairStreak: () => void;
+  questBoards: QuestBoardView[];
+  today: string; // Day key
+  onClaimQuest: (questId: string) => void;
+  onRerollQuest: (questId: string) => void;
+  prestigeCount: number;
+  canPrestige: boolean;
+  onPrestige: () => void;
+  progressCard: ProgressCard; // The student's progress as friends see it on the leaderboard
 }
 
-const MOTIVATIONAL_MESSAGE_SYSTEM_INSTRUCTION = `You are a motivating AI assistant for a student productivity app called "Student Life Solver (SLS)". Your task is to generate short, encouraging, and personalized motivational messages.
-
-The message should be 1-2 sentences long.
-It should be positive, uplifting, and celebrate the user's progress or recent activity.
-Use a friendly, casual, and supportive tone.
-You can use emojis sparingly to add a touch of fun.
-
-When generating a message, consider the following context:
-- User's current level (e.g., Level 3)
-- User's current XP (e.g., 350 XP)
-- XP required for the next level (e.g., 500 XP)
-- User's current app usage streak (e.g., 5 days)
-- Recently unlocked badges (if any, will be provided as 'NEW_BADGE: [Badge Name]')
-- The action that just occurred (e.g., 'STUDY_PLAN_GENERATED', 'NOTES_SUMMARIZED')
-
-Prioritize messages related to new achievements or level ups. If no specific achievement, focus on consistency or recent activity.`;
-
 const DailyAchievementDashboard: React.FC<DailyAchievementDashboardProps> = ({
   xpState,
   xpForNextLevel,
@@ -45,58 +53,75 @@ const DailyAchievementDashboard: React.FC<DailyAchievementDashboardProps> = ({
   onAction,
   soundEnabled,
   toggleSound,
-  todayActionCounts,
-  studyStreak,
+  achievementProgress,
+  xpLedger,
+  savedItems,
+  dayStartHour,
+  streakCalendar,
+  streakFreezes,
+  spendableXp,
+  repairableStreak,
+  onBuyStreakFreeze,
+  onRepairStreak,
+  questBoards,
+  today,
+  onClaimQuest,
+  onRerollQuest,
+  prestigeCount,
+  canPrestige,
+  onPrestige,
+  progressCard,
 }) => {
   const { xp, level } = xpState;
   const [motivationalMessage, setMotivationalMessage] = useState<string>('');
   const [loadingMessage, setLoadingMessage] = useState<boolean>(false);
+  const { startRequest, finishRequest } = useAbortableRequest();
 
   const getMotivationalMessage = useCallback(async (context: string) => {
     setLoadingMessage(true);
+    const signal = startRequest(); // XP changes re-trigger this; only the latest message should land
     try {
-      const prompt = `Generate a motivational message for ${userName || 'our user'} with the following context:
-      Level: ${level}, XP: ${xp}/${xpForNextLevel}.
-      Streak: ${currentStreak} days.
-      Last activity: ${context}.
-      `;
+      const systemPrompt = resolvePrompt('dailyAchievements.motivationSystem');
+      const messagePrompt = resolvePrompt('dailyAchievements.motivationPrompt', {
+        userName: userName || 'our user',
+        level,
+        xp,
+        xpForNextLevel,
+        currentStreak,
+        lastActivity: context,
+      });
       const message = await callGeminiApi(
-        prompt,
+        messagePrompt.text,
         'gemini-2.5-flash',
-        { systemInstruction: MOTIVATIONAL_MESSAGE_SYSTEM_INSTRUCTION, temperature: 0.9 }
+        {
+          systemInstruction: systemPrompt.text,
+          temperature: 0.9,
+          tool: ToolName.DAILY_ACHIEVEMENTS,
+          promptVersion: joinPromptVersions(systemPrompt, messagePrompt),
+        },
+        { signal }
       );
+      if (signal.aborted) return;
       setMotivationalMessage(message);
     } catch (error) {
+      if (signal.aborted) return;
       console.error("Error generating motivational message:", error);
       setMotivationalMessage("Keep up the great work! You're making awesome progress! ✨");
     } finally {
-      setLoadingMessage(false);
+      if (finishRequest(signal)) {
+        setLoadingMessage(false);
+      }
     }
-  }, [level, xp, xpForNextLevel, currentStreak, userName]);
+  }, [level, xp, xpForNextLevel, currentStreak, userName, startRequest, finishRequest]);
 
   useEffect(() => {
     getMotivationalMessage('App opened.');
   }, [getMotivationalMessage]);
 
-  const getBadgeProgress = (badgeId: AchievementType) => {
-    switch (badgeId) {
-      case AchievementType.FIRE_MASTER:
-        return { current: studyStreak, total: 3 };
-      case AchievementType.NOTES_HERO:
-        return { current: todayActionCounts.notesSummarized, total: 5 };
-      case AchievementType.HOMEWORK_LEGEND:
-        return { current: todayActionCounts.homeworkChecked, total: 5 };
-      case AchievementType.CONSISTENCY_KING_QUEEN:
-        return { current: currentStreak, total: 7 };
-      default:
-        return undefined;
-    }
-  };
-
   const allBadgeDetails = Object.values(allAchievements).map((badge: Omit<Achievement, 'unlockedAt'>) => ({
     ...badge,
     isUnlocked: unlockedBadges.includes(badge.id),
-    progress: !unlockedBadges.includes(badge.id) ? getBadgeProgress(badge.id) : undefined,
+    progress: !unlockedBadges.includes(badge.id) ? achievementProgress[badge.id] : undefined,
   }));
 
   const unlockedBadgeDetails = allBadgeDetails.filter(badge => badge.isUnlocked);
@@ -140,7 +165,22 @@ const DailyAchievementDashboard: React.FC<DailyAchievementDashboardProps> = ({
             currentXp={xp}
             level={level}
             xpToNextLevel={xpForNextLevel}
+            prestigeCount={prestigeCount}
           />
+          {canPrestige && (
+            <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+              <p className="font-semibold">🏅 You can prestige! Start again from level 0 and keep a laurel next to your rank for good.</p>
+              <button
+                type="button"
+                onClick={() => {
+                  if (window.confirm('Prestige now? Your XP goes back to 0. Badges, streak and quests stay.')) onPrestige();
+                }}
+                className="mt-2 px-3 py-1.5 bg-white border border-amber-200 rounded-lg text-xs font-bold text-amber-700 hover:bg-amber-100"
+              >
+                Prestige
+              </button>
+            </div>
+          )}
         </div>
 
         <div className="bg-white p-5 rounded-2xl shadow-md border border-gray-100 flex flex-col justify-between items-center text-center">
@@ -156,9 +196,47 @@ const DailyAchievementDashboard: React.FC<DailyAchievementDashboardProps> = ({
           <p className="text-sm text-gray-500 mt-1">
             Keep coming back to grow your streak!
           </p>
+
+          {repairableStreak && (
+            <div className="w-full mt-4 p-3 bg-violet-50 border border-violet-200 rounded-xl text-sm text-violet-800">
+              <p className="font-semibold">
+                Your {repairableStreak.length}-day streak broke. Repair it before {new Date(repairableStreak.repairableUntil).toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit' })}.
+              </p>
+              <button
+                type="button"
+                onClick={onRepairStreak}
+                disabled={spendableXp < STREAK_REPAIR_COST}
+                className="mt-2 px-3 py-1.5 bg-white border border-violet-200 rounded-lg text-xs font-bold text-violet-700 hover:bg-violet-100 disabled:opacity-50"
+              >
+                🛠️ Repair for {STREAK_REPAIR_COST} XP
+              </button>
+            </div>
+          )}
+
+          <div className="w-full mt-4 flex items-center justify-between gap-3 p-3 bg-sky-50 border border-sky-200 rounded-xl">
+            <div className="text-left">
+              <p className="text-sm font-bold text-sky-800">❄️ Streak freezes: {streakFreezes}/{MAX_STREAK_FREEZES}</p>
+              <p className="text-xs text-sky-700">Used up automatically when you miss a day.</p>
+            </div>
+            <button
+              type="button"
+              onClick={onBuyStreakFreeze}
+              disabled={streakFreezes >= MAX_STREAK_FREEZES || spendableXp < STREAK_FREEZE_COST}
+              title={spendableXp < STREAK_FREEZE_COST ? `You have ${spendableXp} XP to spend without losing a level.` : undefined}
+              className="px-3 py-1.5 bg-white border border-sky-200 rounded-lg text-xs font-bold text-sky-700 hover:bg-sky-100 disabled:opacity-50 shrink-0"
+            >
+              Buy for {STREAK_FREEZE_COST} XP
+            </button>
+          </div>
         </div>
       </div>
 
+      <QuestBoardPanel boards={questBoards} today={today} onClaimQuest={onClaimQuest} onRerollQuest={onRerollQuest} />
+
+      <StreakCalendar days={streakCalendar} />
+
+      <LeaderboardPanel selfCard={progressCard} />
+
       <div className="bg-white p-5 mt-6 rounded-2xl shadow-md border border-gray-100 text-center">
         <h3 className="text-xl font-bold text-gray-800 mb-3 flex items-center justify-center gap-2">
           ✨ Your Daily Boost
@@ -193,6 +271,8 @@ const DailyAchievementDashboard: React.FC<DailyAchievementDashboardProps> = ({
           <p className="text-gray-600 text-center py-4">No achievements defined yet. Keep an eye out!</p>
         )}
       </div>
+
+      <XpHistoryPanel xpLedger={xpLedger} savedItems={savedItems} dayStartHour={dayStartHour} />
     </div>
   );
 };
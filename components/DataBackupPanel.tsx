@@ -0,0 +1,161 @@
+import React, { useState, useRef } from 'react';
+import {
+  DataBackup, BackupImportMode, BackupValidationError,
+  downloadBackup, parseBackup, previewImport, applyImport,
+} from '../utils/dataBackup';
+import { flushPendingWrites } from '../utils/persistentStore';
+
+const MODE_OPTIONS: { mode: BackupImportMode; label: string; description: string }[] = [
+  { mode: 'merge', label: 'Merge', description: 'Keep what\'s here and add what\'s in the backup. XP and streak take the higher value; badges and saved work are combined.' },
+  { mode: 'replace', label: 'Replace', description: 'Throw away this browser\'s saved work and progress and use the backup\'s instead.' },
+];
+
+const DataBackupPanel: React.FC = () => {
+  const [backup, setBackup] = useState<DataBackup | null>(null);
+  const [fileName, setFileName] = useState<string>('');
+  const [mode, setMode] = useState<BackupImportMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const backupFileRef = useRef<HTMLInputElement>(null);
+
+  const preview = backup ? previewImport(backup, mode) : null;
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setBackup(null);
+    try {
+      setBackup(parseBackup(await file.text()));
+      setFileName(file.name);
+    } catch (err) {
+      console.error("Failed to read backup file", err);
+      setError(err instanceof BackupValidationError ? err.message : 'Could not read that file.');
+    } finally {
+      if (backupFileRef.current) backupFileRef.current.value = '';
+    }
+  };
+
+  const handleApply = async () => {
+    if (!backup) return;
+    if (mode === 'replace' && !window.confirm('Replace all saved work and progress in this browser with the backup?')) {
+      return;
+    }
+    setIsImporting(true);
+    try {
+      applyImport(backup, mode);
+      await flushPendingWrites();
+      window.location.reload(); // Every tool re-reads its data on load
+    } catch (err) {
+      console.error("Failed to import backup", err);
+      setError('The import could not be completed. Your data was not changed.');
+      setIsImporting(false);
+    }
+  };
+
+  const renderChange = (label: string, current: number, result: number) => (
+    <li className="flex justify-between">
+      <span>{label}</span>
+      <span className="font-bold text-gray-800">
+        {current === result ? result : <>{current} → <span className={result > current ? 'text-emerald-600' : 'text-red-600'}>{result}</span></>}
+      </span>
+    </li>
+  );
+
+  return (
+    <div className="space-y-5 animate-fade-in">
+      <div>
+        <h3 className="text-lg font-bold text-gray-800 mb-1">💾 Your Data</h3>
+        <p className="text-sm text-gray-500">Move your XP, badges, streak, saved work and tool inputs to another browser with a single backup file. API keys are never included.</p>
+      </div>
+
+      <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-bold text-gray-800">📤 Export my data</p>
+          <p className="text-xs text-gray-500">Downloads everything as one JSON file.</p>
+        </div>
+        <button type="button" onClick={downloadBackup} className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100 shrink-0">
+          Export
+        </button>
+      </div>
+
+      <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm font-bold text-gray-800">📥 Import a backup</p>
+            <p className="text-xs text-gray-500">You'll see what changes before anything is saved.</p>
+          </div>
+          <input type="file" accept="application/json,.json" ref={backupFileRef} onChange={handleFileChosen} className="hidden" id="backup-import" />
+          <label htmlFor="backup-import" className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100 cursor-pointer shrink-0">
+            Choose file
+          </label>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3" role="alert">{error}</p>
+        )}
+
+        {backup && preview && (
+          <div className="space-y-3">
+            <p className="text-xs text-gray-500">
+              <span className="font-bold text-gray-700">{fileName}</span> · exported {new Date(preview.exportedAt).toLocaleString()}
+              {preview.userName.incoming && <> · for {preview.userName.incoming}</>}
+            </p>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              {MODE_OPTIONS.map(option => (
+                <label key={option.mode} className={`flex-1 p-3 rounded-xl border-2 cursor-pointer transition-all ${mode === option.mode ? 'border-purple-500 bg-purple-50' : 'border-gray-200 bg-white hover:border-purple-300'}`}>
+                  <span className="flex items-center gap-2 text-sm font-bold text-gray-800">
+                    <input
+                      type="radio"
+                      name="backup-import-mode"
+                      className="h-4 w-4 text-purple-600 focus:ring-purple-500"
+                      checked={mode === option.mode}
+                      onChange={() => setMode(option.mode)}
+                    />
+                    {option.label}
+                  </span>
+                  <span className="block text-xs text-gray-500 mt-1">{option.description}</span>
+                </label>
+              ))}
+            </div>
+
+            <ul className="text-sm text-gray-600 space-y-1 bg-white p-3 rounded-lg border border-gray-200">
+              <li className="flex justify-between">
+                <span>Saved work</span>
+                <span className="font-bold text-gray-800">
+                  {preview.savedItems.total} items
+                  <span className="font-normal text-gray-500"> (+{preview.savedItems.added} new, {preview.savedItems.updated} updated, {preview.savedItems.removed} removed)</span>
+                </span>
+              </li>
+              {renderChange('XP', preview.xp.current, preview.xp.result)}
+              {renderChange('Current streak', preview.streak.current, preview.streak.result)}
+              {renderChange('Days of activity', preview.activityDays.current, preview.activityDays.result)}
+              {(preview.badges.added.length > 0 || preview.badges.removed.length > 0) && (
+                <li className="flex justify-between gap-3">
+                  <span>Badges</span>
+                  <span className="font-bold text-right">
+                    {preview.badges.added.map(badge => <span key={badge} className="block text-emerald-600">+ {badge}</span>)}
+                    {preview.badges.removed.map(badge => <span key={badge} className="block text-red-600">− {badge}</span>)}
+                  </span>
+                </li>
+              )}
+              <li className="text-xs text-gray-400 pt-1">Tool inputs and settings will be taken from the backup.</li>
+            </ul>
+
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={isImporting}
+              className="w-full py-3 rounded-xl font-bold transition-all duration-300 shadow-md bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-700 hover:to-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting ? 'Importing...' : mode === 'replace' ? 'Replace My Data' : 'Merge Backup'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataBackupPanel;
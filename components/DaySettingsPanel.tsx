@@ -0,0 +1,44 @@
+import React from 'react';
+import { MAX_DAY_START_HOUR, getTodayKey } from '../utils/dateUtils';
+
+interface DaySettingsPanelProps {
+  dayStartHour: number;
+  onDayStartHourChange: (hour: number) => void;
+}
+
+const HOUR_OPTIONS = Array.from({ length: MAX_DAY_START_HOUR + 1 }, (_, hour) => hour);
+
+const formatHour = (hour: number): string =>
+  hour === 0 ? 'Midnight' : new Date(2000, 0, 1, hour).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+const DaySettingsPanel: React.FC<DaySettingsPanelProps> = ({ dayStartHour, onDayStartHourChange }) => {
+  const inputClasses = "w-full p-3 border-2 border-purple-200 bg-purple-50 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-300 font-medium text-gray-800 text-sm";
+
+  return (
+    <div className="space-y-5 animate-fade-in">
+      <div>
+        <h3 className="text-lg font-bold text-gray-800 mb-1">🌙 Your Day</h3>
+        <p className="text-sm text-gray-500">Streaks, daily counts and badges follow your own calendar. Night owl? Let your day end a little after midnight, so late study sessions still count towards the evening before.</p>
+      </div>
+
+      <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-2">
+        <label htmlFor="day-start-hour" className="block text-sm font-bold text-gray-800">My day starts at</label>
+        <select
+          id="day-start-hour"
+          className={inputClasses}
+          value={dayStartHour}
+          onChange={(e) => onDayStartHourChange(Number(e.target.value))}
+        >
+          {HOUR_OPTIONS.map(hour => (
+            <option key={hour} value={hour}>{formatHour(hour)}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500">
+          Right now it's {new Date(`${getTodayKey(dayStartHour)}T00:00:00Z`).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', timeZone: 'UTC' })} for SLS. Changing this moves recent activity to the day it now falls on.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default DaySettingsPanel;
@@ -1,19 +1,25 @@
 import React, { useState, useCallback, useEffect, useRef, FormEvent } from 'react';
 import { callGeminiApiJson } from '../services/geminiService';
-import { LLMConfig, OnActionProps, ActionType, DeadlinePressureInputs, PressureAnalysis, PressureTimelineData } from '../types';
+import { getActionableErrorMessage } from '../services/llmErrors';
+import { resolvePrompt, joinPromptVersions } from '../services/promptRegistry';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
+import { LLMConfig, OnActionProps, ActionType, DeadlinePressureInputs, PressureAnalysis, PressureTimelineData, ToolName } from '../types';
 import MarkdownRenderer from './MarkdownRenderer';
 import Loader from './Loader';
+import ForceRefreshToggle from './ForceRefreshToggle';
 import { loadDeadlinePressureInputs, saveDeadlinePressureInputs } from '../utils/localStorageService';
 import { Type } from '@google/genai';
 
 interface DeadlinePressureMeterProps extends OnActionProps {}
 
 // JSON Schema for structured output
+const PRESSURE_LEVELS = ['Low', 'Medium', 'High', 'Critical'];
+
 const pressureAnalysisSchema = {
   type: Type.OBJECT,
   properties: {
-    pressureScore: { type: Type.NUMBER, description: "0-100 score." },
-    pressureLevel: { type: Type.STRING, description: "Low, Medium, High, or Critical" },
+    pressureScore: { type: Type.NUMBER, minimum: 0, maximum: 100, description: "0-100 score." },
+    pressureLevel: { type: Type.STRING, enum: PRESSURE_LEVELS, description: "Low, Medium, High, or Critical" },
     forecastMessage: { type: Type.STRING, description: "Short trend prediction." },
     healthBalanceMessage: { type: Type.STRING, description: "Short health eval." },
     moodAdjustmentMessage: { type: Type.STRING, description: "Mood impact." },
@@ -24,9 +30,10 @@ const pressureAnalysisSchema = {
         properties: {
           name: { type: Type.STRING },
           deadline: { type: Type.STRING },
-          priorityScore: { type: Type.NUMBER },
-          pressureLevel: { type: Type.STRING }
-        }
+          priorityScore: { type: Type.NUMBER, minimum: 0, maximum: 100 },
+          pressureLevel: { type: Type.STRING, enum: PRESSURE_LEVELS }
+        },
+        required: ['name', 'deadline', 'priorityScore', 'pressureLevel']
       },
       description: "List of analyzed tasks (max 7 critical ones)."
     },
@@ -37,14 +44,15 @@ const pressureAnalysisSchema = {
         type: Type.OBJECT,
         properties: {
           dayLabel: { type: Type.STRING },
-          pressureValue: { type: Type.NUMBER },
-          mainStressor: { type: Type.STRING }
-        }
+          pressureValue: { type: Type.NUMBER, minimum: 0, maximum: 100 },
+          mainStressor: { type: Type.STRING, enum: ['tasks', 'deadline', 'exam', 'mood', 'rest'] }
+        },
+        required: ['dayLabel', 'pressureValue', 'mainStressor']
       },
       description: "Pressure for next 5 days."
     },
     weeklyInsight: { type: Type.STRING, description: "1 sentence summary." },
-    forecastTrend: { type: Type.STRING, description: "'Improving', 'Rising', or 'Stable'" },
+    forecastTrend: { type: Type.STRING, enum: ['Improving', 'Rising', 'Stable'], description: "'Improving', 'Rising', or 'Stable'" },
     previousWeekComparison: { type: Type.STRING, nullable: true },
     reliefTips: { type: Type.ARRAY, items: { type: Type.STRING }, description: "3 quick tips." },
     redZoneWarning: { type: Type.STRING, nullable: true },
@@ -52,7 +60,7 @@ const pressureAnalysisSchema = {
     weeklySummary: {
       type: Type.OBJECT,
       properties: {
-        totalTasks: { type: Type.NUMBER },
+        totalTasks: { type: Type.NUMBER, minimum: 0 },
         highStressDay: { type: Type.STRING },
         lowStressDay: { type: Type.STRING },
         suggestions: { type: Type.STRING }
@@ -62,19 +70,6 @@ const pressureAnalysisSchema = {
   required: ['pressureScore', 'pressureLevel', 'forecastMessage', 'tasks', 'timelineData', 'reliefTips', 'weeklySummary', 'weeklyInsight', 'forecastTrend', 'rescheduledPlan']
 };
 
-const SYSTEM_INSTRUCTION = `You are the Deadline Pressure Meter. Analyze workload, urgency, mood, and health.
-
-MANDATORY OUTPUT RULES:
-1. 'pressureScore': 0-100 score.
-2. 'pressureLevel': Low/Medium/High/Critical.
-3. 'rescheduledPlan': You MUST provide 3-4 specific, actionable, concrete steps. If tasks were added, prioritize fitting them in.
-4. 'timelineData': Generate exactly 5 data points for the next 5 days.
-5. 'reliefTips': 3 quick relief tips.
-6. 'tasks': Return a list of the analyzed tasks. **LIMIT to the top 7 most critical tasks** to save space, but calculate the score based on ALL input.
-7. 'forecastTrend': 'Improving' | 'Rising' | 'Stable'.
-
-Return ONLY JSON matching the schema.`;
-
 const MOODS = [
   { label: 'Calm', emoji: '😌', value: 'calm' },
   { label: 'Focused', emoji: '🧠', value: 'focused' },
@@ -258,6 +253,8 @@ const DeadlinePressureMeter: React.FC<DeadlinePressureMeterProps> = ({ onAction
     const [loading, setLoading] = useState<boolean>(false);
     const [isUpdating, setIsUpdating] = useState<boolean>(false); // For updating without unmounting results
     const [error, setError] = useState<string | null>(null);
+    const [forceRefresh, setForceRefresh] = useState<boolean>(false);
+    const { startRequest, finishRequest } = useAbortableRequest();
     
     useEffect(() => {
         saveDeadlinePressureInputs({ tasksInput });
@@ -283,38 +280,43 @@ const DeadlinePressureMeter: React.FC<DeadlinePressureMeterProps> = ({ onAction
             setLoading(true);
             setAnalysis(null);
         }
+        const signal = startRequest();
 
         try {
-            const prompt = `
-            Analyze the following workload (which may have been updated) to calculate stress pressure.
-            
-            Tasks:
-            ${currentTasks}
-
-            User Mood: ${userMood}
-            Date: ${new Date().toLocaleDateString()}
-            `;
+            const systemPrompt = resolvePrompt('deadlinePressure.system');
+            const analysisPrompt = resolvePrompt('deadlinePressure.prompt', {
+                tasks: currentTasks,
+                mood: userMood,
+                date: new Date().toLocaleDateString(),
+            });
 
             const config: LLMConfig = {
                 temperature: 0.5,
-                systemInstruction: SYSTEM_INSTRUCTION
+                systemInstruction: systemPrompt.text,
+                tool: ToolName.DEADLINE_PRESSURE,
+                promptVersion: joinPromptVersions(systemPrompt, analysisPrompt),
             };
 
             const result = await callGeminiApiJson<PressureAnalysis>(
-                prompt,
+                analysisPrompt.text,
                 pressureAnalysisSchema,
                 'gemini-2.5-flash',
-                config
+                config,
+                { signal, forceRefresh }
             );
+            if (signal.aborted) return; // Superseded or the tool was closed
 
             setAnalysis(result);
             onAction(ActionType.PRESSURE_CALCULATED);
         } catch (err: any) {
+            if (signal.aborted) return;
             console.error("Pressure calculation error:", err);
-            setError("Failed to calculate pressure. Please try again.");
+            setError(getActionableErrorMessage(err, "Failed to calculate pressure. Please try again."));
         } finally {
-            setLoading(false);
-            setIsUpdating(false);
+            if (finishRequest(signal)) {
+                setLoading(false);
+                setIsUpdating(false);
+            }
         }
     };
 
@@ -377,6 +379,8 @@ const DeadlinePressureMeter: React.FC<DeadlinePressureMeterProps> = ({ onAction
                          </div>
                     )}
 
+                    <ForceRefreshToggle checked={forceRefresh} onChange={setForceRefresh} disabled={loading} />
+
                     <button
                         type="submit"
                         disabled={loading || !tasksInput.trim()}
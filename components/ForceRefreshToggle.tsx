@@ -0,0 +1,30 @@
+import React, { useId } from 'react';
+
+interface ForceRefreshToggleProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Lets a student skip the response cache when they want a new take on the same input.
+const ForceRefreshToggle: React.FC<ForceRefreshToggleProps> = ({ checked, onChange, disabled, className = '' }) => {
+  const id = useId();
+  return (
+    <div className={`flex items-center ${className}`}>
+      <input
+        id={id}
+        type="checkbox"
+        className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded shadow-sm"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        disabled={disabled}
+      />
+      <label htmlFor={id} className="ml-2 block text-sm font-semibold text-gray-600" title="Answers to identical requests are reused for a while to save API calls.">
+        🔄 Get a fresh answer (skip cache)
+      </label>
+    </div>
+  );
+};
+
+export default ForceRefreshToggle;
@@ -2,10 +2,15 @@
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import ChatComponent from './ChatComponent';
-import { callGeminiApi } from '../services/geminiService';
+import { callGeminiApiStream } from '../services/geminiService';
+import { getActionableErrorMessage } from '../services/llmErrors';
+import { resolvePrompt, joinPromptVersions } from '../services/promptRegistry';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
 import { LLMConfig, ToolName, SavedItem, OnActionProps, HomeworkCheckerInputs, ActionType } from '../types';
 import MarkdownRenderer from './MarkdownRenderer';
 import Loader from './Loader';
+import ForceRefreshToggle from './ForceRefreshToggle';
+import StopGeneratingButton from './StopGeneratingButton';
 import { loadHomeworkCheckerInputs, saveHomeworkCheckerInputs } from '../utils/localStorageService';
 import { readFileAsBase64 } from '../utils/imageHelpers';
 import { Part } from '@google/genai';
@@ -26,9 +31,12 @@ const HomeworkChecker: React.FC<HomeworkCheckerProps> = ({ onSaveItem, onAction
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [isResponseSaved, setIsResponseSaved] = useState<boolean>(false);
+  const [responsePromptVersion, setResponsePromptVersion] = useState<string | null>(null); // Recorded when the feedback is saved
+  const [forceRefresh, setForceRefresh] = useState<boolean>(false);
 
   const questionFileRef = useRef<HTMLInputElement>(null);
   const answerFileRef = useRef<HTMLInputElement>(null);
+  const { startRequest, abortRequest, finishRequest } = useAbortableRequest();
 
   useEffect(() => {
     const currentInputs: HomeworkCheckerInputs = { question, userAnswer, rewriteRequested };
@@ -36,26 +44,6 @@ const HomeworkChecker: React.FC<HomeworkCheckerProps> = ({ onSaveItem, onAction
   }, [question, userAnswer, rewriteRequested]);
 
 
-  const systemInstruction = `You are the Homework Checker for Student Life Solver (SLS). Your role is to evaluate student answers strictly but helpfully.
-
-Your feedback MUST be clearly structured using Markdown headings (###) and bullet points (-). Always include the following sections:
-
-### Evaluation Summary
-- Provide a brief overview of the correctness of the submitted answer.
-
-### Mistakes Found
-- List specific errors or inaccuracies identified in the user's answer, using bullet points for each mistake.
-
-### Missing Key Points
-- List any important concepts, details, or arguments that were omitted from the user's answer, using bullet points.
-
-If the user explicitly asks for a rewrite, add an additional section:
-
-### Perfect Answer Rewrite
-- Rewrite a comprehensive and accurate answer for the question, ensuring it is well-structured and complete.
-
-Keep explanations short and direct. Your tone should be constructive and encouraging.`;
-
   const generatePrompt = useCallback((
     inputQuestion: string,
     inputAnswer: string,
@@ -121,25 +109,37 @@ Keep explanations short and direct. Your tone should be constructive and encoura
     setError(null);
     setResponse(null); // Clear previous response
     setIsResponseSaved(false); // Reset saved status for new response
+    const signal = startRequest();
 
     try {
       const prompt = generatePrompt(question, userAnswer, rewriteRequested, questionFile, answerFile);
+      const systemPrompt = resolvePrompt('homeworkChecker.system');
+      const promptVersion = joinPromptVersions(systemPrompt);
+      setResponsePromptVersion(promptVersion);
       const llmConfig: LLMConfig = {
-        systemInstruction: systemInstruction,
+        systemInstruction: systemPrompt.text,
         temperature: 0.4,
+        tool: ToolName.HOMEWORK_CHECKER,
+        promptVersion,
       };
       // Changed from 'gemini-3-pro-preview' to 'gemini-2.5-flash' to ensure free tier usage
-      const aiResponse = await callGeminiApi(prompt, 'gemini-2.5-flash', llmConfig);
-      setResponse(aiResponse);
-      onAction(ActionType.HOMEWORK_CHECKED);
+      // Feedback is rendered as it streams in
+      await callGeminiApiStream(prompt, (text) => { if (!signal.aborted) setResponse(text); }, 'gemini-2.5-flash', llmConfig, { signal, forceRefresh });
+      if (signal.aborted) return; // Superseded or the tool was closed
+      onAction(ActionType.HOMEWORK_CHECKED, { input: `${question}\n${userAnswer}` });
     } catch (err: any) {
+      if (signal.aborted) {
+        return; // Stopped by the user: keep the partial feedback
+      }
       console.error("Homework Checker API Error:", err);
-      setError(err.message || "Failed to check homework.");
+      setError(getActionableErrorMessage(err, "Failed to check homework. Please try again."));
       setResponse(null);
     } finally {
-      setLoading(false);
+      if (finishRequest(signal)) {
+        setLoading(false);
+      }
     }
-  }, [question, userAnswer, rewriteRequested, questionFile, answerFile, generatePrompt, systemInstruction, onAction]);
+  }, [question, userAnswer, rewriteRequested, questionFile, answerFile, forceRefresh, generatePrompt, onAction, startRequest, finishRequest]);
 
   const clearResponse = useCallback(() => {
     setResponse(null);
@@ -154,10 +154,11 @@ Keep explanations short and direct. Your tone should be constructive and encoura
         toolName: ToolName.HOMEWORK_CHECKER,
         title: title,
         content: response,
+        promptVersion: responsePromptVersion || undefined,
       });
       setIsResponseSaved(true);
     }
-  }, [response, question, onSaveItem]);
+  }, [response, question, responsePromptVersion, onSaveItem]);
 
   const isQuestionImage = questionFile?.startsWith('data:image');
   const isAnswerImage = answerFile?.startsWith('data:image');
@@ -280,22 +281,24 @@ Keep explanations short and direct. Your tone should be constructive and encoura
           {response ? (
             <div className="prose max-w-none text-gray-800 border border-gray-100 rounded-xl p-4 shadow-sm">
               <MarkdownRenderer content={response} />
-              <div className="mt-4 text-right">
-                <button
-                  onClick={handleSaveResponse}
-                  disabled={isResponseSaved}
-                  className={`px-4 py-2 rounded-xl font-bold text-sm transition-all duration-300 ${
-                    isResponseSaved
-                      ? 'bg-emerald-100 text-emerald-700 cursor-not-allowed'
-                      : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200'
-                  }`}
-                >
-                  {isResponseSaved ? 'Saved!' : '💾 Save to My Work'}
-                </button>
-              </div>
+              {!loading && (
+                <div className="mt-4 text-right">
+                  <button
+                    onClick={handleSaveResponse}
+                    disabled={isResponseSaved}
+                    className={`px-4 py-2 rounded-xl font-bold text-sm transition-all duration-300 ${
+                      isResponseSaved
+                        ? 'bg-emerald-100 text-emerald-700 cursor-not-allowed'
+                        : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200'
+                    }`}
+                  >
+                    {isResponseSaved ? 'Saved!' : '💾 Save to My Work'}
+                  </button>
+                </div>
+              )}
             </div>
           ) : null}
-          {loading && (
+          {loading && !response && (
             <div className="flex justify-center p-4">
               <Loader message="SLS is reviewing your answers..." />
             </div>
@@ -310,13 +313,18 @@ Keep explanations short and direct. Your tone should be constructive and encoura
             disabled={loading}
             aria-label="Your input"
           ></textarea>
-          <button
-            type="submit"
-            className={`mt-3 w-full font-bold py-3 px-6 rounded-xl transition-all duration-300 transform hover:scale-[1.01] active:scale-[0.98] active:shadow-inner disabled:opacity-50 disabled:cursor-not-allowed shadow-xl hover:shadow-2xl focus:outline-none bg-gradient-to-r from-blue-600 to-sky-600 hover:from-blue-700 hover:to-sky-700 text-white focus:ring-sky-300`}
-            disabled={loading || ((!question.trim() && !questionFile) && (!userAnswer.trim() && !answerFile))}
-          >
-            {loading ? 'Processing...' : 'Check Homework'}
-          </button>
+          <ForceRefreshToggle checked={forceRefresh} onChange={setForceRefresh} disabled={loading} />
+          {loading ? (
+            <StopGeneratingButton onStop={abortRequest} className="mt-3" />
+          ) : (
+            <button
+              type="submit"
+              className={`mt-3 w-full font-bold py-3 px-6 rounded-xl transition-all duration-300 transform hover:scale-[1.01] active:scale-[0.98] active:shadow-inner disabled:opacity-50 disabled:cursor-not-allowed shadow-xl hover:shadow-2xl focus:outline-none bg-gradient-to-r from-blue-600 to-sky-600 hover:from-blue-700 hover:to-sky-700 text-white focus:ring-sky-300`}
+              disabled={(!question.trim() && !questionFile) && (!userAnswer.trim() && !answerFile)}
+            >
+              Check Homework
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -2,8 +2,12 @@
 
 import React, { useState, useCallback, FormEvent, useRef, useEffect } from 'react';
 import { callGeminiApiJson } from '../services/geminiService';
-import { LLMConfig, OnActionProps, DecisionAnalysis, ActionType } from '../types';
+import { getActionableErrorMessage } from '../services/llmErrors';
+import { resolvePrompt, joinPromptVersions } from '../services/promptRegistry';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
+import { LLMConfig, OnActionProps, DecisionAnalysis, ActionType, ToolName } from '../types';
 import Loader from './Loader';
+import ForceRefreshToggle from './ForceRefreshToggle';
 import MarkdownRenderer from './MarkdownRenderer';
 import { Type } from '@google/genai';
 
@@ -15,6 +19,8 @@ const InstantDecisionHelper: React.FC<InstantDecisionHelperProps> = ({ onAction
   const [responseAnalysis, setResponseAnalysis] = useState<DecisionAnalysis | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [forceRefresh, setForceRefresh] = useState<boolean>(false);
+  const { startRequest, finishRequest } = useAbortableRequest();
 
   const contextPromptRef = useRef<HTMLTextAreaElement>(null);
   const scenarioRefs = useRef<(HTMLTextAreaElement | null)[]>([]);
@@ -36,22 +42,6 @@ const InstantDecisionHelper: React.FC<InstantDecisionHelperProps> = ({ onAction
   }, [scenarios]);
 
 
-  const systemInstruction = `You are the Instant Decision Helper for Student Life Solver (SLS). Your role is to provide a comprehensive, comparative analysis for multiple alternative scenarios or choices based on a user's context.
-
-You MUST respond with a structured JSON object. The JSON should conform to the following schema:
-{
-  "overallRecommendation": "string", // A concise recommendation based on the analysis.
-  "scenarios": [
-    {
-      "option": "string", // The name/description of the scenario/choice.
-      "pros": ["string"], // List of advantages for this option.
-      "cons": ["string"]  // List of disadvantages for this option.
-    }
-  ]
-}
-
-Analyze each provided scenario/choice independently and then comparatively. Ensure all pros and cons are distinct and relevant. Provide a clear, actionable 'overallRecommendation' that weighs all options.`;
-
   const decisionAnalysisSchema = {
     type: Type.OBJECT,
     properties: {
@@ -105,15 +95,6 @@ Analyze each provided scenario/choice independently and then comparatively. Ensu
     }
   };
 
-  const generatePrompt = useCallback((context: string, choices: string[]): string => {
-    return `Context: ${context}
-    
-Choices to analyze:
-${choices.map((choice, index) => `Option ${index + 1}: ${choice}`).join('\n')}
-
-Please analyze these options and provide a JSON response.`;
-  }, []);
-
   const handleSubmit = useCallback(async (e: FormEvent) => {
     e.preventDefault();
     if (!contextPrompt.trim() || scenarios.some(s => !s.trim())) {
@@ -124,32 +105,44 @@ Please analyze these options and provide a JSON response.`;
     setLoading(true);
     setError(null);
     setResponseAnalysis(null);
+    const signal = startRequest();
 
     try {
-      const prompt = generatePrompt(contextPrompt, scenarios);
+      const systemPrompt = resolvePrompt('decisionHelper.system');
+      const decisionPrompt = resolvePrompt('decisionHelper.prompt', {
+        context: contextPrompt,
+        choices: scenarios.map((choice, index) => `Option ${index + 1}: ${choice}`).join('\n'),
+      });
       const llmConfig: LLMConfig = {
-        systemInstruction: systemInstruction,
+        systemInstruction: systemPrompt.text,
         temperature: 0.5,
+        tool: ToolName.DECISION_HELPER,
+        promptVersion: joinPromptVersions(systemPrompt, decisionPrompt),
       };
       
       const jsonResponse = await callGeminiApiJson<DecisionAnalysis>(
-        prompt,
+        decisionPrompt.text,
         decisionAnalysisSchema,
         'gemini-2.5-flash',
-        llmConfig
+        llmConfig,
+        { signal, forceRefresh }
       );
+      if (signal.aborted) return; // Superseded or the tool was closed
 
       setResponseAnalysis(jsonResponse);
-      onAction(ActionType.DECISION_MADE);
+      onAction(ActionType.DECISION_MADE, { input: [contextPrompt, ...scenarios].join('\n') });
 
     } catch (err: any) {
+      if (signal.aborted) return;
       console.error("Decision Helper API Error:", err);
-      setError(err.message || "Failed to analyze decision.");
+      setError(getActionableErrorMessage(err, "Failed to analyze decision. Please try again."));
       setResponseAnalysis(null);
     } finally {
-      setLoading(false);
+      if (finishRequest(signal)) {
+        setLoading(false);
+      }
     }
-  }, [contextPrompt, scenarios, generatePrompt, systemInstruction, onAction]);
+  }, [contextPrompt, scenarios, forceRefresh, onAction, startRequest, finishRequest]);
 
   const clearDecision = () => {
     setContextPrompt('');
@@ -232,6 +225,8 @@ Please analyze these options and provide a JSON response.`;
           </div>
         )}
 
+        <ForceRefreshToggle checked={forceRefresh} onChange={setForceRefresh} disabled={loading} />
+
         <div className="flex gap-4">
            {responseAnalysis && (
               <button
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { Leaderboard, ProgressCard } from '../types';
+import { loadLeaderboard, saveLeaderboard } from '../utils/localStorageService';
+import {
+  LeaderboardRow, MIN_GROUP_SECRET_LENGTH, ProgressCodeError, buildLeaderboard, decodeProgressCode, encodeProgressCode,
+} from '../utils/progressCard';
+import { ACHIEVEMENT_DEFINITIONS } from '../utils/achievementRules';
+import { getPrestigeCosmetics, getRankTier } from '../utils/levelCurve';
+import QrCodeImage from './QrCodeImage';
+
+interface LeaderboardPanelProps {
+  selfCard: ProgressCard;
+}
+
+const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ selfCard }) => {
+  const [leaderboard, setLeaderboard] = useState<Leaderboard>(() => loadLeaderboard());
+  const [secretDraft, setSecretDraft] = useState<string>(leaderboard.groupSecret);
+  const [myCode, setMyCode] = useState<string | null>(null);
+  const [rows, setRows] = useState<LeaderboardRow[]>([]);
+  const [friendCode, setFriendCode] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [showQr, setShowQr] = useState<boolean>(false);
+
+  const { groupSecret, codes } = leaderboard;
+  const hasSecret = groupSecret.length >= MIN_GROUP_SECRET_LENGTH;
+
+  const updateLeaderboard = (next: Leaderboard) => {
+    setLeaderboard(next);
+    saveLeaderboard(next);
+  };
+
+  // Codes are signed and checked asynchronously (WebCrypto), so both follow the inputs in effects
+  useEffect(() => {
+    if (!hasSecret) {
+      setMyCode(null);
+      return;
+    }
+    let isCurrent = true;
+    void encodeProgressCode(selfCard, groupSecret).then(code => { if (isCurrent) setMyCode(code); });
+    return () => { isCurrent = false; };
+  }, [selfCard, groupSecret, hasSecret]);
+
+  useEffect(() => {
+    if (!hasSecret) {
+      setRows([]);
+      return;
+    }
+    let isCurrent = true;
+    void buildLeaderboard(codes, groupSecret, selfCard).then(built => { if (isCurrent) setRows(built); });
+    return () => { isCurrent = false; };
+  }, [codes, groupSecret, selfCard, hasSecret]);
+
+  const handleSaveSecret = () => {
+    const secret = secretDraft.trim();
+    if (secret.length < MIN_GROUP_SECRET_LENGTH) {
+      setError(`The group secret needs at least ${MIN_GROUP_SECRET_LENGTH} characters.`);
+      return;
+    }
+    setError(null);
+    updateLeaderboard({ ...leaderboard, groupSecret: secret });
+  };
+
+  const handleAddFriend = async () => {
+    const code = friendCode.trim();
+    if (!code) return;
+    try {
+      await decodeProgressCode(code, groupSecret); // Refuse tampered codes up front
+      setError(null);
+      setFriendCode('');
+      if (!codes.includes(code)) updateLeaderboard({ ...leaderboard, codes: [...codes, code] });
+    } catch (err) {
+      setError(err instanceof ProgressCodeError ? err.message : 'That code could not be checked.');
+    }
+  };
+
+  const handleRemove = (code: string) => updateLeaderboard({ ...leaderboard, codes: codes.filter(existing => existing !== code) });
+
+  const inputClasses = "w-full p-3 border-2 border-purple-200 bg-purple-50 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-300 font-medium text-gray-800 text-sm";
+  const smallButtonClasses = "px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100 shrink-0";
+
+  return (
+    <div className="bg-white p-5 mt-6 rounded-2xl shadow-md border border-gray-100">
+      <h3 className="text-xl font-bold text-gray-800 mb-1 flex items-center gap-2">
+        🏆 Class Leaderboard
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Compare progress with friends, no server needed. Agree on a group secret, swap progress codes, and codes that were edited or made for another group are refused.
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-2 mb-4">
+        <label htmlFor="leaderboard-secret" className="sr-only">Group secret</label>
+        <input
+          id="leaderboard-secret"
+          type="password"
+          className={inputClasses}
+          placeholder="Group secret (share it only with your group)"
+          value={secretDraft}
+          onChange={(e) => setSecretDraft(e.target.value)}
+          autoComplete="off"
+        />
+        <button type="button" onClick={handleSaveSecret} className={smallButtonClasses}>
+          {groupSecret ? 'Change Secret' : 'Use Secret'}
+        </button>
+      </div>
+
+      {error && <p className="mb-3 text-sm text-red-600" role="alert">{error}</p>}
+
+      {hasSecret && (
+        <>
+          <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 mb-4 space-y-2">
+            <p className="text-sm font-bold text-gray-800">Your progress code</p>
+            <textarea readOnly rows={2} value={myCode ?? 'Signing…'} className={`${inputClasses} font-mono text-xs`} aria-label="Your progress code" />
+            <div className="flex gap-2">
+              <button type="button" disabled={!myCode} onClick={() => myCode && navigator.clipboard?.writeText(myCode)} className={smallButtonClasses}>
+                Copy Code
+              </button>
+              <button type="button" disabled={!myCode} onClick={() => setShowQr(!showQr)} className={smallButtonClasses}>
+                {showQr ? 'Hide QR Code' : 'Show QR Code'}
+              </button>
+            </div>
+            {showQr && myCode && (
+              <div className="flex justify-center pt-2">
+                <QrCodeImage text={myCode} label="QR code of your progress code" />
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2 mb-4">
+            <label htmlFor="leaderboard-friend-code" className="sr-only">Friend's progress code</label>
+            <input
+              id="leaderboard-friend-code"
+              type="text"
+              className={`${inputClasses} font-mono`}
+              placeholder="Paste a friend's progress code"
+              value={friendCode}
+              onChange={(e) => setFriendCode(e.target.value)}
+            />
+            <button type="button" onClick={() => void handleAddFriend()} disabled={!friendCode.trim()} className={smallButtonClasses}>
+              Add Friend
+            </button>
+          </div>
+
+          {/* Ranked cards come first, so a card's position is its rank */}
+          <ol className="divide-y divide-gray-100">
+            {rows.map((row, index) => {
+              if ('error' in row) {
+                return (
+                  <li key={row.code} className="flex items-center justify-between gap-3 py-2 text-sm">
+                    <span className="text-red-600 min-w-0 truncate">⚠️ {row.error.message}</span>
+                    <button type="button" onClick={() => handleRemove(row.code)} className={smallButtonClasses}>Remove</button>
+                  </li>
+                );
+              }
+              const { card } = row;
+              const tier = getRankTier(card.level);
+              return (
+                <li key={row.isSelf ? 'self' : row.code} className={`flex items-center gap-3 py-2 text-sm ${row.isSelf ? 'bg-purple-50 rounded-lg px-2 -mx-2' : ''}`}>
+                  <span className="w-6 text-right font-bold text-gray-500">{index + 1}</span>
+                  <span className="flex-grow min-w-0">
+                    <span className="font-semibold text-gray-800">{card.name}{row.isSelf ? ' (you)' : ''}</span>
+                    <span className="ml-1">{getPrestigeCosmetics(card.prestige).map(cosmetic => cosmetic.icon).join('')}</span>
+                    <span className="block text-xs text-gray-500">
+                      {tier.icon} Level {card.level} · {card.xp} XP · 🔥 {card.streak} · {card.badges.map(badge => ACHIEVEMENT_DEFINITIONS[badge].icon).join('') || 'No badges yet'}
+                      {!row.isSelf && ` · ${new Date(card.issuedAt).toLocaleDateString()}`}
+                    </span>
+                  </span>
+                  {!row.isSelf && (
+                    <button type="button" onClick={() => handleRemove(row.code)} className={smallButtonClasses}>Remove</button>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LeaderboardPanel;
@@ -1,9 +1,14 @@
 import React, { useState, useCallback, useRef, useEffect, FormEvent } from 'react';
 import ChatComponent from './ChatComponent';
-import { callGeminiApi } from '../services/geminiService';
-import { LLMConfig, OnActionProps, ActionType } from '../types';
+import { callGeminiApiStream } from '../services/geminiService';
+import { getActionableErrorMessage } from '../services/llmErrors';
+import { resolvePrompt, joinPromptVersions, ResolvedPrompt } from '../services/promptRegistry';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
+import { LLMConfig, OnActionProps, ActionType, ToolName } from '../types';
 import Loader from './Loader';
+import ForceRefreshToggle from './ForceRefreshToggle';
 import MarkdownRenderer from './MarkdownRenderer';
+import StopGeneratingButton from './StopGeneratingButton';
 
 const JOURNAL_PROMPTS = [
   "What is currently causing you the most stress or discomfort in your academic or personal life?",
@@ -24,6 +29,7 @@ const MoodStressManager: React.FC<MoodStressManagerProps> = ({ onAction }) => {
   const [response, setResponse] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [forceRefresh, setForceRefresh] = useState<boolean>(false);
 
   const [isJournalingMode, setIsJournalingMode] = useState<boolean>(false);
   const [currentPromptIndex, setCurrentPromptIndex] = useState<number>(0);
@@ -32,6 +38,7 @@ const MoodStressManager: React.FC<MoodStressManagerProps> = ({ onAction }) => {
   );
   const [currentJournalInput, setCurrentJournalInput] = useState<string>('');
   const journalTextareaRef = useRef<HTMLTextAreaElement>(null);
+  const { startRequest, abortRequest, finishRequest } = useAbortableRequest();
 
   useEffect(() => {
     if (journalTextareaRef.current) {
@@ -47,37 +54,14 @@ const MoodStressManager: React.FC<MoodStressManagerProps> = ({ onAction }) => {
   }, [currentPromptIndex, isJournalingMode, journalEntries]);
 
 
-  const systemInstruction = `You are the Mood & Stress Manager for Student Life Solver (SLS). Your role is to respond with empathy and practical advice when a student expresses stress, sadness, frustration, or confusion.
-
-When the user provides a *single sentence* about their feeling, respond directly based on that.
-When the user provides *journal entries*, synthesize all provided context for a deeper, more tailored response.
-
-Your response MUST be clearly structured using Markdown headings (###) and bullet points (-). Always include the following sections:
-
-### Empathy and Support
-- Start by acknowledging and validating the user's feelings. Your empathetic message should be concise and directly address the core sentiment from their input (whether a quick feeling or aggregated journal entries).
-
-### Calming Technique
-- Offer one short and concise calming technique (e.g., a simple breathing exercise, a quick grounding technique).
-- Explain the steps of the technique using bullet points.
-
-### Productivity / Motivation Boost
-- Provide brief, actionable advice to help with productivity or motivation, specifically tailored to the context provided by the user (especially from journal entries).
-- List specific tips using bullet points.
-
-Keep your tone friendly, supportive, and not formal. Always prioritize emotional support before advice.`;
-
   const generatePrompt = useCallback((
     input: string | JournalEntry[]
-  ): string => {
+  ): ResolvedPrompt => {
     if (typeof input === 'string') {
-      return `I'm feeling: ${input}. Please respond with empathy, a short calming technique, and some productivity or motivation advice.`;
+      return resolvePrompt('moodStress.feelingPrompt', { feeling: input });
     } else {
       const compiledJournal = input.map(entry => `Prompt: ${entry.prompt}\nMy Response: ${entry.response}`).join('\n\n');
-      return `Here are my journal entries reflecting on my current mood and stress. Please read through them and provide empathetic support, a calming technique, and productivity/motivation advice tailored to what I've shared.
-
-${compiledJournal}
-`;
+      return resolvePrompt('moodStress.journalPrompt', { journalEntries: compiledJournal });
     }
   }, []);
 
@@ -85,29 +69,39 @@ ${compiledJournal}
     setLoading(true);
     setError(null);
     setResponse(null); // Clear previous response
+    const signal = startRequest();
 
     try {
+      const systemPrompt = resolvePrompt('moodStress.system');
       const prompt = generatePrompt(input);
       const llmConfig: LLMConfig = {
-        systemInstruction: systemInstruction,
+        systemInstruction: systemPrompt.text,
         temperature: 0.8,
+        tool: ToolName.MOOD_STRESS,
+        promptVersion: joinPromptVersions(systemPrompt, prompt),
       };
-      const aiResponse = await callGeminiApi(prompt, 'gemini-2.5-flash', llmConfig);
-      setResponse(aiResponse);
-      onAction(ActionType.MOOD_UPDATED);
+      // Render the answer as it streams in
+      await callGeminiApiStream(prompt.text, (text) => { if (!signal.aborted) setResponse(text); }, 'gemini-2.5-flash', llmConfig, { signal, forceRefresh });
+      if (signal.aborted) return; // Superseded or the tool was closed
+      onAction(ActionType.MOOD_UPDATED, { input: typeof input === 'string' ? input : input.map(entry => entry.response).join('\n') });
       setIsJournalingMode(false);
       setJournalEntries(JOURNAL_PROMPTS.map(prompt => ({ prompt, response: '' })));
       setCurrentPromptIndex(0);
       setCurrentJournalInput('');
 
     } catch (err: any) {
+      if (signal.aborted) {
+        return; // Stopped by the user: keep whatever was written so far
+      }
       console.error("Mood & Stress Manager API Error:", err);
-      setError(err.message || "Failed to provide support.");
+      setError(getActionableErrorMessage(err, "Failed to provide support. Please try again."));
       setResponse(null);
     } finally {
-      setLoading(false);
+      if (finishRequest(signal)) {
+        setLoading(false);
+      }
     }
-  }, [generatePrompt, systemInstruction, onAction]);
+  }, [generatePrompt, forceRefresh, onAction, startRequest, finishRequest]);
 
   const clearResponse = useCallback(() => {
     setResponse(null);
@@ -204,10 +198,10 @@ ${compiledJournal}
             clearResponse={clearResponse}
             inputColorClasses="border-pink-400 bg-pink-50 focus:ring-rose-300 focus:border-rose-600 placeholder-pink-600"
             buttonColorClasses="bg-gradient-to-r from-pink-600 to-rose-600 hover:from-pink-700 hover:to-rose-700 text-white focus:ring-rose-300"
-            onAction={onAction}
-            actionType={ActionType.MOOD_UPDATED}
             loadingMessage="SLS is finding the right words for you..."
+            onStop={abortRequest}
           />
+          <ForceRefreshToggle checked={forceRefresh} onChange={setForceRefresh} disabled={loading} className="mt-3" />
         </>
       ) : (
         <div className="relative flex flex-col h-full bg-white rounded-xl shadow-lg overflow-hidden border border-purple-200">
@@ -242,7 +236,7 @@ ${compiledJournal}
                 </div>
               </div>
             )}
-            {loading && (
+            {loading && !response && (
               <div className="flex justify-center p-4">
                 <Loader message="SLS is reflecting on your journal..." />
               </div>
@@ -257,32 +251,38 @@ ${compiledJournal}
             >
               Exit Journaling
             </button>
-            <div className="flex gap-3">
-              <button
-                onClick={prevPrompt}
-                className="px-4 py-2 bg-purple-100 text-purple-700 font-bold rounded-xl transition-all duration-300 hover:bg-purple-200 hover:scale-[1.01] active:scale-[0.98] shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
-                disabled={loading || currentPromptIndex === 0}
-              >
-                Previous
-              </button>
-              {currentPromptIndex < JOURNAL_PROMPTS.length - 1 ? (
-                <button
-                  onClick={nextPrompt}
-                  className="px-4 py-2 bg-gradient-to-r from-fuchsia-600 to-rose-600 hover:from-fuchsia-700 hover:to-rose-700 text-white font-bold rounded-xl shadow-lg transition-all duration-300 transform hover:scale-[1.01] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
-                  disabled={loading}
-                >
-                  Next Prompt
-                </button>
-              ) : (
+            {loading ? (
+              <div className="flex-1">
+                <StopGeneratingButton onStop={abortRequest} />
+              </div>
+            ) : (
+              <div className="flex gap-3">
                 <button
-                  onClick={handleJournalSubmitClick}
-                  className="px-4 py-2 bg-gradient-to-r from-green-600 to-lime-600 hover:from-green-700 hover:to-lime-700 text-white font-bold rounded-xl shadow-lg transition-all duration-300 transform hover:scale-[1.01] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
-                  disabled={loading || !currentJournalInput.trim()}
+                  onClick={prevPrompt}
+                  className="px-4 py-2 bg-purple-100 text-purple-700 font-bold rounded-xl transition-all duration-300 hover:bg-purple-200 hover:scale-[1.01] active:scale-[0.98] shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={loading || currentPromptIndex === 0}
                 >
-                  Submit Journal 🚀
+                  Previous
                 </button>
-              )}
-            </div>
+                {currentPromptIndex < JOURNAL_PROMPTS.length - 1 ? (
+                  <button
+                    onClick={nextPrompt}
+                    className="px-4 py-2 bg-gradient-to-r from-fuchsia-600 to-rose-600 hover:from-fuchsia-700 hover:to-rose-700 text-white font-bold rounded-xl shadow-lg transition-all duration-300 transform hover:scale-[1.01] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={loading}
+                  >
+                    Next Prompt
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleJournalSubmitClick}
+                    className="px-4 py-2 bg-gradient-to-r from-green-600 to-lime-600 hover:from-green-700 hover:to-lime-700 text-white font-bold rounded-xl shadow-lg transition-all duration-300 transform hover:scale-[1.01] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={loading || !currentJournalInput.trim()}
+                  >
+                    Submit Journal 🚀
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -6,9 +6,12 @@ interface NavbarProps {
   activeTool: ToolName;
   onToolSelect: (tool: ToolName) => void;
   onOpenSavedWork: () => void; // Prop for opening saved work modal
+  onOpenSettings: () => void; // Prop for opening the settings modal
+  userName: string; // Name of the active profile
+  onOpenProfiles: () => void; // Opens the profile switcher
 }
 
-const Navbar: React.FC<NavbarProps> = ({ activeTool, onToolSelect, onOpenSavedWork }) => {
+const Navbar: React.FC<NavbarProps> = ({ activeTool, onToolSelect, onOpenSavedWork, onOpenSettings, userName, onOpenProfiles }) => {
   const tabsContainerRef = useRef<HTMLDivElement>(null); // Ref for the scrollable tab container
 
   const tools = [
@@ -80,6 +83,26 @@ const Navbar: React.FC<NavbarProps> = ({ activeTool, onToolSelect, onOpenSavedWo
               ))}
             </div>
           </div>
+
+          {/* Profile Button */}
+          <button
+            onClick={onOpenProfiles}
+            className="flex-shrink-0 flex items-center justify-center w-10 h-10 sm:w-11 sm:h-11 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 text-white font-bold shadow-md transition-transform duration-300 transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-purple-300"
+            aria-label={`Profiles (signed in as ${userName})`}
+            title={`${userName} · Switch profile`}
+          >
+            {userName.charAt(0).toUpperCase()}
+          </button>
+
+          {/* Settings Button */}
+          <button
+            onClick={onOpenSettings}
+            className="flex-shrink-0 flex items-center justify-center px-3 py-2 text-lg sm:text-xl bg-gray-100 text-gray-700 rounded-xl shadow-md hover:bg-gray-200 transition-colors duration-300 transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-purple-300"
+            aria-label="Open settings"
+            title="Settings"
+          >
+            ⚙️
+          </button>
         </div>
       </div>
     </nav>
@@ -1,10 +1,15 @@
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import ChatComponent from './ChatComponent';
-import { callGeminiApi } from '../services/geminiService';
+import { callGeminiApiStream } from '../services/geminiService';
+import { getActionableErrorMessage } from '../services/llmErrors';
+import { resolvePrompt, joinPromptVersions } from '../services/promptRegistry';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
 import { NoteFormat, LLMConfig, ToolName, SavedItem, OnActionProps, NotesSummarizerInputs, ActionType } from '../types';
 import MarkdownRenderer from './MarkdownRenderer';
 import Loader from './Loader';
+import ForceRefreshToggle from './ForceRefreshToggle';
+import StopGeneratingButton from './StopGeneratingButton';
 import { loadNotesSummarizerInputs, saveNotesSummarizerInputs } from '../utils/localStorageService';
 import { readFileAsBase64 } from '../utils/imageHelpers';
 import { Part } from '@google/genai';
@@ -22,7 +27,10 @@ const NotesCleanerSummarizer: React.FC<NotesCleanerSummarizerProps> = ({ onSaveI
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [isResponseSaved, setIsResponseSaved] = useState<boolean>(false);
+  const [responsePromptVersion, setResponsePromptVersion] = useState<string | null>(null); // Recorded when the summary is saved
+  const [forceRefresh, setForceRefresh] = useState<boolean>(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { startRequest, abortRequest, finishRequest } = useAbortableRequest();
 
   useEffect(() => {
     const currentInputs: NotesSummarizerInputs = { notesInput, format };
@@ -30,17 +38,11 @@ const NotesCleanerSummarizer: React.FC<NotesCleanerSummarizerProps> = ({ onSaveI
   }, [notesInput, format]);
 
 
-  const systemInstruction = `You are the Notes Cleaner & Smart Summarizer for Student Life Solver (SLS). Your job is to extract important points from long, messy text, OCR text, or images/PDFs of notes, remove irrelevant information, and rewrite the content in a specified format (exam-style notes, bullet points, or revision-sheet format).
-
-Your output must be well-structured and easy to digest, using Markdown. Always use clear Markdown headings (e.g., ### Summary, ### Key Points) and bullet points (-) for lists. Avoid long, unformatted paragraphs. Keep explanations simple, accurate, and concise.`;
-
   const generatePrompt = useCallback((
     inputNotes: string,
-    outputFormat: NoteFormat,
+    textPrompt: string, // The resolved 'notesCleaner.instruction' prompt
     fileData: string | null
   ): string | (string | Part)[] => {
-    const textPrompt = `Please clean and summarize the following notes. Extract important points, remove irrelevant information, and rewrite them in a ${outputFormat} format.`;
-    
     if (!fileData) {
         return `${textPrompt}\n\nNotes:\n\`\`\`\n${inputNotes}\n\`\`\``;
     }
@@ -90,24 +92,37 @@ Your output must be well-structured and easy to digest, using Markdown. Always u
     setError(null);
     setResponse(null); // Clear previous response
     setIsResponseSaved(false); // Reset saved status for new response
+    const signal = startRequest();
 
     try {
-      const prompt = generatePrompt(notesInput, format, selectedFile);
+      const systemPrompt = resolvePrompt('notesCleaner.system');
+      const instructionPrompt = resolvePrompt('notesCleaner.instruction', { format });
+      const prompt = generatePrompt(notesInput, instructionPrompt.text, selectedFile);
+      const promptVersion = joinPromptVersions(systemPrompt, instructionPrompt);
+      setResponsePromptVersion(promptVersion);
       const llmConfig: LLMConfig = {
-        systemInstruction: systemInstruction,
+        systemInstruction: systemPrompt.text,
         temperature: 0.5,
+        tool: ToolName.NOTES_CLEANER,
+        promptVersion,
       };
-      const aiResponse = await callGeminiApi(prompt, 'gemini-2.5-flash', llmConfig);
-      setResponse(aiResponse);
-      onAction(ActionType.NOTES_SUMMARIZED);
+      // Render the summary as it streams in
+      await callGeminiApiStream(prompt, (text) => { if (!signal.aborted) setResponse(text); }, 'gemini-2.5-flash', llmConfig, { signal, forceRefresh });
+      if (signal.aborted) return; // Superseded or the tool was closed
+      onAction(ActionType.NOTES_SUMMARIZED, { input: notesInput });
     } catch (err: any) {
+      if (signal.aborted) {
+        return; // Stopped by the user: keep the partial summary
+      }
       console.error("Notes Cleaner API Error:", err);
-      setError(err.message || "Failed to process notes.");
+      setError(getActionableErrorMessage(err, "Failed to process notes. Please try again."));
       setResponse(null);
     } finally {
-      setLoading(false);
+      if (finishRequest(signal)) {
+        setLoading(false);
+      }
     }
-  }, [notesInput, format, selectedFile, generatePrompt, systemInstruction, onAction]);
+  }, [notesInput, format, selectedFile, forceRefresh, generatePrompt, onAction, startRequest, finishRequest]);
 
   const clearResponse = useCallback(() => {
     setResponse(null);
@@ -122,10 +137,11 @@ Your output must be well-structured and easy to digest, using Markdown. Always u
         toolName: ToolName.NOTES_CLEANER,
         title: title,
         content: response,
+        promptVersion: responsePromptVersion || undefined,
       });
       setIsResponseSaved(true);
     }
-  }, [response, notesInput, onSaveItem]);
+  }, [response, notesInput, responsePromptVersion, onSaveItem]);
 
   const isImage = selectedFile?.startsWith('data:image');
 
@@ -226,22 +242,24 @@ Your output must be well-structured and easy to digest, using Markdown. Always u
           {response ? (
             <div className="prose max-w-none text-gray-800 border border-gray-100 rounded-xl p-4 shadow-sm">
               <MarkdownRenderer content={response} />
-              <div className="mt-4 text-right">
-                <button
-                  onClick={handleSaveResponse}
-                  disabled={isResponseSaved}
-                  className={`px-4 py-2 rounded-xl font-bold text-sm transition-all duration-300 ${
-                    isResponseSaved
-                      ? 'bg-emerald-100 text-emerald-700 cursor-not-allowed'
-                      : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200'
-                  }`}
-                >
-                  {isResponseSaved ? 'Saved!' : '💾 Save to My Work'}
-                </button>
-              </div>
+              {!loading && (
+                <div className="mt-4 text-right">
+                  <button
+                    onClick={handleSaveResponse}
+                    disabled={isResponseSaved}
+                    className={`px-4 py-2 rounded-xl font-bold text-sm transition-all duration-300 ${
+                      isResponseSaved
+                        ? 'bg-emerald-100 text-emerald-700 cursor-not-allowed'
+                        : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200'
+                    }`}
+                  >
+                    {isResponseSaved ? 'Saved!' : '💾 Save to My Work'}
+                  </button>
+                </div>
+              )}
             </div>
           ) : null}
-          {loading && (
+          {loading && !response && (
             <div className="flex justify-center p-4">
               <Loader message="SLS is structuring your notes..." />
             </div>
@@ -256,13 +274,18 @@ Your output must be well-structured and easy to digest, using Markdown. Always u
             disabled={loading}
             aria-label="Your input"
           ></textarea>
-          <button
-            type="submit"
-            className={`mt-3 w-full font-bold py-3 px-6 rounded-xl transition-all duration-300 transform hover:scale-[1.01] active:scale-[0.98] active:shadow-inner disabled:opacity-50 disabled:cursor-not-allowed shadow-xl hover:shadow-2xl focus:outline-none bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 text-white focus:ring-red-300`}
-            disabled={loading || (!notesInput.trim() && !selectedFile)}
-          >
-            {loading ? 'Processing...' : 'Summarize Notes'}
-          </button>
+          <ForceRefreshToggle checked={forceRefresh} onChange={setForceRefresh} disabled={loading} />
+          {loading ? (
+            <StopGeneratingButton onStop={abortRequest} className="mt-3" />
+          ) : (
+            <button
+              type="submit"
+              className={`mt-3 w-full font-bold py-3 px-6 rounded-xl transition-all duration-300 transform hover:scale-[1.01] active:scale-[0.98] active:shadow-inner disabled:opacity-50 disabled:cursor-not-allowed shadow-xl hover:shadow-2xl focus:outline-none bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 text-white focus:ring-red-300`}
+              disabled={!notesInput.trim() && !selectedFile}
+            >
+              Summarize Notes
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,69 @@
+import React, { useState, FormEvent } from 'react';
+
+interface PinEntryFormProps {
+  submitLabel: string;
+  /** Resolves to false when the PIN is wrong, which shows an error. */
+  onSubmit: (pin: string) => Promise<boolean>;
+  onCancel?: () => void;
+  isNewPin?: boolean; // Choosing a PIN rather than entering an existing one
+}
+
+// Minimum PIN length; a PIN only keeps siblings out, so four digits is enough.
+const MIN_PIN_LENGTH = 4;
+
+const PinEntryForm: React.FC<PinEntryFormProps> = ({ submitLabel, onSubmit, onCancel, isNewPin = false }) => {
+  const [pin, setPin] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState<boolean>(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (pin.length < MIN_PIN_LENGTH) {
+      setError(`PINs are at least ${MIN_PIN_LENGTH} digits.`);
+      return;
+    }
+    setIsChecking(true);
+    const accepted = await onSubmit(pin);
+    setIsChecking(false);
+    if (!accepted) {
+      setError('Wrong PIN. Try again.');
+      setPin('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <input
+        type="password"
+        inputMode="numeric"
+        autoComplete={isNewPin ? 'new-password' : 'off'}
+        pattern="[0-9]*"
+        maxLength={8}
+        className="w-full p-3 border-2 border-purple-200 bg-purple-50 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-300 font-bold text-gray-800 text-center tracking-[0.5em]"
+        placeholder="••••"
+        value={pin}
+        onChange={(e) => { setPin(e.target.value.replace(/\D/g, '')); setError(null); }}
+        aria-label={isNewPin ? 'New PIN' : 'PIN'}
+        disabled={isChecking}
+        autoFocus
+      />
+      {error && <p className="text-red-600 text-xs font-medium">{error}</p>}
+      <div className="flex gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="flex-1 py-2 rounded-xl font-bold text-sm bg-gray-100 text-gray-700 hover:bg-gray-200">
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isChecking}
+          className="flex-1 py-2 rounded-xl font-bold text-sm bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-700 hover:to-indigo-700 disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PinEntryForm;
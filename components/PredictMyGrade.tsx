@@ -2,9 +2,13 @@
 
 import React, { useState, useCallback, useRef, useEffect, FormEvent } from 'react';
 import { callGeminiApi } from '../services/geminiService';
-import { LLMConfig, OnActionProps, DifficultyLevel, NoteFormat, ActionType } from '../types';
+import { getActionableErrorMessage } from '../services/llmErrors';
+import { resolvePrompt, joinPromptVersions } from '../services/promptRegistry';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
+import { LLMConfig, OnActionProps, DifficultyLevel, NoteFormat, ActionType, ToolName } from '../types';
 import MarkdownRenderer from './MarkdownRenderer';
 import Loader from './Loader';
+import ForceRefreshToggle from './ForceRefreshToggle';
 import {
   loadDailyAchievementState,
   loadStudyRoutineInputs,
@@ -22,6 +26,8 @@ const PredictMyGrade: React.FC<PredictMyGradeProps> = ({ onAction }) => {
   const [response, setResponse] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [forceRefresh, setForceRefresh] = useState<boolean>(false);
+  const { startRequest, finishRequest } = useAbortableRequest();
 
   const subjectNameRef = useRef<HTMLTextAreaElement>(null);
   const pastPerformanceRef = useRef<HTMLTextAreaElement>(null);
@@ -48,44 +54,6 @@ const PredictMyGrade: React.FC<PredictMyGradeProps> = ({ onAction }) => {
     }
   }, [quizResults]);
 
-  const systemInstruction = `You are the Grade Predictor for Student Life Solver (SLS). Your goal is to intelligently estimate a student's expected grade based on the inputs provided.
-
-### 🛑 OUTPUT FORMAT RULES
-- **NO PARAGRAPHS**. Use **Markdown Tables** for everything.
-- Visuals: Use professional emojis (📈, 📉, ✅, ⚠️) sparingly.
-- Tone: Analytical, Encouraging, Premium.
-
-### 1. 📊 Grade Summary
-| Category | Result |
-| :--- | :--- |
-| **Predicted Grade** | [Grade] (e.g., **A**) |
-| **Score Range** | [Range] (e.g., **82-85%**) |
-| **Confidence** | [High/Medium/Low] |
-
-### 2. 🧠 Reasoning Analysis
-| Factor | Effect on Grade |
-| :--- | :--- |
-| **Study Consistency** | [Short analysis] |
-| **Subject Difficulty** | [Short analysis] |
-| **Past Performance** | [Short analysis] |
-| **Engagement (XP)** | [Short analysis] |
-
-### 3. 🚀 Next Steps
-| Action | Impact |
-| :--- | :--- |
-| **[Action 1]** | [Why it helps, 1 line max] |
-| **[Action 2]** | [Why it helps, 1 line max] |
-| **[Action 3]** | [Why it helps, 1 line max] |
-
-### SCORING SCALE
-- 90–100 = A*
-- 80–89 = A
-- 70–79 = B
-- 60–69 = C
-- 50–59 = D
-- Below 50 = U
-`;
-
   const generatePrompt = useCallback((
     currentSubjectName: string,
     currentSubjectDifficulty: DifficultyLevel,
@@ -148,6 +116,7 @@ Here's some information about my general academic habits and performance:
     setLoading(true);
     setError(null);
     setResponse(null);
+    const signal = startRequest();
 
     try {
       const dailyAchievementState = loadDailyAchievementState();
@@ -167,29 +136,31 @@ Here's some information about my general academic habits and performance:
         homeworkCheckerInputs
       );
 
+      const systemPrompt = resolvePrompt('predictMyGrade.system');
       const llmConfig: LLMConfig = {
-        systemInstruction: systemInstruction,
+        systemInstruction: systemPrompt.text,
         temperature: 0.7,
+        tool: ToolName.PREDICT_MY_GRADE,
+        promptVersion: joinPromptVersions(systemPrompt),
       };
 
       // Ensure free tier model is used
-      const aiResponse = await callGeminiApi(prompt, 'gemini-2.5-flash', llmConfig);
+      const aiResponse = await callGeminiApi(prompt, 'gemini-2.5-flash', llmConfig, { signal, forceRefresh });
+      if (signal.aborted) return; // Superseded or the tool was closed
       setResponse(aiResponse);
       onAction(ActionType.GRADE_PREDICTED);
 
     } catch (err: any) {
+      if (signal.aborted) return;
       console.error("Predict My Grade API Error:", err);
-      // Improved error message for quota issues
-      if (err.message && (err.message.includes('429') || err.message.includes('Quota') || err.message.includes('Resource exhausted'))) {
-          setError("Usage limit reached. Please wait a moment before trying again.");
-      } else {
-          setError(err.message || "Failed to predict grade.");
-      }
+      setError(getActionableErrorMessage(err, "Failed to predict grade. Please try again."));
       setResponse(null);
     } finally {
-      setLoading(false);
+      if (finishRequest(signal)) {
+        setLoading(false);
+      }
     }
-  }, [subjectName, subjectDifficulty, pastPerformance, quizResults, generatePrompt, systemInstruction, onAction]);
+  }, [subjectName, subjectDifficulty, pastPerformance, quizResults, forceRefresh, generatePrompt, onAction, startRequest, finishRequest]);
 
   const clearPrediction = useCallback(() => {
     setSubjectName('');
@@ -321,6 +292,8 @@ Here's some information about my general academic habits and performance:
           </div>
         )}
 
+        <ForceRefreshToggle checked={forceRefresh} onChange={setForceRefresh} disabled={loading} />
+
         <button
           type="submit"
           className="w-full font-bold py-3 px-6 rounded-xl transition-all duration-300 transform hover:scale-[1.01] active:scale-[0.98] active:shadow-inner disabled:opacity-50 disabled:cursor-not-allowed shadow-xl hover:shadow-2xl focus:outline-none bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white focus:ring-purple-300"
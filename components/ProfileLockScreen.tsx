@@ -0,0 +1,42 @@
+import React from 'react';
+import { StudentProfile } from '../types';
+import { verifyProfilePin, markProfileUnlocked } from '../utils/profileService';
+import PinEntryForm from './PinEntryForm';
+
+interface ProfileLockScreenProps {
+  profile: StudentProfile;
+  onUnlock: () => void;
+  onSwitchProfile: () => void;
+}
+
+// Full-screen PIN prompt shown when the active profile is locked.
+const ProfileLockScreen: React.FC<ProfileLockScreenProps> = ({ profile, onUnlock, onSwitchProfile }) => {
+  const handleSubmit = async (pin: string): Promise<boolean> => {
+    if (!(await verifyProfilePin(profile, pin))) {
+      return false;
+    }
+    markProfileUnlocked(profile.id);
+    onUnlock();
+    return true;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl max-w-sm w-full p-8 flex flex-col items-center text-center border-4 border-purple-100 animate-fade-in">
+        <div className="text-6xl mb-4 p-4 rounded-full bg-purple-50 shadow-xl">🔒</div>
+        <h2 className="text-2xl font-extrabold mb-2 bg-clip-text text-transparent bg-gradient-to-r from-purple-700 to-pink-500">
+          Hi, {profile.name}!
+        </h2>
+        <p className="text-gray-600 mb-6">Enter your PIN to continue.</p>
+        <div className="w-full">
+          <PinEntryForm submitLabel="Unlock" onSubmit={handleSubmit} />
+        </div>
+        <button type="button" onClick={onSwitchProfile} className="mt-4 text-sm font-bold text-purple-600 hover:underline">
+          Not {profile.name}? Switch profile
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileLockScreen;
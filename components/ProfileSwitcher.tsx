@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { StudentProfile } from '../types';
+import {
+  getProfiles, getActiveProfile, activateProfile, deleteProfile,
+  setProfilePin, verifyProfilePin, lockActiveProfile,
+} from '../utils/profileService';
+import { flushPendingWrites } from '../utils/persistentStore';
+import PinEntryForm from './PinEntryForm';
+
+interface ProfileSwitcherProps {
+  onClose: () => void;
+  onAddProfile: () => void;
+}
+
+type PinPurpose = 'switch' | 'delete' | 'setPin' | 'removePin';
+
+const PIN_PROMPTS: Record<PinPurpose, { title: string; submitLabel: string }> = {
+  switch: { title: 'Enter the PIN for', submitLabel: 'Switch' },
+  delete: { title: 'Enter the PIN to delete', submitLabel: 'Delete' },
+  setPin: { title: 'Choose a PIN for', submitLabel: 'Set PIN' },
+  removePin: { title: 'Enter the current PIN for', submitLabel: 'Remove PIN' },
+};
+
+// Reloads so every tool reads the newly active profile's data.
+const reloadApp = async () => {
+  await flushPendingWrites();
+  window.location.reload();
+};
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ onClose, onAddProfile }) => {
+  const [profiles, setProfiles] = useState<StudentProfile[]>(() => getProfiles());
+  const [pinRequest, setPinRequest] = useState<{ profile: StudentProfile; purpose: PinPurpose } | null>(null);
+  const activeProfile = getActiveProfile();
+
+  const switchTo = (profile: StudentProfile) => {
+    activateProfile(profile.id);
+    void reloadApp();
+  };
+
+  const removeProfile = (profile: StudentProfile) => {
+    deleteProfile(profile.id);
+    if (profile.id === activeProfile?.id) {
+      void reloadApp();
+      return;
+    }
+    setProfiles(getProfiles());
+  };
+
+  const handleSelect = (profile: StudentProfile) => {
+    if (profile.id === activeProfile?.id) return;
+    if (profile.pin) {
+      setPinRequest({ profile, purpose: 'switch' });
+    } else {
+      switchTo(profile);
+    }
+  };
+
+  const handleDelete = (profile: StudentProfile) => {
+    if (!window.confirm(`Delete ${profile.name}'s profile? Their saved work, XP, badges and streak will be gone for good.`)) return;
+    if (profile.pin) {
+      setPinRequest({ profile, purpose: 'delete' });
+    } else {
+      removeProfile(profile);
+    }
+  };
+
+  const handlePinSubmit = async (pin: string): Promise<boolean> => {
+    if (!pinRequest) return false;
+    const { profile, purpose } = pinRequest;
+    if (purpose === 'setPin') {
+      await setProfilePin(profile.id, pin);
+    } else {
+      if (!(await verifyProfilePin(profile, pin))) return false;
+      if (purpose === 'switch') switchTo(profile);
+      if (purpose === 'delete') removeProfile(profile);
+      if (purpose === 'removePin') await setProfilePin(profile.id, null);
+    }
+    setProfiles(getProfiles());
+    setPinRequest(null);
+    return true;
+  };
+
+  const handleLock = () => {
+    lockActiveProfile();
+    window.location.reload();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center p-4 z-50 animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md p-6 relative border-4 border-purple-100" role="dialog" aria-modal="true" aria-labelledby="profile-switcher-title">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-gray-700 transition-colors p-2 rounded-full hover:bg-gray-100 focus:outline-none"
+          aria-label="Close"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <h2 id="profile-switcher-title" className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple-600 to-pink-500 mb-1">
+          👥 Profiles
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">Everyone on this device gets their own saved work, XP and streak.</p>
+
+        {pinRequest ? (
+          <div className="space-y-3">
+            <p className="text-sm font-bold text-gray-700">{PIN_PROMPTS[pinRequest.purpose].title} {pinRequest.profile.name}</p>
+            <PinEntryForm
+              submitLabel={PIN_PROMPTS[pinRequest.purpose].submitLabel}
+              onSubmit={handlePinSubmit}
+              onCancel={() => setPinRequest(null)}
+              isNewPin={pinRequest.purpose === 'setPin'}
+            />
+          </div>
+        ) : (
+          <>
+            <ul className="space-y-2 max-h-80 overflow-y-auto custom-scrollbar">
+              {profiles.map(profile => {
+                const isActive = profile.id === activeProfile?.id;
+                return (
+                  <li
+                    key={profile.id}
+                    className={`flex items-center gap-3 p-3 rounded-xl border-2 ${isActive ? 'border-purple-500 bg-purple-50' : 'border-gray-200 bg-white'}`}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => handleSelect(profile)}
+                      disabled={isActive}
+                      className="flex items-center gap-3 flex-grow min-w-0 text-left disabled:cursor-default"
+                    >
+                      <span className="w-9 h-9 shrink-0 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 text-white font-bold flex items-center justify-center">
+                        {profile.name.charAt(0).toUpperCase()}
+                      </span>
+                      <span className="min-w-0">
+                        <span className="block font-bold text-gray-800 truncate">{profile.name} {profile.pin && '🔒'}</span>
+                        <span className="block text-xs text-gray-500">{isActive ? 'Using now' : 'Tap to switch'}</span>
+                      </span>
+                    </button>
+                    <div className="flex gap-1 shrink-0">
+                      {isActive && (
+                        <button
+                          type="button"
+                          onClick={() => setPinRequest({ profile, purpose: profile.pin ? 'removePin' : 'setPin' })}
+                          className="px-2 py-1 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100"
+                        >
+                          {profile.pin ? 'Remove PIN' : 'Set PIN'}
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(profile)}
+                        className="px-2 py-1 bg-white border border-red-200 rounded-lg text-xs font-bold text-red-600 hover:bg-red-50"
+                        aria-label={`Delete ${profile.name}`}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className="flex gap-2 mt-4">
+              <button
+                type="button"
+                onClick={onAddProfile}
+                className="flex-1 py-2 rounded-xl font-bold text-sm bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-700 hover:to-indigo-700"
+              >
+                + Add Profile
+              </button>
+              {activeProfile?.pin && (
+                <button type="button" onClick={handleLock} className="flex-1 py-2 rounded-xl font-bold text-sm bg-gray-100 text-gray-700 hover:bg-gray-200">
+                  🔒 Lock Now
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { PromptId, PromptOverrideMode, ToolName } from '../types';
+import {
+  getPromptTemplates, getPromptTemplate, getPromptVersion, findMissingVariables, splitPromptVersions,
+  savePromptOverride, removePromptOverride, AB_TEST_CUSTOM_SHARE,
+} from '../services/promptRegistry';
+import { UsageRecord, listUsageRecords } from '../services/usageTracker';
+import { loadPromptOverrides, loadSavedItems } from '../utils/localStorageService';
+
+// How far back the A/B comparison looks.
+const VARIANT_STATS_DAYS = 30;
+
+type EditorMode = 'default' | PromptOverrideMode;
+
+const MODE_OPTIONS: { mode: EditorMode; label: string }[] = [
+  { mode: 'default', label: 'Use built-in' },
+  { mode: 'replace', label: 'Use my version' },
+  { mode: 'abTest', label: `A/B test (${Math.round(AB_TEST_CUSTOM_SHARE * 100)}% mine)` },
+];
+
+interface VariantStats {
+  version: string;
+  requests: number;
+  failed: number;
+  outputTokens: number;
+  latencyMs: number;
+  saved: number;
+}
+
+const PromptSettingsPanel: React.FC = () => {
+  const templates = getPromptTemplates();
+  const [selectedId, setSelectedId] = useState<PromptId>(templates[0].id);
+  const [overrides, setOverrides] = useState(() => loadPromptOverrides());
+  const [draftText, setDraftText] = useState<string>('');
+  const [draftMode, setDraftMode] = useState<EditorMode>('default');
+  const [isSaved, setIsSaved] = useState<boolean>(true);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+
+  const template = getPromptTemplate(selectedId);
+  const override = overrides[selectedId];
+
+  // Load the selected prompt into the editor
+  useEffect(() => {
+    setDraftText(override?.template ?? template.template);
+    setDraftMode(override?.mode ?? 'default');
+    setIsSaved(true);
+  }, [selectedId, override, template]);
+
+  useEffect(() => {
+    listUsageRecords(Date.now() - VARIANT_STATS_DAYS * 24 * 60 * 60 * 1000)
+      .then(setUsageRecords)
+      .catch(err => console.error("Failed to read usage records for prompt stats", err));
+  }, []);
+
+  const variantStats = useMemo((): VariantStats[] => {
+    const stats: Record<string, VariantStats> = {};
+    const getStats = (version: string) => {
+      stats[version] = stats[version] || { version, requests: 0, failed: 0, outputTokens: 0, latencyMs: 0, saved: 0 };
+      return stats[version];
+    };
+    const matchesPrompt = (version: string) => version.startsWith(`${selectedId}@`);
+
+    usageRecords.forEach(record => {
+      splitPromptVersions(record.promptVersion).filter(matchesPrompt).forEach(version => {
+        const entry = getStats(version);
+        entry.requests++;
+        if (!record.success) entry.failed++;
+        entry.outputTokens += record.candidateTokens;
+        entry.latencyMs += record.latencyMs;
+      });
+    });
+    loadSavedItems().forEach(item => {
+      splitPromptVersions(item.promptVersion).filter(matchesPrompt).forEach(version => {
+        getStats(version).saved++;
+      });
+    });
+    return Object.values(stats).sort((a, b) => b.requests - a.requests);
+  }, [usageRecords, selectedId, overrides]);
+
+  const missingVariables = draftMode === 'default' ? [] : findMissingVariables(draftText, template.variables);
+  const defaultVersion = getPromptVersion(template);
+  const customVersion = override ? getPromptVersion(template, override) : null;
+
+  const handleSave = () => {
+    if (draftMode === 'default' || draftText.trim() === template.template.trim()) {
+      removePromptOverride(selectedId);
+    } else {
+      savePromptOverride(selectedId, draftText, draftMode);
+    }
+    setOverrides(loadPromptOverrides());
+    setIsSaved(true);
+  };
+
+  const handleResetText = () => {
+    setDraftText(template.template);
+    setIsSaved(false);
+  };
+
+  const templatesByTool = Object.values(ToolName)
+    .map(tool => ({ tool, prompts: templates.filter(prompt => prompt.tool === tool) }))
+    .filter(group => group.prompts.length > 0);
+  const inputClasses = "w-full p-3 border-2 border-purple-200 bg-purple-50 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-300 font-medium text-gray-800 text-sm";
+
+  return (
+    <div className="space-y-5 animate-fade-in">
+      <div>
+        <h3 className="text-lg font-bold text-gray-800 mb-1">🧩 Prompts</h3>
+        <p className="text-sm text-gray-500">Every tool's instructions come from a versioned template. Customise one, or A/B test your version against the built-in; saved results record which version produced them.</p>
+      </div>
+
+      <div>
+        <label htmlFor="prompt-select" className="block text-sm font-bold text-gray-700 mb-1">Template</label>
+        <select
+          id="prompt-select"
+          className={inputClasses}
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value as PromptId)}
+        >
+          {templatesByTool.map(group => (
+            <optgroup key={group.tool} label={group.tool}>
+              {group.prompts.map(prompt => (
+                <option key={prompt.id} value={prompt.id}>
+                  {prompt.label}{overrides[prompt.id] ? ' • customised' : ''}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400 mt-1">
+          Built-in: <code>{defaultVersion}</code>{customVersion && <> · Yours: <code>{customVersion}</code></>}
+        </p>
+      </div>
+
+      {template.variables.length > 0 && (
+        <div className="flex flex-wrap gap-2 items-center">
+          <span className="text-xs font-bold text-gray-500">Variables:</span>
+          {template.variables.map(variable => (
+            <code key={variable} className="px-2 py-0.5 bg-gray-100 border border-gray-200 rounded text-xs text-purple-700">{`{{${variable}}}`}</code>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-4">
+        {MODE_OPTIONS.map(option => (
+          <label key={option.mode} className="flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+            <input
+              type="radio"
+              name="prompt-mode"
+              className="h-4 w-4 text-purple-600 focus:ring-purple-500"
+              checked={draftMode === option.mode}
+              onChange={() => { setDraftMode(option.mode); setIsSaved(false); }}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+
+      <div>
+        <textarea
+          className={`${inputClasses} font-mono text-xs min-h-[16rem] ${draftMode === 'default' ? 'opacity-60' : ''}`}
+          value={draftText}
+          onChange={(e) => { setDraftText(e.target.value); setIsSaved(false); }}
+          readOnly={draftMode === 'default'}
+          aria-label="Prompt template text"
+        />
+        <div className="flex justify-between items-start gap-3 mt-1">
+          {missingVariables.length > 0 ? (
+            <p className="text-xs text-amber-700">
+              ⚠️ Not used: {missingVariables.map(variable => `{{${variable}}}`).join(', ')}. That input won't reach the AI.
+            </p>
+          ) : <span />}
+          {draftMode !== 'default' && (
+            <button type="button" onClick={handleResetText} className="text-xs font-bold text-gray-500 hover:text-purple-700 shrink-0">
+              Start from built-in text
+            </button>
+          )}
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={isSaved}
+        className={`w-full py-3 rounded-xl font-bold transition-all duration-300 shadow-md ${
+          isSaved
+            ? 'bg-emerald-100 text-emerald-700 cursor-not-allowed'
+            : 'bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-700 hover:to-indigo-700'
+        }`}
+      >
+        {isSaved ? 'Saved!' : 'Save Prompt'}
+      </button>
+
+      {/* Variant comparison */}
+      <div className="p-4 bg-gray-50 rounded-xl border border-gray-200">
+        <p className="text-sm font-bold text-gray-800 mb-1">📈 Versions in use (last {VARIANT_STATS_DAYS} days)</p>
+        {variantStats.length === 0 ? (
+          <p className="text-xs text-gray-400">No requests have used this template yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 uppercase tracking-wide border-b border-gray-200">
+                  <th className="py-2 pr-2">Version</th>
+                  <th className="py-2 px-2 text-right">Requests</th>
+                  <th className="py-2 px-2 text-right">Failed</th>
+                  <th className="py-2 px-2 text-right">Avg output</th>
+                  <th className="py-2 px-2 text-right">Avg latency</th>
+                  <th className="py-2 pl-2 text-right">Saved</th>
+                </tr>
+              </thead>
+              <tbody>
+                {variantStats.map(stats => (
+                  <tr key={stats.version} className="border-b border-gray-100">
+                    <td className="py-2 pr-2 font-mono text-gray-700">
+                      {stats.version}
+                      {stats.version === customVersion && <span className="ml-1 text-purple-600 font-sans font-bold">(yours)</span>}
+                    </td>
+                    <td className="py-2 px-2 text-right text-gray-600">{stats.requests}</td>
+                    <td className="py-2 px-2 text-right text-gray-600">{stats.failed}</td>
+                    <td className="py-2 px-2 text-right text-gray-600">{stats.requests ? Math.round(stats.outputTokens / stats.requests) : '–'} tok</td>
+                    <td className="py-2 px-2 text-right text-gray-600">{stats.requests ? (stats.latencyMs / stats.requests / 1000).toFixed(1) : '–'}s</td>
+                    <td className="py-2 pl-2 text-right text-gray-600">{stats.saved}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptSettingsPanel;
@@ -0,0 +1,241 @@
+import React, { useState, useRef } from 'react';
+import { LLMProviderKind, LLMProviderSettings } from '../types';
+import { getAvailableProviders } from '../services/llmProviders';
+import { getGeminiApiKey, getGeminiApiKeySource, maskApiKey, removeGeminiApiKey } from '../services/apiKeyManager';
+import ApiKeyPrompt from './ApiKeyPrompt';
+import {
+  loadLlmProviderSettings, saveLlmProviderSettings,
+  loadRecordedFixtures, saveRecordedFixtures,
+} from '../utils/localStorageService';
+
+const PROVIDER_HINTS: Record<LLMProviderKind, string> = {
+  gemini: 'Uses the Gemini API key entered below, or the GEMINI_API_KEY the app was built with.',
+  openai: 'Any server that implements the OpenAI /chat/completions API (OpenAI, OpenRouter, vLLM, LM Studio...).',
+  local: 'A model running on this machine or your school network. Ollama listens on :11434/v1, llama.cpp\'s llama-server on :8080/v1.',
+  fixture: 'Canned, deterministic answers for every tool. Works with no network or API key — ideal for demos and development. Recorded responses are replayed when the same prompt comes up again.',
+};
+
+const ProviderSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<LLMProviderSettings>(() => loadLlmProviderSettings());
+  const [isSaved, setIsSaved] = useState<boolean>(false);
+  const [fixtureCount, setFixtureCount] = useState<number>(() => Object.keys(loadRecordedFixtures()).length);
+  const fixtureFileRef = useRef<HTMLInputElement>(null);
+  const [showApiKeyPrompt, setShowApiKeyPrompt] = useState<boolean>(false);
+  const [geminiKeySource, setGeminiKeySource] = useState(() => getGeminiApiKeySource());
+  const providers = getAvailableProviders();
+  const activeProvider = providers.find(p => p.kind === settings.kind) || providers[0];
+
+  const updateSettings = (changes: Partial<LLMProviderSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    setIsSaved(false);
+  };
+
+  const handleSave = () => {
+    // Drop empty strings so provider defaults apply
+    const cleaned: LLMProviderSettings = {
+      kind: settings.kind,
+      ...(settings.baseUrl?.trim() ? { baseUrl: settings.baseUrl.trim() } : {}),
+      ...(settings.apiKey?.trim() ? { apiKey: settings.apiKey.trim() } : {}),
+      ...(settings.model?.trim() ? { model: settings.model.trim() } : {}),
+      ...(settings.recordFixtures ? { recordFixtures: true } : {}),
+    };
+    saveLlmProviderSettings(cleaned);
+    setSettings(cleaned);
+    setIsSaved(true);
+  };
+
+  const handleRemoveGeminiKey = () => {
+    if (window.confirm('Remove the saved Gemini API key from this browser?')) {
+      removeGeminiApiKey();
+      setGeminiKeySource(getGeminiApiKeySource());
+    }
+  };
+
+  const handleExportFixtures = () => {
+    const blob = new Blob([JSON.stringify(loadRecordedFixtures(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'sls-fixtures.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFixtures = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const imported = JSON.parse(await file.text());
+      if (!imported || typeof imported !== 'object' || Array.isArray(imported)) {
+        throw new Error('Fixture file must contain a JSON object.');
+      }
+      const merged = { ...loadRecordedFixtures(), ...imported };
+      saveRecordedFixtures(merged);
+      setFixtureCount(Object.keys(merged).length);
+    } catch (err) {
+      console.error("Failed to import fixtures", err);
+      alert('Could not import fixtures. Please choose a file exported from SLS.');
+    } finally {
+      if (fixtureFileRef.current) fixtureFileRef.current.value = '';
+    }
+  };
+
+  const handleClearFixtures = () => {
+    if (window.confirm('Delete all recorded fixture responses?')) {
+      saveRecordedFixtures({});
+      setFixtureCount(0);
+    }
+  };
+
+  const inputClasses = "w-full p-3 border-2 border-purple-200 bg-purple-50 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-300 font-medium text-gray-800 text-sm";
+
+  return (
+    <div className="space-y-5 animate-fade-in">
+      <div>
+        <h3 className="text-lg font-bold text-gray-800 mb-1">🤖 AI Provider</h3>
+        <p className="text-sm text-gray-500">Choose which AI backend every tool talks to. Changes apply to the next request.</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {providers.map(provider => (
+          <button
+            key={provider.kind}
+            type="button"
+            onClick={() => updateSettings({ kind: provider.kind })}
+            className={`p-3 rounded-xl border-2 text-left transition-all ${
+              settings.kind === provider.kind
+                ? 'border-purple-500 bg-purple-50 shadow-md'
+                : 'border-gray-200 bg-white hover:border-purple-300'
+            }`}
+            aria-pressed={settings.kind === provider.kind}
+          >
+            <span className="block font-bold text-gray-800 text-sm">{provider.label}</span>
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500 bg-gray-50 p-3 rounded-lg border border-gray-100">{PROVIDER_HINTS[settings.kind]}</p>
+
+      {activeProvider.defaultBaseUrl && (
+        <div>
+          <label htmlFor="provider-base-url" className="block text-sm font-bold text-gray-700 mb-1">Base URL</label>
+          <input
+            id="provider-base-url"
+            type="url"
+            className={inputClasses}
+            placeholder={activeProvider.defaultBaseUrl}
+            value={settings.baseUrl || ''}
+            onChange={(e) => updateSettings({ baseUrl: e.target.value })}
+          />
+        </div>
+      )}
+
+      {settings.kind === 'gemini' && (
+        <div className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-xl border border-gray-200">
+          <div>
+            <p className="text-sm font-bold text-gray-800">🔑 Gemini API Key</p>
+            <p className="text-xs text-gray-500">
+              {geminiKeySource === 'none'
+                ? 'No key yet. You\'ll be asked for one on your first request.'
+                : <><code>{maskApiKey(getGeminiApiKey() || '')}</code> · {geminiKeySource === 'stored' ? 'saved in this browser' : 'from the app build'}</>}
+            </p>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <button type="button" onClick={() => setShowApiKeyPrompt(true)} className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100">
+              {geminiKeySource === 'none' ? 'Add key' : 'Switch key'}
+            </button>
+            {geminiKeySource === 'stored' && (
+              <button type="button" onClick={handleRemoveGeminiKey} className="px-3 py-1.5 bg-white border border-red-200 rounded-lg text-xs font-bold text-red-600 hover:bg-red-50">
+                Remove
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {settings.kind !== 'gemini' && (
+        <div>
+          <label htmlFor="provider-api-key" className="block text-sm font-bold text-gray-700 mb-1">
+            API Key {settings.kind === 'local' && <span className="font-normal text-gray-400">(optional)</span>}
+          </label>
+          <input
+            id="provider-api-key"
+            type="password"
+            autoComplete="off"
+            className={inputClasses}
+            placeholder="sk-..."
+            value={settings.apiKey || ''}
+            onChange={(e) => updateSettings({ apiKey: e.target.value })}
+          />
+        </div>
+      )}
+
+      {settings.kind !== 'fixture' && (
+        <div>
+          <label htmlFor="provider-model" className="block text-sm font-bold text-gray-700 mb-1">Model</label>
+          <input
+            id="provider-model"
+            type="text"
+            className={inputClasses}
+            placeholder={activeProvider.defaultModel}
+            value={settings.model || ''}
+            onChange={(e) => updateSettings({ model: e.target.value })}
+          />
+          <p className="text-xs text-gray-400 mt-1">Leave empty to use the default model shown above.</p>
+        </div>
+      )}
+
+      {/* Fixture Recording */}
+      <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm font-bold text-gray-800">🎙️ Record fixtures</p>
+            <p className="text-xs text-gray-500">Save real answers so the offline provider can replay them. {fixtureCount} recorded.</p>
+          </div>
+          <input
+            type="checkbox"
+            className="h-5 w-5 text-purple-600 focus:ring-purple-500 border-gray-300 rounded-lg shadow-sm"
+            checked={Boolean(settings.recordFixtures)}
+            onChange={(e) => updateSettings({ recordFixtures: e.target.checked })}
+            disabled={settings.kind === 'fixture'}
+            aria-label="Record fixture responses"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={handleExportFixtures} className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100">
+            Export
+          </button>
+          <input type="file" accept="application/json" ref={fixtureFileRef} onChange={handleImportFixtures} className="hidden" id="fixture-import" />
+          <label htmlFor="fixture-import" className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100 cursor-pointer">
+            Import
+          </label>
+          <button type="button" onClick={handleClearFixtures} disabled={fixtureCount === 0} className="px-3 py-1.5 bg-white border border-red-200 rounded-lg text-xs font-bold text-red-600 hover:bg-red-50 disabled:opacity-50">
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={isSaved}
+        className={`w-full py-3 rounded-xl font-bold transition-all duration-300 shadow-md ${
+          isSaved
+            ? 'bg-emerald-100 text-emerald-700 cursor-not-allowed'
+            : 'bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-700 hover:to-indigo-700'
+        }`}
+      >
+        {isSaved ? 'Saved!' : 'Save Provider Settings'}
+      </button>
+
+      {showApiKeyPrompt && (
+        <ApiKeyPrompt
+          onClose={() => setShowApiKeyPrompt(false)}
+          onKeyChange={() => setGeminiKeySource(getGeminiApiKeySource())}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
@@ -0,0 +1,38 @@
+import React, { useMemo } from 'react';
+import { encodeQrCode } from '../utils/qrCode';
+
+interface QrCodeImageProps {
+  text: string;
+  label: string; // Accessible description
+  size?: number; // Rendered width and height in px
+}
+
+const QUIET_ZONE = 4; // Light modules around the code, as the standard asks
+
+// Draws text as a QR code, one SVG path for all the dark modules.
+const QrCodeImage: React.FC<QrCodeImageProps> = ({ text, label, size = 192 }) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(text);
+    const commands: string[] = [];
+    modules.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) commands.push(`M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`);
+    }));
+    return { path: commands.join(''), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [text]);
+
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className="bg-white rounded-lg border border-gray-200"
+    >
+      <path d={path} fill="#111827" />
+    </svg>
+  );
+};
+
+export default QrCodeImage;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { QuestBoardView, QuestStatus } from '../utils/questEngine';
+import { daysBetweenKeys } from '../utils/dateUtils';
+
+interface QuestBoardPanelProps {
+  boards: QuestBoardView[];
+  today: string;
+  onClaimQuest: (questId: string) => void;
+  onRerollQuest: (questId: string) => void;
+}
+
+const timeLeft = (board: QuestBoardView, today: string): string => {
+  if (board.period === 'daily') return 'Resets tomorrow';
+  const days = daysBetweenKeys(today, board.end);
+  return days === 0 ? 'Last day' : `${days + 1} days left`;
+};
+
+const QuestCard: React.FC<{ quest: QuestStatus; canReroll: boolean; onClaim: () => void; onReroll: () => void }> = ({ quest, canReroll, onClaim, onReroll }) => (
+  <li className={`p-3 rounded-xl border ${quest.claimed ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'}`}>
+    <div className="flex items-start justify-between gap-3">
+      <p className="text-sm font-semibold text-gray-800">{quest.title}</p>
+      <span className="text-xs font-bold text-purple-700 shrink-0">+{quest.xpReward} XP</span>
+    </div>
+    <div className="mt-2 space-y-1.5">
+      {quest.goalProgress.map(goal => (
+        <div key={goal.action} className="flex items-center gap-2">
+          <div className="flex-1 bg-gray-200 rounded-full h-2">
+            <div className="bg-purple-500 h-2 rounded-full transition-all duration-500" style={{ width: `${(goal.current / goal.target) * 100}%` }} />
+          </div>
+          <span className="text-xs text-gray-600 w-16 text-right">{goal.current}/{goal.target}{goal.measure === 'days' ? ' days' : ''}</span>
+        </div>
+      ))}
+    </div>
+    <div className="flex justify-end gap-2 mt-2">
+      {quest.claimed ? (
+        <span className="text-xs font-bold text-green-700">✅ Claimed</span>
+      ) : quest.complete ? (
+        <button
+          type="button"
+          onClick={onClaim}
+          className="px-3 py-1.5 bg-purple-600 text-white rounded-lg text-xs font-bold hover:bg-purple-700"
+        >
+          Claim {quest.xpReward} XP
+        </button>
+      ) : canReroll && (
+        <button
+          type="button"
+          onClick={onReroll}
+          className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100"
+        >
+          🎲 Reroll
+        </button>
+      )}
+    </div>
+  </li>
+);
+
+const QuestBoardPanel: React.FC<QuestBoardPanelProps> = ({ boards, today, onClaimQuest, onRerollQuest }) => (
+  <div className="bg-white p-5 mt-6 rounded-2xl shadow-md border border-gray-100">
+    <h3 className="text-xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+      🗺️ Quest Board
+    </h3>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {boards.map(board => (
+        <section key={board.period}>
+          <div className="flex items-baseline justify-between mb-2">
+            <h4 className="text-sm font-bold text-gray-700">{board.period === 'daily' ? "Today's Quests" : "This Week's Quests"}</h4>
+            <span className="text-xs text-gray-500">
+              {timeLeft(board, today)} · {board.rerollsLeft} reroll{board.rerollsLeft === 1 ? '' : 's'} left
+            </span>
+          </div>
+          <ul className="space-y-2">
+            {board.quests.map(quest => (
+              <QuestCard
+                key={quest.id}
+                quest={quest}
+                canReroll={board.rerollsLeft > 0}
+                onClaim={() => onClaimQuest(quest.id)}
+                onReroll={() => onRerollQuest(quest.id)}
+              />
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  </div>
+);
+
+export default QuestBoardPanel;
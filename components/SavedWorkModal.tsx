@@ -1,18 +1,23 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { SavedItem, ToolName } from '../types';
 import MarkdownRenderer from './MarkdownRenderer';
+import { isInTrash, daysUntilPurge, TRASH_RETENTION_DAYS } from '../utils/savedItemsTrash';
 
 interface SavedWorkModalProps {
   savedItems: SavedItem[];
-  onDelete: (id: string) => void;
+  onDelete: (ids: string[]) => void; // Moves to the trash
+  onRestore: (ids: string[]) => void;
+  onPurge: (ids: string[]) => void; // Deletes permanently
   onClose: () => void;
 }
 
-type FilterTab = ToolName | 'All';
+type FilterTab = ToolName | 'All' | 'Trash';
 
-const SavedWorkModal: React.FC<SavedWorkModalProps> = ({ savedItems, onDelete, onClose }) => {
+const SavedWorkModal: React.FC<SavedWorkModalProps> = ({ savedItems, onDelete, onRestore, onPurge, onClose }) => {
   const [selectedItem, setSelectedItem] = useState<SavedItem | null>(null);
   const [activeTab, setActiveTab] = useState<FilterTab>('All');
+  const [isSelecting, setIsSelecting] = useState<boolean>(false);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
   const tabsContainerRef = useRef<HTMLDivElement>(null);
 
   // Define icons for all tools so items in the "All" list still have correct icons
@@ -26,7 +31,8 @@ const SavedWorkModal: React.FC<SavedWorkModalProps> = ({ savedItems, onDelete, o
     [ToolName.MOOD_STRESS]: '😌',
     [ToolName.DECISION_HELPER]: '✔️',
     [ToolName.PREDICT_MY_GRADE]: '💯',
-    'All': '✨'
+    'All': '✨',
+    'Trash': '🗑️',
   }), []);
 
   // Filtered tabs based on user request: Homework, Notes, Study (and All)
@@ -35,15 +41,32 @@ const SavedWorkModal: React.FC<SavedWorkModalProps> = ({ savedItems, onDelete, o
     { name: ToolName.HOMEWORK_CHECKER, icon: allToolIcons[ToolName.HOMEWORK_CHECKER] },
     { name: ToolName.NOTES_CLEANER, icon: allToolIcons[ToolName.NOTES_CLEANER] },
     { name: ToolName.STUDY_ROUTINE, icon: allToolIcons[ToolName.STUDY_ROUTINE] },
+    { name: 'Trash', icon: allToolIcons['Trash'] },
   ], [allToolIcons]);
 
+  const isTrashTab = activeTab === 'Trash';
+  const trashCount = useMemo(() => savedItems.filter(isInTrash).length, [savedItems]);
+
   const filteredItems = useMemo(() => {
+    if (activeTab === 'Trash') {
+      return savedItems.filter(isInTrash);
+    }
+    const activeItems = savedItems.filter(item => !isInTrash(item));
     if (activeTab === 'All') {
-      return savedItems;
+      return activeItems;
     }
-    return savedItems.filter(item => item.toolName === activeTab);
+    return activeItems.filter(item => item.toolName === activeTab);
   }, [savedItems, activeTab]);
 
+  // Drop ticks for items that left the list (deleted, restored, or another tab)
+  useEffect(() => {
+    setCheckedIds(prev => {
+      const visible = new Set(filteredItems.map(item => item.id));
+      const kept = [...prev].filter(id => visible.has(id));
+      return kept.length === prev.size ? prev : new Set(kept);
+    });
+  }, [filteredItems]);
+
   // Clear selected item if it's no longer in the filtered list (e.g. after deletion)
   useEffect(() => {
     if (selectedItem && !filteredItems.some(item => item.id === selectedItem.id)) {
@@ -60,19 +83,56 @@ const SavedWorkModal: React.FC<SavedWorkModalProps> = ({ savedItems, onDelete, o
     }
   };
 
-  const getToolIcon = (toolName: ToolName | 'All') => {
+  const getToolIcon = (toolName: FilterTab) => {
     return allToolIcons[toolName] || '✨';
   };
 
+  const purgeItems = (ids: string[]) => {
+    const count = ids.length === 1 ? 'this item' : `these ${ids.length} items`;
+    if (window.confirm(`Permanently delete ${count}? This can't be undone.`)) {
+      onPurge(ids);
+    }
+  };
+
+  // Deleting moves items to the trash, where they can still be restored
   const handleDeleteClick = (e: React.MouseEvent, id: string) => {
     e.stopPropagation(); // Stop click from triggering item selection
-    
-    // Confirmation dialog before deletion
-    if (window.confirm("Are you sure you want to permanently delete this saved item?")) {
-      onDelete(id);
+    if (isTrashTab) {
+      purgeItems([id]);
+    } else {
+      onDelete([id]);
     }
   };
 
+  const handleRestoreClick = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    onRestore([id]);
+  };
+
+  const toggleChecked = (id: string) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleTabChange = (tab: FilterTab) => {
+    setActiveTab(tab);
+    setCheckedIds(new Set());
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setCheckedIds(new Set());
+  };
+
+  const allChecked = filteredItems.length > 0 && checkedIds.size === filteredItems.length;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center p-0 sm:p-4 z-50 animate-fade-in">
       <style>{`
@@ -120,7 +180,7 @@ const SavedWorkModal: React.FC<SavedWorkModalProps> = ({ savedItems, onDelete, o
                   {tabs.map(tab => (
                     <button
                       key={tab.name}
-                      onClick={() => setActiveTab(tab.name)}
+                      onClick={() => handleTabChange(tab.name)}
                       className={`
                         flex-shrink-0 px-3 py-1.5 text-xs sm:text-sm rounded-full font-bold transition-all duration-200 whitespace-nowrap
                         ${activeTab === tab.name
@@ -130,18 +190,68 @@ const SavedWorkModal: React.FC<SavedWorkModalProps> = ({ savedItems, onDelete, o
                       `}
                       aria-pressed={activeTab === tab.name}
                     >
-                      {tab.icon} {tab.name === 'All' ? 'All' : tab.name.split(' ')[0]}
+                      {tab.icon} {tab.name === 'All' || tab.name === 'Trash' ? tab.name : tab.name.split(' ')[0]}
+                      {tab.name === 'Trash' && trashCount > 0 && ` (${trashCount})`}
                     </button>
                   ))}
                 </div>
               </div>
             </div>
 
+            {filteredItems.length > 0 && (
+              <div className="px-3 py-2 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center gap-2 shrink-0 text-xs">
+                {isSelecting ? (
+                  <>
+                    <label className="flex items-center gap-1.5 font-bold text-gray-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                        checked={allChecked}
+                        onChange={() => setCheckedIds(allChecked ? new Set() : new Set(filteredItems.map(item => item.id)))}
+                      />
+                      All
+                    </label>
+                    {isTrashTab ? (
+                      <>
+                        <button type="button" onClick={() => onRestore([...checkedIds])} disabled={checkedIds.size === 0} className="px-2 py-1 bg-white border border-gray-200 rounded-lg font-bold text-gray-700 hover:bg-gray-100 disabled:opacity-50">
+                          Restore ({checkedIds.size})
+                        </button>
+                        <button type="button" onClick={() => purgeItems([...checkedIds])} disabled={checkedIds.size === 0} className="px-2 py-1 bg-white border border-red-200 rounded-lg font-bold text-red-600 hover:bg-red-50 disabled:opacity-50">
+                          Delete Forever ({checkedIds.size})
+                        </button>
+                      </>
+                    ) : (
+                      <button type="button" onClick={() => onDelete([...checkedIds])} disabled={checkedIds.size === 0} className="px-2 py-1 bg-white border border-red-200 rounded-lg font-bold text-red-600 hover:bg-red-50 disabled:opacity-50">
+                        Delete ({checkedIds.size})
+                      </button>
+                    )}
+                    <button type="button" onClick={stopSelecting} className="ml-auto font-bold text-gray-500 hover:text-gray-700">
+                      Done
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    {isTrashTab && (
+                      <span className="text-gray-500">Items are deleted for good after {TRASH_RETENTION_DAYS} days.</span>
+                    )}
+                    <button type="button" onClick={() => setIsSelecting(true)} className="ml-auto font-bold text-purple-600 hover:text-purple-800">
+                      Select
+                    </button>
+                    {isTrashTab && (
+                      <button type="button" onClick={() => purgeItems(filteredItems.map(item => item.id))} className="font-bold text-red-600 hover:text-red-800">
+                        Empty Trash
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
             <div className="flex-grow overflow-y-auto custom-scrollbar p-3 min-h-0 mobile-no-scrollbar">
               {filteredItems.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-40 text-gray-500">
-                  <span className="text-2xl mb-2">📭</span>
-                  <p className="text-sm">No saved items yet.</p>
+                  <span className="text-2xl mb-2">{isTrashTab ? '🗑️' : '📭'}</span>
+                  <p className="text-sm">{isTrashTab ? 'The trash is empty.' : 'No saved items yet.'}</p>
                 </div>
               ) : (
                 <ul className="space-y-2 pb-24">
@@ -154,6 +264,15 @@ const SavedWorkModal: React.FC<SavedWorkModalProps> = ({ savedItems, onDelete, o
                           : 'bg-white border-gray-200 hover:border-purple-300'
                       }`}
                     >
+                      {isSelecting && (
+                        <input
+                          type="checkbox"
+                          className="ml-3 h-4 w-4 shrink-0 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                          checked={checkedIds.has(item.id)}
+                          onChange={() => toggleChecked(item.id)}
+                          aria-label={`Select ${item.title}`}
+                        />
+                      )}
                       {/* Content Area - Selection */}
                       <div
                         onClick={() => setSelectedItem(item)}
@@ -169,18 +288,31 @@ const SavedWorkModal: React.FC<SavedWorkModalProps> = ({ savedItems, onDelete, o
                           <span className="truncate">{item.title}</span>
                         </span>
                         <span className="text-[10px] uppercase font-bold text-gray-400 tracking-wider">
-                           {formatTimestamp(item.timestamp)}
+                           {isTrashTab ? `Deleted · ${daysUntilPurge(item)} days left` : formatTimestamp(item.timestamp)}
                         </span>
                       </div>
                       
                       {/* Delete Button Area - Distinct Click Zone */}
-                      <div className="px-2">
+                      <div className="px-2 flex">
+                        {isTrashTab && (
+                          <button
+                            type="button"
+                            onClick={(e) => handleRestoreClick(e, item.id)}
+                            className="relative z-20 p-3 md:p-2 rounded-lg text-gray-300 hover:text-emerald-600 hover:bg-emerald-50 transition-colors flex items-center justify-center focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                            title="Restore saved item"
+                            aria-label={`Restore ${item.title}`}
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                            </svg>
+                          </button>
+                        )}
                         <button
                           type="button"
                           onClick={(e) => handleDeleteClick(e, item.id)}
                           className="relative z-20 p-3 md:p-2 rounded-lg text-gray-300 hover:text-red-600 hover:bg-red-50 transition-colors flex items-center justify-center focus:outline-none focus:ring-2 focus:ring-red-200"
-                          title="Delete saved item"
-                          aria-label={`Delete ${item.title}`}
+                          title={isTrashTab ? 'Delete forever' : 'Move to trash'}
+                          aria-label={`${isTrashTab ? 'Permanently delete' : 'Delete'} ${item.title}`}
                         >
                           <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -227,6 +359,19 @@ const SavedWorkModal: React.FC<SavedWorkModalProps> = ({ savedItems, onDelete, o
                       <span className="hidden sm:inline">•</span>
                       <span>Saved on {formatTimestamp(selectedItem.timestamp)}</span>
                     </div>
+                    {isInTrash(selectedItem) && (
+                      <div className="mt-3 ml-1 flex items-center gap-3 text-sm bg-gray-50 border border-gray-200 rounded-lg px-3 py-2">
+                        <span className="text-gray-600 flex-grow">🗑️ In the trash · deleted for good in {daysUntilPurge(selectedItem)} days</span>
+                        <button type="button" onClick={() => onRestore([selectedItem.id])} className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100 shrink-0">
+                          Restore
+                        </button>
+                      </div>
+                    )}
+                    {selectedItem.promptVersion && (
+                      <p className="text-xs text-gray-400 ml-1 mt-2" title="Prompt template version that produced this result">
+                        Prompt: <code>{selectedItem.promptVersion}</code>
+                      </p>
+                    )}
                   </div>
                   
                   <div className="prose prose-purple max-w-none text-gray-800 leading-relaxed text-sm sm:text-base">
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { SavedItem } from '../types';
+import ProviderSettingsPanel from './ProviderSettingsPanel';
+import CacheSettingsPanel from './CacheSettingsPanel';
+import UsageDashboardPanel from './UsageDashboardPanel';
+import PromptSettingsPanel from './PromptSettingsPanel';
+import DataBackupPanel from './DataBackupPanel';
+import VaultSettingsPanel from './VaultSettingsPanel';
+import SyncSettingsPanel from './SyncSettingsPanel';
+import StorageSettingsPanel from './StorageSettingsPanel';
+import DaySettingsPanel from './DaySettingsPanel';
+import XpRulesSettingsPanel from './XpRulesSettingsPanel';
+
+export type SettingsSection = 'provider' | 'prompts' | 'usage' | 'cache' | 'data' | 'vault' | 'sync' | 'storage' | 'day' | 'xpRules';
+
+interface SettingsModalProps {
+  onClose: () => void;
+  initialSection?: SettingsSection;
+  savedItems: SavedItem[]; // For the storage cleanup assistant
+  onTrashSavedItems: (ids: string[]) => void;
+  dayStartHour: number;
+  onDayStartHourChange: (hour: number) => void;
+}
+
+const SECTIONS: { id: SettingsSection; label: string; icon: string }[] = [
+  { id: 'provider', label: 'AI Provider', icon: '🤖' },
+  { id: 'prompts', label: 'Prompts', icon: '🧩' },
+  { id: 'usage', label: 'Usage & Budget', icon: '📊' },
+  { id: 'cache', label: 'Response Cache', icon: '⚡' },
+  { id: 'data', label: 'Your Data', icon: '💾' },
+  { id: 'vault', label: 'Vault', icon: '🔐' },
+  { id: 'sync', label: 'Sync', icon: '🔄' },
+  { id: 'storage', label: 'Storage', icon: '📦' },
+  { id: 'day', label: 'Your Day', icon: '🌙' },
+  { id: 'xpRules', label: 'XP Rules', icon: '⭐' },
+];
+
+const SettingsModal: React.FC<SettingsModalProps> = ({
+  onClose, initialSection = 'provider', savedItems, onTrashSavedItems, dayStartHour, onDayStartHourChange,
+}) => {
+  const [activeSection, setActiveSection] = useState<SettingsSection>(initialSection);
+
+  const renderSection = () => {
+    switch (activeSection) {
+      case 'provider':
+        return <ProviderSettingsPanel />;
+      case 'prompts':
+        return <PromptSettingsPanel />;
+      case 'usage':
+        return <UsageDashboardPanel />;
+      case 'cache':
+        return <CacheSettingsPanel />;
+      case 'data':
+        return <DataBackupPanel />;
+      case 'vault':
+        return <VaultSettingsPanel />;
+      case 'sync':
+        return <SyncSettingsPanel />;
+      case 'storage':
+        return <StorageSettingsPanel savedItems={savedItems} onTrashItems={onTrashSavedItems} />;
+      case 'day':
+        return <DaySettingsPanel dayStartHour={dayStartHour} onDayStartHourChange={onDayStartHourChange} />;
+      case 'xpRules':
+        return <XpRulesSettingsPanel />;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center p-0 sm:p-4 z-50 animate-fade-in">
+      <div className="bg-white sm:rounded-xl shadow-2xl w-full h-full sm:h-[85vh] sm:max-w-4xl flex flex-col relative sm:border-4 border-purple-100 overflow-hidden">
+        {/* Header */}
+        <div className="flex justify-between items-center p-4 border-b border-gray-200 bg-white z-10 shrink-0">
+          <h2 className="text-xl sm:text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple-600 to-pink-500 flex items-center gap-2">
+            <span>⚙️</span> Settings
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-700 transition-colors p-2 rounded-full hover:bg-gray-100 focus:outline-none"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row flex-grow overflow-hidden min-h-0">
+          {/* Section Navigation */}
+          <div className="bg-gray-50 border-b md:border-b-0 md:border-r border-gray-200 md:w-56 shrink-0">
+            <div className="flex md:flex-col flex-nowrap overflow-x-auto custom-scrollbar-horizontal p-3 gap-2">
+              {SECTIONS.map(section => (
+                <button
+                  key={section.id}
+                  onClick={() => setActiveSection(section.id)}
+                  className={`flex-shrink-0 flex items-center gap-2 px-3 py-2 text-sm rounded-xl font-bold transition-all duration-200 whitespace-nowrap text-left ${
+                    activeSection === section.id
+                      ? 'bg-purple-600 text-white shadow-md'
+                      : 'bg-white text-gray-600 hover:bg-gray-200 border border-gray-200'
+                  }`}
+                  aria-pressed={activeSection === section.id}
+                >
+                  <span>{section.icon}</span> {section.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Section Content */}
+          <div className="flex-grow p-4 sm:p-6 overflow-y-auto custom-scrollbar min-h-0">
+            {renderSection()}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -0,0 +1,21 @@
+import React from 'react';
+
+interface StopGeneratingButtonProps {
+  onStop: () => void;
+  className?: string;
+}
+
+// Replaces a tool's submit button while a streamed response is being written.
+const StopGeneratingButton: React.FC<StopGeneratingButtonProps> = ({ onStop, className = '' }) => {
+  return (
+    <button
+      type="button"
+      onClick={onStop}
+      className={`w-full font-bold py-3 px-6 rounded-xl transition-all duration-300 transform hover:scale-[1.01] active:scale-[0.98] shadow-xl hover:shadow-2xl focus:outline-none bg-white border-2 border-red-300 text-red-600 hover:bg-red-50 ${className}`}
+    >
+      ⏹ Stop generating
+    </button>
+  );
+};
+
+export default StopGeneratingButton;
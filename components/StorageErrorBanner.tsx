@@ -0,0 +1,39 @@
+import React, { useState, useEffect } from 'react';
+import { StorageError, subscribeToStorageErrors } from '../utils/persistentStore';
+
+// Top banner shown when saving progress or saved work to the browser fails.
+const StorageErrorBanner: React.FC = () => {
+  const [storageError, setStorageError] = useState<StorageError | null>(null);
+
+  useEffect(() => subscribeToStorageErrors(setStorageError), []);
+
+  if (!storageError) {
+    return null;
+  }
+
+  const message = storageError.kind === 'quota'
+    ? 'Your browser storage is full, so your latest changes weren\'t saved. Delete some saved work (especially items with images) to free up space.'
+    : storageError.kind === 'locked'
+      ? 'Your vault is locked, so this change wasn\'t saved. Unlock it and try again.'
+      : 'Your latest changes couldn\'t be saved to this browser. They\'ll be lost if you close the page.';
+
+  return (
+    <div
+      className="fixed top-4 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-xl z-[55] flex items-center gap-3 px-4 py-3 rounded-xl shadow-2xl border-2 bg-red-50 border-red-300 text-red-800 animate-fade-in"
+      role="alert"
+    >
+      <span className="text-xl">💾</span>
+      <p className="flex-grow text-sm font-semibold">{message}</p>
+      <button
+        type="button"
+        onClick={() => setStorageError(null)}
+        className="text-gray-400 hover:text-gray-700 p-1 shrink-0"
+        aria-label="Dismiss storage warning"
+      >
+        ✕
+      </button>
+    </div>
+  );
+};
+
+export default StorageErrorBanner;
@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { SavedItem } from '../types';
+import {
+  StorageUsageReport, CleanupSuggestion, getStorageUsage, suggestSavedItemCleanup, downloadSavedItemsArchive,
+  formatBytes, LARGE_ITEM_BYTES, OLD_ITEM_DAYS,
+} from '../utils/storageUsage';
+import { KEEP_DAILY_DAYS } from '../utils/activityHistory';
+import { TRASH_RETENTION_DAYS } from '../utils/savedItemsTrash';
+
+interface StorageSettingsPanelProps {
+  savedItems: SavedItem[];
+  onTrashItems: (ids: string[]) => void;
+}
+
+type CleanupStep = 'overview' | 'review' | 'done';
+
+const describeReasons = (suggestion: CleanupSuggestion): string =>
+  suggestion.reasons
+    .map(reason => (reason === 'large' ? `Large · ${formatBytes(suggestion.bytes)}` : `${Math.floor(suggestion.ageDays / 30)} months old`))
+    .join(' · ');
+
+const StorageSettingsPanel: React.FC<StorageSettingsPanelProps> = ({ savedItems, onTrashItems }) => {
+  const [report, setReport] = useState<StorageUsageReport | null>(null);
+  const [step, setStep] = useState<CleanupStep>('overview');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [result, setResult] = useState<string>('');
+
+  const suggestions = useMemo(() => suggestSavedItemCleanup(savedItems), [savedItems]);
+
+  const refreshReport = useCallback(async () => {
+    setReport(await getStorageUsage());
+  }, []);
+
+  useEffect(() => {
+    refreshReport();
+  }, [refreshReport, savedItems]);
+
+  const startReview = () => {
+    setSelectedIds(new Set(suggestions.map(suggestion => suggestion.item.id)));
+    setStep('review');
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleCleanup = (archive: boolean) => {
+    const chosen = suggestions.filter(suggestion => selectedIds.has(suggestion.item.id));
+    if (chosen.length === 0) return;
+    if (archive) {
+      downloadSavedItemsArchive(chosen.map(suggestion => suggestion.item));
+    }
+    // Through the trash like any other deletion, so a mistake can still be undone
+    onTrashItems(chosen.map(suggestion => suggestion.item.id));
+    const freed = formatBytes(chosen.reduce((total, suggestion) => total + suggestion.bytes, 0));
+    setResult(`${archive ? 'Archived and moved' : 'Moved'} ${chosen.length} item(s) to the trash. About ${freed} is freed once they're deleted for good, after ${TRASH_RETENTION_DAYS} days or when you empty the trash.`);
+    setStep('done');
+  };
+
+  const largestBytes = report ? Math.max(1, ...report.categories.map(category => category.bytes)) : 1;
+
+  return (
+    <div className="space-y-5 animate-fade-in">
+      <div>
+        <h3 className="text-lg font-bold text-gray-800 mb-1">📦 Storage</h3>
+        <p className="text-sm text-gray-500">See what's using space in this browser and tidy up old or large saved work. Daily activity older than {KEEP_DAILY_DAYS} days is summarized by week (and by month after a year) automatically.</p>
+      </div>
+
+      {!report ? (
+        <p className="text-sm text-gray-500">Measuring...</p>
+      ) : (
+        <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+          <div className="flex justify-between items-baseline">
+            <p className="text-sm font-bold text-gray-800">This profile · about {formatBytes(report.totalBytes)}</p>
+            {report.browserUsageBytes !== null && report.browserQuotaBytes !== null && (
+              <p className="text-xs text-gray-500">
+                Site total {formatBytes(report.browserUsageBytes)} of {formatBytes(report.browserQuotaBytes)} available
+              </p>
+            )}
+          </div>
+          <ul className="space-y-2">
+            {report.categories.map(category => (
+              <li key={category.id}>
+                <div className="flex justify-between text-xs">
+                  <span className="font-bold text-gray-700">{category.label} <span className="font-normal text-gray-400">· {category.detail}</span></span>
+                  <span className="text-gray-600">{formatBytes(category.bytes)}</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
+                  <div className="bg-purple-500 h-2 rounded-full" style={{ width: `${(category.bytes / largestBytes) * 100}%` }} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+        <p className="text-sm font-bold text-gray-800">🧹 Clean up saved work</p>
+
+        {step === 'overview' && (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-gray-500">
+              {suggestions.length > 0
+                ? `${suggestions.length} item(s) are larger than ${formatBytes(LARGE_ITEM_BYTES)} or older than ${OLD_ITEM_DAYS} days.`
+                : 'Nothing large or old to clean up.'}
+            </p>
+            {suggestions.length > 0 && (
+              <button type="button" onClick={startReview} className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100 shrink-0">
+                Review
+              </button>
+            )}
+          </div>
+        )}
+
+        {step === 'review' && (
+          <>
+            <p className="text-xs text-gray-500">Untick anything you want to keep. Archiving downloads the items as a Markdown file before moving them to the trash.</p>
+            <ul className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar">
+              {suggestions.map(suggestion => (
+                <li key={suggestion.item.id}>
+                  <label className="flex items-start gap-3 p-2 bg-white rounded-lg border border-gray-200 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 mt-0.5 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                      checked={selectedIds.has(suggestion.item.id)}
+                      onChange={() => toggleSelected(suggestion.item.id)}
+                    />
+                    <span className="min-w-0">
+                      <span className="block text-sm font-bold text-gray-800 truncate">{suggestion.item.title}</span>
+                      <span className="block text-xs text-gray-500">{suggestion.item.toolName} · {describeReasons(suggestion)}</span>
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => handleCleanup(true)}
+                disabled={selectedIds.size === 0}
+                className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+              >
+                Archive & Move to Trash ({selectedIds.size})
+              </button>
+              <button
+                type="button"
+                onClick={() => handleCleanup(false)}
+                disabled={selectedIds.size === 0}
+                className="px-3 py-1.5 bg-white border border-red-200 rounded-lg text-xs font-bold text-red-600 hover:bg-red-50 disabled:opacity-50"
+              >
+                Move to Trash ({selectedIds.size})
+              </button>
+              <button type="button" onClick={() => setStep('overview')} className="px-3 py-1.5 text-xs font-bold text-gray-500 hover:text-gray-700">
+                Cancel
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'done' && (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-emerald-700 font-medium" role="status">✅ {result}</p>
+            <button type="button" onClick={() => setStep('overview')} className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100 shrink-0">
+              Done
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StorageSettingsPanel;
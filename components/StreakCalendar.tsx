@@ -0,0 +1,56 @@
+import React from 'react';
+import { StreakCalendarDay, StreakDayStatus } from '../utils/streaks';
+
+interface StreakCalendarProps {
+  days: StreakCalendarDay[]; // Whole weeks, Monday first
+}
+
+const WEEKDAYS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+const STATUS_STYLES: Record<StreakDayStatus, { classes: string; label: string }> = {
+  studied: { classes: 'bg-gradient-to-br from-orange-400 to-red-500 text-white', label: 'Studied' },
+  frozen: { classes: 'bg-sky-100 text-sky-700 border border-sky-300', label: 'Frozen' },
+  repaired: { classes: 'bg-violet-100 text-violet-700 border border-violet-300', label: 'Repaired' },
+  missed: { classes: 'bg-gray-100 text-gray-400 line-through', label: 'Missed' },
+  today: { classes: 'bg-white text-gray-700 border-2 border-dashed border-orange-400', label: 'Today' },
+  upcoming: { classes: 'bg-white text-gray-300', label: '' },
+  none: { classes: 'bg-white text-gray-300', label: '' },
+};
+
+const LEGEND: StreakDayStatus[] = ['studied', 'frozen', 'repaired', 'missed'];
+
+const StreakCalendar: React.FC<StreakCalendarProps> = ({ days }) => (
+  <div className="bg-white p-5 mt-6 rounded-2xl shadow-md border border-gray-100">
+    <h3 className="text-xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+      📅 Streak Calendar
+    </h3>
+    <div className="grid grid-cols-7 gap-1.5 max-w-sm mx-auto">
+      {WEEKDAYS.map((weekday, index) => (
+        <div key={index} className="text-center text-xs font-bold text-gray-400">{weekday}</div>
+      ))}
+      {days.map(day => {
+        const style = STATUS_STYLES[day.status];
+        const dayOfMonth = Number(day.date.slice(8));
+        return (
+          <div
+            key={day.date}
+            className={`aspect-square flex items-center justify-center rounded-lg text-xs font-bold ${style.classes}`}
+            title={style.label ? `${day.date} · ${style.label}` : day.date}
+          >
+            {day.status === 'frozen' ? '❄️' : dayOfMonth}
+          </div>
+        );
+      })}
+    </div>
+    <div className="flex flex-wrap justify-center gap-3 mt-4">
+      {LEGEND.map(status => (
+        <span key={status} className="flex items-center gap-1.5 text-xs text-gray-600">
+          <span className={`inline-block w-3 h-3 rounded ${STATUS_STYLES[status].classes}`} />
+          {STATUS_STYLES[status].label}
+        </span>
+      ))}
+    </div>
+  </div>
+);
+
+export default StreakCalendar;
@@ -1,10 +1,15 @@
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import ChatComponent from './ChatComponent';
-import { callGeminiApi } from '../services/geminiService';
+import { callGeminiApiStream } from '../services/geminiService';
+import { getActionableErrorMessage } from '../services/llmErrors';
+import { resolvePrompt, joinPromptVersions } from '../services/promptRegistry';
+import { useAbortableRequest } from '../hooks/useAbortableRequest';
 import { DifficultyLevel, LLMConfig, ToolName, SavedItem, OnActionProps, StudyRoutineInputs, ActionType } from '../types';
 import MarkdownRenderer from './MarkdownRenderer';
 import Loader from './Loader';
+import ForceRefreshToggle from './ForceRefreshToggle';
+import StopGeneratingButton from './StopGeneratingButton';
 import { loadStudyRoutineInputs, saveStudyRoutineInputs, generateUniqueId } from '../utils/localStorageService';
 
 interface StudyRoutineFixerProps extends OnActionProps {
@@ -44,75 +49,6 @@ const AVATAR_COLORS = [
   'bg-indigo-500', 'bg-violet-500', 'bg-purple-500', 'bg-fuchsia-500', 'bg-pink-500', 'bg-rose-500'
 ];
 
-const INDIVIDUAL_SYSTEM_INSTRUCTION = `You are a UI-focused Study Architect for Student Life Solver (SLS).
-Your goal is to generate a **Premium, Visual, Table-Based Study Plan** based on the user's inputs.
-
-### 🎨 OUTPUT STYLE GUIDE
-- **Use Markdown Tables** for all schedules and lists.
-- **Minimalist & Clean**: Short text, aligned columns.
-- **Visuals**: Use subtle, professional emojis in the first column of tables.
-- **No Fluff**: Avoid long introductory or concluding paragraphs. Get straight to the plan.
-
-### 1. 📅 Weekly Strategy Overview
-Generate a clean 7-day table summarizing the focus for each day.
-| Day | Primary Focus | Key Subjects |
-| :--- | :--- | :--- |
-| **Mon** | 🧱 Foundation | [Subject 1], [Subject 2] |
-| **Tue** | 🧪 Practice | [Subject 3] |
-... (Cover the full week)
-
-### 2. ☀️ The Daily Blueprint (Example Day)
-Create a realistic time-blocked schedule using a clean table.
-**CRITICAL**: The schedule MUST cover the EXACT duration requested by the user. If they ask for 5 hours, you must list time blocks that sum up to 5 hours (e.g., 4:00 PM to 9:00 PM).
-
-| Time | Activity | Specific Task |
-| :--- | :--- | :--- |
-| **4:00 PM** | 🧠 **Deep Work** | [Subject]: Learn new concepts |
-| **4:50 PM** | ☕ **Break** | Stretch & Hydrate |
-| **5:00 PM** | 📝 **Active Recall** | [Subject]: Flashcards & Quiz |
-... (Continue adding rows until the FULL requested duration is filled)
-
-### 3. 🚀 Tactics & Balance
-| Category | Actionable Tip |
-| :--- | :--- |
-| **Strategy** | Use Spaced Repetition for [Subject]. |
-| **Health** | Sleep 8h. Drink water every hour. |
-| **Quote** | "Consistency beats intensity." |
-
-### ⚙️ LOGIC
-- **STRICT DURATION ADHERENCE**: Do not generate a default 3-hour plan if the user asked for more. Count the hours in your generated table to ensure they match the input.
-- **Intervals**: Suggest 50m Study / 10m Break (or 25/5).
-- **Adaptability**: If user updates (e.g., "I missed a session"), reply with a **Revised Table** immediately.
-`;
-
-const GROUP_SYSTEM_INSTRUCTION = `You are an AI Team Coordinator.
-Your goal is to organize a collaborative study session using **Premium, Visual Tables**.
-
-### 1. 🚀 Team Snapshot
-| Metric | Value |
-| :--- | :--- |
-| **Team** | [Team Name] |
-| **Motto** | "[Motto]" |
-| **Lead** | [Member Name] |
-
-### 2. 📅 Collaborative Schedule
-Identify sync times (everyone) vs solo times.
-**IMPORTANT**: Ensure the schedule covers the full "Target Hours" requested.
-
-| Time | Mode | Activity | Who |
-| :--- | :--- | :--- | :--- |
-| **10:00 AM** | 🤝 **Sync** | Goal Setting | All |
-| **10:15 AM** | 👤 **Solo** | Chapter Reading | [Name] |
-...
-
-### 3. 📋 Task Allocation
-| Member | Assigned Task | Reason |
-| :--- | :--- | :--- |
-| **[Name]** | Summarize Ch. 4 | Strongest in Theory |
-...
-
-Use Markdown tables. Keep it clean, professional, and structured.`;
-
 const StudyRoutineFixer: React.FC<StudyRoutineFixerProps> = ({ onSaveItem, onAction }) => {
   const initialInputs = loadStudyRoutineInputs();
   
@@ -123,6 +59,7 @@ const StudyRoutineFixer: React.FC<StudyRoutineFixerProps> = ({ onSaveItem, onAct
   const [indivResponse, setIndivResponse] = useState<string | null>(null);
   const [indivRefinementText, setIndivRefinementText] = useState<string>('');
   const [indivIsSaved, setIndivIsSaved] = useState<boolean>(false);
+  const [indivPromptVersion, setIndivPromptVersion] = useState<string | null>(null); // Recorded when the plan is saved
 
   // --- Group Mode State ---
   const [isGroupMode, setIsGroupMode] = useState<boolean>(initialInputs.isGroupMode || false);
@@ -132,6 +69,7 @@ const StudyRoutineFixer: React.FC<StudyRoutineFixerProps> = ({ onSaveItem, onAct
   const [groupResponse, setGroupResponse] = useState<string | null>(null);
   const [groupRefinementText, setGroupRefinementText] = useState<string>('');
   const [groupIsSaved, setGroupIsSaved] = useState<boolean>(false);
+  const [groupPromptVersion, setGroupPromptVersion] = useState<string | null>(null);
 
   // We keep groupMembers string for backward compatibility/simple storage, 
   // but we mostly rely on advanced state below for group mode.
@@ -151,6 +89,11 @@ const StudyRoutineFixer: React.FC<StudyRoutineFixerProps> = ({ onSaveItem, onAct
 
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  // Plan text received so far while a response is streaming. It only replaces the
+  // active plan once the stream completes, so stopping a refinement keeps the old plan.
+  const [streamingPlan, setStreamingPlan] = useState<string | null>(null);
+  const [forceRefresh, setForceRefresh] = useState<boolean>(false);
+  const { startRequest, abortRequest, finishRequest } = useAbortableRequest();
 
   useEffect(() => {
     const currentInputs: StudyRoutineInputs = { 
@@ -293,6 +236,8 @@ Please generate the schedule in clear Markdown tables as per your instructions.`
   const handleSubmit = useCallback(async () => {
     setLoading(true);
     setError(null);
+    setStreamingPlan(null);
+    const signal = startRequest();
     
     // Determine active variables based on mode
     const activeSubjects = isGroupMode ? groupSubjects : indivSubjects;
@@ -322,18 +267,24 @@ Please generate the schedule in clear Markdown tables as per your instructions.`
         studyStyle
       );
       
+      const systemPrompt = resolvePrompt(isGroupMode ? 'studyRoutine.groupSystem' : 'studyRoutine.individualSystem');
       const llmConfig: LLMConfig = {
-        systemInstruction: isGroupMode ? GROUP_SYSTEM_INSTRUCTION : INDIVIDUAL_SYSTEM_INSTRUCTION,
+        systemInstruction: systemPrompt.text,
         temperature: 0.6,
+        tool: ToolName.STUDY_ROUTINE,
+        promptVersion: joinPromptVersions(systemPrompt),
       };
-      const aiResponse = await callGeminiApi(prompt, 'gemini-2.5-flash', llmConfig);
-      
+      const aiResponse = await callGeminiApiStream(prompt, (text) => { if (!signal.aborted) setStreamingPlan(text); }, 'gemini-2.5-flash', llmConfig, { signal, forceRefresh });
+      if (signal.aborted) return; // Superseded or the tool was closed
+
       // Update the correct response state
       if (isGroupMode) {
         setGroupResponse(aiResponse);
+        setGroupPromptVersion(llmConfig.promptVersion || null);
         setGroupRefinementText('');
       } else {
         setIndivResponse(aiResponse);
+        setIndivPromptVersion(llmConfig.promptVersion || null);
         setIndivRefinementText('');
       }
       
@@ -348,18 +299,25 @@ Please generate the schedule in clear Markdown tables as per your instructions.`
       }
 
     } catch (err: any) {
+      if (signal.aborted) {
+        return; // Stopped by the user: the previous plan stays in place
+      }
       console.error("Study Routine Fixer API Error:", err);
-      setError(err.message || "Failed to generate study plan.");
+      setError(getActionableErrorMessage(err, "Failed to generate study plan. Please try again."));
       // Do not clear response on error to allow retry without losing context if needed, or clear it if that's safer
       // Keeping existing logic for now, but maybe resetting response on hard fail is better?
       // setResponse(null); -> Let's keep existing response if update failed
     } finally {
-      setLoading(false);
+      // A newer submission owns the loading state and the streaming preview
+      if (finishRequest(signal)) {
+        setLoading(false);
+        setStreamingPlan(null);
+      }
     }
   }, [
     isGroupMode, indivSubjects, indivHours, indivDifficulty, indivResponse, indivRefinementText,
     groupSubjects, groupHours, groupDifficulty, groupResponse, groupRefinementText,
-    members, teamName, teamMotto, studyStyle, generatePrompt, onAction
+    members, teamName, teamMotto, studyStyle, forceRefresh, generatePrompt, onAction, startRequest, finishRequest
   ]);
 
   const handleSaveResponse = useCallback(() => {
@@ -375,12 +333,13 @@ Please generate the schedule in clear Markdown tables as per your instructions.`
         toolName: ToolName.STUDY_ROUTINE,
         title: title,
         content: activeResponse,
+        promptVersion: (isGroupMode ? groupPromptVersion : indivPromptVersion) || undefined,
       });
       
       if (isGroupMode) setGroupIsSaved(true);
       else setIndivIsSaved(true);
     }
-  }, [isGroupMode, groupResponse, indivResponse, groupSubjects, indivSubjects, teamName, onSaveItem]);
+  }, [isGroupMode, groupResponse, indivResponse, groupPromptVersion, indivPromptVersion, groupSubjects, indivSubjects, teamName, onSaveItem]);
 
 
   // --- Render Individual Mode ---
@@ -520,7 +479,11 @@ Please generate the schedule in clear Markdown tables as per your instructions.`
 
         <div className="relative flex flex-col h-full bg-white rounded-xl shadow-lg overflow-hidden">
             <div className="flex-grow p-4 overflow-y-auto custom-scrollbar bg-gradient-to-br from-gray-50 to-purple-50">
-            {indivResponse ? (
+            {loading && streamingPlan ? (
+                <div className="prose max-w-none text-gray-800 border border-gray-100 rounded-xl p-4 shadow-sm bg-white">
+                <MarkdownRenderer content={streamingPlan} />
+                </div>
+            ) : indivResponse ? (
                 <div className="prose max-w-none text-gray-800 border border-gray-100 rounded-xl p-4 shadow-sm bg-white">
                 <MarkdownRenderer content={indivResponse} />
                 <div className="mt-4 text-right">
@@ -538,7 +501,7 @@ Please generate the schedule in clear Markdown tables as per your instructions.`
                 </div>
                 </div>
             ) : null}
-            {loading && (
+            {loading && !streamingPlan && (
                 <div className="flex justify-center p-4">
                 <Loader message="SLS is crafting your perfect study plan..." />
                 </div>
@@ -555,13 +518,18 @@ Please generate the schedule in clear Markdown tables as per your instructions.`
                 value={indivRefinementText}
                 onChange={(e) => setIndivRefinementText(e.target.value)}
             ></textarea>
-            <button
-                type="submit"
-                className={`w-full font-bold py-3 px-6 rounded-xl transition-all duration-300 transform hover:scale-[1.01] active:scale-[0.98] active:shadow-inner disabled:opacity-50 disabled:cursor-not-allowed shadow-xl hover:shadow-2xl focus:outline-none bg-gradient-to-r from-green-600 to-lime-600 hover:from-green-700 hover:to-lime-700 text-white focus:ring-lime-300`}
-                disabled={loading || !indivSubjects.trim()}
-            >
-                {loading ? 'Processing...' : (indivResponse ? 'Update Plan' : 'Generate Study Plan')}
-            </button>
+            <ForceRefreshToggle checked={forceRefresh} onChange={setForceRefresh} disabled={loading} className="mb-2" />
+            {loading ? (
+                <StopGeneratingButton onStop={abortRequest} />
+            ) : (
+                <button
+                    type="submit"
+                    className={`w-full font-bold py-3 px-6 rounded-xl transition-all duration-300 transform hover:scale-[1.01] active:scale-[0.98] active:shadow-inner disabled:opacity-50 disabled:cursor-not-allowed shadow-xl hover:shadow-2xl focus:outline-none bg-gradient-to-r from-green-600 to-lime-600 hover:from-green-700 hover:to-lime-700 text-white focus:ring-lime-300`}
+                    disabled={!indivSubjects.trim()}
+                >
+                    {indivResponse ? 'Update Plan' : 'Generate Study Plan'}
+                </button>
+            )}
             </form>
         </div>
         </div>
@@ -781,13 +749,28 @@ Please generate the schedule in clear Markdown tables as per your instructions.`
                     </div>
                 )}
 
-                 <button
-                    onClick={handleSubmit}
-                    disabled={loading || !groupSubjects.trim()}
-                    className="w-full py-4 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white font-bold rounded-2xl shadow-lg transition-transform transform hover:scale-[1.01] active:scale-[0.98] text-lg"
-                 >
-                    {loading ? 'Coordinating Squad...' : 'Generate Collaborative Plan 🚀'}
-                 </button>
+                 <ForceRefreshToggle checked={forceRefresh} onChange={setForceRefresh} disabled={loading} />
+
+                 {loading ? (
+                    <>
+                        {streamingPlan ? (
+                            <div className="prose max-w-none text-gray-800 bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+                                <MarkdownRenderer content={streamingPlan} />
+                            </div>
+                        ) : (
+                            <Loader message="Coordinating Squad..." />
+                        )}
+                        <StopGeneratingButton onStop={abortRequest} />
+                    </>
+                 ) : (
+                    <button
+                        onClick={handleSubmit}
+                        disabled={!groupSubjects.trim()}
+                        className="w-full py-4 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 text-white font-bold rounded-2xl shadow-lg transition-transform transform hover:scale-[1.01] active:scale-[0.98] text-lg"
+                    >
+                        Generate Collaborative Plan 🚀
+                    </button>
+                 )}
             </div>
         )}
 
@@ -818,7 +801,7 @@ Please generate the schedule in clear Markdown tables as per your instructions.`
                                 <button onClick={handleExportPDF} className="text-sm font-bold text-indigo-600 hover:underline print:hidden">Export Report 📄</button>
                             </div>
                             <div className="prose max-w-none text-gray-800">
-                                <MarkdownRenderer content={groupResponse} />
+                                <MarkdownRenderer content={loading && streamingPlan ? streamingPlan : groupResponse} />
                             </div>
                             
                             {/* Refinement Input */}
@@ -832,9 +815,15 @@ Please generate the schedule in clear Markdown tables as per your instructions.`
                                         onChange={(e) => setGroupRefinementText(e.target.value)}
                                         disabled={loading}
                                     />
-                                    <button type="submit" className="px-4 py-2 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 disabled:opacity-50">
-                                        {loading ? '...' : 'Update'}
-                                    </button>
+                                    {loading ? (
+                                        <button type="button" onClick={abortRequest} className="px-4 py-2 bg-white border-2 border-red-300 text-red-600 rounded-xl font-bold hover:bg-red-50">
+                                            ⏹ Stop
+                                        </button>
+                                    ) : (
+                                        <button type="submit" className="px-4 py-2 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 disabled:opacity-50">
+                                            Update
+                                        </button>
+                                    )}
                                 </form>
                             </div>
                          </div>
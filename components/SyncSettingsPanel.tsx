@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import {
+  SyncStatus, SyncError, getSyncConfig, getSyncStatus, subscribeToSyncStatus,
+  connectSync, disconnectSync, syncNow, generateSyncCode,
+} from '../utils/syncEngine';
+import { isVaultEnabled } from '../utils/vault';
+
+const DEFAULT_SERVER_URL = 'http://localhost:8787';
+
+const describeStatus = (status: SyncStatus): string => {
+  if (status.state === 'syncing') return 'Syncing...';
+  if (status.state === 'error') return status.error || 'The last sync failed.';
+  return status.lastSyncedAt ? `Last synced ${new Date(status.lastSyncedAt).toLocaleString()}` : 'Not synced yet.';
+};
+
+const SyncSettingsPanel: React.FC = () => {
+  const [config, setConfig] = useState(() => getSyncConfig());
+  const [status, setStatus] = useState<SyncStatus>(() => getSyncStatus());
+  const [serverUrl, setServerUrl] = useState<string>(DEFAULT_SERVER_URL);
+  const [syncCode, setSyncCode] = useState<string>('');
+  const [showCode, setShowCode] = useState<boolean>(false);
+  const [isConnecting, setIsConnecting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeToSyncStatus(setStatus), []);
+
+  const handleConnect = async () => {
+    setIsConnecting(true);
+    setError(null);
+    try {
+      await connectSync(serverUrl, syncCode || generateSyncCode());
+    } catch (err) {
+      console.error("Failed to connect to the sync server", err);
+      setError(err instanceof SyncError ? err.message : 'Could not connect to the sync server.');
+    } finally {
+      setConfig(getSyncConfig());
+      setIsConnecting(false);
+    }
+  };
+
+  const handleDisconnect = () => {
+    if (!window.confirm('Stop syncing this device? Your data stays here and on the server.')) return;
+    disconnectSync();
+    setConfig(null);
+  };
+
+  const inputClasses = "w-full p-3 border-2 border-purple-200 bg-purple-50 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-300 font-medium text-gray-800 text-sm";
+
+  return (
+    <div className="space-y-5 animate-fade-in">
+      <div>
+        <h3 className="text-lg font-bold text-gray-800 mb-1">🔄 Sync</h3>
+        <p className="text-sm text-gray-500">Keep saved work, XP, badges, streak and tool inputs the same on your laptop and phone through a sync server you run yourself (<code className="text-xs">npm run sync-server</code>).</p>
+      </div>
+
+      {isVaultEnabled() && (
+        <p className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+          🔐 While your vault is on, saved work and Homework Checker inputs stay on this device and aren't synced. Everything else is stored on the server unencrypted.
+        </p>
+      )}
+
+      {config ? (
+        <>
+          <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-gray-800 truncate">{config.serverUrl}</p>
+                <p className={`text-xs ${status.state === 'error' ? 'text-red-600 font-medium' : 'text-gray-500'}`} role="status">{describeStatus(status)}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => syncNow().catch(() => { /* Shown through the status line */ })}
+                disabled={status.state === 'syncing'}
+                className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100 disabled:opacity-50 shrink-0"
+              >
+                Sync Now
+              </button>
+            </div>
+          </div>
+
+          <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-2">
+            <p className="text-sm font-bold text-gray-800">Your sync code</p>
+            <p className="text-xs text-gray-500">Enter it on your other devices to share this data. Anyone with the code can read it, so keep it private.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-grow min-w-0 truncate text-sm bg-white border border-gray-200 rounded-lg px-3 py-1.5">
+                {showCode ? config.syncCode : '•'.repeat(16)}
+              </code>
+              <button type="button" onClick={() => setShowCode(!showCode)} className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100 shrink-0">
+                {showCode ? 'Hide' : 'Show'}
+              </button>
+              <button type="button" onClick={() => navigator.clipboard?.writeText(config.syncCode)} className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100 shrink-0">
+                Copy
+              </button>
+            </div>
+          </div>
+
+          <button
+            type="button"
+            onClick={handleDisconnect}
+            className="px-3 py-1.5 bg-white border border-red-200 rounded-lg text-xs font-bold text-red-600 hover:bg-red-50"
+          >
+            Stop Syncing
+          </button>
+        </>
+      ) : (
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="sync-server-url" className="block text-sm font-bold text-gray-700 mb-1">Server address</label>
+            <input
+              id="sync-server-url"
+              type="url"
+              className={inputClasses}
+              placeholder={DEFAULT_SERVER_URL}
+              value={serverUrl}
+              onChange={(e) => { setServerUrl(e.target.value); setError(null); }}
+            />
+          </div>
+          <div>
+            <label htmlFor="sync-code" className="block text-sm font-bold text-gray-700 mb-1">Sync code</label>
+            <input
+              id="sync-code"
+              type="text"
+              autoComplete="off"
+              spellCheck={false}
+              className={inputClasses}
+              placeholder="Leave empty on your first device to create one"
+              value={syncCode}
+              onChange={(e) => { setSyncCode(e.target.value); setError(null); }}
+            />
+            <p className="text-xs text-gray-400 mt-1">Connecting merges this device's data with what's already on the server; nothing is thrown away.</p>
+          </div>
+          {error && (
+            <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3" role="alert">{error}</p>
+          )}
+          <button
+            type="button"
+            onClick={handleConnect}
+            disabled={isConnecting || !serverUrl.trim() || (syncCode.length > 0 && syncCode.trim().length < 16)}
+            className="w-full py-3 rounded-xl font-bold transition-all duration-300 shadow-md bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-700 hover:to-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isConnecting ? 'Connecting...' : 'Connect'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncSettingsPanel;
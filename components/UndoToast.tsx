@@ -0,0 +1,43 @@
+import React, { useEffect } from 'react';
+
+export interface UndoToastMessage {
+  message: string;
+  actionLabel: string; // e.g. "Undo" or "Redo"
+  onAction: () => void;
+}
+
+interface UndoToastProps {
+  toast: UndoToastMessage;
+  onDismiss: () => void;
+}
+
+const AUTO_DISMISS_MS = 8000;
+
+// Bottom toast confirming a reversible action, with a button to reverse it.
+const UndoToast: React.FC<UndoToastProps> = ({ toast, onDismiss }) => {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, AUTO_DISMISS_MS);
+    return () => window.clearTimeout(timer);
+  }, [toast, onDismiss]);
+
+  return (
+    <div
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-md z-[55] flex items-center gap-3 px-4 py-3 rounded-xl shadow-2xl bg-gray-900 text-white animate-fade-in"
+      role="status"
+    >
+      <p className="flex-grow text-sm font-semibold">{toast.message}</p>
+      <button
+        type="button"
+        onClick={toast.onAction}
+        className="px-3 py-1.5 rounded-lg text-xs font-bold text-purple-200 hover:bg-white hover:bg-opacity-10 shrink-0"
+      >
+        {toast.actionLabel}
+      </button>
+      <button type="button" onClick={onDismiss} className="text-gray-400 hover:text-white p-1 shrink-0" aria-label="Dismiss">
+        ✕
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -0,0 +1,57 @@
+import React, { useState, useEffect } from 'react';
+import { UsageBudgetStatus, subscribeToBudgetWarnings } from '../services/usageTracker';
+
+interface UsageBudgetBannerProps {
+  onOpenUsage: () => void;
+}
+
+// Bottom banner shown when a request is made close to (or past) the daily AI budget.
+const UsageBudgetBanner: React.FC<UsageBudgetBannerProps> = ({ onOpenUsage }) => {
+  const [status, setStatus] = useState<UsageBudgetStatus | null>(null);
+  const [dismissedLevel, setDismissedLevel] = useState<UsageBudgetStatus['level'] | null>(null);
+
+  useEffect(() => subscribeToBudgetWarnings(setStatus), []);
+
+  // Dismissing a warning hides it until the budget is actually exceeded.
+  if (!status || status.level === 'ok' || status.level === dismissedLevel) {
+    return null;
+  }
+
+  const isExceeded = status.level === 'exceeded';
+  const isBlocking = isExceeded && status.budget.mode === 'block';
+  const message = isBlocking
+    ? 'That request would go over today\'s AI budget, so it wasn\'t sent.'
+    : isExceeded
+      ? 'That request takes you over today\'s AI budget.'
+      : `You're at ${Math.round(status.fractionUsed * 100)}% of today's AI budget.`;
+
+  return (
+    <div
+      className={`fixed bottom-4 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-xl z-40 flex items-center gap-3 px-4 py-3 rounded-xl shadow-2xl border-2 animate-fade-in ${
+        isExceeded ? 'bg-red-50 border-red-300 text-red-800' : 'bg-amber-50 border-amber-300 text-amber-800'
+      }`}
+      role="status"
+      aria-live="polite"
+    >
+      <span className="text-xl">{isExceeded ? '🛑' : '⚠️'}</span>
+      <p className="flex-grow text-sm font-semibold">{message}</p>
+      <button
+        type="button"
+        onClick={onOpenUsage}
+        className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100 shrink-0"
+      >
+        View usage
+      </button>
+      <button
+        type="button"
+        onClick={() => setDismissedLevel(status.level)}
+        className="text-gray-400 hover:text-gray-700 p-1 shrink-0"
+        aria-label="Dismiss budget warning"
+      >
+        ✕
+      </button>
+    </div>
+  );
+};
+
+export default UsageBudgetBanner;
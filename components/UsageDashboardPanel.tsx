@@ -0,0 +1,300 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { UsageBudget, UsageBudgetMode } from '../types';
+import {
+  UsageRecord, UsageBudgetStatus, listUsageRecords, summarizeUsage, getUsageDayKey, getUsageBudgetStatus,
+  purgeOldUsageRecords, clearUsageHistory,
+} from '../services/usageTracker';
+import { loadUsageBudget, saveUsageBudget } from '../utils/localStorageService';
+
+const PERIOD_OPTIONS = [7, 30] as const;
+type UsagePeriod = typeof PERIOD_OPTIONS[number];
+
+const formatTokens = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const formatCost = (costUsd: number): string => (costUsd > 0 && costUsd < 0.01 ? '<$0.01' : `$${costUsd.toFixed(2)}`);
+
+// Local day keys for the last `days` days, oldest first, so empty days still get a bar.
+const getRecentDayKeys = (days: number): string[] =>
+  Array.from({ length: days }, (_, index) => {
+    const date = new Date();
+    date.setDate(date.getDate() - (days - 1 - index));
+    return getUsageDayKey(date.getTime());
+  });
+
+const parseLimit = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const UsageDashboardPanel: React.FC = () => {
+  const [period, setPeriod] = useState<UsagePeriod>(7);
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [budgetStatus, setBudgetStatus] = useState<UsageBudgetStatus | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [budgetForm, setBudgetForm] = useState(() => {
+    const budget = loadUsageBudget();
+    return {
+      tokenLimit: budget.dailyTokenLimit?.toString() || '',
+      costLimit: budget.dailyCostLimitUsd?.toString() || '',
+      mode: budget.mode,
+    };
+  });
+  const [isBudgetSaved, setIsBudgetSaved] = useState<boolean>(true);
+
+  const refreshUsage = useCallback(async () => {
+    setLoading(true);
+    try {
+      const dayKeys = getRecentDayKeys(period);
+      const since = new Date(`${dayKeys[0]}T00:00:00`).getTime();
+      setRecords(await listUsageRecords(since));
+      setBudgetStatus(await getUsageBudgetStatus());
+      setError(null);
+    } catch (err) {
+      console.error("Failed to read usage records", err);
+      setError('Usage history is unavailable in this browser.');
+    } finally {
+      setLoading(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    purgeOldUsageRecords().catch(err => console.error("Failed to purge old usage records", err));
+  }, []);
+
+  useEffect(() => {
+    refreshUsage();
+  }, [refreshUsage]);
+
+  const handleSaveBudget = () => {
+    const budget: UsageBudget = {
+      dailyTokenLimit: parseLimit(budgetForm.tokenLimit),
+      dailyCostLimitUsd: parseLimit(budgetForm.costLimit),
+      mode: budgetForm.mode,
+    };
+    saveUsageBudget(budget);
+    setIsBudgetSaved(true);
+    refreshUsage();
+  };
+
+  const updateBudgetForm = (changes: Partial<typeof budgetForm>) => {
+    setBudgetForm(prev => ({ ...prev, ...changes }));
+    setIsBudgetSaved(false);
+  };
+
+  const handleClearHistory = async () => {
+    if (window.confirm('Delete all recorded AI usage? Today\'s budget will start from zero again.')) {
+      await clearUsageHistory();
+      refreshUsage();
+    }
+  };
+
+  const summary = summarizeUsage(records);
+  const dayKeys = getRecentDayKeys(period);
+  const maxDayTokens = Math.max(1, ...dayKeys.map(day => summary.byDay[day]?.totalTokens || 0));
+  const toolRows = Object.entries(summary.byTool).sort(([, a], [, b]) => b.totalTokens - a.totalTokens);
+  const hasLimit = Boolean(budgetStatus?.budget.dailyTokenLimit || budgetStatus?.budget.dailyCostLimitUsd);
+  const inputClasses = "w-full p-3 border-2 border-purple-200 bg-purple-50 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-300 font-medium text-gray-800 text-sm";
+
+  return (
+    <div className="space-y-5 animate-fade-in">
+      <div>
+        <h3 className="text-lg font-bold text-gray-800 mb-1">📊 Usage & Budget</h3>
+        <p className="text-sm text-gray-500">Tokens and estimated cost of every AI request, recorded on this device. Costs use list prices and are approximate; cached answers are free.</p>
+      </div>
+
+      {/* Today vs. budget */}
+      {budgetStatus && (
+        <div className="p-4 bg-gray-50 rounded-xl border border-gray-200">
+          <div className="flex justify-between items-baseline mb-2">
+            <p className="text-sm font-bold text-gray-800">Today</p>
+            <p className="text-xs text-gray-500">
+              {formatTokens(budgetStatus.tokensUsed)} tokens · {formatCost(budgetStatus.costUsd)}
+              {hasLimit && ` · ${Math.round(budgetStatus.fractionUsed * 100)}% of budget`}
+            </p>
+          </div>
+          {hasLimit ? (
+            <div className="w-full h-3 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all duration-500 ${
+                  budgetStatus.level === 'exceeded' ? 'bg-red-500' : budgetStatus.level === 'warning' ? 'bg-amber-400' : 'bg-emerald-500'
+                }`}
+                style={{ width: `${Math.min(100, budgetStatus.fractionUsed * 100)}%` }}
+              />
+            </div>
+          ) : (
+            <p className="text-xs text-gray-400">No daily budget set.</p>
+          )}
+        </div>
+      )}
+
+      {/* Period selector */}
+      <div className="flex gap-2">
+        {PERIOD_OPTIONS.map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setPeriod(option)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${
+              period === option ? 'bg-purple-600 text-white' : 'bg-white border border-gray-200 text-gray-600 hover:bg-gray-100'
+            }`}
+            aria-pressed={period === option}
+          >
+            Last {option} days
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-500 text-red-800 px-4 py-3 rounded-lg shadow-md text-sm" role="alert">{error}</div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading usage...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              { label: 'Requests', value: String(summary.totals.calls) },
+              { label: 'Tokens', value: formatTokens(summary.totals.totalTokens) },
+              { label: 'Est. cost', value: formatCost(summary.totals.costUsd) },
+              { label: 'Failed', value: String(summary.totals.failedCalls) },
+            ].map(stat => (
+              <div key={stat.label} className="p-3 bg-white rounded-xl border border-gray-200 text-center">
+                <p className="text-lg font-extrabold text-purple-700">{stat.value}</p>
+                <p className="text-xs font-bold text-gray-500 uppercase tracking-wide">{stat.label}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Per-day tokens */}
+          <div>
+            <p className="text-sm font-bold text-gray-700 mb-2">Tokens per day</p>
+            <div className="flex items-end gap-1 h-28 p-2 bg-gray-50 rounded-xl border border-gray-200">
+              {dayKeys.map(day => {
+                const dayTotals = summary.byDay[day];
+                const tokens = dayTotals?.totalTokens || 0;
+                return (
+                  <div
+                    key={day}
+                    className="flex-1 bg-gradient-to-t from-purple-500 to-fuchsia-400 rounded-t"
+                    style={{ height: `${Math.max(2, (tokens / maxDayTokens) * 100)}%`, opacity: tokens ? 1 : 0.25 }}
+                    title={`${day}: ${tokens} tokens · ${formatCost(dayTotals?.costUsd || 0)} · ${dayTotals?.calls || 0} requests`}
+                  />
+                );
+              })}
+            </div>
+            <div className="flex justify-between text-xs text-gray-400 mt-1">
+              <span>{dayKeys[0]}</span>
+              <span>Today</span>
+            </div>
+          </div>
+
+          {/* Per-tool table */}
+          {toolRows.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-4">No AI requests in this period.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase tracking-wide border-b border-gray-200">
+                    <th className="py-2 pr-2">Tool</th>
+                    <th className="py-2 px-2 text-right">Requests</th>
+                    <th className="py-2 px-2 text-right">Tokens in / out</th>
+                    <th className="py-2 px-2 text-right">Est. cost</th>
+                    <th className="py-2 pl-2 text-right">Avg latency</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {toolRows.map(([tool, totals]) => (
+                    <tr key={tool} className="border-b border-gray-100">
+                      <td className="py-2 pr-2 font-bold text-gray-700">{tool}</td>
+                      <td className="py-2 px-2 text-right text-gray-600">
+                        {totals.calls}{totals.failedCalls > 0 && <span className="text-red-500"> ({totals.failedCalls} failed)</span>}
+                      </td>
+                      <td className="py-2 px-2 text-right text-gray-600">{formatTokens(totals.promptTokens)} / {formatTokens(totals.candidateTokens)}</td>
+                      <td className="py-2 px-2 text-right text-gray-600">{formatCost(totals.costUsd)}</td>
+                      <td className="py-2 pl-2 text-right text-gray-600">{(totals.totalLatencyMs / totals.calls / 1000).toFixed(1)}s</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Budget settings */}
+      <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+        <div>
+          <p className="text-sm font-bold text-gray-800">💰 Daily budget</p>
+          <p className="text-xs text-gray-500">Applies to Gemini and OpenAI-compatible requests. Leave a limit empty to turn it off.</p>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="usage-token-limit" className="block text-sm font-bold text-gray-700 mb-1">Tokens per day</label>
+            <input
+              id="usage-token-limit"
+              type="number"
+              min="0"
+              step="1000"
+              className={inputClasses}
+              placeholder="e.g. 200000"
+              value={budgetForm.tokenLimit}
+              onChange={(e) => updateBudgetForm({ tokenLimit: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="usage-cost-limit" className="block text-sm font-bold text-gray-700 mb-1">Cost per day (USD)</label>
+            <input
+              id="usage-cost-limit"
+              type="number"
+              min="0"
+              step="0.01"
+              className={inputClasses}
+              placeholder="e.g. 0.50"
+              value={budgetForm.costLimit}
+              onChange={(e) => updateBudgetForm({ costLimit: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {([
+            { mode: 'warn', label: 'Warn me when close' },
+            { mode: 'block', label: 'Block requests over budget' },
+          ] as { mode: UsageBudgetMode; label: string }[]).map(option => (
+            <label key={option.mode} className="flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+              <input
+                type="radio"
+                name="usage-budget-mode"
+                className="h-4 w-4 text-purple-600 focus:ring-purple-500"
+                checked={budgetForm.mode === option.mode}
+                onChange={() => updateBudgetForm({ mode: option.mode })}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={handleSaveBudget}
+          disabled={isBudgetSaved}
+          className={`w-full py-2.5 rounded-xl font-bold transition-all duration-300 shadow-md text-sm ${
+            isBudgetSaved
+              ? 'bg-emerald-100 text-emerald-700 cursor-not-allowed'
+              : 'bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-700 hover:to-indigo-700'
+          }`}
+        >
+          {isBudgetSaved ? 'Budget saved' : 'Save Budget'}
+        </button>
+      </div>
+
+      <button type="button" onClick={handleClearHistory} disabled={loading} className="px-3 py-1.5 bg-white border border-red-200 rounded-lg text-xs font-bold text-red-600 hover:bg-red-50 disabled:opacity-50">
+        Clear usage history
+      </button>
+    </div>
+  );
+};
+
+export default UsageDashboardPanel;
@@ -0,0 +1,91 @@
+import React, { useState, FormEvent } from 'react';
+import { unlockVault, resetVault } from '../utils/vault';
+
+interface VaultLockScreenProps {
+  userName: string;
+  onUnlock: () => void;
+}
+
+// Full-screen passphrase prompt shown while the vault is locked.
+const VaultLockScreen: React.FC<VaultLockScreenProps> = ({ userName, onUnlock }) => {
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState<boolean>(false);
+  const [showForgotHelp, setShowForgotHelp] = useState<boolean>(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      if (await unlockVault(passphrase)) {
+        onUnlock();
+        return;
+      }
+      setError('That passphrase isn\'t right. Try again.');
+      setPassphrase('');
+    } catch (err) {
+      console.error("Failed to unlock the vault", err);
+      setError('Your data couldn\'t be decrypted. Please try again.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Delete your encrypted saved work and homework answers and turn the vault off? This can\'t be undone.')) return;
+    await resetVault();
+    onUnlock();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl max-w-sm w-full p-8 flex flex-col items-center text-center border-4 border-purple-100 animate-fade-in">
+        <div className="text-6xl mb-4 p-4 rounded-full bg-purple-50 shadow-xl">🔐</div>
+        <h2 className="text-2xl font-extrabold mb-2 bg-clip-text text-transparent bg-gradient-to-r from-purple-700 to-pink-500">
+          Vault Locked
+        </h2>
+        <p className="text-gray-600 mb-6">{userName}, enter your passphrase to open your saved work.</p>
+
+        <form onSubmit={handleSubmit} className="w-full space-y-2">
+          <input
+            type="password"
+            autoComplete="current-password"
+            className="w-full p-3 border-2 border-purple-200 bg-purple-50 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-300 font-medium text-gray-800"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => { setPassphrase(e.target.value); setError(null); }}
+            aria-label="Vault passphrase"
+            disabled={isUnlocking}
+            autoFocus
+          />
+          {error && <p className="text-red-600 text-xs font-medium">{error}</p>}
+          <button
+            type="submit"
+            disabled={isUnlocking || !passphrase}
+            className="w-full py-3 rounded-xl font-bold bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-700 hover:to-indigo-700 disabled:opacity-50"
+          >
+            {isUnlocking ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </form>
+
+        {!showForgotHelp ? (
+          <button type="button" onClick={() => setShowForgotHelp(true)} className="mt-4 text-sm font-bold text-purple-600 hover:underline">
+            Forgot your passphrase?
+          </button>
+        ) : (
+          <div className="mt-4 text-xs text-left text-red-800 bg-red-50 border border-red-200 rounded-lg p-3 space-y-2">
+            <p>Your saved work and homework answers are encrypted with your passphrase, and it isn't stored anywhere. Without it they can't be recovered.</p>
+            <p>You can start over: this deletes the encrypted data and turns the vault off. Your XP, badges and streak are kept.</p>
+            <button type="button" onClick={handleReset} className="px-3 py-1.5 bg-white border border-red-300 rounded-lg font-bold text-red-600 hover:bg-red-100">
+              Delete encrypted data
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VaultLockScreen;
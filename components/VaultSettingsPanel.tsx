@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import {
+  isVaultEnabled, enableVault, disableVault, lockVault,
+  getAutoLockMinutes, setAutoLockMinutes, MIN_PASSPHRASE_LENGTH,
+} from '../utils/vault';
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 10, label: 'After 10 minutes' },
+  { minutes: 30, label: 'After 30 minutes' },
+  { minutes: 0, label: 'Never' },
+];
+
+const VaultSettingsPanel: React.FC = () => {
+  const [enabled, setEnabled] = useState<boolean>(() => isVaultEnabled());
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [confirmation, setConfirmation] = useState<string>('');
+  const [acknowledged, setAcknowledged] = useState<boolean>(false);
+  const [autoLockMinutes, setAutoLockMinutesState] = useState<number>(() => getAutoLockMinutes());
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setPassphrase('');
+    setConfirmation('');
+    setAcknowledged(false);
+  };
+
+  const handleEnable = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError('The passphrases don\'t match.');
+      return;
+    }
+    setIsWorking(true);
+    setError(null);
+    try {
+      await enableVault(passphrase);
+      setEnabled(true);
+      setAutoLockMinutesState(getAutoLockMinutes());
+      resetForm();
+    } catch (err) {
+      console.error("Failed to enable the vault", err);
+      setError('The vault couldn\'t be set up in this browser.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (!(await disableVault(passphrase))) {
+        setError('That passphrase isn\'t right.');
+        return;
+      }
+      setEnabled(false);
+      resetForm();
+    } catch (err) {
+      console.error("Failed to disable the vault", err);
+      setError('The vault couldn\'t be turned off. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAutoLockChange = (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    setAutoLockMinutesState(minutes);
+  };
+
+  const inputClasses = "w-full p-3 border-2 border-purple-200 bg-purple-50 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-300 font-medium text-gray-800 text-sm";
+
+  return (
+    <div className="space-y-5 animate-fade-in">
+      <div>
+        <h3 className="text-lg font-bold text-gray-800 mb-1">🔐 Vault</h3>
+        <p className="text-sm text-gray-500">Encrypt your saved work and homework answers on this device with a passphrase (AES-GCM, key derived with PBKDF2). While it's on, Homework Checker and Mood answers aren't cached. Only this profile's data is affected.</p>
+      </div>
+
+      {enabled ? (
+        <>
+          <div className="p-4 bg-emerald-50 rounded-xl border border-emerald-200 flex items-center justify-between gap-3">
+            <p className="text-sm font-bold text-emerald-800">✅ Vault is on and unlocked.</p>
+            <button type="button" onClick={() => void lockVault()} className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100 shrink-0">
+              Lock Now
+            </button>
+          </div>
+
+          <div>
+            <label htmlFor="vault-auto-lock" className="block text-sm font-bold text-gray-700 mb-1">Auto-lock when idle</label>
+            <select
+              id="vault-auto-lock"
+              className={inputClasses}
+              value={autoLockMinutes}
+              onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+            >
+              {AUTO_LOCK_OPTIONS.map(option => (
+                <option key={option.minutes} value={option.minutes}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">Applies after the next unlock.</p>
+          </div>
+
+          <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+            <p className="text-sm font-bold text-gray-800">Turn the vault off</p>
+            <p className="text-xs text-gray-500">Your data will be stored unencrypted again.</p>
+            <input
+              type="password"
+              autoComplete="current-password"
+              className={inputClasses}
+              placeholder="Current passphrase"
+              value={passphrase}
+              onChange={(e) => { setPassphrase(e.target.value); setError(null); }}
+              aria-label="Current passphrase"
+            />
+            {error && <p className="text-red-600 text-xs font-medium">{error}</p>}
+            <button
+              type="button"
+              onClick={handleDisable}
+              disabled={isWorking || !passphrase}
+              className="px-3 py-1.5 bg-white border border-red-200 rounded-lg text-xs font-bold text-red-600 hover:bg-red-50 disabled:opacity-50"
+            >
+              {isWorking ? 'Decrypting...' : 'Turn Off Vault'}
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="space-y-3">
+          <div className="text-sm text-red-800 bg-red-50 border-2 border-red-200 rounded-xl p-4">
+            <p className="font-bold mb-1">⚠️ There is no way to recover a forgotten passphrase.</p>
+            <p>The passphrase is never stored or sent anywhere. If you forget it, your encrypted saved work and homework answers are lost for good. Export a backup first if you're unsure.</p>
+          </div>
+          <input
+            type="password"
+            autoComplete="new-password"
+            className={inputClasses}
+            placeholder={`New passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+            value={passphrase}
+            onChange={(e) => { setPassphrase(e.target.value); setError(null); }}
+            aria-label="New passphrase"
+          />
+          <input
+            type="password"
+            autoComplete="new-password"
+            className={inputClasses}
+            placeholder="Type it again"
+            value={confirmation}
+            onChange={(e) => { setConfirmation(e.target.value); setError(null); }}
+            aria-label="Confirm passphrase"
+          />
+          <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              className="h-4 w-4 mt-0.5 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+              checked={acknowledged}
+              onChange={(e) => setAcknowledged(e.target.checked)}
+            />
+            I understand that forgetting my passphrase means losing this data.
+          </label>
+          {error && <p className="text-red-600 text-xs font-medium">{error}</p>}
+          <button
+            type="button"
+            onClick={handleEnable}
+            disabled={isWorking || !acknowledged || !passphrase}
+            className="w-full py-3 rounded-xl font-bold transition-all duration-300 shadow-md bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-700 hover:to-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isWorking ? 'Encrypting...' : 'Turn On Vault'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VaultSettingsPanel;
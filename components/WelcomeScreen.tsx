@@ -2,9 +2,10 @@ import React, { useState, FormEvent, useEffect } from 'react';
 
 interface WelcomeScreenProps {
   onComplete: (name: string) => void;
+  onCancel?: () => void; // Set when adding another profile rather than setting up the first
 }
 
-const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onComplete }) => {
+const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onComplete, onCancel }) => {
   const [name, setName] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
 
@@ -22,10 +23,12 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onComplete }) => {
       <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full p-8 relative flex flex-col items-center text-center border-4 border-purple-100 animate-fade-in">
         <div className="text-8xl mb-6 p-4 rounded-full bg-purple-50 shadow-xl animate-float">🚀</div>
         <h2 className="text-3xl sm:text-4xl font-extrabold mb-4 drop-shadow-sm bg-clip-text text-transparent bg-gradient-to-r from-purple-700 to-pink-500">
-          Welcome to Student Life Solver!
+          {onCancel ? 'New Profile' : 'Welcome to Student Life Solver!'}
         </h2>
         <p className="text-lg sm:text-xl text-gray-700 mb-8 leading-relaxed max-w-md">
-          Before we begin, let's get to know you a bit. What should I call you?
+          {onCancel
+            ? 'Each profile keeps its own XP, badges and saved work. What\'s the new student\'s name?'
+            : 'Before we begin, let\'s get to know you a bit. What should I call you?'}
         </p>
 
         <form onSubmit={handleSubmit} className="w-full max-w-md space-y-4">
@@ -51,8 +54,13 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onComplete }) => {
             className="w-full px-8 py-4 font-bold rounded-xl transition-all duration-300 transform hover:scale-105 bg-gradient-to-r from-purple-600 to-indigo-600 text-white shadow-xl hover:from-purple-700 hover:to-indigo-700 hover:shadow-2xl focus:ring-4 focus:ring-purple-300 focus:outline-none"
             aria-label="Continue to the app"
           >
-            Continue to SLS!
+            {onCancel ? 'Create Profile' : 'Continue to SLS!'}
           </button>
+          {onCancel && (
+            <button type="button" onClick={onCancel} className="w-full text-sm font-bold text-gray-500 hover:text-purple-700">
+              Cancel
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { ActionType, SavedItem, XpLedgerEntry } from '../types';
+import { getSavedItemLinks, summarizeXpByDay, summarizeXpByTool } from '../utils/xpLedger';
+
+interface XpHistoryPanelProps {
+  xpLedger: XpLedgerEntry[];
+  savedItems: SavedItem[];
+  dayStartHour: number;
+}
+
+type HistoryView = 'day' | 'tool';
+
+const DAYS_PER_PAGE = 7;
+
+const ACTION_LABELS: Record<XpLedgerEntry['action'], string> = {
+  [ActionType.STUDY_PLAN_GENERATED]: 'Study plan generated',
+  [ActionType.NOTES_SUMMARIZED]: 'Notes summarized',
+  [ActionType.HOMEWORK_CHECKED]: 'Homework checked',
+  [ActionType.MOOD_UPDATED]: 'Mood check-in',
+  [ActionType.DECISION_MADE]: 'Decision made',
+  [ActionType.GRADE_PREDICTED]: 'Grade predicted',
+  [ActionType.PRESSURE_CALCULATED]: 'Deadline pressure calculated',
+  streakFreeze: 'Bought a streak freeze',
+  streakRepair: 'Repaired a broken streak',
+  questReward: 'Quest completed',
+  prestige: 'Prestiged: XP started again from zero',
+  savedItemLink: 'Saved a response',
+  carriedOver: 'XP earned before history was kept',
+};
+
+const formatDay = (date: string): string =>
+  date ? new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' }) : 'Earlier';
+
+const XpHistoryPanel: React.FC<XpHistoryPanelProps> = ({ xpLedger, savedItems, dayStartHour }) => {
+  const [view, setView] = useState<HistoryView>('day');
+  const [visibleDays, setVisibleDays] = useState<number>(DAYS_PER_PAGE);
+  const [openDay, setOpenDay] = useState<string | null>(null);
+
+  const days = useMemo(() => summarizeXpByDay(xpLedger, dayStartHour), [xpLedger, dayStartHour]);
+  const tools = useMemo(() => summarizeXpByTool(xpLedger), [xpLedger]);
+  const savedTitles = useMemo(() => new Map(savedItems.map(item => [item.id, item.title])), [savedItems]);
+  const savedItemLinks = useMemo(() => getSavedItemLinks(xpLedger), [xpLedger]);
+  const largestToolXp = Math.max(1, ...tools.map(tool => tool.xp));
+
+  const tabClasses = (tab: HistoryView) => `px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${
+    view === tab ? 'bg-purple-600 text-white' : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-100'
+  }`;
+
+  return (
+    <div className="bg-white p-5 mt-6 rounded-2xl shadow-md border border-gray-100">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+          📜 XP History
+        </h3>
+        <div className="flex gap-2" role="tablist">
+          <button type="button" role="tab" aria-selected={view === 'day'} onClick={() => setView('day')} className={tabClasses('day')}>By Day</button>
+          <button type="button" role="tab" aria-selected={view === 'tool'} onClick={() => setView('tool')} className={tabClasses('tool')}>By Tool</button>
+        </div>
+      </div>
+
+      {xpLedger.length === 0 ? (
+        <p className="text-gray-600 text-center py-4">No XP yet. Use any tool to earn your first points!</p>
+      ) : view === 'day' ? (
+        <>
+          <ul className="divide-y divide-gray-100">
+            {days.slice(0, visibleDays).map(day => (
+              <li key={day.date || 'earlier'}>
+                <button
+                  type="button"
+                  onClick={() => setOpenDay(openDay === day.date ? null : day.date)}
+                  aria-expanded={openDay === day.date}
+                  className="w-full flex items-center justify-between py-2 text-left hover:bg-gray-50 rounded-lg px-2"
+                >
+                  <span className="text-sm font-semibold text-gray-800">{formatDay(day.date)}</span>
+                  <span className="text-sm font-bold text-purple-700">{day.xp >= 0 ? '+' : ''}{day.xp} XP <span className="text-gray-400 font-normal">· {day.entries.length}</span></span>
+                </button>
+                {openDay === day.date && (
+                  <ul className="pl-4 pb-2 space-y-1">
+                    {day.entries.map(entry => (
+                      <li key={entry.id} className="flex items-start justify-between gap-3 text-xs text-gray-600">
+                        <span className="min-w-0">
+                          {day.date && <span className="text-gray-400 mr-2">{new Date(entry.timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}</span>}
+                          {ACTION_LABELS[entry.action]}
+                          {entry.folded && (
+                            <span className="text-gray-400"> × {entry.folded.length} in {new Date(entry.timestamp).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' })}</span>
+                          )}
+                          {entry.tool && <span className="text-gray-400"> · {entry.tool}</span>}
+                          {savedItemLinks.has(entry.id) && (
+                            <span className="block text-gray-500 truncate">💾 {savedTitles.get(savedItemLinks.get(entry.id)!) ?? 'Saved item (deleted)'}</span>
+                          )}
+                        </span>
+                        <span className={`font-bold shrink-0 ${entry.amount < 0 ? 'text-red-600' : 'text-gray-700'}`}>{entry.amount >= 0 ? '+' : ''}{entry.amount}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+          {days.length > visibleDays && (
+            <button
+              type="button"
+              onClick={() => setVisibleDays(visibleDays + DAYS_PER_PAGE)}
+              className="mt-3 px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 hover:bg-gray-100"
+            >
+              Show Older Days
+            </button>
+          )}
+        </>
+      ) : (
+        <ul className="space-y-3">
+          {tools.map(tool => (
+            <li key={tool.tool ?? 'carried-over'}>
+              <div className="flex justify-between text-sm">
+                <span className="font-semibold text-gray-800">{tool.tool ?? 'Before history was kept'}</span>
+                <span className="font-bold text-purple-700">{tool.xp} XP <span className="text-gray-400 font-normal">· {tool.awards} award{tool.awards === 1 ? '' : 's'}</span></span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
+                <div className="bg-purple-500 h-2 rounded-full" style={{ width: `${(tool.xp / largestToolXp) * 100}%` }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default XpHistoryPanel;
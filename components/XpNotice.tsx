@@ -0,0 +1,38 @@
+import React, { useEffect } from 'react';
+
+export interface XpNoticeMessage {
+  message: string;
+  withheld: boolean; // No XP at all, rather than a reduced amount
+}
+
+interface XpNoticeProps {
+  notice: XpNoticeMessage;
+  onDismiss: () => void;
+}
+
+const AUTO_DISMISS_MS = 6000;
+
+// Top toast explaining why an action earned less XP than usual (see utils/xpRules).
+const XpNotice: React.FC<XpNoticeProps> = ({ notice, onDismiss }) => {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, AUTO_DISMISS_MS);
+    return () => window.clearTimeout(timer);
+  }, [notice, onDismiss]);
+
+  return (
+    <div
+      className={`fixed top-4 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-md z-[55] flex items-center gap-3 px-4 py-3 rounded-xl shadow-2xl border animate-fade-in ${
+        notice.withheld ? 'bg-amber-50 border-amber-200 text-amber-900' : 'bg-purple-50 border-purple-200 text-purple-900'
+      }`}
+      role="status"
+    >
+      <span className="text-xl shrink-0" aria-hidden="true">{notice.withheld ? '⏳' : '✨'}</span>
+      <p className="flex-grow text-sm font-semibold">{notice.message}</p>
+      <button type="button" onClick={onDismiss} className="text-gray-400 hover:text-gray-700 p-1 shrink-0" aria-label="Dismiss">
+        ✕
+      </button>
+    </div>
+  );
+};
+
+export default XpNotice;
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { ActionType, XpRuleOverride } from '../types';
+import { XP_RULES, XpRule, getXpRule, saveXpRuleOverride, removeXpRuleOverride } from '../utils/xpRules';
+import { loadXpRuleOverrides } from '../utils/localStorageService';
+
+// The form keeps numbers as typed; an empty field switches that limit off.
+interface RuleDraft {
+  baseXp: string;
+  oncePerDay: boolean;
+  cooldownMinutes: string;
+  diminishingAfter: string;
+  diminishingPercent: string; // Each award past the limit is worth this share of the one before
+  dailyCap: string;
+  similarityPercent: string;
+}
+
+const toField = (value: number | undefined): string => (value === undefined ? '' : String(value));
+
+const toDraft = (rule: XpRule): RuleDraft => ({
+  baseXp: String(rule.baseXp),
+  oncePerDay: rule.oncePerDay ?? false,
+  cooldownMinutes: toField(rule.cooldownMinutes),
+  diminishingAfter: toField(rule.diminishing?.after),
+  diminishingPercent: toField(rule.diminishing && Math.round(rule.diminishing.factor * 100)),
+  dailyCap: toField(rule.dailyCap),
+  similarityPercent: toField(rule.duplicateSimilarity === undefined ? undefined : Math.round(rule.duplicateSimilarity * 100)),
+});
+
+const toNumber = (field: string): number | null => (field.trim() === '' || Number.isNaN(Number(field)) ? null : Number(field));
+
+/**
+ * Works out what differs from the built-in rule, so limits left alone keep
+ * following the built-in values.
+ */
+const toChanges = (draft: RuleDraft, builtIn: XpRule): Omit<XpRuleOverride, 'updatedAt'> => {
+  const after = toNumber(draft.diminishingAfter);
+  const percent = toNumber(draft.diminishingPercent);
+  const similarity = toNumber(draft.similarityPercent);
+  const wanted: Required<Omit<XpRuleOverride, 'updatedAt'>> = {
+    baseXp: toNumber(draft.baseXp) ?? builtIn.baseXp,
+    oncePerDay: draft.oncePerDay,
+    cooldownMinutes: toNumber(draft.cooldownMinutes),
+    diminishing: after !== null && percent !== null ? { after, factor: percent / 100 } : null,
+    dailyCap: toNumber(draft.dailyCap),
+    duplicateSimilarity: similarity === null ? null : similarity / 100,
+  };
+  const builtInValues: Record<string, unknown> = { ...builtIn, oncePerDay: builtIn.oncePerDay ?? false };
+  return Object.fromEntries(Object.entries(wanted)
+    .filter(([field, value]) => JSON.stringify(value) !== JSON.stringify(builtInValues[field] ?? null)));
+};
+
+const XpRulesSettingsPanel: React.FC = () => {
+  const actions = Object.values(ActionType);
+  const [selectedAction, setSelectedAction] = useState<ActionType>(actions[0]);
+  const [overrides, setOverrides] = useState(() => loadXpRuleOverrides());
+  const [draft, setDraft] = useState<RuleDraft>(() => toDraft(getXpRule(actions[0])));
+  const [isSaved, setIsSaved] = useState<boolean>(true);
+
+  const builtIn = XP_RULES[selectedAction];
+
+  // Load the selected action's rule into the form
+  useEffect(() => {
+    setDraft(toDraft(getXpRule(selectedAction)));
+    setIsSaved(true);
+  }, [selectedAction, overrides]);
+
+  const updateDraft = (changes: Partial<RuleDraft>) => {
+    setDraft(current => ({ ...current, ...changes }));
+    setIsSaved(false);
+  };
+
+  const handleSave = () => {
+    const changes = toChanges(draft, builtIn);
+    if (Object.keys(changes).length === 0) {
+      removeXpRuleOverride(selectedAction);
+    } else {
+      saveXpRuleOverride(selectedAction, changes);
+    }
+    setOverrides(loadXpRuleOverrides());
+  };
+
+  const handleReset = () => {
+    removeXpRuleOverride(selectedAction);
+    setOverrides(loadXpRuleOverrides());
+  };
+
+  const inputClasses = "w-full p-3 border-2 border-purple-200 bg-purple-50 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-300 font-medium text-gray-800 text-sm";
+  const numberField = (id: keyof RuleDraft, label: string, hint: string, max?: number) => (
+    <div>
+      <label htmlFor={`xp-rule-${id}`} className="block text-sm font-bold text-gray-700 mb-1">{label}</label>
+      <input
+        id={`xp-rule-${id}`}
+        type="number"
+        min={0}
+        max={max}
+        className={inputClasses}
+        value={draft[id] as string}
+        onChange={(e) => updateDraft({ [id]: e.target.value })}
+        placeholder="Off"
+      />
+      <p className="text-xs text-gray-400 mt-1">{hint}</p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-5 animate-fade-in">
+      <div>
+        <h3 className="text-lg font-bold text-gray-800 mb-1">⭐ XP Rules</h3>
+        <p className="text-sm text-gray-500">Choose how much XP each action earns and how it's limited. Leave a limit empty to switch it off. Changes apply from the next action.</p>
+      </div>
+
+      <div>
+        <label htmlFor="xp-rule-action" className="block text-sm font-bold text-gray-700 mb-1">Action</label>
+        <select
+          id="xp-rule-action"
+          className={inputClasses}
+          value={selectedAction}
+          onChange={(e) => setSelectedAction(e.target.value as ActionType)}
+        >
+          {actions.map(action => (
+            <option key={action} value={action}>
+              {XP_RULES[action].label.charAt(0).toUpperCase() + XP_RULES[action].label.slice(1)}{overrides[action] ? ' • customised' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {numberField('baseXp', 'XP per action', `Built-in: ${builtIn.baseXp} XP.`)}
+        {numberField('dailyCap', 'Daily XP limit', 'Most XP this action can earn in a day.')}
+        {numberField('cooldownMinutes', 'Cooldown (minutes)', 'Minimum time between two awards.')}
+        {numberField('similarityPercent', 'Repeat threshold (%)', 'Inputs at least this alike to a recent one earn nothing.', 100)}
+        {numberField('diminishingAfter', 'Full XP for the first', 'Awards per day before XP starts shrinking.')}
+        {numberField('diminishingPercent', 'Then each award is worth (%)', 'Share of the award before it.', 100)}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+          checked={draft.oncePerDay}
+          onChange={(e) => updateDraft({ oncePerDay: e.target.checked })}
+        />
+        Only the first one each day earns XP
+      </label>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaved}
+          className={`flex-grow py-3 rounded-xl font-bold transition-all duration-300 shadow-md ${
+            isSaved
+              ? 'bg-emerald-100 text-emerald-700 cursor-not-allowed'
+              : 'bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:from-purple-700 hover:to-indigo-700'
+          }`}
+        >
+          {isSaved ? 'Saved!' : 'Save Rule'}
+        </button>
+        <button
+          type="button"
+          onClick={handleReset}
+          disabled={!overrides[selectedAction]}
+          className="px-4 py-3 bg-white border border-gray-200 rounded-xl text-sm font-bold text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+        >
+          Use built-in
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default XpRulesSettingsPanel;
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+export interface AbortableRequest {
+  /** Cancels any in-flight request and returns the signal for a new one. */
+  startRequest: () => AbortSignal;
+  /** Cancels the in-flight request, if any (e.g. a Stop button). */
+  abortRequest: () => void;
+  /**
+   * Marks a request as settled. Returns true only if it is still the latest
+   * request, so a superseded request never resets shared state like `loading`.
+   */
+  finishRequest: (signal: AbortSignal) => boolean;
+}
+
+/**
+ * Tracks one in-flight AI request per component. Starting a new request aborts
+ * the previous one, and unmounting (e.g. switching tools) aborts whatever is
+ * still running, so abandoned responses never land in state or award XP.
+ *
+ * Usage: `const signal = startRequest();` pass `{ signal }` to the service call,
+ * ignore the result if `signal.aborted`, and guard the `finally` block with
+ * `finishRequest(signal)`.
+ * @returns The request controls.
+ */
+export const useAbortableRequest = (): AbortableRequest => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  const startRequest = useCallback((): AbortSignal => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  const abortRequest = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const finishRequest = useCallback((signal: AbortSignal): boolean => {
+    if (controllerRef.current?.signal !== signal) {
+      return false;
+    }
+    controllerRef.current = null;
+    return true;
+  }, []);
+
+  return { startRequest, abortRequest, finishRequest };
+};
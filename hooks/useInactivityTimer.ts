@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+
+// Events that count as the student still being at the device.
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Calls `onIdle` once no keyboard, mouse or touch activity has happened for
+ * `timeoutMs`. The timer restarts on every activity and is cleared on unmount.
+ * @param timeoutMs Idle time before `onIdle` runs; 0 or less disables the timer.
+ * @param onIdle Called when the timer runs out.
+ */
+export const useInactivityTimer = (timeoutMs: number, onIdle: () => void): void => {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (timeoutMs <= 0) {
+      return;
+    }
+    let timer = window.setTimeout(() => onIdleRef.current(), timeoutMs);
+    const resetTimer = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => onIdleRef.current(), timeoutMs);
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [timeoutMs]);
+};
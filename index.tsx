@@ -2,6 +2,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { initializePersistentStore } from './utils/persistentStore';
+import { initializeProfiles } from './utils/profileService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +11,13 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+// Saved work and progress are read synchronously, so load them (and run any
+// storage migrations) before the first render.
+initializePersistentStore().finally(() => {
+  initializeProfiles();
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
\ No newline at end of file
@@ -0,0 +1,164 @@
+// Minimal sync server for Student Life Solver. Stores one sync document per
+// sync code and hands out revisions so devices never overwrite each other's
+// changes; merging happens in the app (utils/syncEngine.ts).
+//
+//   npm run sync-server
+//
+// Environment:
+//   PORT                 Port to listen on (default 8787)
+//   SYNC_DATA_FILE       JSON file holding all documents (default server/sync-data.json)
+//   SYNC_ALLOWED_ORIGIN  Value for Access-Control-Allow-Origin (default *)
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = resolve(process.env.SYNC_DATA_FILE || resolve(dirname(fileURLToPath(import.meta.url)), 'sync-data.json'));
+const ALLOWED_ORIGIN = process.env.SYNC_ALLOWED_ORIGIN || '*';
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const MIN_SYNC_CODE_LENGTH = 16;
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/** @type {Record<string, { revision: number, document: unknown, updatedAt: string }>} */
+let documents = {};
+// Writes to the data file run one at a time; a failed write doesn't stop later ones
+let saveChain = Promise.resolve();
+
+const loadDocuments = async () => {
+  try {
+    documents = JSON.parse(await readFile(DATA_FILE, 'utf8'));
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+    documents = {};
+  }
+};
+
+const saveDocuments = () => {
+  const save = saveChain.then(async () => {
+    await mkdir(dirname(DATA_FILE), { recursive: true });
+    const tempFile = `${DATA_FILE}.tmp`;
+    await writeFile(tempFile, JSON.stringify(documents));
+    await rename(tempFile, DATA_FILE); // Replace in one step so a crash never leaves half a file
+  });
+  saveChain = save.catch(() => {});
+  return save;
+};
+
+// Documents are filed under a hash of the sync code, so the data file doesn't
+// contain codes that could be used to read someone else's data.
+const documentIdFor = (request) => {
+  const match = /^Bearer (.+)$/.exec(request.headers.authorization || '');
+  const syncCode = match?.[1].trim();
+  if (!syncCode || syncCode.length < MIN_SYNC_CODE_LENGTH) {
+    throw new HttpError(401, 'A sync code of at least 16 characters is required.');
+  }
+  return createHash('sha256').update(syncCode).digest('hex');
+};
+
+const readJsonBody = async (request) => {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'The sync document is too large.');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'The request body is not valid JSON.');
+  }
+};
+
+const sendJson = (response, status, body) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+  });
+  response.end(JSON.stringify(body));
+};
+
+const handleRequest = async (request, response) => {
+  const { pathname } = new URL(request.url, 'http://localhost');
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, {
+      'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+      'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      'Access-Control-Max-Age': '86400',
+    });
+    response.end();
+    return;
+  }
+
+  if (pathname === '/v1/health' && request.method === 'GET') {
+    sendJson(response, 200, { ok: true });
+    return;
+  }
+
+  if (pathname !== '/v1/sync') {
+    throw new HttpError(404, 'Not found.');
+  }
+
+  const documentId = documentIdFor(request);
+
+  if (request.method === 'GET') {
+    const stored = documents[documentId];
+    sendJson(response, 200, { revision: stored?.revision ?? 0, document: stored?.document ?? null });
+    return;
+  }
+
+  if (request.method === 'PUT') {
+    const { baseRevision, document } = await readJsonBody(request);
+    if (typeof baseRevision !== 'number' || typeof document !== 'object' || document === null) {
+      throw new HttpError(400, 'Expected { baseRevision, document }.');
+    }
+    // Read the stored revision only now, after the body has arrived: another PUT
+    // may have landed meanwhile. Check and write happen with no await between.
+    const currentRevision = documents[documentId]?.revision ?? 0;
+    if (baseRevision !== currentRevision) {
+      // Another device synced in between; the client pulls, merges and retries
+      sendJson(response, 409, { revision: currentRevision });
+      return;
+    }
+    const revision = currentRevision + 1;
+    const previous = documents[documentId];
+    const stored = { revision, document, updatedAt: new Date().toISOString() };
+    documents[documentId] = stored;
+    try {
+      await saveDocuments();
+    } catch (error) {
+      // Not on disk, so don't hand it out either (unless a later PUT already built on it)
+      if (documents[documentId] === stored) {
+        if (previous) documents[documentId] = previous;
+        else delete documents[documentId];
+      }
+      throw error;
+    }
+    sendJson(response, 200, { revision });
+    return;
+  }
+
+  throw new HttpError(405, 'Method not allowed.');
+};
+
+await loadDocuments();
+
+createServer((request, response) => {
+  handleRequest(request, response).catch(error => {
+    if (!(error instanceof HttpError)) console.error(error);
+    sendJson(response, error instanceof HttpError ? error.status : 500, { error: error instanceof HttpError ? error.message : 'Internal error.' });
+  });
+}).listen(PORT, () => {
+  console.log(`Sync server listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});
@@ -0,0 +1,98 @@
+import { GoogleGenAI } from "@google/genai";
+import { classifyError } from './llmErrors';
+import { loadGeminiApiKey, saveGeminiApiKey, clearGeminiApiKey } from '../utils/localStorageService';
+import { obfuscate, deobfuscate } from '../utils/obfuscation';
+
+// Model used for the validation call. countTokens is free and proves the key works.
+const VALIDATION_MODEL = 'gemini-2.5-flash';
+
+export type GeminiApiKeySource = 'stored' | 'build' | 'none';
+
+type ApiKeyRequestListener = () => void;
+const apiKeyRequestListeners = new Set<ApiKeyRequestListener>();
+
+/**
+ * Reads the key saved in the app, undoing obfuscation if it was applied.
+ * @returns The key, or undefined if none is stored or it can't be decoded.
+ */
+const readStoredKey = (): string | undefined => {
+  const storedKey = loadGeminiApiKey();
+  if (!storedKey?.value) {
+    return undefined;
+  }
+  try {
+    return storedKey.obfuscated ? deobfuscate(storedKey.value) : storedKey.value;
+  } catch (error) {
+    console.error("Stored Gemini API key could not be decoded:", error);
+    return undefined;
+  }
+};
+
+/**
+ * Returns the Gemini API key to use: the one entered in the app, else the
+ * `GEMINI_API_KEY` baked in at build time.
+ * @returns The key, or undefined if neither is set.
+ */
+export const getGeminiApiKey = (): string | undefined => readStoredKey() || process.env.API_KEY || undefined;
+
+export const getGeminiApiKeySource = (): GeminiApiKeySource => {
+  if (readStoredKey()) return 'stored';
+  return process.env.API_KEY ? 'build' : 'none';
+};
+
+/**
+ * Shortens a key for display, e.g. "AIza…x1Y2".
+ * @param key The API key.
+ * @returns The masked key.
+ */
+export const maskApiKey = (key: string): string =>
+  key.length <= 8 ? '••••' : `${key.slice(0, 4)}…${key.slice(-4)}`;
+
+/**
+ * Checks a Gemini API key with a free countTokens call.
+ * @param key The key to check.
+ * @param signal Optional AbortSignal to cancel the check.
+ * @throws LLMError describing why the key can't be used (invalid-key, network, quota...).
+ */
+export const validateGeminiApiKey = async (key: string, signal?: AbortSignal): Promise<void> => {
+  try {
+    const ai = new GoogleGenAI({ apiKey: key });
+    await ai.models.countTokens({ model: VALIDATION_MODEL, contents: 'ping', config: { abortSignal: signal } });
+  } catch (error) {
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Saves a Gemini API key for future requests.
+ * @param key The key, already validated.
+ * @param shouldObfuscate Whether to scramble the key in local storage.
+ */
+export const storeGeminiApiKey = (key: string, shouldObfuscate: boolean): void => {
+  saveGeminiApiKey({
+    value: shouldObfuscate ? obfuscate(key) : key,
+    obfuscated: shouldObfuscate,
+    savedAt: new Date().toISOString(),
+  });
+};
+
+export const removeGeminiApiKey = (): void => clearGeminiApiKey();
+
+/**
+ * Asks the app to show the API key prompt, e.g. when a request finds no key.
+ */
+export const requestApiKey = (): void => {
+  apiKeyRequestListeners.forEach(listener => listener());
+};
+
+/**
+ * Registers a listener for API key requests.
+ * @param listener Called when a request needs a Gemini API key.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToApiKeyRequests = (listener: ApiKeyRequestListener): (() => void) => {
+  apiKeyRequestListeners.add(listener);
+  return () => {
+    apiKeyRequestListeners.delete(listener);
+  };
+};
@@ -0,0 +1,191 @@
+import { ToolName, DecisionAnalysis, PressureAnalysis } from '../../types';
+
+// Canned responses for the offline fixture provider. Each one follows the format
+// the tool's system instruction asks for, so screens render exactly as they do
+// with a real model.
+
+const INDIVIDUAL_STUDY_PLAN = `### 1. 📅 Weekly Strategy Overview
+| Day | Primary Focus | Key Subjects |
+| :--- | :--- | :--- |
+| **Mon** | 🧱 Foundation | Mathematics, Physics |
+| **Tue** | 🧪 Practice | Chemistry |
+| **Wed** | 🧱 Foundation | Biology, English |
+| **Thu** | 🧪 Practice | Mathematics |
+| **Fri** | 🔁 Review | Physics, Chemistry |
+| **Sat** | 📝 Mock Test | All subjects |
+| **Sun** | 🌿 Rest & Light Review | Flashcards only |
+
+### 2. ☀️ The Daily Blueprint (Example Day)
+| Time | Activity | Specific Task |
+| :--- | :--- | :--- |
+| **4:00 PM** | 🧠 **Deep Work** | Mathematics: Learn new concepts |
+| **4:50 PM** | ☕ **Break** | Stretch & Hydrate |
+| **5:00 PM** | 📝 **Active Recall** | Physics: Flashcards & Quiz |
+| **5:50 PM** | ☕ **Break** | Walk around |
+| **6:00 PM** | 🧪 **Practice** | Chemistry: Past-paper questions |
+| **6:50 PM** | ✅ **Wrap-up** | Plan tomorrow's session |
+
+### 3. 🚀 Tactics & Balance
+| Category | Actionable Tip |
+| :--- | :--- |
+| **Strategy** | Use Spaced Repetition for Mathematics. |
+| **Health** | Sleep 8h. Drink water every hour. |
+| **Quote** | "Consistency beats intensity." |
+`;
+
+const GROUP_STUDY_PLAN = `### 1. 🚀 Team Snapshot
+| Metric | Value |
+| :--- | :--- |
+| **Team** | The Brainy Bunch |
+| **Motto** | "Work Hard, Dream Big" |
+| **Lead** | You |
+
+### 2. 📅 Collaborative Schedule
+| Time | Mode | Activity | Who |
+| :--- | :--- | :--- | :--- |
+| **10:00 AM** | 🤝 **Sync** | Goal Setting | All |
+| **10:15 AM** | 👤 **Solo** | Chapter Reading | You |
+| **11:00 AM** | 🤝 **Sync** | Teach-back round | All |
+| **12:00 PM** | ☕ **Break** | Lunch | All |
+
+### 3. 📋 Task Allocation
+| Member | Assigned Task | Reason |
+| :--- | :--- | :--- |
+| **You** | Summarize Ch. 4 | Strongest in Planning |
+`;
+
+const NOTES_SUMMARY = `### Summary
+- Photosynthesis converts light energy into chemical energy stored in glucose.
+- It happens in the chloroplasts, mainly in leaf mesophyll cells.
+
+### Key Points
+- **Light-dependent reactions** take place in the thylakoid membranes and produce ATP and NADPH.
+- **Calvin cycle** takes place in the stroma and fixes CO₂ into sugars.
+- Limiting factors: light intensity, CO₂ concentration and temperature.
+
+### Exam Tip
+- Always state *where* each stage happens and *what* it produces.
+`;
+
+const HOMEWORK_FEEDBACK = `### Evaluation Summary
+- Your answer is mostly correct and clearly written, but it misses one key cause.
+
+### Mistakes Found
+- The alliance system is described as the *only* cause of the war; it was one of several.
+
+### Missing Key Points
+- Militarism and the arms race between the great powers.
+- The assassination of Archduke Franz Ferdinand as the immediate trigger.
+`;
+
+const MOOD_SUPPORT = `### Empathy and Support
+- It sounds like a lot is on your plate right now, and feeling stressed about it is completely understandable.
+
+### Calming Technique
+- **Box breathing:**
+- Breathe in for 4 seconds.
+- Hold for 4 seconds.
+- Breathe out for 4 seconds.
+- Hold for 4 seconds, then repeat 4 times.
+
+### Productivity / Motivation Boost
+- Pick the single smallest task on your list and do just that for 10 minutes.
+- Put your phone in another room while you work.
+- Celebrate finishing it — momentum beats motivation.
+`;
+
+const GRADE_PREDICTION = `### 1. 📊 Grade Summary
+| Category | Result |
+| :--- | :--- |
+| **Predicted Grade** | **A** |
+| **Score Range** | **82-86%** |
+| **Confidence** | Medium |
+
+### 2. 🧠 Reasoning Analysis
+| Factor | Effect on Grade |
+| :--- | :--- |
+| **Study Consistency** | Regular sessions keep recall strong. |
+| **Subject Difficulty** | Medium difficulty leaves room to push higher. |
+| **Past Performance** | Recent scores sit in the low 80s. |
+| **Engagement (XP)** | Steady app usage shows good habits. |
+
+### 3. 🚀 Next Steps
+| Action | Impact |
+| :--- | :--- |
+| **Do 2 timed past papers** | Builds exam stamina. |
+| **Review mistakes weekly** | Stops repeated errors. |
+| **Teach a topic to a friend** | Exposes gaps in understanding. |
+`;
+
+const MOTIVATIONAL_MESSAGE = "You're building real momentum — every session stacks up, so keep that streak glowing! 🔥";
+
+const DECISION_ANALYSIS: DecisionAnalysis = {
+  overallRecommendation: "Study for the test tonight and plan something fun for the weekend — the test has a fixed date, the fun doesn't.",
+  scenarios: [
+    {
+      option: 'Option 1',
+      pros: ['Better preparation for the upcoming deadline', 'Less stress tomorrow'],
+      cons: ['Miss out on a social event'],
+    },
+    {
+      option: 'Option 2',
+      pros: ['Time with friends', 'A mental break'],
+      cons: ['Less preparation time', 'Likely to feel rushed later'],
+    },
+  ],
+};
+
+const PRESSURE_ANALYSIS: PressureAnalysis = {
+  pressureScore: 64,
+  pressureLevel: 'High',
+  forecastMessage: 'Pressure peaks mid-week, then eases after your test.',
+  healthBalanceMessage: 'Protect at least 7 hours of sleep on Tuesday and Wednesday.',
+  moodAdjustmentMessage: 'Your current mood added a small bump to the score.',
+  tasks: [
+    { name: 'History Essay', deadline: 'Friday', priorityScore: 72, pressureLevel: 'High' },
+    { name: 'Math Test', deadline: 'Monday', priorityScore: 85, pressureLevel: 'Critical' },
+    { name: 'Science Project', deadline: 'Next week', priorityScore: 40, pressureLevel: 'Medium' },
+  ],
+  rescheduledPlan: [
+    'Do two 45-minute math practice blocks before Monday.',
+    'Outline the history essay on Tuesday, draft it on Wednesday.',
+    'Move science project work to the weekend.',
+  ],
+  timelineData: [
+    { dayLabel: 'Mon', pressureValue: 78, mainStressor: 'exam' },
+    { dayLabel: 'Tue', pressureValue: 66, mainStressor: 'tasks' },
+    { dayLabel: 'Wed', pressureValue: 70, mainStressor: 'deadline' },
+    { dayLabel: 'Thu', pressureValue: 52, mainStressor: 'tasks' },
+    { dayLabel: 'Fri', pressureValue: 35, mainStressor: 'rest' },
+  ],
+  reliefTips: ['Take a 5-minute walk', 'Write tomorrow\'s top 3 tasks', 'Drink a glass of water'],
+  redZoneWarning: null,
+  overloadWarning: null,
+  weeklySummary: {
+    totalTasks: 3,
+    highStressDay: 'Mon',
+    lowStressDay: 'Fri',
+    suggestions: 'Front-load math practice to flatten the Monday peak.',
+  },
+  weeklyInsight: 'Most of this week\'s pressure comes from a single test — prepare early and the rest is manageable.',
+  forecastTrend: 'Improving',
+  previousWeekComparison: null,
+};
+
+export const DEFAULT_TEXT_FIXTURES: Record<ToolName, string> = {
+  [ToolName.DAILY_ACHIEVEMENTS]: MOTIVATIONAL_MESSAGE,
+  [ToolName.STUDY_ROUTINE]: INDIVIDUAL_STUDY_PLAN,
+  [ToolName.NOTES_CLEANER]: NOTES_SUMMARY,
+  [ToolName.HOMEWORK_CHECKER]: HOMEWORK_FEEDBACK,
+  [ToolName.MOOD_STRESS]: MOOD_SUPPORT,
+  [ToolName.DECISION_HELPER]: DECISION_ANALYSIS.overallRecommendation,
+  [ToolName.PREDICT_MY_GRADE]: GRADE_PREDICTION,
+  [ToolName.DEADLINE_PRESSURE]: PRESSURE_ANALYSIS.weeklyInsight,
+};
+
+export const DEFAULT_JSON_FIXTURES: Partial<Record<ToolName, unknown>> = {
+  [ToolName.DECISION_HELPER]: DECISION_ANALYSIS,
+  [ToolName.DEADLINE_PRESSURE]: PRESSURE_ANALYSIS,
+};
+
+export const GROUP_STUDY_PLAN_FIXTURE = GROUP_STUDY_PLAN;
@@ -1,144 +1,294 @@
-import { GoogleGenAI, GenerateContentResponse, Part, Content, Type } from "@google/genai";
-import { LLMConfig } from '../types';
+import { Part, Type } from "@google/genai";
+import { LLMConfig, LLMCallOptions } from '../types';
+import { getActiveProvider, LLMProvider, LLMRequest } from './llmProviders';
+import { getGeminiInstance } from './providers/geminiProvider';
+import { recordFixture } from './providers/fixtureProvider';
+import { LLMError, classifyError } from './llmErrors';
+import { validateAgainstSchema } from './schemaValidator';
+import { llmRequestQueue } from './requestQueue';
+import { isVaultPrivate, readCachedResponse, writeCachedResponse } from './responseCache';
+import { assertWithinUsageBudget, withUsageTracking } from './usageTracker';
+import { delay } from '../utils/abortable';
+
+// Retry policy for transient failures (rate limits, network errors).
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 10000;
+
+// Re-exported so existing imports keep working after the provider split.
+export { getGeminiInstance };
+
+/**
+ * Removes a surrounding Markdown code fence. Gemini honours `responseMimeType`,
+ * but OpenAI-compatible and local models often wrap JSON in ```json fences.
+ * @param text The raw response text.
+ * @returns The text without an enclosing fence.
+ */
+const stripJsonFences = (text: string): string => {
+  const fenced = text.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return fenced ? fenced[1] : text;
+};
+
+/**
+ * Parses a JSON response and validates it against the response schema.
+ * @param responseText The raw response text.
+ * @param responseSchema The schema sent as `responseSchema`.
+ * @returns The repaired value (undefined if the text isn't JSON) and any validation errors.
+ */
+const parseAndValidateJson = <T>(responseText: string, responseSchema: any): { value?: T; errors: string[] } => {
+  const jsonText = stripJsonFences(responseText.trim());
+  if (!jsonText) {
+    return { errors: ['The response was empty.'] };
+  }
+  let parsed: unknown;
+  // Attempt to parse JSON. Model might return non-JSON if constraints are not fully met.
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (parseError) {
+    console.error("Failed to parse AI response as JSON:", jsonText, parseError);
+    return { errors: ['The response was not valid JSON.'] };
+  }
+  const { value, errors, repairs } = validateAgainstSchema<T>(parsed, responseSchema);
+  if (repairs.length > 0) {
+    console.info("Repaired AI JSON response:", repairs);
+  }
+  return { value, errors };
+};
+
+/**
+ * Builds the follow-up prompt for a JSON response that failed validation.
+ * @param prompt The original prompt.
+ * @param previousResponse The invalid response text.
+ * @param errors The validation errors to fix.
+ * @returns The original prompt with the correction request appended.
+ */
+const buildRepairPrompt = (
+  prompt: string | (string | Part)[],
+  previousResponse: string,
+  errors: string[],
+): string | (string | Part)[] => {
+  const repairNote = `Your previous JSON response did not match the required schema.
+
+Problems found:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${previousResponse}
+
+Return the complete corrected JSON object only, fixing every problem listed above.`;
+  return typeof prompt === 'string' ? `${prompt}\n\n${repairNote}` : [...prompt, repairNote];
+};
+
+/**
+ * Runs a provider call through the shared request queue, retrying transient
+ * failures with exponential backoff and full jitter. Every failure is rethrown
+ * as a classified LLMError.
+ * @param task The provider call. Each attempt waits for its own queue slot.
+ * @param signal Optional signal; cancels queued attempts and pending backoff.
+ * @param canRetry Extra guard, e.g. to avoid retrying a stream that already emitted text.
+ * @returns The task's result.
+ */
+const runWithRetry = async <T>(
+  task: () => Promise<T>,
+  signal?: AbortSignal,
+  canRetry: () => boolean = () => true,
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await llmRequestQueue.run(task, signal);
+    } catch (error) {
+      const llmError = classifyError(error);
+      if (!llmError.retryable || attempt >= MAX_RETRIES || signal?.aborted || !canRetry()) {
+        throw llmError;
+      }
+      const backoffMs = Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+      console.warn(`AI request failed (${llmError.kind}), retrying in ${Math.round(backoffMs)}ms...`);
+      await delay(backoffMs, signal);
+    }
+  }
+};
+
+/**
+ * Keeps a successful answer: caches it and, when enabled, records it as a
+ * fixture (except answers the vault keeps private, since fixtures aren't encrypted).
+ * @param provider The provider that produced the answer.
+ * @param request The original request.
+ * @param text The final response text.
+ */
+const rememberResponse = (provider: LLMProvider, request: LLMRequest, text: string): void => {
+  if (request.settings.recordFixtures && provider.kind !== 'fixture' && !isVaultPrivate(request.config.tool)) {
+    recordFixture(request, text);
+  }
+  void writeCachedResponse(request, text);
+};
 
 /**
- * Creates and returns a new GoogleGenAI instance.
- * It's crucial to create a new instance before each API call to ensure
- * the latest API key (e.g., from `process.env.API_KEY` which is updated
- * after `openSelectKey()`) is used.
- * @returns GoogleGenAI instance.
+ * Logs and rethrows a failure as an LLMError. Cancellations are not logged.
+ * @param error The caught value.
+ * @param context Label for the console message.
  */
-export const getGeminiInstance = (): GoogleGenAI => {
-  if (!process.env.API_KEY) {
-    console.error("API_KEY environment variable is not set.");
-    throw new Error("API Key is not configured. Please select your API key.");
+const rethrowAsLLMError = (error: unknown, context: string): never => {
+  const llmError = classifyError(error);
+  if (llmError.kind !== 'aborted') {
+    console.error(`${context}:`, llmError);
   }
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+  throw llmError;
 };
 
 /**
  * Calls the Gemini API to generate content based on a prompt and configuration.
+ * Requests are routed through the provider selected in settings (Gemini by default),
+ * so the same call works against OpenAI-compatible or local servers. Every provider
+ * call is recorded for the usage dashboard and checked against the daily budget.
  * @param prompt The user's input prompt, can be a string or an array of (string | Part) for multimodal input.
  * @param model The Gemini model to use (default: 'gemini-2.5-flash').
  * @param config Optional LLM configuration (systemInstruction, temperature, etc.).
+ * @param options Optional call options (`signal`, `forceRefresh` to bypass the response cache).
  * @returns The generated text response.
- * @throws Error if the API call fails or no text is returned.
+ * @throws LLMError if the API call fails or no text is returned; kind is 'budget' if the daily budget blocks it.
  */
 export const callGeminiApi = async (
   prompt: string | (string | Part)[],
   model: string = 'gemini-2.5-flash',
   config?: LLMConfig,
+  options?: LLMCallOptions,
 ): Promise<string> => {
   try {
-    const ai = getGeminiInstance();
-
-    // Fix: Ensure that if prompt is an array, all elements are correctly typed as Part
-    let contents: string | Content;
-    if (typeof prompt === 'string') {
-      contents = prompt;
-    } else {
-      // Map string elements to { text: string } to conform to the Part type
-      const parts: Part[] = prompt.map(item =>
-        typeof item === 'string' ? { text: item } : item
-      );
-      contents = { parts: parts };
+    const { provider, settings } = getActiveProvider();
+    const request: LLMRequest = { prompt, model, config: config || {}, settings, signal: options?.signal };
+    const cached = options?.forceRefresh ? null : await readCachedResponse(request);
+    if (cached !== null) {
+      return cached;
     }
+    await assertWithinUsageBudget(provider, request);
+    const text = await runWithRetry(
+      () => withUsageTracking(provider, request, tracked => provider.generateText(tracked)),
+      options?.signal,
+    );
+    rememberResponse(provider, request, text);
+    return text;
+  } catch (error) {
+    return rethrowAsLLMError(error, "Error calling Gemini API");
+  }
+};
 
-    const requestConfig = {
-      model: model,
-      contents: contents,
-      config: {
-        systemInstruction: config?.systemInstruction,
-        temperature: config?.temperature || 0.7,
-        topK: config?.topK || 64,
-        topP: config?.topP || 0.95,
-        responseMimeType: config?.responseMimeType, // Pass through if provided
-        responseSchema: config?.responseSchema,     // Pass through if provided
-        // maxOutputTokens and thinkingBudget can be omitted to let the model decide,
-        // or set explicitly if needed for specific tasks.
-      },
-    };
-
-    const response: GenerateContentResponse = await ai.models.generateContent(requestConfig);
-
-    const text = response.text;
-    if (text === undefined || text === null) {
-      // For multimodal responses, the text property directly extracts text from suitable parts.
-      // If no direct text, iterate through candidates' parts to find text.
-      const textParts = response.candidates?.[0]?.content?.parts?.filter(p => p.text)?.map(p => p.text).join('\n');
-      if (textParts) return textParts;
-      throw new Error("Gemini API returned an empty or non-textual response where text was expected.");
+/**
+ * Streaming variant of `callGeminiApi`. Partial text is reported as it arrives,
+ * so tools can render long Markdown answers progressively instead of waiting
+ * for the whole response.
+ * @param prompt The user's input prompt, can be a string or an array of (string | Part) for multimodal input.
+ * @param onText Called with the accumulated response text after each chunk.
+ * @param model The Gemini model to use (default: 'gemini-2.5-flash').
+ * @param config Optional LLM configuration (systemInstruction, temperature, etc.).
+ * @param options Optional call options; `signal` cancels the stream (e.g., a Stop button), `forceRefresh` bypasses the cache.
+ * @returns The complete generated text.
+ * @throws LLMError as in `callGeminiApi`; kind is 'aborted' if the request was cancelled.
+ */
+export const callGeminiApiStream = async (
+  prompt: string | (string | Part)[],
+  onText: (textSoFar: string) => void,
+  model: string = 'gemini-2.5-flash',
+  config?: LLMConfig,
+  options?: LLMCallOptions,
+): Promise<string> => {
+  try {
+    const { provider, settings } = getActiveProvider();
+    const request: LLMRequest = { prompt, model, config: config || {}, settings, signal: options?.signal };
+    const cached = options?.forceRefresh ? null : await readCachedResponse(request);
+    if (cached !== null) {
+      onText(cached);
+      return cached;
     }
+    await assertWithinUsageBudget(provider, request);
+    let hasEmittedText = false;
+    const text = await runWithRetry(
+      () => withUsageTracking(provider, request, tracked => provider.generateTextStream(tracked, (textSoFar) => {
+        hasEmittedText = true;
+        onText(textSoFar);
+      })),
+      options?.signal,
+      // Once text is on screen a retry would restart it, so surface the error instead.
+      () => !hasEmittedText,
+    );
+    rememberResponse(provider, request, text);
     return text;
-  } catch (error: any) {
-    console.error("Error calling Gemini API:", error);
-    if (error.message && error.message.includes("Requested entity was not found.")) {
-      // Specific error handling for API key issues
-      throw new Error("API Key might be invalid or not selected. Please re-select your API key. (Details: " + error.message + ")");
-    }
-    throw new Error(`Failed to get response from AI: ${error.message || "Unknown error"}`);
+  } catch (error) {
+    return rethrowAsLLMError(error, "Error streaming from Gemini API");
   }
 };
 
 /**
  * Calls the Gemini API to generate structured JSON content based on a prompt and configuration.
+ * The parsed result is validated against `responseSchema`: recoverable issues are
+ * repaired in place, and anything else triggers one re-prompt listing the problems.
  * @param prompt The user's input prompt, can be a string or an array of (string | Part) for multimodal input.
  * @param responseSchema The schema defining the expected JSON output structure.
  * @param model The Gemini model to use (default: 'gemini-2.5-flash').
  * @param config Optional LLM configuration (systemInstruction, temperature, etc.).
- * @returns The generated JSON response as a parsed object of type T.
- * @throws Error if the API call fails, no JSON is returned, or JSON parsing fails.
+ * @param options Optional call options (`signal`, `forceRefresh` to bypass the response cache).
+ * @returns The generated JSON response as a parsed object of type T, guaranteed to match the schema's shape.
+ * @throws LLMError if the API call fails; kind is 'parse' if no valid JSON is returned.
  */
 export const callGeminiApiJson = async <T>(
   prompt: string | (string | Part)[],
   responseSchema: { type: Type; properties?: any; items?: any; },
   model: string = 'gemini-2.5-flash',
   config?: LLMConfig,
+  options?: LLMCallOptions,
 ): Promise<T> => {
   try {
-    const ai = getGeminiInstance();
-
-    let contents: string | Content;
-    if (typeof prompt === 'string') {
-      contents = prompt;
-    } else {
-      const parts: Part[] = prompt.map(item =>
-        typeof item === 'string' ? { text: item } : item
-      );
-      contents = { parts: parts };
-    }
-
-    const requestConfig = {
-      model: model,
-      contents: contents,
+    const { provider, settings } = getActiveProvider();
+    const request: LLMRequest = {
+      prompt,
+      model,
       config: {
-        systemInstruction: config?.systemInstruction,
-        temperature: config?.temperature || 0.7,
-        topK: config?.topK || 64,
-        topP: config?.topP || 0.95,
+        ...config,
         responseMimeType: "application/json", // Crucial for JSON output
         responseSchema: responseSchema,      // Crucial for structured JSON
       },
+      settings,
+      signal: options?.signal,
     };
+    const cached = options?.forceRefresh ? null : await readCachedResponse(request);
+    if (cached !== null) {
+      const cachedResult = parseAndValidateJson<T>(cached, responseSchema);
+      if (cachedResult.value !== undefined && cachedResult.errors.length === 0) {
+        return cachedResult.value;
+      }
+    }
+    await assertWithinUsageBudget(provider, request);
+    const responseText = await runWithRetry(
+      () => withUsageTracking(provider, request, tracked => provider.generateText(tracked)),
+      options?.signal,
+    );
+    let result = parseAndValidateJson<T>(responseText, responseSchema);
 
-    const response: GenerateContentResponse = await ai.models.generateContent(requestConfig);
-
-    const jsonText = response.text?.trim();
-    if (!jsonText) {
-      throw new Error("Gemini API returned an empty JSON response.");
+    if (result.errors.length > 0) {
+      // One automatic repair attempt: show the model its answer and what was wrong with it.
+      console.warn("AI JSON response failed validation, requesting a repair:", result.errors);
+      const repairRequest = { ...request, prompt: buildRepairPrompt(prompt, responseText, result.errors) };
+      await assertWithinUsageBudget(provider, repairRequest); // The repair is a second paid request
+      const repairedText = await runWithRetry(
+        () => withUsageTracking(provider, repairRequest, tracked => provider.generateText(tracked)),
+        options?.signal,
+      );
+      const repaired = parseAndValidateJson<T>(repairedText, responseSchema);
+      if (repaired.value !== undefined && (result.value === undefined || repaired.errors.length <= result.errors.length)) {
+        result = repaired;
+      }
     }
-    // Attempt to parse JSON. Model might return non-JSON if constraints are not fully met.
-    try {
-      return JSON.parse(jsonText) as T;
-    } catch (parseError) {
-      console.error("Failed to parse AI response as JSON:", jsonText, parseError);
-      throw new Error("AI did not return a valid JSON format. Raw response: " + jsonText);
+
+    if (result.value === undefined) {
+      throw new LLMError('parse', "AI did not return a valid JSON format. Raw response: " + responseText);
     }
-  } catch (error: any) {
-    console.error("Error calling Gemini JSON API:", error);
-    if (error.message && error.message.includes("Requested entity was not found.")) {
-      throw new Error("API Key might be invalid or not selected. Please re-select your API key. (Details: " + error.message + ")");
+    if (result.errors.length > 0) {
+      // Still usable: every invalid field was replaced by a schema default. Not worth caching though.
+      console.warn("AI JSON response still invalid after repair; using defaults for:", result.errors);
+    } else {
+      rememberResponse(provider, request, JSON.stringify(result.value));
     }
-    throw new Error(`Failed to get JSON response from AI: ${error.message || "Unknown error"}`);
+    return result.value;
+  } catch (error) {
+    return rethrowAsLLMError(error, "Error calling Gemini JSON API");
   }
 };
\ No newline at end of file
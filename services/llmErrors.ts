@@ -0,0 +1,102 @@
+export type LLMErrorKind =
+  | 'missing-key'  // No API key configured for the active provider
+  | 'invalid-key'  // Key rejected by the backend (401/403, or Gemini's "Requested entity was not found.")
+  | 'quota'        // 429 / RESOURCE_EXHAUSTED
+  | 'safety'       // Prompt or answer blocked by the model's safety filters
+  | 'network'      // Connection failure or a temporarily unavailable server (5xx)
+  | 'parse'        // Response did not match the requested JSON format
+  | 'budget'       // Refused locally because the request would go over today's usage budget
+  | 'aborted'      // Cancelled by the caller
+  | 'unknown';
+
+// Transient failures that are worth retrying automatically.
+const RETRYABLE_KINDS: LLMErrorKind[] = ['quota', 'network'];
+
+/**
+ * Error thrown by the AI service layer. `kind` drives retries and the message
+ * shown to students; `message` keeps the technical details for the console.
+ */
+export class LLMError extends Error {
+  kind: LLMErrorKind;
+  status?: number;
+
+  constructor(kind: LLMErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Maps an HTTP status code to an error kind.
+ * @param status The HTTP status code.
+ * @returns The matching LLMErrorKind.
+ */
+export const kindFromHttpStatus = (status: number): LLMErrorKind => {
+  if (status === 401 || status === 403) return 'invalid-key';
+  if (status === 429) return 'quota';
+  if (status === 408 || status >= 500) return 'network';
+  return 'unknown';
+};
+
+/**
+ * Normalizes anything thrown by a provider (SDK ApiError, fetch TypeError,
+ * AbortError, plain Error) into an LLMError.
+ * @param error The caught value.
+ * @returns An LLMError; LLMErrors are returned unchanged.
+ */
+export const classifyError = (error: unknown): LLMError => {
+  if (error instanceof LLMError) {
+    return error;
+  }
+  const err = error as { name?: string; message?: string; status?: unknown } | null;
+  const message = err?.message || String(error) || 'Unknown error';
+
+  if (err?.name === 'AbortError') {
+    return new LLMError('aborted', message);
+  }
+  if (message.includes('Requested entity was not found.') || /API key not valid|API_KEY_INVALID/i.test(message)) {
+    return new LLMError('invalid-key', message, typeof err?.status === 'number' ? err.status : undefined);
+  }
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new LLMError('quota', message, 429);
+  }
+  if (typeof err?.status === 'number') {
+    return new LLMError(kindFromHttpStatus(err.status), message, err.status);
+  }
+  // fetch() rejects with a TypeError when the server can't be reached at all.
+  if (err?.name === 'TypeError' || /Failed to fetch|NetworkError|network/i.test(message)) {
+    return new LLMError('network', message);
+  }
+  return new LLMError('unknown', message);
+};
+
+const ACTIONABLE_MESSAGES: Record<Exclude<LLMErrorKind, 'unknown'>, string> = {
+  'missing-key': 'No API key is set up yet. Enter your Gemini API key when asked, or add a key for your AI provider in Settings (⚙️).',
+  'invalid-key': 'Your API key was rejected. Switch to a valid key in Settings (⚙️) → AI Provider.',
+  quota: 'Usage limit reached. Please wait a minute before trying again.',
+  safety: 'The AI declined to answer because the request was flagged by its safety filters. Try rephrasing your input.',
+  network: 'Couldn\'t reach the AI service. Check your internet connection (or that your local model server is running) and try again.',
+  parse: 'The AI\'s answer came back in an unexpected format. Please try again.',
+  budget: 'This request would go over today\'s AI budget. Raise or remove the daily limit in Settings (⚙️) → Usage & Budget, or try again tomorrow.',
+  aborted: 'The request was cancelled.',
+};
+
+/**
+ * Turns any error into a message a student can act on, for tool error banners.
+ * @param error The caught value.
+ * @param fallback Message used when the failure can't be classified.
+ * @returns A user-facing message.
+ */
+export const getActionableErrorMessage = (
+  error: unknown,
+  fallback: string = 'Something went wrong while talking to the AI. Please try again.',
+): string => {
+  const { kind } = classifyError(error);
+  return kind === 'unknown' ? fallback : ACTIONABLE_MESSAGES[kind];
+};
@@ -0,0 +1,66 @@
+import { Part } from "@google/genai";
+import { LLMConfig, LLMProviderKind, LLMProviderSettings } from '../types';
+import { loadLlmProviderSettings } from '../utils/localStorageService';
+import { geminiProvider } from './providers/geminiProvider';
+import { openAiCompatibleProvider, localServerProvider } from './providers/chatCompletionsProvider';
+import { fixtureProvider } from './providers/fixtureProvider';
+
+// Token counts for one generation, as reported by the backend.
+export interface LLMTokenUsage {
+  promptTokens: number;
+  candidateTokens: number; // Includes thinking tokens, which are billed as output
+  totalTokens: number;
+}
+
+/**
+ * A single generation request as seen by a provider. The prompt keeps the same
+ * shape the tools already pass to `callGeminiApi`, so providers can translate it
+ * into whatever wire format their backend expects.
+ */
+export interface LLMRequest {
+  prompt: string | (string | Part)[];
+  model: string;
+  config: LLMConfig;
+  settings: LLMProviderSettings;
+  signal?: AbortSignal;
+  onUsage?: (usage: LLMTokenUsage) => void; // Called once with the backend's token counts, when it reports them
+}
+
+/**
+ * Contract every AI backend implements. `generateText` must return the raw text
+ * of the first candidate; JSON parsing is left to the service layer.
+ * `generateTextStream` reports the accumulated text after every chunk and
+ * resolves with the complete text.
+ */
+export interface LLMProvider {
+  kind: LLMProviderKind;
+  label: string;
+  defaultBaseUrl?: string; // Shown as a placeholder in settings for HTTP-based providers
+  defaultModel?: string;
+  generateText: (request: LLMRequest) => Promise<string>;
+  generateTextStream: (request: LLMRequest, onText: (textSoFar: string) => void) => Promise<string>;
+}
+
+const PROVIDERS: Record<LLMProviderKind, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openAiCompatibleProvider,
+  local: localServerProvider,
+  fixture: fixtureProvider,
+};
+
+/**
+ * Lists every registered provider, in the order they should appear in settings.
+ * @returns An array of LLMProvider.
+ */
+export const getAvailableProviders = (): LLMProvider[] => Object.values(PROVIDERS);
+
+/**
+ * Resolves the provider selected in settings. Settings are read on every call
+ * so switching backends takes effect without reloading the app.
+ * @returns The active provider together with its saved settings.
+ */
+export const getActiveProvider = (): { provider: LLMProvider; settings: LLMProviderSettings } => {
+  const settings = loadLlmProviderSettings();
+  const provider = PROVIDERS[settings.kind] || PROVIDERS.gemini;
+  return { provider, settings };
+};
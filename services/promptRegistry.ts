@@ -0,0 +1,117 @@
+import { PromptId, PromptOverride, PromptOverrideMode, PromptTemplate } from '../types';
+import { DEFAULT_PROMPTS } from './prompts/defaultPrompts';
+import { loadPromptOverrides, savePromptOverrides } from '../utils/localStorageService';
+import { hashString } from '../utils/hash';
+
+// Share of requests that get the custom text while a prompt is being A/B tested.
+export const AB_TEST_CUSTOM_SHARE = 0.5;
+
+const PROMPTS_BY_ID = Object.fromEntries(DEFAULT_PROMPTS.map(prompt => [prompt.id, prompt])) as Record<PromptId, PromptTemplate>;
+
+export type PromptVariables = Record<string, string | number>;
+
+export interface ResolvedPrompt {
+  id: PromptId;
+  version: string; // e.g. "homeworkChecker.system@1", or "homeworkChecker.system@1-custom.1a2b3c4d" for an override
+  variant: 'default' | 'custom';
+  text: string;
+}
+
+/**
+ * Lists every registered prompt template, in registry order.
+ * @returns An array of PromptTemplate.
+ */
+export const getPromptTemplates = (): PromptTemplate[] => DEFAULT_PROMPTS;
+
+export const getPromptTemplate = (id: PromptId): PromptTemplate => PROMPTS_BY_ID[id];
+
+/**
+ * Replaces {{name}} placeholders with values. Unknown placeholders are left in
+ * place so a typo in a custom prompt is visible rather than silently dropped.
+ * @param template The template text.
+ * @param variables Values by placeholder name.
+ * @returns The rendered text.
+ */
+export const renderTemplate = (template: string, variables: PromptVariables = {}): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? String(variables[name]) : placeholder
+  );
+
+/**
+ * Finds declared variables a custom template doesn't use, e.g. to warn that
+ * the student's input would never reach the model.
+ * @param template The template text.
+ * @param variables The variable names the tool provides.
+ * @returns The unused variable names.
+ */
+export const findMissingVariables = (template: string, variables: string[]): string[] =>
+  variables.filter(name => !new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(template));
+
+/**
+ * Builds the version label recorded with results. Custom text is identified by
+ * its hash, so results always trace back to the exact wording that produced them.
+ * @param template The built-in template.
+ * @param override The override in effect, if the custom text was used.
+ * @returns A version such as "notesCleaner.system@1" or "notesCleaner.system@1-custom.1a2b3c4d".
+ */
+export const getPromptVersion = (template: PromptTemplate, override?: PromptOverride): string =>
+  override
+    ? `${template.id}@${template.version}-custom.${hashString(override.template)}`
+    : `${template.id}@${template.version}`;
+
+const pickVariant = (override?: PromptOverride): ResolvedPrompt['variant'] => {
+  if (!override) return 'default';
+  if (override.mode === 'replace') return 'custom';
+  return Math.random() < AB_TEST_CUSTOM_SHARE ? 'custom' : 'default';
+};
+
+/**
+ * Resolves a prompt for one request: applies any override (or A/B assignment)
+ * from settings and fills in the variables. Overrides are read on every call
+ * so edits apply to the next request.
+ * @param id The prompt ID.
+ * @param variables Values for the template's placeholders.
+ * @returns The rendered text together with the version that produced it.
+ */
+export const resolvePrompt = (id: PromptId, variables: PromptVariables = {}): ResolvedPrompt => {
+  const template = PROMPTS_BY_ID[id];
+  const override = loadPromptOverrides()[id];
+  const variant = pickVariant(override);
+  const usedOverride = variant === 'custom' ? override : undefined;
+  return {
+    id,
+    variant,
+    version: getPromptVersion(template, usedOverride),
+    text: renderTemplate(usedOverride ? usedOverride.template : template.template, variables),
+  };
+};
+
+/**
+ * Combines the versions of every prompt used in one request, for `LLMConfig.promptVersion`
+ * and `SavedItem.promptVersion`.
+ * @param prompts The resolved prompts.
+ * @returns A comma-separated version list.
+ */
+export const joinPromptVersions = (...prompts: ResolvedPrompt[]): string =>
+  prompts.map(prompt => prompt.version).join(', ');
+
+export const splitPromptVersions = (promptVersion?: string): string[] =>
+  promptVersion ? promptVersion.split(', ') : [];
+
+/**
+ * Saves a custom version of a prompt.
+ * @param id The prompt ID.
+ * @param template The custom template text.
+ * @param mode How the custom text is used.
+ * @returns The stored override.
+ */
+export const savePromptOverride = (id: PromptId, template: string, mode: PromptOverrideMode): PromptOverride => {
+  const override: PromptOverride = { template, mode, updatedAt: new Date().toISOString() };
+  savePromptOverrides({ ...loadPromptOverrides(), [id]: override });
+  return override;
+};
+
+export const removePromptOverride = (id: PromptId): void => {
+  const { [id]: _removed, ...remaining } = loadPromptOverrides();
+  savePromptOverrides(remaining);
+};
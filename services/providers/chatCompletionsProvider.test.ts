@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Type } from '@google/genai';
+import { localServerProvider, openAiCompatibleProvider, toJsonSchema } from './chatCompletionsProvider';
+
+const respondWith = (body: unknown, status = 200) => {
+  const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('toJsonSchema', () => {
+  it('converts Gemini types to JSON Schema', () => {
+    const schema = {
+      type: Type.OBJECT,
+      properties: {
+        score: { type: Type.INTEGER, minimum: 0, maximum: 10 },
+        tags: { type: Type.ARRAY, items: { type: Type.STRING, enum: ['a', 'b'] } },
+        note: { type: Type.STRING, nullable: true, description: 'Optional' },
+      },
+      required: ['score'],
+    };
+    expect(toJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        score: { type: 'integer', minimum: 0, maximum: 10 },
+        tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] } },
+        note: { type: ['string', 'null'], description: 'Optional' },
+      },
+      required: ['score'],
+    });
+  });
+});
+
+describe('chat completions providers', () => {
+  it('post the prompt, with the schema in the system message, and return the reply', async () => {
+    const fetchMock = respondWith({ choices: [{ message: { content: '{"ok":true}' } }] });
+    const text = await localServerProvider.generateText({
+      prompt: 'Check this',
+      model: 'gemini-2.5-flash',
+      config: { systemInstruction: 'Be brief.', responseSchema: { type: Type.OBJECT, properties: { ok: { type: Type.BOOLEAN } } } },
+      settings: { kind: 'local', baseUrl: 'http://localhost:8080/v1/' },
+    });
+    expect(text).toBe('{"ok":true}');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    const body = JSON.parse(String(init.body));
+    expect(body.model).toBe('llama3.1');
+    expect(body.response_format).toEqual({ type: 'json_object' });
+    expect(body.messages[0].content).toContain('Be brief.');
+    expect(body.messages[0].content).toContain('"ok":{"type":"boolean"}');
+    expect(body.messages[1]).toEqual({ role: 'user', content: 'Check this' });
+  });
+
+  it('send an explicit temperature and top-p of 0', async () => {
+    const fetchMock = respondWith({ choices: [{ message: { content: 'Hi' } }] });
+    await localServerProvider.generateText({ prompt: 'Hi', model: 'm', config: { temperature: 0, topP: 0 }, settings: { kind: 'local' } });
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1].body))).toMatchObject({ temperature: 0, top_p: 0 });
+  });
+
+  it('need an API key for hosted endpoints', async () => {
+    await expect(openAiCompatibleProvider.generateText({ prompt: 'Hi', model: 'm', config: {}, settings: { kind: 'openai' } }))
+      .rejects.toThrow('API Key is not configured');
+  });
+
+  it('report failed and empty responses', async () => {
+    respondWith({ error: 'busy' }, 503);
+    await expect(localServerProvider.generateText({ prompt: 'Hi', model: 'm', config: {}, settings: { kind: 'local' } }))
+      .rejects.toThrow('status 503');
+    respondWith({ choices: [] });
+    await expect(localServerProvider.generateText({ prompt: 'Hi', model: 'm', config: {}, settings: { kind: 'local' } }))
+      .rejects.toThrow('empty or non-textual');
+  });
+});
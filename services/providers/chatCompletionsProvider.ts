@@ -0,0 +1,272 @@
+import { Part, Schema } from "@google/genai";
+import type { LLMProvider, LLMRequest, LLMTokenUsage } from '../llmProviders';
+import { LLMError, kindFromHttpStatus } from '../llmErrors';
+import { LLMProviderKind } from '../../types';
+
+interface ChatCompletionsOptions {
+  kind: LLMProviderKind;
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+}
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  required?: string[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+}
+
+/**
+ * Converts a Gemini `Type`-based response schema into plain JSON Schema so it can
+ * be embedded in the system prompt of OpenAI-style backends.
+ * @param schema A Gemini response schema (Type.OBJECT, Type.ARRAY, ...).
+ * @returns The equivalent JSON Schema object.
+ */
+export const toJsonSchema = (schema: Schema): JsonSchema => {
+  const converted: JsonSchema = {};
+  if (schema.type) {
+    const type = String(schema.type).toLowerCase();
+    converted.type = schema.nullable ? [type, 'null'] : type;
+  }
+  if (schema.description) converted.description = schema.description;
+  if (schema.enum) converted.enum = schema.enum;
+  if (schema.minimum !== undefined) converted.minimum = schema.minimum;
+  if (schema.maximum !== undefined) converted.maximum = schema.maximum;
+  if (schema.required) converted.required = schema.required;
+  if (schema.items) converted.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return converted;
+};
+
+/**
+ * Maps a tool prompt into chat-completions message content. Images are sent as
+ * data URLs; other inline files (e.g. PDFs) are not supported by most
+ * OpenAI-compatible servers, so they are replaced by a short notice.
+ * @param prompt A plain string or a mixed array of strings and Parts.
+ * @returns A string or an array of content parts.
+ */
+const buildUserContent = (prompt: LLMRequest['prompt']): string | ChatContentPart[] => {
+  if (typeof prompt === 'string') {
+    return prompt;
+  }
+  return prompt.map((item: string | Part): ChatContentPart => {
+    if (typeof item === 'string') {
+      return { type: 'text', text: item };
+    }
+    if (item.inlineData?.data) {
+      const mimeType = item.inlineData.mimeType || 'application/octet-stream';
+      if (mimeType.startsWith('image/')) {
+        return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${item.inlineData.data}` } };
+      }
+      return { type: 'text', text: `[Attached ${mimeType} file omitted: this AI provider only accepts text and images.]` };
+    }
+    return { type: 'text', text: item.text || '' };
+  });
+};
+
+/**
+ * Builds the system message, appending the JSON schema when structured output
+ * is requested since not every compatible server supports `json_schema` mode.
+ * @param config The LLM configuration for the request.
+ * @returns The system prompt text, or undefined if there is none.
+ */
+const buildSystemContent = (config: LLMRequest['config']): string | undefined => {
+  if (!config.responseSchema) {
+    return config.systemInstruction;
+  }
+  const schemaNote = `Respond ONLY with a single JSON object (no Markdown fences) that matches this JSON Schema:\n${JSON.stringify(toJsonSchema(config.responseSchema))}`;
+  return config.systemInstruction ? `${config.systemInstruction}\n\n${schemaNote}` : schemaNote;
+};
+
+/**
+ * Reads the OpenAI-style `usage` object of a response or final stream event.
+ * @param usage The `usage` field, if present.
+ * @returns The token usage, or undefined if the server didn't report it.
+ */
+const parseUsage = (usage: unknown): LLMTokenUsage | undefined => {
+  if (!usage || typeof usage !== 'object') {
+    return undefined;
+  }
+  const { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: totalTokens } = usage as Record<string, unknown>;
+  if (typeof promptTokens !== 'number') {
+    return undefined;
+  }
+  const candidateTokens = typeof completionTokens === 'number' ? completionTokens : 0;
+  return { promptTokens, candidateTokens, totalTokens: typeof totalTokens === 'number' && totalTokens ? totalTokens : promptTokens + candidateTokens };
+};
+
+/**
+ * Reads a server-sent events body and yields the `data:` payload of each event.
+ * @param body The streaming response body.
+ * @returns An async generator of event payload strings.
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          yield line.slice(5).trim();
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Creates a provider for servers implementing the OpenAI `/chat/completions`
+ * API. Ollama (`/v1`), llama.cpp's `llama-server`, LM Studio and vLLM all expose
+ * this endpoint, so a single implementation covers hosted and self-hosted models.
+ * @param options Defaults and labelling for the provider.
+ * @returns An LLMProvider.
+ */
+const createChatCompletionsProvider = (options: ChatCompletionsOptions): LLMProvider => {
+  /**
+   * Sends the chat-completions request and returns the successful HTTP response.
+   * @param request The provider request.
+   * @param stream Whether to ask the server for server-sent events.
+   */
+  const postChatCompletion = async ({ prompt, config, settings, signal }: LLMRequest, stream: boolean): Promise<Response> => {
+    const baseUrl = (settings.baseUrl || options.defaultBaseUrl).replace(/\/+$/, '');
+    if (options.requiresApiKey && !settings.apiKey) {
+      throw new LLMError('missing-key', `API Key is not configured for ${options.label}. Please add it in Settings.`);
+    }
+
+    const messages: { role: 'system' | 'user'; content: string | ChatContentPart[] }[] = [];
+    const systemContent = buildSystemContent(config);
+    if (systemContent) {
+      messages.push({ role: 'system', content: systemContent });
+    }
+    messages.push({ role: 'user', content: buildUserContent(prompt) });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      headers.Authorization = `Bearer ${settings.apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        // Tool components request Gemini model names, which these servers don't know.
+        model: settings.model || options.defaultModel,
+        messages,
+        temperature: config.temperature ?? 0.7,
+        top_p: config.topP ?? 0.95,
+        ...(config.responseSchema ? { response_format: { type: 'json_object' } } : {}),
+        // include_usage adds a final event with token counts (ignored by servers that don't support it)
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new LLMError(
+        kindFromHttpStatus(response.status),
+        `${options.label} request failed with status ${response.status}. ${details}`.trim(),
+        response.status,
+      );
+    }
+    return response;
+  };
+
+  const emptyResponseError = () =>
+    new Error(`${options.label} returned an empty or non-textual response where text was expected.`);
+
+  return {
+    kind: options.kind,
+    label: options.label,
+    defaultBaseUrl: options.defaultBaseUrl,
+    defaultModel: options.defaultModel,
+    generateText: async (request: LLMRequest): Promise<string> => {
+      const response = await postChatCompletion(request, false);
+      const data = await response.json();
+      const usage = parseUsage(data?.usage);
+      if (usage) {
+        request.onUsage?.(usage);
+      }
+      if (data?.choices?.[0]?.finish_reason === 'content_filter') {
+        throw new LLMError('safety', `${options.label} withheld the response (content_filter).`);
+      }
+      const text = data?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string' || !text) {
+        throw emptyResponseError();
+      }
+      return text;
+    },
+    generateTextStream: async (request: LLMRequest, onText: (textSoFar: string) => void): Promise<string> => {
+      const response = await postChatCompletion(request, true);
+      if (!response.body) {
+        throw emptyResponseError();
+      }
+      let text = '';
+      let usage: LLMTokenUsage | undefined;
+      for await (const payload of readServerSentEvents(response.body)) {
+        if (payload === '[DONE]') break;
+        try {
+          const event = JSON.parse(payload);
+          usage = parseUsage(event?.usage) || usage;
+          const choice = event?.choices?.[0];
+          if (choice?.finish_reason === 'content_filter') {
+            throw new LLMError('safety', `${options.label} withheld the response (content_filter).`);
+          }
+          const delta = choice?.delta?.content;
+          if (typeof delta === 'string' && delta) {
+            text += delta;
+            onText(text);
+          }
+        } catch (error) {
+          if (error instanceof LLMError) throw error;
+          // Ignore keep-alive comments or malformed events and keep reading.
+        }
+      }
+      if (usage) {
+        request.onUsage?.(usage);
+      }
+      if (!text) {
+        throw emptyResponseError();
+      }
+      return text;
+    },
+  };
+};
+
+export const openAiCompatibleProvider = createChatCompletionsProvider({
+  kind: 'openai',
+  label: 'OpenAI-compatible endpoint',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  defaultModel: 'gpt-4o-mini',
+  requiresApiKey: true,
+});
+
+export const localServerProvider = createChatCompletionsProvider({
+  kind: 'local',
+  label: 'Local server (Ollama / llama.cpp)',
+  defaultBaseUrl: 'http://localhost:11434/v1',
+  defaultModel: 'llama3.1',
+  requiresApiKey: false,
+});
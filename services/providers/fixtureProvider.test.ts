@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { ToolName } from '../../types';
+import { loadRecordedFixtures } from '../../utils/localStorageService';
+import { MAX_RECORDED_FIXTURES, deleteRecordedFixtures, getFixtureKey, recordFixture } from './fixtureProvider';
+
+const request = (prompt: string, tool = ToolName.NOTES_CLEANER) => ({ prompt, config: { tool } });
+
+describe('recordFixture', () => {
+  it('keeps only the most recent recordings', () => {
+    for (let i = 0; i <= MAX_RECORDED_FIXTURES; i++) recordFixture(request(`notes ${i}`), `answer ${i}`);
+    recordFixture(request('notes 1'), 'answer 1 again');
+    recordFixture(request('notes new'), 'new answer');
+    const fixtures = loadRecordedFixtures();
+    expect(Object.keys(fixtures)).toHaveLength(MAX_RECORDED_FIXTURES);
+    expect(fixtures[getFixtureKey(request('notes 0'))]).toBeUndefined();
+    expect(fixtures[getFixtureKey(request('notes 2'))]).toBeUndefined();
+    expect(fixtures[getFixtureKey(request('notes 1'))]).toBe('answer 1 again');
+  });
+});
+
+describe('deleteRecordedFixtures', () => {
+  it("deletes only the given tools' recordings", () => {
+    recordFixture(request('notes'), 'summary');
+    recordFixture(request('homework', ToolName.HOMEWORK_CHECKER), 'feedback');
+    deleteRecordedFixtures([ToolName.HOMEWORK_CHECKER]);
+    expect(Object.values(loadRecordedFixtures())).toEqual(['summary']);
+  });
+});
@@ -0,0 +1,160 @@
+import { Part } from "@google/genai";
+import type { LLMProvider, LLMRequest } from '../llmProviders';
+import { DecisionAnalysis, ToolName } from '../../types';
+import { DEFAULT_JSON_FIXTURES, DEFAULT_TEXT_FIXTURES, GROUP_STUDY_PLAN_FIXTURE } from '../fixtures/defaultFixtures';
+import { loadRecordedFixtures, saveRecordedFixtures } from '../../utils/localStorageService';
+import { hashString, stableStringify } from '../../utils/hash';
+import { delay } from '../../utils/abortable';
+
+// Recordings live in localStorage, so only the most recent ones are kept.
+export const MAX_RECORDED_FIXTURES = 100;
+// Small artificial delay so loaders and transitions still show up in demos.
+const FIXTURE_LATENCY_MS = 300;
+// Pace of simulated streaming, so progressive rendering can be exercised offline.
+const FIXTURE_STREAM_CHUNK_MS = 40;
+const FIXTURE_STREAM_WORDS_PER_CHUNK = 3;
+
+/**
+ * Computes the lookup key for a request: the issuing tool plus a hash of
+ * everything that shapes the answer (prompt parts, system instruction and
+ * whether JSON was requested). Model and temperature are deliberately left out
+ * so recordings replay regardless of which backend produced them.
+ * @param request The provider request.
+ * @returns A key such as "Homework Checker:1a2b3c4d".
+ */
+export const getFixtureKey = ({ prompt, config }: Pick<LLMRequest, 'prompt' | 'config'>): string => {
+  const parts: Part[] = typeof prompt === 'string'
+    ? [{ text: prompt }]
+    : prompt.map(item => (typeof item === 'string' ? { text: item } : item));
+  const fingerprint = stableStringify({
+    parts,
+    systemInstruction: config.systemInstruction || '',
+    json: Boolean(config.responseSchema),
+  });
+  return `${config.tool || 'untagged'}:${hashString(fingerprint)}`;
+};
+
+/**
+ * Stores a real response so the fixture provider can replay it later. Past
+ * MAX_RECORDED_FIXTURES, the oldest recordings are dropped.
+ * @param request The request that produced the response.
+ * @param text The raw response text.
+ */
+export const recordFixture = (request: Pick<LLMRequest, 'prompt' | 'config'>, text: string): void => {
+  const fixtures = loadRecordedFixtures();
+  const key = getFixtureKey(request);
+  delete fixtures[key]; // Recording it again makes it the newest
+  fixtures[key] = text;
+  const keys = Object.keys(fixtures);
+  keys.slice(0, Math.max(0, keys.length - MAX_RECORDED_FIXTURES)).forEach(oldKey => delete fixtures[oldKey]);
+  saveRecordedFixtures(fixtures);
+};
+
+/**
+ * Deletes the recordings made by some tools.
+ * @param tools The tools whose recordings go.
+ */
+export const deleteRecordedFixtures = (tools: ToolName[]): void => {
+  const fixtures = loadRecordedFixtures();
+  saveRecordedFixtures(Object.fromEntries(Object.entries(fixtures).filter(([key]) => !tools.some(tool => key.startsWith(`${tool}:`)))));
+};
+
+/**
+ * Builds a minimal value that satisfies a Gemini response schema. Used when a
+ * JSON request comes from a tool without a hand-written fixture.
+ * @param schema A Gemini response schema.
+ * @returns A schema-valid sample value.
+ */
+export const sampleFromSchema = (schema: any): unknown => {
+  switch (String(schema?.type).toUpperCase()) {
+    case 'OBJECT':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, sampleFromSchema(value)])
+      );
+    case 'ARRAY':
+      return [sampleFromSchema(schema.items)];
+    case 'NUMBER':
+    case 'INTEGER':
+      return schema.minimum ?? 50;
+    case 'BOOLEAN':
+      return false;
+    case 'STRING':
+      return schema.enum?.[0] ?? 'Sample text';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Pulls "Option N: ..." lines out of a prompt so the canned decision analysis
+ * talks about the choices the user actually typed.
+ * @param promptText The flattened prompt text.
+ * @returns The DecisionAnalysis fixture with scenario names filled in.
+ */
+const personalizeDecisionFixture = (promptText: string): DecisionAnalysis => {
+  const base = DEFAULT_JSON_FIXTURES[ToolName.DECISION_HELPER] as DecisionAnalysis;
+  const options = [...promptText.matchAll(/^Option \d+: (.+)$/gm)].map(match => match[1].trim());
+  if (options.length === 0) {
+    return base;
+  }
+  return {
+    ...base,
+    scenarios: options.map((option, index) => ({
+      ...base.scenarios[index % base.scenarios.length],
+      option,
+    })),
+  };
+};
+
+const flattenPromptText = (prompt: LLMRequest['prompt']): string => {
+  if (typeof prompt === 'string') {
+    return prompt;
+  }
+  return prompt.map(item => (typeof item === 'string' ? item : item.text || '')).join('\n');
+};
+
+/**
+ * Resolves the canned response for a request that has no recording.
+ * @param request The provider request.
+ * @returns The response text.
+ */
+const getDefaultFixture = ({ prompt, config }: LLMRequest): string => {
+  const tool = config.tool;
+  const promptText = flattenPromptText(prompt);
+
+  if (config.responseSchema) {
+    if (tool === ToolName.DECISION_HELPER) {
+      return JSON.stringify(personalizeDecisionFixture(promptText));
+    }
+    const fixture = tool ? DEFAULT_JSON_FIXTURES[tool] : undefined;
+    return JSON.stringify(fixture ?? sampleFromSchema(config.responseSchema));
+  }
+
+  if (tool === ToolName.STUDY_ROUTINE && /collaborative study plan/i.test(promptText)) {
+    return GROUP_STUDY_PLAN_FIXTURE;
+  }
+  return tool ? DEFAULT_TEXT_FIXTURES[tool] : 'This is an offline fixture response.';
+};
+
+export const fixtureProvider: LLMProvider = {
+  kind: 'fixture',
+  label: 'Offline fixtures',
+  generateText: async (request: LLMRequest): Promise<string> => {
+    await delay(FIXTURE_LATENCY_MS, request.signal);
+    const recorded = loadRecordedFixtures()[getFixtureKey(request)];
+    return recorded ?? getDefaultFixture(request);
+  },
+  generateTextStream: async (request: LLMRequest, onText: (textSoFar: string) => void): Promise<string> => {
+    const text = await fixtureProvider.generateText(request);
+    // Split on whitespace but keep it, so the streamed text matches the fixture exactly.
+    const tokens = text.split(/(\s+)/);
+    const chunkSize = FIXTURE_STREAM_WORDS_PER_CHUNK * 2;
+    let emitted = '';
+    for (let i = 0; i < tokens.length; i += chunkSize) {
+      await delay(FIXTURE_STREAM_CHUNK_MS, request.signal);
+      emitted += tokens.slice(i, i + chunkSize).join('');
+      onText(emitted);
+    }
+    return text;
+  },
+};
@@ -0,0 +1,152 @@
+import { GoogleGenAI, GenerateContentResponse, Part, Content, FinishReason } from "@google/genai";
+import type { LLMProvider, LLMRequest, LLMTokenUsage } from '../llmProviders';
+import { LLMError } from '../llmErrors';
+import { getGeminiApiKey, requestApiKey } from '../apiKeyManager';
+
+// Finish reasons that mean the answer was withheld by a safety filter.
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+/**
+ * Creates and returns a new GoogleGenAI instance.
+ * It's crucial to create a new instance before each API call so the latest
+ * key is used after the student enters, switches or removes one.
+ * @returns GoogleGenAI instance.
+ */
+export const getGeminiInstance = (): GoogleGenAI => {
+  const apiKey = getGeminiApiKey();
+  if (!apiKey) {
+    console.error("No Gemini API key has been entered and GEMINI_API_KEY is not set.");
+    requestApiKey();
+    throw new LLMError('missing-key', "API Key is not configured. Please select your API key.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+/**
+ * Builds the `contents` payload for `generateContent` from a tool prompt.
+ * @param prompt A plain string or a mixed array of strings and Parts.
+ * @returns A string or a single-turn Content object.
+ */
+const buildContents = (prompt: LLMRequest['prompt']): string | Content => {
+  if (typeof prompt === 'string') {
+    return prompt;
+  }
+  // Map string elements to { text: string } to conform to the Part type
+  const parts: Part[] = prompt.map(item =>
+    typeof item === 'string' ? { text: item } : item
+  );
+  return { parts: parts };
+};
+
+/**
+ * Extracts text from a Gemini response, falling back to the first candidate's
+ * text parts for multimodal responses.
+ * @param response The GenerateContentResponse returned by the SDK.
+ * @returns The response text, or undefined if none was found.
+ */
+const extractText = (response: GenerateContentResponse): string | undefined => {
+  const text = response.text;
+  if (text !== undefined && text !== null) {
+    return text;
+  }
+  const textParts = response.candidates?.[0]?.content?.parts?.filter(p => p.text)?.map(p => p.text).join('\n');
+  return textParts || undefined;
+};
+
+/**
+ * Throws a safety LLMError if the prompt or the first candidate was blocked.
+ * @param response A full response or a streamed chunk.
+ */
+const assertNotBlocked = (response: GenerateContentResponse): void => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new LLMError('safety', `Gemini blocked the prompt (${blockReason}).`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new LLMError('safety', `Gemini stopped the response for safety reasons (${finishReason}).`);
+  }
+};
+
+/**
+ * Reads token counts from a response's usage metadata.
+ * @param response A full response or the final streamed chunk.
+ * @returns The token usage, or undefined if the response carries none.
+ */
+const extractUsage = (response: GenerateContentResponse): LLMTokenUsage | undefined => {
+  const metadata = response.usageMetadata;
+  if (!metadata) {
+    return undefined;
+  }
+  const promptTokens = metadata.promptTokenCount || 0;
+  const candidateTokens = (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0);
+  return { promptTokens, candidateTokens, totalTokens: metadata.totalTokenCount || promptTokens + candidateTokens };
+};
+
+/**
+ * Builds the `generateContent` parameters shared by the blocking and streaming calls.
+ * @param request The provider request.
+ * @returns Parameters for `ai.models.generateContent` / `generateContentStream`.
+ */
+const buildRequestConfig = ({ prompt, model, config, settings, signal }: LLMRequest) => ({
+  model: settings.model || model,
+  contents: buildContents(prompt),
+  config: {
+    systemInstruction: config.systemInstruction,
+    temperature: config.temperature || 0.7,
+    topK: config.topK || 64,
+    topP: config.topP || 0.95,
+    responseMimeType: config.responseMimeType, // Pass through if provided
+    responseSchema: config.responseSchema,     // Pass through if provided
+    abortSignal: signal,
+    // maxOutputTokens and thinkingBudget can be omitted to let the model decide,
+    // or set explicitly if needed for specific tasks.
+  },
+});
+
+export const geminiProvider: LLMProvider = {
+  kind: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  generateText: async (request: LLMRequest): Promise<string> => {
+    const ai = getGeminiInstance();
+    const response: GenerateContentResponse = await ai.models.generateContent(buildRequestConfig(request));
+    assertNotBlocked(response);
+    const usage = extractUsage(response);
+    if (usage) {
+      request.onUsage?.(usage);
+    }
+    const text = extractText(response);
+    if (text === undefined) {
+      throw new Error("Gemini API returned an empty or non-textual response where text was expected.");
+    }
+    return text;
+  },
+  generateTextStream: async (request: LLMRequest, onText: (textSoFar: string) => void): Promise<string> => {
+    const ai = getGeminiInstance();
+    const stream = await ai.models.generateContentStream(buildRequestConfig(request));
+    let text = '';
+    let usage: LLMTokenUsage | undefined;
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      usage = extractUsage(chunk) || usage; // Counts are cumulative; the last chunk has the totals
+      const chunkText = extractText(chunk);
+      if (chunkText) {
+        text += chunkText;
+        onText(text);
+      }
+    }
+    if (usage) {
+      request.onUsage?.(usage);
+    }
+    if (!text) {
+      throw new Error("Gemini API returned an empty or non-textual response where text was expected.");
+    }
+    return text;
+  },
+};
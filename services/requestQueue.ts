@@ -0,0 +1,66 @@
+import { createAbortError } from '../utils/abortable';
+
+// How many AI requests may be in flight at once across all tools. Keeps bursts
+// (e.g. the dashboard and a tool firing together) under free-tier rate limits.
+export const MAX_CONCURRENT_LLM_REQUESTS = 2;
+
+export interface RequestQueue {
+  run: <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+  getActiveCount: () => number;
+  getPendingCount: () => number;
+}
+
+/**
+ * Creates a FIFO queue that runs at most `maxConcurrent` tasks at a time.
+ * A task whose signal aborts while it is still waiting is dropped from the
+ * queue and rejects with an AbortError.
+ * @param maxConcurrent Maximum number of tasks running concurrently.
+ * @returns A RequestQueue.
+ */
+export const createRequestQueue = (maxConcurrent: number): RequestQueue => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const startNext = () => {
+    if (active < maxConcurrent && waiting.length > 0) {
+      waiting.shift()!();
+    }
+  };
+
+  const run = <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        active++;
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            startNext();
+          });
+      };
+      const onAbort = () => {
+        const index = waiting.indexOf(start);
+        if (index !== -1) {
+          waiting.splice(index, 1);
+        }
+        reject(createAbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      waiting.push(start);
+      startNext();
+    });
+
+  return {
+    run,
+    getActiveCount: () => active,
+    getPendingCount: () => waiting.length,
+  };
+};
+
+// Shared by every call in geminiService.
+export const llmRequestQueue = createRequestQueue(MAX_CONCURRENT_LLM_REQUESTS);
@@ -0,0 +1,184 @@
+import { Part } from "@google/genai";
+import { ToolName } from '../types';
+import type { LLMRequest } from './llmProviders';
+import { stableStringify } from '../utils/hash';
+import { RESPONSE_CACHE_STORE, idbDelete, idbGet, idbGetAll, idbPut } from '../utils/indexedDb';
+import { LEGACY_PROFILE_ID, loadActiveProfileId, loadResponseCacheEnabled, loadVaultConfig } from '../utils/localStorageService';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How long a cached answer stays valid, per tool. 0 disables caching for that tool.
+export const TOOL_CACHE_TTL_MS: Record<ToolName, number> = {
+  [ToolName.NOTES_CLEANER]: 7 * DAY_MS,
+  [ToolName.HOMEWORK_CHECKER]: 7 * DAY_MS,
+  [ToolName.STUDY_ROUTINE]: 3 * DAY_MS,
+  [ToolName.DECISION_HELPER]: DAY_MS,
+  [ToolName.PREDICT_MY_GRADE]: DAY_MS,
+  [ToolName.DEADLINE_PRESSURE]: 6 * HOUR_MS, // The prompt already includes today's date
+  [ToolName.MOOD_STRESS]: HOUR_MS,
+  [ToolName.DAILY_ACHIEVEMENTS]: 0, // A fresh motivational message every time
+};
+const UNTAGGED_TTL_MS = HOUR_MS;
+// Answers as personal as the records the vault encrypts (homework, mood
+// check-ins). They're never cached or recorded as fixtures while the profile's vault is on.
+export const VAULT_PRIVATE_TOOLS: ToolName[] = [ToolName.HOMEWORK_CHECKER, ToolName.MOOD_STRESS];
+
+export interface ResponseCacheEntry {
+  key: string; // SHA-256 of everything that shapes the answer, including the profile
+  profileId?: string; // Missing on entries from before profiles were kept apart
+  tool?: ToolName;
+  provider: string;
+  model: string;
+  promptPreview: string; // First characters of the prompt text, for the settings panel
+  text: string; // Raw response text (validated JSON for JSON requests)
+  createdAt: number;
+  expiresAt: number;
+  sizeBytes: number;
+}
+
+const sha256Hex = async (input: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Answers are kept apart per profile, like the rest of a student's data.
+const activeProfileId = (): string => loadActiveProfileId() ?? LEGACY_PROFILE_ID;
+
+const toParts = (prompt: LLMRequest['prompt']): Part[] =>
+  typeof prompt === 'string'
+    ? [{ text: prompt }]
+    : prompt.map(item => (typeof item === 'string' ? { text: item } : item));
+
+/**
+ * Computes the content-addressed key for a request. Attached files are reduced
+ * to their own SHA-256 so large uploads don't have to be serialized twice.
+ * @param request The provider request.
+ * @returns A hex SHA-256 key.
+ */
+export const computeCacheKey = async ({ prompt, model, config, settings }: LLMRequest): Promise<string> => {
+  const parts = await Promise.all(toParts(prompt).map(async part => (
+    part.inlineData?.data
+      ? { inlineData: { mimeType: part.inlineData.mimeType, sha256: await sha256Hex(part.inlineData.data) } }
+      : part
+  )));
+  return sha256Hex(stableStringify({
+    profileId: activeProfileId(),
+    provider: settings.kind,
+    baseUrl: settings.baseUrl,
+    model: settings.model || model,
+    config,
+    parts,
+  }));
+};
+
+const getTtlMs = (request: LLMRequest): number =>
+  request.config.tool ? TOOL_CACHE_TTL_MS[request.config.tool] : UNTAGGED_TTL_MS;
+
+export const isVaultPrivate = (tool: ToolName | undefined): boolean =>
+  tool !== undefined && VAULT_PRIVATE_TOOLS.includes(tool) && loadVaultConfig() !== null;
+
+// Fixture answers are already local, and some tools opt out via a TTL of 0.
+const isCacheable = (request: LLMRequest): boolean =>
+  request.settings.kind !== 'fixture' && getTtlMs(request) > 0 && loadResponseCacheEnabled() && !isVaultPrivate(request.config.tool);
+
+/**
+ * Looks up a fresh cached answer for a request. Cache failures are logged and
+ * treated as a miss so they never block the tools.
+ * @param request The provider request.
+ * @returns The cached response text, or null on a miss.
+ */
+export const readCachedResponse = async (request: LLMRequest): Promise<string | null> => {
+  if (!isCacheable(request)) {
+    return null;
+  }
+  try {
+    const key = await computeCacheKey(request);
+    const entry = await idbGet<ResponseCacheEntry>(RESPONSE_CACHE_STORE, key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      await idbDelete(RESPONSE_CACHE_STORE, key);
+      return null;
+    }
+    return entry.text;
+  } catch (error) {
+    console.error("Error reading from the response cache:", error);
+    return null;
+  }
+};
+
+/**
+ * Stores an answer for a request using the issuing tool's TTL.
+ * @param request The provider request.
+ * @param text The response text to cache.
+ */
+export const writeCachedResponse = async (request: LLMRequest, text: string): Promise<void> => {
+  if (!isCacheable(request)) {
+    return;
+  }
+  try {
+    const now = Date.now();
+    const promptText = toParts(request.prompt).map(part => part.text || '').join(' ').trim();
+    const entry: ResponseCacheEntry = {
+      key: await computeCacheKey(request),
+      profileId: activeProfileId(),
+      tool: request.config.tool,
+      provider: request.settings.kind,
+      model: request.settings.model || request.model,
+      promptPreview: promptText.slice(0, 120),
+      text,
+      createdAt: now,
+      expiresAt: now + getTtlMs(request),
+      sizeBytes: new Blob([text]).size,
+    };
+    await idbPut(RESPONSE_CACHE_STORE, entry);
+  } catch (error) {
+    console.error("Error writing to the response cache:", error);
+  }
+};
+
+/**
+ * Lists a profile's cache entries, newest first. Entries from before profiles
+ * were kept apart count as the legacy profile's, like its other data.
+ * @param profileId The profile; defaults to the active one.
+ * @returns An array of ResponseCacheEntry.
+ */
+export const listCacheEntries = async (profileId: string = activeProfileId()): Promise<ResponseCacheEntry[]> => {
+  const entries = await idbGetAll<ResponseCacheEntry>(RESPONSE_CACHE_STORE);
+  return entries
+    .filter(entry => (entry.profileId ?? LEGACY_PROFILE_ID) === profileId)
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteCacheEntry = (key: string): Promise<void> => idbDelete(RESPONSE_CACHE_STORE, key);
+
+/**
+ * Deletes a profile's cached answers.
+ * @param profileId The profile; defaults to the active one.
+ */
+export const clearResponseCache = async (profileId: string = activeProfileId()): Promise<void> => {
+  const entries = await listCacheEntries(profileId);
+  await Promise.all(entries.map(entry => deleteCacheEntry(entry.key)));
+};
+
+/**
+ * Removes expired entries.
+ * @returns The number of entries removed.
+ */
+export const purgeExpiredCacheEntries = async (): Promise<number> => {
+  const now = Date.now();
+  const expired = (await listCacheEntries()).filter(entry => entry.expiresAt <= now);
+  await Promise.all(expired.map(entry => deleteCacheEntry(entry.key)));
+  return expired.length;
+};
+
+/**
+ * Deletes the active profile's cached answers from tools the vault keeps
+ * private, which were stored unencrypted before the vault was turned on.
+ */
+export const purgeVaultPrivateCacheEntries = async (): Promise<void> => {
+  const entries = (await listCacheEntries()).filter(entry => entry.tool && VAULT_PRIVATE_TOOLS.includes(entry.tool));
+  await Promise.all(entries.map(entry => deleteCacheEntry(entry.key)));
+};
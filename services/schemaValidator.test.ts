@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Type } from '@google/genai';
+import { getSchemaDefault, validateAgainstSchema } from './schemaValidator';
+
+const schema = {
+  type: Type.OBJECT,
+  properties: {
+    verdict: { type: Type.STRING, enum: ['Correct', 'Incorrect', 'Partially Correct'] },
+    score: { type: Type.INTEGER, minimum: 0, maximum: 100 },
+    confident: { type: Type.BOOLEAN },
+    steps: { type: Type.ARRAY, maxItems: 3, items: { type: Type.STRING } },
+    note: { type: Type.STRING, nullable: true },
+  },
+  required: ['verdict', 'score', 'steps'],
+};
+
+describe('validateAgainstSchema', () => {
+  it('passes a valid value through untouched', () => {
+    const value = { verdict: 'Correct', score: 90, confident: true, steps: ['a', 'b'], note: null };
+    expect(validateAgainstSchema(value, schema)).toEqual({ value, errors: [], repairs: [] });
+  });
+
+  it('repairs what it safely can', () => {
+    const result = validateAgainstSchema({
+      verdict: 'partially correct', score: '120%', confident: 'true', steps: 'only one step', note: 'ok',
+    }, schema);
+    expect(result.errors).toEqual([]);
+    expect(result.value).toEqual({ verdict: 'Partially Correct', score: 100, confident: true, steps: ['only one step'], note: 'ok' });
+    expect(result.repairs).toHaveLength(5);
+  });
+
+  it('rounds integers and trims long arrays', () => {
+    const result = validateAgainstSchema({ verdict: 'Correct', score: 72.6, steps: ['1', '2', '3', '4', 5] }, schema);
+    expect(result.value).toMatchObject({ score: 73, steps: ['1', '2', '3'], note: null });
+    expect(result.repairs).toEqual(['$.score: adjusted 72.6 to 73', '$.steps: trimmed 5 items to 3']);
+  });
+
+  it('reports missing fields and unknown values, filling in defaults', () => {
+    const result = validateAgainstSchema<Record<string, unknown>>({ verdict: 'Maybe', score: 'lots' }, schema);
+    expect(result.value).toMatchObject({ verdict: 'Correct', score: 0, steps: [] });
+    expect(result.errors).toEqual([
+      '$.verdict: "Maybe" is not one of Correct, Incorrect, Partially Correct',
+      '$.score: expected number, got "lots"',
+      '$.steps: missing required field',
+    ]);
+  });
+
+  it('replaces a value of the wrong shape entirely', () => {
+    const result = validateAgainstSchema(['not', 'an', 'object'], schema);
+    expect(result.value).toEqual(getSchemaDefault(schema));
+    expect(result.errors).toEqual(['$: expected object, got array']);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Runtime validation for JSON returned by `callGeminiApiJson`, using the same
+ * Gemini `Type`-based schema that is sent as `responseSchema`. Models don't
+ * always honour the schema (especially non-Gemini providers), so the result is
+ * repaired where that is safe and every remaining problem is reported.
+ */
+
+export interface SchemaValidationResult<T> {
+  value: T; // Always shaped like the schema: repaired and default-filled
+  errors: string[]; // Problems that needed a guess (missing required fields, wrong types, unknown enum values)
+  repairs: string[]; // Safe fixes that were applied (clamping, type coercion, enum casing)
+}
+
+interface ValidationContext {
+  errors: string[];
+  repairs: string[];
+}
+
+const typeOf = (schema: any): string => String(schema?.type ?? '').toUpperCase();
+
+const describe = (value: unknown): string => {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value === 'string' ? `"${value.length > 40 ? `${value.slice(0, 40)}...` : value}"` : typeof value;
+};
+
+/**
+ * Builds the value used when a field is missing or unusable.
+ * @param schema A Gemini response schema node.
+ * @returns An empty value of the right shape.
+ */
+export const getSchemaDefault = (schema: any): unknown => {
+  if (schema?.nullable) return null;
+  switch (typeOf(schema)) {
+    case 'OBJECT':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, getSchemaDefault(value)])
+      );
+    case 'ARRAY':
+      return [];
+    case 'NUMBER':
+    case 'INTEGER':
+      return schema.minimum ?? 0;
+    case 'BOOLEAN':
+      return false;
+    case 'STRING':
+      return schema.enum?.[0] ?? '';
+    default:
+      return null;
+  }
+};
+
+const clampNumber = (value: number, schema: any, path: string, ctx: ValidationContext): number => {
+  let result = typeOf(schema) === 'INTEGER' ? Math.round(value) : value;
+  if (schema.minimum !== undefined && result < schema.minimum) result = schema.minimum;
+  if (schema.maximum !== undefined && result > schema.maximum) result = schema.maximum;
+  if (result !== value) {
+    ctx.repairs.push(`${path}: adjusted ${value} to ${result}`);
+  }
+  return result;
+};
+
+const validateNode = (value: unknown, schema: any, path: string, ctx: ValidationContext): unknown => {
+  if (value === null || value === undefined) {
+    if (!schema?.nullable) {
+      ctx.errors.push(`${path}: expected ${typeOf(schema).toLowerCase()}, got ${describe(value)}`);
+    }
+    return getSchemaDefault(schema);
+  }
+
+  switch (typeOf(schema)) {
+    case 'OBJECT': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        ctx.errors.push(`${path}: expected object, got ${describe(value)}`);
+        return getSchemaDefault(schema);
+      }
+      const source = value as Record<string, unknown>;
+      const required: string[] = schema.required || [];
+      const result: Record<string, unknown> = { ...source };
+      for (const [key, propertySchema] of Object.entries<any>(schema.properties || {})) {
+        const propertyPath = `${path}.${key}`;
+        if (source[key] === undefined) {
+          if (required.includes(key)) {
+            ctx.errors.push(`${propertyPath}: missing required field`);
+            result[key] = getSchemaDefault(propertySchema);
+          } else if (propertySchema.nullable) {
+            result[key] = null;
+          }
+          continue;
+        }
+        result[key] = validateNode(source[key], propertySchema, propertyPath, ctx);
+      }
+      return result;
+    }
+
+    case 'ARRAY': {
+      let items: unknown[];
+      if (Array.isArray(value)) {
+        items = value;
+      } else {
+        ctx.repairs.push(`${path}: wrapped single ${describe(value)} in an array`);
+        items = [value];
+      }
+      if (schema.maxItems !== undefined && items.length > Number(schema.maxItems)) {
+        ctx.repairs.push(`${path}: trimmed ${items.length} items to ${schema.maxItems}`);
+        items = items.slice(0, Number(schema.maxItems));
+      }
+      return schema.items
+        ? items.map((item, index) => validateNode(item, schema.items, `${path}[${index}]`, ctx))
+        : items;
+    }
+
+    case 'NUMBER':
+    case 'INTEGER': {
+      let numeric = value;
+      if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value.replace('%', '')))) {
+        numeric = Number(value.replace('%', ''));
+        ctx.repairs.push(`${path}: converted ${describe(value)} to a number`);
+      }
+      if (typeof numeric !== 'number' || !Number.isFinite(numeric)) {
+        ctx.errors.push(`${path}: expected number, got ${describe(value)}`);
+        return getSchemaDefault(schema);
+      }
+      return clampNumber(numeric, schema, path, ctx);
+    }
+
+    case 'BOOLEAN': {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') {
+        ctx.repairs.push(`${path}: converted ${describe(value)} to a boolean`);
+        return value === 'true';
+      }
+      ctx.errors.push(`${path}: expected boolean, got ${describe(value)}`);
+      return getSchemaDefault(schema);
+    }
+
+    case 'STRING': {
+      let text: string;
+      if (typeof value === 'string') {
+        text = value;
+      } else if (typeof value === 'number' || typeof value === 'boolean') {
+        text = String(value);
+        ctx.repairs.push(`${path}: converted ${describe(value)} to a string`);
+      } else {
+        ctx.errors.push(`${path}: expected string, got ${describe(value)}`);
+        return getSchemaDefault(schema);
+      }
+      if (Array.isArray(schema.enum) && !schema.enum.includes(text)) {
+        const match = schema.enum.find((option: string) => option.toLowerCase() === text.trim().toLowerCase());
+        if (match) {
+          ctx.repairs.push(`${path}: normalized "${text}" to "${match}"`);
+          return match;
+        }
+        ctx.errors.push(`${path}: "${text}" is not one of ${schema.enum.join(', ')}`);
+        return schema.enum[0];
+      }
+      return text;
+    }
+
+    default:
+      return value;
+  }
+};
+
+/**
+ * Validates a parsed JSON value against a Gemini response schema.
+ * Recoverable issues (out-of-range numbers, numeric strings, enum casing,
+ * a single item where an array was expected) are fixed silently and listed in
+ * `repairs`. Anything else is listed in `errors` and replaced by a default, so
+ * `value` is always safe to render.
+ * @param value The parsed JSON value.
+ * @param schema The Gemini response schema.
+ * @returns The repaired value plus the errors and repairs found.
+ */
+export const validateAgainstSchema = <T>(value: unknown, schema: any): SchemaValidationResult<T> => {
+  const ctx: ValidationContext = { errors: [], repairs: [] };
+  const repaired = validateNode(value, schema, '$', ctx);
+  return { value: repaired as T, errors: ctx.errors, repairs: ctx.repairs };
+};
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { saveUsageBudget } from '../utils/localStorageService';
+import { idbGetAllFromIndex } from '../utils/indexedDb';
+import { openAiCompatibleProvider } from './providers/chatCompletionsProvider';
+import { UsageRecord, assertWithinUsageBudget } from './usageTracker';
+
+vi.mock('../utils/indexedDb', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/indexedDb')>(),
+  idbGetAllFromIndex: vi.fn(),
+}));
+
+const usedToday = (totalTokens: number) => {
+  vi.stubGlobal('IDBKeyRange', { lowerBound: () => null });
+  const record: UsageRecord = {
+    timestamp: Date.now(), provider: 'openai', model: 'gpt-4o-mini', promptTokens: totalTokens, candidateTokens: 0, totalTokens,
+    estimated: false, costUsd: 0, latencyMs: 100, success: true,
+  };
+  vi.mocked(idbGetAllFromIndex).mockResolvedValue([record]);
+};
+
+const request = { prompt: 'Summarize my notes', model: 'gpt-4o-mini', config: {}, settings: { kind: 'openai' as const } };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('assertWithinUsageBudget', () => {
+  it("refuses a request that would go over the budget before it's sent", async () => {
+    usedToday(500);
+    saveUsageBudget({ dailyTokenLimit: 1200, dailyCostLimitUsd: null, mode: 'block' });
+    await expect(assertWithinUsageBudget(openAiCompatibleProvider, request)).rejects.toMatchObject({ kind: 'budget' });
+
+    saveUsageBudget({ dailyTokenLimit: 2000, dailyCostLimitUsd: null, mode: 'block' });
+    await expect(assertWithinUsageBudget(openAiCompatibleProvider, request)).resolves.toBeUndefined();
+  });
+
+  it('only warns in warn mode', async () => {
+    usedToday(500);
+    saveUsageBudget({ dailyTokenLimit: 1200, dailyCostLimitUsd: null, mode: 'warn' });
+    await expect(assertWithinUsageBudget(openAiCompatibleProvider, request)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,305 @@
+import { LLMProviderKind, ToolName, UsageBudget } from '../types';
+import type { LLMProvider, LLMRequest, LLMTokenUsage } from './llmProviders';
+import { LLMError, LLMErrorKind, classifyError } from './llmErrors';
+import { USAGE_RECORDS_STORE, idbClear, idbDeleteFromIndex, idbGetAllFromIndex, idbPut } from '../utils/indexedDb';
+import { loadUsageBudget } from '../utils/localStorageService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Usage history older than this is dropped when the dashboard loads.
+export const USAGE_RETENTION_DAYS = 90;
+// Share of a daily limit at which students get a heads-up.
+export const BUDGET_WARNING_FRACTION = 0.8;
+// Rough ratio used when a backend doesn't report token counts (fixtures, some local servers).
+const CHARS_PER_TOKEN = 4;
+// Reply length assumed when checking a request against the budget before it is sent.
+const EXPECTED_RESPONSE_TOKENS = 1000;
+
+// Only these backends bill per token; local servers and fixtures are free and don't count toward budgets.
+const BILLED_PROVIDERS: LLMProviderKind[] = ['gemini', 'openai'];
+
+// List prices in USD per million tokens. Models match by longest prefix, so
+// dated previews (e.g. gemini-2.5-flash-preview-05-20) use their family's price.
+const MODEL_PRICING_PER_MILLION: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+};
+
+export interface UsageRecord {
+  id?: number; // Assigned by IndexedDB
+  timestamp: number;
+  tool?: ToolName;
+  promptVersion?: string; // Prompt registry versions used, for comparing A/B variants
+  provider: LLMProviderKind;
+  model: string;
+  promptTokens: number;
+  candidateTokens: number;
+  totalTokens: number;
+  estimated: boolean; // Counts were approximated from text length
+  costUsd: number;
+  latencyMs: number;
+  success: boolean;
+  errorKind?: LLMErrorKind;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  candidateTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  totalLatencyMs: number;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  byTool: Record<string, UsageTotals>; // Keyed by ToolName, or 'Other' for untagged calls
+  byDay: Record<string, UsageTotals>; // Keyed by local YYYY-MM-DD
+}
+
+export interface UsageBudgetStatus {
+  budget: UsageBudget;
+  tokensUsed: number;
+  costUsd: number;
+  fractionUsed: number; // Highest share of any configured limit (0 if none), the pending request included
+  level: 'ok' | 'warning' | 'exceeded';
+}
+
+type BudgetWarningListener = (status: UsageBudgetStatus) => void;
+const budgetWarningListeners = new Set<BudgetWarningListener>();
+
+/**
+ * Looks up the price of a model by longest matching prefix.
+ * @param model The model name.
+ * @returns Prices per million tokens, or undefined for unknown models.
+ */
+const findModelPricing = (model: string) => {
+  const match = Object.keys(MODEL_PRICING_PER_MILLION)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICING_PER_MILLION[match] : undefined;
+};
+
+/**
+ * Estimates what a call cost at list prices.
+ * @param provider The provider kind.
+ * @param model The model that served the call.
+ * @param usage The token counts.
+ * @returns The cost in USD (0 for free backends and unknown models).
+ */
+export const estimateCostUsd = (provider: LLMProviderKind, model: string, usage: LLMTokenUsage): number => {
+  const pricing = BILLED_PROVIDERS.includes(provider) ? findModelPricing(model) : undefined;
+  if (!pricing) {
+    return 0;
+  }
+  return (usage.promptTokens * pricing.input + usage.candidateTokens * pricing.output) / 1_000_000;
+};
+
+const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const getPromptText = (prompt: LLMRequest['prompt']): string =>
+  typeof prompt === 'string'
+    ? prompt
+    : prompt.map(item => (typeof item === 'string' ? item : item.text || '')).join('\n');
+
+/**
+ * Resolves the model that actually serves a request: the settings override,
+ * else the tool's Gemini model, else the provider's default.
+ */
+const resolveModelName = (provider: LLMProvider, request: LLMRequest): string =>
+  request.settings.model
+  || (provider.kind === 'gemini' ? request.model : provider.defaultModel)
+  || provider.kind;
+
+/**
+ * Formats a timestamp as a local YYYY-MM-DD day key.
+ * @param timestamp Milliseconds since the epoch.
+ * @returns The day key.
+ */
+export const getUsageDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const getStartOfToday = (): number => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today.getTime();
+};
+
+/**
+ * Stores a usage record. Failures are logged so tracking never breaks a tool.
+ * @param record The record to store.
+ */
+const recordUsage = async (record: UsageRecord): Promise<void> => {
+  try {
+    await idbPut(USAGE_RECORDS_STORE, record);
+  } catch (error) {
+    console.error("Error recording AI usage:", error);
+  }
+};
+
+/**
+ * Runs one provider call and records its token usage, latency and outcome.
+ * When the backend doesn't report usage, successful calls are estimated from
+ * text length and flagged as such.
+ * @param provider The provider handling the call.
+ * @param request The provider request.
+ * @param call Performs the call with a request that collects usage.
+ * @returns The call's response text.
+ */
+export const withUsageTracking = async (
+  provider: LLMProvider,
+  request: LLMRequest,
+  call: (request: LLMRequest) => Promise<string>,
+): Promise<string> => {
+  let reportedUsage: LLMTokenUsage | undefined;
+  const startedAt = Date.now();
+  const model = resolveModelName(provider, request);
+
+  const buildRecord = (usage: LLMTokenUsage, outcome: Pick<UsageRecord, 'success' | 'errorKind' | 'estimated'>): UsageRecord => ({
+    timestamp: startedAt,
+    tool: request.config.tool,
+    promptVersion: request.config.promptVersion,
+    provider: provider.kind,
+    model,
+    ...usage,
+    costUsd: estimateCostUsd(provider.kind, model, usage),
+    latencyMs: Date.now() - startedAt,
+    ...outcome,
+  });
+
+  try {
+    const text = await call({ ...request, onUsage: usage => { reportedUsage = usage; } });
+    const promptTokens = estimateTokens(getPromptText(request.prompt));
+    const candidateTokens = estimateTokens(text);
+    const usage = reportedUsage || { promptTokens, candidateTokens, totalTokens: promptTokens + candidateTokens };
+    void recordUsage(buildRecord(usage, { success: true, estimated: !reportedUsage }));
+    return text;
+  } catch (error) {
+    // Failed calls are usually not billed, so only counts the backend reported are kept.
+    const usage = reportedUsage || { promptTokens: 0, candidateTokens: 0, totalTokens: 0 };
+    void recordUsage(buildRecord(usage, { success: false, errorKind: classifyError(error).kind, estimated: false }));
+    throw error;
+  }
+};
+
+/**
+ * Lists usage records from a point in time onwards, oldest first.
+ * @param since Milliseconds since the epoch.
+ * @returns An array of UsageRecord.
+ */
+export const listUsageRecords = (since: number): Promise<UsageRecord[]> =>
+  idbGetAllFromIndex<UsageRecord>(USAGE_RECORDS_STORE, 'timestamp', IDBKeyRange.lowerBound(since));
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0, failedCalls: 0, promptTokens: 0, candidateTokens: 0, totalTokens: 0, costUsd: 0, totalLatencyMs: 0,
+});
+
+const addToTotals = (totals: UsageTotals, record: UsageRecord): void => {
+  totals.calls++;
+  if (!record.success) totals.failedCalls++;
+  totals.promptTokens += record.promptTokens;
+  totals.candidateTokens += record.candidateTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.costUsd += record.costUsd;
+  totals.totalLatencyMs += record.latencyMs;
+};
+
+/**
+ * Aggregates usage records overall, per tool and per local day.
+ * @param records The records to aggregate.
+ * @returns A UsageSummary.
+ */
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => {
+  const summary: UsageSummary = { totals: emptyTotals(), byTool: {}, byDay: {} };
+  for (const record of records) {
+    const toolKey = record.tool || 'Other';
+    const dayKey = getUsageDayKey(record.timestamp);
+    summary.byTool[toolKey] = summary.byTool[toolKey] || emptyTotals();
+    summary.byDay[dayKey] = summary.byDay[dayKey] || emptyTotals();
+    addToTotals(summary.totals, record);
+    addToTotals(summary.byTool[toolKey], record);
+    addToTotals(summary.byDay[dayKey], record);
+  }
+  return summary;
+};
+
+/**
+ * Compares today's billed usage against the saved daily budget.
+ * @param pending The estimated tokens and cost of a request about to be sent, if any.
+ * @returns The current UsageBudgetStatus.
+ */
+export const getUsageBudgetStatus = async (
+  pending: { totalTokens: number; costUsd: number } = { totalTokens: 0, costUsd: 0 },
+): Promise<UsageBudgetStatus> => {
+  const budget = loadUsageBudget();
+  const records = (await listUsageRecords(getStartOfToday())).filter(record => BILLED_PROVIDERS.includes(record.provider));
+  const { totalTokens, costUsd } = summarizeUsage(records).totals;
+  const fractions = [
+    budget.dailyTokenLimit ? (totalTokens + pending.totalTokens) / budget.dailyTokenLimit : 0,
+    budget.dailyCostLimitUsd ? (costUsd + pending.costUsd) / budget.dailyCostLimitUsd : 0,
+  ];
+  const fractionUsed = Math.max(...fractions);
+  const level = fractionUsed >= 1 ? 'exceeded' : fractionUsed >= BUDGET_WARNING_FRACTION ? 'warning' : 'ok';
+  return { budget, tokensUsed: totalTokens, costUsd, fractionUsed, level };
+};
+
+/**
+ * Checks the daily budget before a billed request, counting the request's own
+ * estimated cost. Warnings go to subscribers; in block mode a request that
+ * would go over a limit is refused.
+ * @param provider The provider about to be called.
+ * @param request The request about to be sent.
+ * @throws LLMError with kind 'budget' if the request would exceed a budget set to block.
+ */
+export const assertWithinUsageBudget = async (provider: LLMProvider, request: LLMRequest): Promise<void> => {
+  if (!BILLED_PROVIDERS.includes(provider.kind)) {
+    return;
+  }
+  const promptTokens = estimateTokens(`${request.config.systemInstruction || ''}${getPromptText(request.prompt)}`);
+  const usage = { promptTokens, candidateTokens: EXPECTED_RESPONSE_TOKENS, totalTokens: promptTokens + EXPECTED_RESPONSE_TOKENS };
+  let status: UsageBudgetStatus;
+  try {
+    status = await getUsageBudgetStatus({
+      totalTokens: usage.totalTokens,
+      costUsd: estimateCostUsd(provider.kind, resolveModelName(provider, request), usage),
+    });
+  } catch (error) {
+    console.error("Error checking the AI usage budget:", error);
+    return; // Without usage history there is nothing to enforce
+  }
+  if (status.level === 'ok') {
+    return;
+  }
+  budgetWarningListeners.forEach(listener => listener(status));
+  if (status.level === 'exceeded' && status.budget.mode === 'block') {
+    throw new LLMError('budget', `This request would go over the daily AI budget (${status.tokensUsed} tokens, $${status.costUsd.toFixed(4)} used today).`);
+  }
+};
+
+/**
+ * Registers a listener for budget warnings raised before requests.
+ * @param listener Called with the budget status when usage is near or over a limit.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToBudgetWarnings = (listener: BudgetWarningListener): (() => void) => {
+  budgetWarningListeners.add(listener);
+  return () => {
+    budgetWarningListeners.delete(listener);
+  };
+};
+
+/**
+ * Deletes usage records older than the retention period.
+ * @returns The number of records removed.
+ */
+export const purgeOldUsageRecords = (): Promise<number> =>
+  idbDeleteFromIndex(USAGE_RECORDS_STORE, 'timestamp', IDBKeyRange.upperBound(Date.now() - USAGE_RETENTION_DAYS * DAY_MS, true));
+
+export const clearUsageHistory = (): Promise<void> => idbClear(USAGE_RECORDS_STORE);
@@ -60,12 +60,103 @@ export interface DailyActivityCounts {
   focusBeastEligibleToday: boolean; // For Focus Beast badge
 }
 
+// What XP can be spent on (see utils/streaks).
+export type XpPurchase = 'streakFreeze' | 'streakRepair';
+
+// An entry folded into a monthly carried-over entry, reduced to what the audit trail needs.
+export interface FoldedXpEntry {
+  id: string;
+  amount: number;
+  timestamp: string; // ISO string
+}
+
+// One XP award or purchase, a saved item linked to an award, or a month of
+// awards folded into one entry once they're old. Entries are only ever
+// appended; XP and level are the ledger's total (see utils/xpLedger).
+export interface XpLedgerEntry {
+  id: string;
+  action: ActionType | XpPurchase | 'questReward' | 'prestige' | 'savedItemLink' | 'carriedOver'; // carriedOver: XP earned before the ledger existed, as one entry
+  amount: number; // Negative for purchases and prestige resets; 0 for links
+  timestamp: string; // ISO string
+  tool: ToolName | null; // Tool the award came from
+  awardId?: string; // savedItemLink: the award the saved item was made from
+  savedItemId?: string; // savedItemLink: the saved item
+  folded?: FoldedXpEntry[]; // Set on folded entries: the entries folded into this one
+}
+
 export interface DailyAchievementState {
-  xpState: XpState;
+  xpState: XpState; // Derived from xpLedger; kept for quick reads
   unlockedBadges: AchievementType[];
   currentStreak: number;
-  lastActivityDate: string | null; // ISO date string of last activity
+  lastActivityDate: string | null; // Day key (see utils/dateUtils) of last activity
   dailyActionCounts: { [date: string]: DailyActivityCounts }; // Tracks counts per day for XP and badges
+  activityArchive?: ActivityArchive; // Older days, compacted into weekly/monthly totals (see utils/activityHistory)
+  xpLedger?: XpLedgerEntry[]; // Missing in data saved before the ledger existed
+  frozenDays?: string[]; // Missed days covered by a streak freeze; freezes owned = freezes bought - these
+  repairedDays?: string[]; // Missed days covered by a streak repair
+  brokenStreak?: BrokenStreak; // The last streak that broke, while it can still be repaired
+  dayStartHour?: number; // Local hour the student's day starts at, which daily counts are keyed by; missing while they're still keyed by UTC date
+  questBoards?: Partial<Record<QuestPeriod, QuestBoard>>; // This device's quest boards (see utils/questEngine)
+  recentInputs?: Partial<Record<ActionType, InputFingerprint[]>>; // Fingerprints of recent tool inputs, newest last, for spotting repeats (see utils/xpRules)
+}
+
+// A tool input reduced to a similarity signature; the text itself isn't kept.
+export interface InputFingerprint {
+  signature: string[]; // MinHash values (see utils/similarity)
+  timestamp: string; // ISO string
+}
+
+// Changes to one action's built-in XP rule (see utils/xpRules), from settings.
+// A field left out keeps the built-in value; null switches that limit off.
+export interface XpRuleOverride {
+  baseXp?: number;
+  oncePerDay?: boolean;
+  cooldownMinutes?: number | null;
+  diminishing?: { after: number; factor: number } | null;
+  dailyCap?: number | null;
+  duplicateSimilarity?: number | null;
+  updatedAt: string; // ISO string
+}
+
+export type QuestPeriod = 'daily' | 'weekly';
+
+// One part of a quest: do an action a number of times, or on a number of different days.
+export interface QuestGoal {
+  action: ActionType;
+  measure: 'times' | 'days';
+  target: number;
+}
+
+export interface Quest {
+  id: string; // The same on every device for the same slot (plus ":r<n>" once rerolled); rewards are paid once per slot
+  title: string;
+  goals: QuestGoal[];
+  xpReward: number;
+}
+
+export interface QuestBoard {
+  start: string; // Day key the period started (Monday for weekly boards)
+  quests: Quest[];
+  rerollsUsed: number;
+}
+
+export interface BrokenStreak {
+  length: number; // Streak before the missed days
+  missedDays: string[]; // Day keys
+  repairableUntil: string; // ISO string
+}
+
+// Totals for a week or month of activity, kept once its daily counts are compacted.
+export interface ActivitySummary {
+  period: 'week' | 'month';
+  start: string; // YYYY-MM-DD, first day of the period (weeks start on Monday)
+  activeDays: number; // Days with any recorded activity
+  counts: Omit<DailyActivityCounts, 'focusBeastEligibleToday'>;
+}
+
+export interface ActivityArchive {
+  compactedBefore: string; // YYYY-MM-DD; daily counts before this date are only kept in the summaries
+  summaries: ActivitySummary[];
 }
 
 export interface ChatMessage {
@@ -80,8 +171,109 @@ export type LLMConfig = {
   topP?: number;
   responseMimeType?: string; // Added for JSON responses
   responseSchema?: any; // Added for JSON responses
+  tool?: ToolName; // Which tool issued the request (used to key offline fixtures)
+  promptVersion?: string; // Registry versions of the prompts used, e.g. "homeworkChecker.system@1" (recorded with usage)
 };
 
+// Per-call options that are not part of the model configuration
+export interface LLMCallOptions {
+  signal?: AbortSignal; // Aborts the request (e.g., when the user presses Stop)
+  forceRefresh?: boolean; // Skip the response cache and always ask the AI again
+}
+
+// Types for pluggable LLM providers
+export type LLMProviderKind = 'gemini' | 'openai' | 'local' | 'fixture';
+
+export interface LLMProviderSettings {
+  kind: LLMProviderKind;
+  baseUrl?: string; // Endpoint root for OpenAI-compatible and local servers (e.g., http://localhost:11434/v1)
+  apiKey?: string; // Bearer token for OpenAI-compatible endpoints
+  model?: string; // Overrides the model requested by tools (required for non-Gemini providers)
+  recordFixtures?: boolean; // Capture real responses so the fixture provider can replay them offline
+}
+
+// A student using the app on this device. Each profile has its own saved work,
+// progress, tool inputs and preferences.
+export interface StudentProfile {
+  id: string;
+  name: string;
+  createdAt: string; // ISO string
+  pin?: { salt: string; hash: string }; // Optional PIN lock; keeps siblings out, not a security boundary
+}
+
+// A value encrypted by the vault, as stored on disk.
+export interface EncryptedRecord {
+  encrypted: true;
+  iv: string; // base64
+  data: string; // base64 AES-GCM ciphertext of the JSON value
+}
+
+// Passphrase vault settings for one profile. The passphrase itself is never stored.
+export interface VaultConfig {
+  salt: string; // base64 PBKDF2 salt
+  iterations: number;
+  check: EncryptedRecord; // Known text encrypted with the key, to tell a wrong passphrase apart
+  autoLockMinutes: number; // 0 disables auto-lock
+  createdAt: string; // ISO string
+}
+
+// A friend's progress as read from their signed progress code (see utils/progressCard).
+export interface ProgressCard {
+  cardId: string; // Random per student, so classmates who share a name stay apart
+  name: string;
+  level: number;
+  xp: number;
+  streak: number;
+  badges: AchievementType[];
+  prestige: number; // Times the student has prestiged
+  issuedAt: string; // ISO string
+}
+
+// Friends' progress codes collected for a class leaderboard, checked with a secret the group shares.
+export interface Leaderboard {
+  cardId: string; // Put on the student's own cards
+  groupSecret: string;
+  codes: string[];
+}
+
+// Connection to a self-hosted sync server (server/sync-server.mjs) for one profile.
+export interface SyncConfig {
+  serverUrl: string;
+  syncCode: string; // Shared secret naming the student's data on the server; the same on every device
+  deviceId: string; // Random ID for this browser, used to keep each device's progress apart
+}
+
+// When a synced value last changed, and on which device.
+export interface SyncStamp {
+  updatedAt: number; // ms since epoch
+  deviceId: string;
+}
+
+// What this device knows about synced data, kept between syncs.
+export interface SyncState {
+  items: Record<string, SyncStamp & { fingerprint: string | null }>; // Saved items by ID; a null fingerprint marks a deletion
+  toolInputs: Record<string, SyncStamp & { fingerprint: string }>;
+  counters: Record<string, Record<string, number>>; // Counter name -> device ID -> that device's contribution
+  revision: number; // Server revision of the last sync
+  lastSyncedAt: string | null; // ISO string
+}
+
+// Gemini API key entered at runtime. `value` is the raw key unless `obfuscated` is set.
+export interface StoredApiKey {
+  value: string;
+  obfuscated: boolean; // Scrambled so the key isn't readable at a glance in devtools; NOT encryption
+  savedAt: string; // ISO string
+}
+
+// Daily AI spending limits. A null limit is not enforced.
+export type UsageBudgetMode = 'warn' | 'block';
+
+export interface UsageBudget {
+  dailyTokenLimit: number | null;
+  dailyCostLimitUsd: number | null;
+  mode: UsageBudgetMode; // 'warn' only notifies; 'block' refuses requests that would go over a limit
+}
+
 // Types for Study Routine Auto-Fixer
 export type DifficultyLevel = 'easy' | 'medium' | 'hard';
 export interface StudyPlan {
@@ -183,6 +375,42 @@ export interface PressureAnalysis {
 }
 
 
+// Types for the prompt registry
+export type PromptId =
+  | 'dailyAchievements.motivationSystem'
+  | 'dailyAchievements.motivationPrompt'
+  | 'studyRoutine.individualSystem'
+  | 'studyRoutine.groupSystem'
+  | 'notesCleaner.system'
+  | 'notesCleaner.instruction'
+  | 'homeworkChecker.system'
+  | 'moodStress.system'
+  | 'moodStress.feelingPrompt'
+  | 'moodStress.journalPrompt'
+  | 'decisionHelper.system'
+  | 'decisionHelper.prompt'
+  | 'predictMyGrade.system'
+  | 'deadlinePressure.system'
+  | 'deadlinePressure.prompt';
+
+export interface PromptTemplate {
+  id: PromptId;
+  version: number; // Bump whenever the built-in text changes
+  tool: ToolName;
+  label: string;
+  template: string; // May contain {{variable}} placeholders
+  variables: string[]; // Placeholders the calling tool fills in
+}
+
+// 'replace' always uses the custom text; 'abTest' picks default or custom at random per request
+export type PromptOverrideMode = 'replace' | 'abTest';
+
+export interface PromptOverride {
+  template: string;
+  mode: PromptOverrideMode;
+  updatedAt: string; // ISO string
+}
+
 // New type for saved AI responses
 export interface SavedItem {
   id: string;
@@ -190,6 +418,8 @@ export interface SavedItem {
   title: string;
   content: string;
   timestamp: string; // ISO string for easy sorting/display
+  promptVersion?: string; // Prompt registry version(s) that produced the content
+  deletedAt?: string; // ISO string; set while the item is in the trash (see utils/savedItemsTrash)
 }
 
 // Common props for tools that send messages and can trigger gamification actions
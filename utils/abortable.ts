@@ -0,0 +1,29 @@
+/**
+ * Creates the same error `fetch` throws when its signal aborts, so callers can
+ * treat every cancelled request alike.
+ * @returns A DOMException named "AbortError".
+ */
+export const createAbortError = (): DOMException =>
+  new DOMException('The request was aborted.', 'AbortError');
+
+/**
+ * Resolves after `ms`, or rejects with an AbortError as soon as `signal` aborts.
+ * @param ms Delay in milliseconds.
+ * @param signal Optional signal that cancels the wait.
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { AchievementType, ActionType, DailyAchievementState, DailyActivityCounts } from '../types';
+import { evaluateAchievements, getAchievementProgress } from './achievementRules';
+
+const TODAY = '2026-10-19';
+
+const day = (counts: Partial<DailyActivityCounts>): DailyActivityCounts => ({
+  studyPlansGenerated: 0, notesSummarized: 0, homeworkChecked: 0, moodUpdates: 0, decisionsMade: 0, gradesPredicted: 0,
+  focusBeastEligibleToday: false, ...counts,
+});
+
+const makeState = (dailyActionCounts: DailyAchievementState['dailyActionCounts'], currentStreak = 1): DailyAchievementState => ({
+  xpState: { xp: 0, level: 0 }, unlockedBadges: [], currentStreak, lastActivityDate: TODAY, dailyActionCounts,
+});
+
+const unlockedIds = (state: DailyAchievementState, action?: { type: ActionType; data?: Record<string, any> }) =>
+  evaluateAchievements({ state, today: TODAY, action }).unlocked.map(badge => badge.id);
+
+describe('evaluateAchievements', () => {
+  it('unlocks count badges on the day the target is reached', () => {
+    expect(unlockedIds(makeState({ [TODAY]: day({ notesSummarized: 4 }) }))).toEqual([]);
+    expect(unlockedIds(makeState({ [TODAY]: day({ notesSummarized: 5 }) }))).toEqual([AchievementType.NOTES_HERO]);
+  });
+
+  it('needs consecutive days; a run may end yesterday', () => {
+    const run = { '2026-10-16': day({ studyPlansGenerated: 1 }), '2026-10-17': day({ studyPlansGenerated: 1 }), '2026-10-18': day({ studyPlansGenerated: 1 }) };
+    expect(unlockedIds(makeState(run))).toEqual([AchievementType.FIRE_MASTER]);
+    const gap = { ...run, '2026-10-17': day({}) };
+    expect(unlockedIds(makeState(gap))).toEqual([]);
+  });
+
+  it('checks action data only for the action being handled', () => {
+    const state = makeState({});
+    expect(unlockedIds(state, { type: ActionType.STUDY_PLAN_GENERATED, data: { hoursPerDay: 2 } })).toEqual([AchievementType.FOCUS_BEAST]);
+    expect(unlockedIds(state, { type: ActionType.STUDY_PLAN_GENERATED, data: { hoursPerDay: 1 } })).toEqual([]);
+    expect(unlockedIds(state)).toEqual([]);
+  });
+
+  it('unlocks each badge once and returns the same state when nothing changes', () => {
+    const state = makeState({}, 7);
+    const { state: next, unlocked } = evaluateAchievements({ state, today: TODAY });
+    expect(unlocked.map(badge => badge.id)).toEqual([AchievementType.CONSISTENCY_KING_QUEEN]);
+    expect(evaluateAchievements({ state: next, today: TODAY }).state).toBe(next);
+  });
+});
+
+describe('getAchievementProgress', () => {
+  it('measures locked badges, leaving out one-off ones', () => {
+    const progress = getAchievementProgress(makeState({ [TODAY]: day({ homeworkChecked: 2 }) }, 3), TODAY);
+    expect(progress[AchievementType.HOMEWORK_LEGEND]).toEqual({ current: 2, total: 5 });
+    expect(progress[AchievementType.CONSISTENCY_KING_QUEEN]).toEqual({ current: 3, total: 7 });
+    expect(progress[AchievementType.FOCUS_BEAST]).toBeUndefined();
+  });
+});
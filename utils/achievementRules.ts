@@ -0,0 +1,188 @@
+import { Achievement, AchievementType, ActionType, DailyAchievementState } from '../types';
+import { ACTION_COUNTERS, CountedField } from './activityHistory';
+import { addDaysToKey } from './dateUtils';
+
+// Longest run of days a 'consecutiveDays' rule looks back over.
+const MAX_RUN_DAYS = 366;
+
+export type CountableAction = keyof typeof ACTION_COUNTERS;
+
+/**
+ * When a badge unlocks. Rules are plain data, so a new badge only needs a new
+ * entry in ACHIEVEMENT_DEFINITIONS.
+ */
+export type AchievementRule =
+  // The action was done at least `atLeast` times in the last `withinDays` days (1 = today only)
+  | { kind: 'count'; action: CountableAction; atLeast: number; withinDays: number }
+  // The action was done on `atLeast` days in a row, ending today or yesterday
+  | { kind: 'consecutiveDays'; action: CountableAction; atLeast: number }
+  // The app was used `atLeast` days in a row
+  | { kind: 'streak'; atLeast: number }
+  // The action being handled right now carried data[field] >= atLeast
+  | { kind: 'actionData'; action: ActionType; field: string; atLeast: number }
+  | { kind: 'all'; rules: AchievementRule[] }
+  | { kind: 'any'; rules: AchievementRule[] };
+
+export interface AchievementDefinition extends Omit<Achievement, 'unlockedAt'> {
+  rule: AchievementRule;
+}
+
+export interface AchievementProgress {
+  current: number;
+  total: number;
+}
+
+// What the rules are checked against.
+export interface AchievementContext {
+  state: DailyAchievementState;
+  today: string; // Day key (see utils/dateUtils)
+  action?: { type: ActionType; data?: Record<string, any> }; // Absent when re-checking outside an action
+}
+
+export const ACHIEVEMENT_DEFINITIONS: Record<AchievementType, AchievementDefinition> = {
+  [AchievementType.FIRE_MASTER]: {
+    id: AchievementType.FIRE_MASTER,
+    name: 'Fire Master',
+    description: 'Generate study plans for 3 consecutive days.',
+    icon: '🔥',
+    rule: { kind: 'consecutiveDays', action: ActionType.STUDY_PLAN_GENERATED, atLeast: 3 },
+  },
+  [AchievementType.NOTES_HERO]: {
+    id: AchievementType.NOTES_HERO,
+    name: 'Notes Hero',
+    description: 'Create 5 unique notes summaries in a day.',
+    icon: '📝',
+    rule: { kind: 'count', action: ActionType.NOTES_SUMMARIZED, atLeast: 5, withinDays: 1 },
+  },
+  [AchievementType.HOMEWORK_LEGEND]: {
+    id: AchievementType.HOMEWORK_LEGEND,
+    name: 'Homework Legend',
+    description: 'Complete 5 unique homework checks in a day.',
+    icon: '📚',
+    rule: { kind: 'count', action: ActionType.HOMEWORK_CHECKED, atLeast: 5, withinDays: 1 },
+  },
+  [AchievementType.FOCUS_BEAST]: {
+    id: AchievementType.FOCUS_BEAST,
+    name: 'Focus Beast',
+    description: 'Generate a study plan of 2+ hours.',
+    icon: '🧠',
+    rule: { kind: 'actionData', action: ActionType.STUDY_PLAN_GENERATED, field: 'hoursPerDay', atLeast: 2 },
+  },
+  [AchievementType.CONSISTENCY_KING_QUEEN]: {
+    id: AchievementType.CONSISTENCY_KING_QUEEN,
+    name: 'Consistency King/Queen',
+    description: 'Maintain a 7-day app usage streak.',
+    icon: '👑',
+    rule: { kind: 'streak', atLeast: 7 },
+  },
+};
+
+const countOn = (state: DailyAchievementState, day: string, action: CountableAction): number =>
+  state.dailyActionCounts[day]?.[ACTION_COUNTERS[action] as CountedField] || 0;
+
+const countWithin = (state: DailyAchievementState, today: string, action: CountableAction, withinDays: number): number => {
+  let total = 0;
+  for (let i = 0; i < withinDays; i++) {
+    total += countOn(state, addDaysToKey(today, -i), action);
+  }
+  return total;
+};
+
+// A run that hasn't been extended today yet still counts, so it doesn't look broken all morning.
+const consecutiveDaysWith = (state: DailyAchievementState, today: string, action: CountableAction): number => {
+  let run = countOn(state, today, action) > 0 ? 1 : 0;
+  for (let i = 1; i < MAX_RUN_DAYS && countOn(state, addDaysToKey(today, -i), action) > 0; i++) {
+    run++;
+  }
+  return run;
+};
+
+/**
+ * Measures how far along a rule is.
+ * @returns The progress, or null for rules that are met in a single moment (actionData).
+ */
+const measureRule = (rule: AchievementRule, context: AchievementContext): AchievementProgress | null => {
+  const { state, today } = context;
+  switch (rule.kind) {
+    case 'count':
+      return { current: countWithin(state, today, rule.action, rule.withinDays), total: rule.atLeast };
+    case 'consecutiveDays':
+      return { current: consecutiveDaysWith(state, today, rule.action), total: rule.atLeast };
+    case 'streak':
+      return { current: state.currentStreak, total: rule.atLeast };
+    case 'actionData':
+      return null;
+    case 'all': {
+      // Each part counts up to its own target, so finishing one part early doesn't overshoot
+      const parts = rule.rules.map(part => measureRule(part, context)).filter((part): part is AchievementProgress => part !== null);
+      if (parts.length === 0) return null;
+      return {
+        current: parts.reduce((sum, part) => sum + Math.min(part.current, part.total), 0),
+        total: parts.reduce((sum, part) => sum + part.total, 0),
+      };
+    }
+    case 'any': {
+      const parts = rule.rules.map(part => measureRule(part, context)).filter((part): part is AchievementProgress => part !== null);
+      if (parts.length === 0) return null;
+      return parts.reduce((best, part) => (part.current / part.total > best.current / best.total ? part : best));
+    }
+  }
+};
+
+const isRuleMet = (rule: AchievementRule, context: AchievementContext): boolean => {
+  switch (rule.kind) {
+    case 'actionData':
+      return context.action?.type === rule.action && Number(context.action.data?.[rule.field]) >= rule.atLeast;
+    case 'all':
+      return rule.rules.every(part => isRuleMet(part, context));
+    case 'any':
+      return rule.rules.some(part => isRuleMet(part, context));
+    default: {
+      const progress = measureRule(rule, context);
+      return progress !== null && progress.current >= progress.total;
+    }
+  }
+};
+
+/**
+ * Checks every badge that isn't unlocked yet against its rule.
+ * @param context The state to check (already including the action's counts), today's date and the action, if any.
+ * @returns The state with new badges added (the same object if none unlocked) and the badges that unlocked.
+ */
+export const evaluateAchievements = (
+  context: AchievementContext,
+): { state: DailyAchievementState; unlocked: Achievement[] } => {
+  const { state } = context;
+  const unlockedAt = new Date().toISOString();
+  const unlocked: Achievement[] = Object.values(ACHIEVEMENT_DEFINITIONS)
+    .filter(definition => !state.unlockedBadges.includes(definition.id) && isRuleMet(definition.rule, context))
+    .map(({ rule, ...badge }) => ({ ...badge, unlockedAt }));
+
+  if (unlocked.length === 0) {
+    return { state, unlocked };
+  }
+  return {
+    state: { ...state, unlockedBadges: [...state.unlockedBadges, ...unlocked.map(badge => badge.id)] },
+    unlocked,
+  };
+};
+
+/**
+ * Progress towards each locked badge, for the dashboard.
+ * @param state The achievement state.
+ * @param today Today's day key (see utils/dateUtils).
+ * @returns Progress by badge; badges without measurable progress are left out.
+ */
+export const getAchievementProgress = (
+  state: DailyAchievementState,
+  today: string,
+): Partial<Record<AchievementType, AchievementProgress>> => {
+  const progress: Partial<Record<AchievementType, AchievementProgress>> = {};
+  Object.values(ACHIEVEMENT_DEFINITIONS).forEach(definition => {
+    const measured = measureRule(definition.rule, { state, today });
+    if (measured) {
+      progress[definition.id] = measured;
+    }
+  });
+  return progress;
+};
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ActionType, DailyAchievementState, DailyActivityCounts } from '../types';
+import { rebucketDailyCounts } from './activityHistory';
+import { getDayKey, getTodayKey } from './dateUtils';
+import { advanceStreak } from './streaks';
+
+const day = (counts: Partial<DailyActivityCounts>): DailyActivityCounts => ({
+  studyPlansGenerated: 0, notesSummarized: 0, homeworkChecked: 0, moodUpdates: 0, decisionsMade: 0, gradesPredicted: 0,
+  focusBeastEligibleToday: false, ...counts,
+});
+
+describe('rebucketDailyCounts', () => {
+  // 2 AM local time: on the 20th with midnight days, still the 19th with 6 AM days
+  const now = new Date(2026, 9, 20, 2);
+
+  const makeState = (actionTimes: Date[]): DailyAchievementState => ({
+    xpState: { xp: 20 * actionTimes.length, level: 0 },
+    unlockedBadges: [],
+    currentStreak: 5,
+    lastActivityDate: '2026-10-20',
+    dailyActionCounts: Object.fromEntries(actionTimes.map(time => [getDayKey(time), day({ notesSummarized: 1 })])),
+    xpLedger: actionTimes.map((time, i) => ({
+      id: `award-${i}`, action: ActionType.NOTES_SUMMARIZED, amount: 20, timestamp: time.toISOString(), tool: null,
+    })),
+    dayStartHour: 0,
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('moves counts onto the day their actions now fall on', () => {
+    const state = rebucketDailyCounts(makeState([now]), 6);
+    expect(state.dailyActionCounts['2026-10-19'].notesSummarized).toBe(1);
+    expect(state.dailyActionCounts['2026-10-20'].notesSummarized).toBe(0);
+    expect(rebucketDailyCounts(state, 6)).toBe(state);
+  });
+
+  it("doesn't grow the streak when the setting is toggled after midnight", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    expect(getDayKey(now, 6)).toBe('2026-10-19');
+
+    // The app was opened today, but the last action was the evening before
+    let state = makeState([new Date(2026, 9, 19, 20)]);
+    for (const hour of [6, 0, 6, 0]) {
+      state = rebucketDailyCounts(state, hour);
+      state = advanceStreak(state, getTodayKey(hour), now.getTime()).state;
+    }
+    expect(state.currentStreak).toBe(5);
+    expect(state.lastActivityDate).toBe('2026-10-20');
+  });
+});
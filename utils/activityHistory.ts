@@ -0,0 +1,155 @@
+import { ActionType, DailyAchievementState, DailyActivityCounts, ActivitySummary } from '../types';
+import { DEFAULT_DAY_START_HOUR, addDaysToKey, getDayKey, getTodayKey, getUtcDayKey, getWeekStartKey } from './dateUtils';
+
+// Daily counts stay as they are for this long; streaks and badges only look back a week.
+export const KEEP_DAILY_DAYS = 90;
+// Weekly summaries are folded into monthly ones after this long.
+export const KEEP_WEEKLY_DAYS = 365;
+
+export type CountedField = keyof ActivitySummary['counts'];
+const COUNTED_FIELDS: CountedField[] = [
+  'studyPlansGenerated', 'notesSummarized', 'homeworkChecked', 'moodUpdates', 'decisionsMade', 'gradesPredicted',
+];
+
+// The daily counter each action increments. Actions missing here aren't counted per day.
+export const ACTION_COUNTERS: Partial<Record<ActionType, CountedField>> = {
+  [ActionType.STUDY_PLAN_GENERATED]: 'studyPlansGenerated', // At most 1 per day
+  [ActionType.NOTES_SUMMARIZED]: 'notesSummarized',
+  [ActionType.HOMEWORK_CHECKED]: 'homeworkChecked',
+  [ActionType.MOOD_UPDATED]: 'moodUpdates',
+  [ActionType.DECISION_MADE]: 'decisionsMade',
+  [ActionType.GRADE_PREDICTED]: 'gradesPredicted',
+};
+
+const monthStart = (day: string): string => `${day.slice(0, 7)}-01`;
+
+const emptyCounts = (): ActivitySummary['counts'] => ({
+  studyPlansGenerated: 0, notesSummarized: 0, homeworkChecked: 0, moodUpdates: 0, decisionsMade: 0, gradesPredicted: 0,
+});
+
+const emptyDay = (): DailyActivityCounts => ({ ...emptyCounts(), focusBeastEligibleToday: false });
+
+const isActiveDay = (counts: DailyActivityCounts): boolean => COUNTED_FIELDS.some(field => (counts[field] || 0) > 0);
+
+/**
+ * Adds counts into the summary for a period, creating it if needed.
+ */
+const addToSummary = (
+  summaries: Map<string, ActivitySummary>,
+  period: ActivitySummary['period'],
+  start: string,
+  counts: ActivitySummary['counts'],
+  activeDays: number,
+): void => {
+  const key = `${period}:${start}`;
+  const summary = summaries.get(key) ?? { period, start, activeDays: 0, counts: emptyCounts() };
+  COUNTED_FIELDS.forEach(field => {
+    summary.counts[field] += counts[field] || 0;
+  });
+  summary.activeDays += activeDays;
+  summaries.set(key, summary);
+};
+
+/**
+ * Shrinks the activity history: daily counts older than KEEP_DAILY_DAYS become
+ * weekly totals, and weeks older than KEEP_WEEKLY_DAYS become monthly totals
+ * (a week spanning two months counts towards the month it starts in). XP,
+ * badges and the streak are not affected.
+ * @param state The achievement state.
+ * @param today Today's day key (see utils/dateUtils).
+ * @returns A compacted copy, or the same object if nothing was old enough.
+ */
+export const compactActivityHistory = (
+  state: DailyAchievementState,
+  today: string = getTodayKey(state.dayStartHour),
+): DailyAchievementState => {
+  // Cut at week and month boundaries so no period is ever summarized in two parts
+  const dailyCutoff = getWeekStartKey(addDaysToKey(today, -KEEP_DAILY_DAYS));
+  const weeklyCutoff = monthStart(addDaysToKey(today, -KEEP_WEEKLY_DAYS));
+  const archive = state.activityArchive;
+  const oldDays = Object.keys(state.dailyActionCounts).filter(day => day < dailyCutoff);
+  const hasOldWeeks = archive?.summaries.some(summary => summary.period === 'week' && summary.start < weeklyCutoff);
+  if (oldDays.length === 0 && !hasOldWeeks) {
+    return state;
+  }
+
+  const summaries = new Map<string, ActivitySummary>();
+  archive?.summaries.forEach(summary => {
+    if (summary.period === 'week' && summary.start < weeklyCutoff) {
+      addToSummary(summaries, 'month', monthStart(summary.start), summary.counts, summary.activeDays);
+    } else {
+      addToSummary(summaries, summary.period, summary.start, summary.counts, summary.activeDays);
+    }
+  });
+
+  const dailyActionCounts = { ...state.dailyActionCounts };
+  oldDays.forEach(day => {
+    const counts = dailyActionCounts[day];
+    delete dailyActionCounts[day];
+    // Days before the last cutoff are already in the summaries (e.g. re-added by an import)
+    if (archive && day < archive.compactedBefore) return;
+    const start = getWeekStartKey(day);
+    const period = start < weeklyCutoff ? 'month' : 'week';
+    addToSummary(summaries, period, period === 'month' ? monthStart(start) : start, counts, isActiveDay(counts) ? 1 : 0);
+  });
+
+  return {
+    ...state,
+    dailyActionCounts,
+    activityArchive: {
+      compactedBefore: archive && archive.compactedBefore > dailyCutoff ? archive.compactedBefore : dailyCutoff,
+      summaries: [...summaries.values()].sort((a, b) => a.start.localeCompare(b.start)),
+    },
+  };
+};
+
+/**
+ * Re-keys daily counts for a new day boundary: from UTC dates (data saved
+ * before days followed the local calendar) or another "day starts at" hour.
+ * Each XP ledger entry says exactly when an action happened, so its count
+ * moves to the day it now falls on. Older counts without a ledger entry, and
+ * days already compacted, stay where they are. The last activity day never
+ * moves earlier, even when today does, so the streak can't count a day twice.
+ * @param state The achievement state.
+ * @param dayStartHour The new local hour the day starts at.
+ * @returns A re-keyed copy, or the same object if the boundary is unchanged.
+ */
+export const rebucketDailyCounts = (
+  state: DailyAchievementState,
+  dayStartHour: number = DEFAULT_DAY_START_HOUR,
+): DailyAchievementState => {
+  if (state.dayStartHour === dayStartHour) {
+    return state;
+  }
+  const previousDayOf = (time: number): string =>
+    state.dayStartHour === undefined ? getUtcDayKey(time) : getDayKey(time, state.dayStartHour);
+  const compactedBefore = state.activityArchive?.compactedBefore ?? '';
+
+  const dailyActionCounts: DailyAchievementState['dailyActionCounts'] = {};
+  Object.entries(state.dailyActionCounts).forEach(([day, counts]) => {
+    dailyActionCounts[day] = { ...counts };
+  });
+
+  // The streak has already counted the last activity day, so it only ever moves later
+  let latestDay = state.lastActivityDate ?? '';
+  (state.xpLedger ?? []).forEach(entry => {
+    const field = entry.action === 'carriedOver' ? undefined : ACTION_COUNTERS[entry.action];
+    const time = Date.parse(entry.timestamp);
+    if (!field || Number.isNaN(time)) return;
+    const from = previousDayOf(time);
+    const to = getDayKey(time, dayStartHour);
+    if (to > latestDay) latestDay = to;
+    const source = dailyActionCounts[from];
+    if (from === to || !source || source[field] <= 0 || to < compactedBefore) return;
+    source[field] -= 1;
+    const target = dailyActionCounts[to] ??= emptyDay();
+    target[field] = field === 'studyPlansGenerated' ? 1 : target[field] + 1;
+  });
+
+  return {
+    ...state,
+    dailyActionCounts,
+    lastActivityDate: latestDay || null,
+    dayStartHour,
+  };
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ActionType, SavedItem, ToolName } from '../types';
+import { applyImport, createBackup, parseBackup } from './dataBackup';
+import {
+  loadLeaderboard, loadSavedItems, loadXpRuleOverrides, saveDailyAchievementState, saveItems, saveLeaderboard, saveXpRuleOverrides,
+} from './localStorageService';
+import { recordXpAward } from './xpLedger';
+
+const item: SavedItem = {
+  id: 'notes', toolName: ToolName.NOTES_CLEANER, title: 'Biology', content: 'Cells', timestamp: '2026-10-19T08:00:00.000Z',
+};
+
+const fillStorage = () => {
+  saveItems([item]);
+  saveDailyAchievementState(recordXpAward({
+    xpState: { xp: 0, level: 0 }, unlockedBadges: [], currentStreak: 2, lastActivityDate: '2026-10-19', dailyActionCounts: {}, xpLedger: [],
+  }, ActionType.NOTES_SUMMARIZED, 20));
+  saveXpRuleOverrides({ [ActionType.NOTES_SUMMARIZED]: { dailyCap: 60, cooldownMinutes: null, updatedAt: '2026-10-19T08:00:00.000Z' } });
+  saveLeaderboard({ cardId: 'card-sam', groupSecret: 'maths-club', codes: ['SLS1.ana.sig'] });
+};
+
+describe('backups', () => {
+  it('restore what they hold, XP rule overrides and the leaderboard included', () => {
+    fillStorage();
+    const backup = parseBackup(JSON.stringify(createBackup()));
+
+    saveItems([]);
+    saveXpRuleOverrides({});
+    saveLeaderboard({ cardId: 'card-new', groupSecret: '', codes: [] });
+    applyImport(backup, 'replace');
+
+    expect(loadSavedItems()).toEqual([item]);
+    expect(loadXpRuleOverrides()).toEqual(backup.settings.xpRuleOverrides);
+    expect(loadXpRuleOverrides()[ActionType.NOTES_SUMMARIZED]).toMatchObject({ dailyCap: 60, cooldownMinutes: null });
+    expect(loadLeaderboard()).toEqual({ cardId: 'card-sam', groupSecret: 'maths-club', codes: ['SLS1.ana.sig'] });
+    expect(createBackup()).toEqual({ ...backup, exportedAt: expect.any(String) });
+  });
+
+  it("merge friends' codes into this browser's leaderboard", () => {
+    fillStorage();
+    const backup = parseBackup(JSON.stringify(createBackup()));
+
+    saveLeaderboard({ cardId: 'card-here', groupSecret: '', codes: ['SLS1.ben.sig'] });
+    applyImport(backup, 'merge');
+    expect(loadLeaderboard()).toEqual({ cardId: 'card-here', groupSecret: 'maths-club', codes: ['SLS1.ben.sig', 'SLS1.ana.sig'] });
+  });
+
+  it('reject a damaged leaderboard', () => {
+    const backup = { ...createBackup(), leaderboard: { cardId: 'card-sam', groupSecret: 'maths-club', codes: [1] } };
+    expect(() => parseBackup(JSON.stringify(backup))).toThrow('leaderboard');
+  });
+});
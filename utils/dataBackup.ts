@@ -0,0 +1,347 @@
+import {
+  SavedItem, DailyAchievementState, DailyActivityCounts, StudyRoutineInputs, NotesSummarizerInputs,
+  HomeworkCheckerInputs, DeadlinePressureInputs, LLMProviderSettings, UsageBudget, PromptId, PromptOverride,
+  ToolName, AchievementType, ActionType, XpRuleOverride, Leaderboard,
+} from '../types';
+import {
+  loadSavedItems, saveItems, loadDailyAchievementState, saveDailyAchievementState,
+  loadStudyRoutineInputs, saveStudyRoutineInputs, loadNotesSummarizerInputs, saveNotesSummarizerInputs,
+  loadHomeworkCheckerInputs, saveHomeworkCheckerInputs, loadDeadlinePressureInputs, saveDeadlinePressureInputs,
+  loadSoundEnabled, saveSoundEnabled, loadLlmProviderSettings, saveLlmProviderSettings,
+  loadResponseCacheEnabled, saveResponseCacheEnabled, loadUsageBudget, saveUsageBudget,
+  loadPromptOverrides, savePromptOverrides, loadXpRuleOverrides, saveXpRuleOverrides, loadLeaderboard, saveLeaderboard,
+} from './localStorageService';
+import { getActiveProfile, renameProfile } from './profileService';
+import { getXpLedger, mergeXpLedgers, deriveXpState } from './xpLedger';
+import { rebucketDailyCounts } from './activityHistory';
+import { DEFAULT_DAY_START_HOUR } from './dateUtils';
+
+export const BACKUP_FORMAT = 'sls-backup';
+// Bump when the archive layout changes, and teach `upgradeBackup` to read older files.
+export const BACKUP_VERSION = 1;
+
+// API keys never leave the browser they were entered in, and recorded
+// fixtures have their own export in the AI Provider settings. The class
+// leaderboard's group secret is included, so a restore keeps the leaderboard working.
+export interface DataBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string; // ISO string
+  userName: string | null;
+  savedItems: SavedItem[];
+  dailyAchievementState: DailyAchievementState;
+  leaderboard?: Leaderboard; // Missing in backups made before the class leaderboard
+  toolInputs: {
+    studyRoutine: StudyRoutineInputs;
+    notesSummarizer: NotesSummarizerInputs;
+    homeworkChecker: HomeworkCheckerInputs;
+    deadlinePressure: DeadlinePressureInputs;
+  };
+  settings: {
+    soundEnabled: boolean;
+    llmProvider: Omit<LLMProviderSettings, 'apiKey'>;
+    responseCacheEnabled: boolean;
+    usageBudget: UsageBudget;
+    promptOverrides: Partial<Record<PromptId, PromptOverride>>;
+    xpRuleOverrides?: Partial<Record<ActionType, XpRuleOverride>>; // Missing in backups made before XP rules could be changed
+  };
+}
+
+// How imported saved work, progress and leaderboard codes combine with what's already here.
+// Tool inputs and settings are always taken from the backup.
+export type BackupImportMode = 'merge' | 'replace';
+
+export interface BackupPreview {
+  exportedAt: string;
+  userName: { current: string | null; incoming: string | null };
+  savedItems: { added: number; updated: number; removed: number; total: number };
+  xp: { current: number; result: number };
+  badges: { added: AchievementType[]; removed: AchievementType[] };
+  streak: { current: number; result: number };
+  activityDays: { current: number; result: number };
+}
+
+/**
+ * Thrown when a file isn't a readable SLS backup. The message is shown to the student.
+ */
+export class BackupValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupValidationError';
+  }
+}
+
+const TOOL_NAMES = Object.values(ToolName) as string[];
+const ACHIEVEMENT_TYPES = Object.values(AchievementType) as string[];
+
+/**
+ * Collects everything the app stores for the current student.
+ * @returns A DataBackup.
+ */
+export const createBackup = (): DataBackup => {
+  const { apiKey: _apiKey, ...llmProvider } = loadLlmProviderSettings();
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    userName: getActiveProfile()?.name ?? null,
+    savedItems: loadSavedItems(),
+    dailyAchievementState: loadDailyAchievementState(),
+    leaderboard: loadLeaderboard(),
+    toolInputs: {
+      studyRoutine: loadStudyRoutineInputs(),
+      notesSummarizer: loadNotesSummarizerInputs(),
+      homeworkChecker: loadHomeworkCheckerInputs(),
+      deadlinePressure: loadDeadlinePressureInputs(),
+    },
+    settings: {
+      soundEnabled: loadSoundEnabled(),
+      llmProvider,
+      responseCacheEnabled: loadResponseCacheEnabled(),
+      usageBudget: loadUsageBudget(),
+      promptOverrides: loadPromptOverrides(),
+      xpRuleOverrides: loadXpRuleOverrides(),
+    },
+  };
+};
+
+/**
+ * Downloads a backup of all data as a JSON file.
+ */
+export const downloadBackup = (): void => {
+  const backup = createBackup();
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `sls-backup-${backup.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const assertValid = (condition: boolean, message: string): void => {
+  if (!condition) {
+    throw new BackupValidationError(message);
+  }
+};
+
+const isSavedItem = (value: unknown): value is SavedItem =>
+  isObject(value)
+  && typeof value.id === 'string'
+  && typeof value.title === 'string'
+  && typeof value.content === 'string'
+  && typeof value.timestamp === 'string'
+  && TOOL_NAMES.includes(value.toolName as string);
+
+const isDailyAchievementState = (value: unknown): value is DailyAchievementState =>
+  isObject(value)
+  && isObject(value.xpState)
+  && typeof value.xpState.xp === 'number'
+  && typeof value.xpState.level === 'number'
+  && Array.isArray(value.unlockedBadges)
+  && value.unlockedBadges.every(badge => ACHIEVEMENT_TYPES.includes(badge as string))
+  && typeof value.currentStreak === 'number'
+  && (value.lastActivityDate === null || typeof value.lastActivityDate === 'string')
+  && isObject(value.dailyActionCounts);
+
+const isLeaderboard = (value: unknown): value is Leaderboard =>
+  isObject(value)
+  && typeof value.cardId === 'string'
+  && typeof value.groupSecret === 'string'
+  && Array.isArray(value.codes)
+  && value.codes.every(code => typeof code === 'string');
+
+/**
+ * Combines leaderboards: this browser keeps its card ID and any group secret
+ * it has, and friends' codes from both are kept.
+ */
+const mergeLeaderboards = (current: Leaderboard, incoming: Leaderboard): Leaderboard => ({
+  cardId: current.cardId,
+  groupSecret: current.groupSecret || incoming.groupSecret,
+  codes: [...new Set([...current.codes, ...incoming.codes])],
+});
+
+/**
+ * Brings an older backup up to the current layout. Version 1 is the first
+ * format, so there is nothing to convert yet.
+ */
+const upgradeBackup = (backup: Record<string, unknown>): Record<string, unknown> => backup;
+
+/**
+ * Parses and validates a backup file.
+ * @param text The file contents.
+ * @returns The backup.
+ * @throws BackupValidationError if the file isn't a valid SLS backup.
+ */
+export const parseBackup = (text: string): DataBackup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupValidationError('This file isn\'t valid JSON.');
+  }
+  assertValid(isObject(parsed) && parsed.format === BACKUP_FORMAT, 'This file isn\'t an SLS backup.');
+  const raw = parsed as Record<string, unknown>;
+  assertValid(typeof raw.version === 'number', 'The backup has no version number.');
+  assertValid(
+    (raw.version as number) <= BACKUP_VERSION,
+    'This backup was made by a newer version of SLS. Update the app and try again.',
+  );
+
+  const backup = upgradeBackup(raw);
+  assertValid(Array.isArray(backup.savedItems) && backup.savedItems.every(isSavedItem), 'The saved work in this backup is damaged.');
+  assertValid(isDailyAchievementState(backup.dailyAchievementState), 'The XP and badge data in this backup is damaged.');
+  assertValid(isObject(backup.toolInputs) && isObject(backup.settings), 'The backup is missing tool inputs or settings.');
+  assertValid(backup.userName === null || typeof backup.userName === 'string', 'The name in this backup is damaged.');
+  assertValid(backup.leaderboard === undefined || isLeaderboard(backup.leaderboard), 'The class leaderboard in this backup is damaged.');
+  return backup as unknown as DataBackup;
+};
+
+/**
+ * Combines saved items by ID; when both sides have an item, the newer copy wins.
+ */
+const mergeSavedItems = (current: SavedItem[], incoming: SavedItem[]): SavedItem[] => {
+  const byId = new Map(current.map(item => [item.id, item]));
+  incoming.forEach(item => {
+    const existing = byId.get(item.id);
+    if (!existing || item.timestamp > existing.timestamp) {
+      byId.set(item.id, item);
+    }
+  });
+  return [...byId.values()].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+const mergeDayCounts = (a: DailyActivityCounts | undefined, b: DailyActivityCounts): DailyActivityCounts => {
+  if (!a) return b;
+  return {
+    studyPlansGenerated: Math.max(a.studyPlansGenerated, b.studyPlansGenerated),
+    notesSummarized: Math.max(a.notesSummarized, b.notesSummarized),
+    homeworkChecked: Math.max(a.homeworkChecked, b.homeworkChecked),
+    moodUpdates: Math.max(a.moodUpdates, b.moodUpdates),
+    decisionsMade: Math.max(a.decisionsMade, b.decisionsMade),
+    gradesPredicted: Math.max(a.gradesPredicted, b.gradesPredicted),
+    focusBeastEligibleToday: a.focusBeastEligibleToday || b.focusBeastEligibleToday,
+  };
+};
+
+/**
+ * Combines two achievement states. The two copies usually share history (the
+ * backup was made from this browser, or both grew from the same start), so
+ * totals take the larger side rather than adding up. XP ledgers combine by
+ * entry, so awards both sides share are only counted once.
+ */
+const mergeAchievementState = (current: DailyAchievementState, backupState: DailyAchievementState): DailyAchievementState => {
+  // Key the backup's days the same way as this browser's before combining them
+  const incoming = rebucketDailyCounts(backupState, current.dayStartHour ?? DEFAULT_DAY_START_HOUR);
+  const dailyActionCounts = { ...current.dailyActionCounts };
+  Object.entries(incoming.dailyActionCounts).forEach(([date, counts]) => {
+    dailyActionCounts[date] = mergeDayCounts(dailyActionCounts[date], counts);
+  });
+  const latest = (incoming.lastActivityDate || '') > (current.lastActivityDate || '') ? incoming : current;
+  // Summaries can't be combined day by day; old days brought back here are dropped at the next compaction
+  const activityArchive = current.activityArchive ?? incoming.activityArchive;
+  const xpLedger = mergeXpLedgers(getXpLedger(current), getXpLedger(incoming));
+  const frozenDays = [...new Set([...(current.frozenDays ?? []), ...(incoming.frozenDays ?? [])])].sort();
+  const repairedDays = [...new Set([...(current.repairedDays ?? []), ...(incoming.repairedDays ?? [])])].sort();
+  // Quests are dealt the same way everywhere, so this browser's boards keep their rerolls
+  const questBoards = current.questBoards ?? incoming.questBoards;
+  return {
+    xpState: deriveXpState(xpLedger),
+    unlockedBadges: [...new Set([...current.unlockedBadges, ...incoming.unlockedBadges])],
+    currentStreak: latest.currentStreak,
+    lastActivityDate: latest.lastActivityDate,
+    dailyActionCounts,
+    ...(activityArchive ? { activityArchive } : {}),
+    xpLedger,
+    dayStartHour: incoming.dayStartHour,
+    ...(frozenDays.length ? { frozenDays } : {}),
+    ...(repairedDays.length ? { repairedDays } : {}),
+    ...(latest.brokenStreak ? { brokenStreak: latest.brokenStreak } : {}),
+    ...(questBoards ? { questBoards } : {}),
+    ...(current.recentInputs ? { recentInputs: current.recentInputs } : {}),
+  };
+};
+
+const resolveImport = (backup: DataBackup, mode: BackupImportMode) => {
+  const currentItems = loadSavedItems();
+  const currentState = loadDailyAchievementState();
+  return {
+    currentItems,
+    currentState,
+    savedItems: mode === 'replace' ? backup.savedItems : mergeSavedItems(currentItems, backup.savedItems),
+    dailyAchievementState: mode === 'replace' ? backup.dailyAchievementState : mergeAchievementState(currentState, backup.dailyAchievementState),
+  };
+};
+
+/**
+ * Describes what importing a backup would change, without changing anything.
+ * @param backup A validated backup.
+ * @param mode Merge with or replace the current data.
+ * @returns A BackupPreview.
+ */
+export const previewImport = (backup: DataBackup, mode: BackupImportMode): BackupPreview => {
+  const { currentItems, currentState, savedItems, dailyAchievementState } = resolveImport(backup, mode);
+  const currentById = new Map(currentItems.map(item => [item.id, item]));
+  const resultIds = new Set(savedItems.map(item => item.id));
+  return {
+    exportedAt: backup.exportedAt,
+    userName: { current: getActiveProfile()?.name ?? null, incoming: backup.userName },
+    savedItems: {
+      added: savedItems.filter(item => !currentById.has(item.id)).length,
+      updated: savedItems.filter(item => currentById.has(item.id) && currentById.get(item.id)!.timestamp !== item.timestamp).length,
+      removed: currentItems.filter(item => !resultIds.has(item.id)).length,
+      total: savedItems.length,
+    },
+    xp: { current: currentState.xpState.xp, result: dailyAchievementState.xpState.xp },
+    badges: {
+      added: dailyAchievementState.unlockedBadges.filter(badge => !currentState.unlockedBadges.includes(badge)),
+      removed: currentState.unlockedBadges.filter(badge => !dailyAchievementState.unlockedBadges.includes(badge)),
+    },
+    streak: { current: currentState.currentStreak, result: dailyAchievementState.currentStreak },
+    activityDays: {
+      current: Object.keys(currentState.dailyActionCounts).length,
+      result: Object.keys(dailyAchievementState.dailyActionCounts).length,
+    },
+  };
+};
+
+/**
+ * Writes a backup into storage. Reload the app afterwards so every tool picks
+ * up the imported data.
+ * @param backup A validated backup.
+ * @param mode Merge with or replace the current data.
+ */
+export const applyImport = (backup: DataBackup, mode: BackupImportMode): void => {
+  const { savedItems, dailyAchievementState } = resolveImport(backup, mode);
+  saveItems(savedItems);
+  saveDailyAchievementState(dailyAchievementState);
+  if (backup.leaderboard) {
+    saveLeaderboard(mode === 'replace' ? backup.leaderboard : mergeLeaderboards(loadLeaderboard(), backup.leaderboard));
+  }
+
+  const { toolInputs, settings } = backup;
+  if (toolInputs.studyRoutine) saveStudyRoutineInputs(toolInputs.studyRoutine);
+  if (toolInputs.notesSummarizer) saveNotesSummarizerInputs(toolInputs.notesSummarizer);
+  if (toolInputs.homeworkChecker) saveHomeworkCheckerInputs(toolInputs.homeworkChecker);
+  if (toolInputs.deadlinePressure) saveDeadlinePressureInputs(toolInputs.deadlinePressure);
+
+  if (typeof settings.soundEnabled === 'boolean') saveSoundEnabled(settings.soundEnabled);
+  if (settings.llmProvider) {
+    // Keep this browser's API key for the provider, since backups don't carry keys
+    const { apiKey } = loadLlmProviderSettings();
+    saveLlmProviderSettings({ ...settings.llmProvider, ...(apiKey ? { apiKey } : {}) });
+  }
+  if (typeof settings.responseCacheEnabled === 'boolean') saveResponseCacheEnabled(settings.responseCacheEnabled);
+  if (settings.usageBudget) saveUsageBudget(settings.usageBudget);
+  if (settings.promptOverrides) savePromptOverrides(settings.promptOverrides);
+  if (settings.xpRuleOverrides) saveXpRuleOverrides(settings.xpRuleOverrides);
+
+  // Data goes into the active profile; replacing it also takes the backup's name
+  const profile = getActiveProfile();
+  if (profile && backup.userName && mode === 'replace') {
+    renameProfile(profile.id, backup.userName);
+  }
+};
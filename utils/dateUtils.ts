@@ -0,0 +1,58 @@
+// Day keys are calendar dates (YYYY-MM-DD) in the student's own time zone.
+// A day can start a few hours after midnight, so a night owl's 1 AM study
+// session still counts towards the evening before.
+
+export const DEFAULT_DAY_START_HOUR = 0;
+export const MAX_DAY_START_HOUR = 6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Finds the day a moment belongs to.
+ * @param time A Date or milliseconds since the epoch.
+ * @param dayStartHour Local hour the day starts at (0 = midnight).
+ * @returns The local day key.
+ */
+export const getDayKey = (time: Date | number, dayStartHour: number = DEFAULT_DAY_START_HOUR): string => {
+  const date = new Date(time);
+  date.setHours(date.getHours() - dayStartHour); // Local arithmetic, so DST changes don't shift the boundary
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Today's day key.
+ * @param dayStartHour Local hour the day starts at (0 = midnight).
+ */
+export const getTodayKey = (dayStartHour: number = DEFAULT_DAY_START_HOUR): string => getDayKey(new Date(), dayStartHour);
+
+/**
+ * The UTC date of a moment, which is how days were keyed before they followed
+ * the local calendar. Only needed to convert old data.
+ */
+export const getUtcDayKey = (time: Date | number): string => new Date(time).toISOString().split('T')[0];
+
+/**
+ * Moves a day key by whole calendar days.
+ * @param day A day key.
+ * @param days Days to add (negative to go back).
+ */
+export const addDaysToKey = (day: string, days: number): string =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+
+/**
+ * Counts calendar days from one day key to another.
+ * @returns Positive when `to` is later.
+ */
+export const daysBetweenKeys = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+/**
+ * The Monday of the week a day falls in.
+ * @param day A day key.
+ */
+export const getWeekStartKey = (day: string): string => {
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+  return addDaysToKey(day, -((weekday + 6) % 7));
+};
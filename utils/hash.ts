@@ -0,0 +1,33 @@
+/**
+ * Serializes a value to JSON with object keys sorted, so that structurally
+ * equal values always produce the same string regardless of key order.
+ * @param value Any JSON-serializable value.
+ * @returns A deterministic JSON string.
+ */
+export const stableStringify = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+};
+
+/**
+ * Computes a fast, non-cryptographic 32-bit FNV-1a hash of a string.
+ * Suitable for lookup keys, not for anything security-related.
+ * @param input The string to hash.
+ * @returns The hash as an 8-character hex string.
+ */
+export const hashString = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
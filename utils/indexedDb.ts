@@ -0,0 +1,148 @@
+// Single IndexedDB database shared by every feature that outgrows localStorage.
+// Bump DB_VERSION and add a step to `upgradeDatabase` when adding object stores.
+const DB_NAME = 'sls';
+const DB_VERSION = 3;
+
+export const RESPONSE_CACHE_STORE = 'responseCache';
+export const USAGE_RECORDS_STORE = 'usageRecords';
+export const APP_DATA_STORE = 'appData';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Creates or migrates object stores. Each step runs once, in order, for
+ * databases older than its version.
+ * @param db The database being upgraded.
+ * @param oldVersion The version the database had before the upgrade (0 if new).
+ */
+const upgradeDatabase = (db: IDBDatabase, oldVersion: number): void => {
+  if (oldVersion < 1) {
+    const cache = db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' });
+    cache.createIndex('expiresAt', 'expiresAt');
+  }
+  if (oldVersion < 2) {
+    const usage = db.createObjectStore(USAGE_RECORDS_STORE, { keyPath: 'id', autoIncrement: true });
+    usage.createIndex('timestamp', 'timestamp');
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(APP_DATA_STORE, { keyPath: 'key' });
+  }
+};
+
+/**
+ * Opens (once) and returns the shared database.
+ * @returns A promise for the open IDBDatabase.
+ * @throws Error if IndexedDB is unavailable (e.g. some private browsing modes).
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null; // Allow a later retry
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs a single request against an object store in its own transaction.
+ * @param storeName The object store.
+ * @param mode Transaction mode.
+ * @param operation Builds the request from the store.
+ * @returns The request result.
+ */
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisifyRequest(operation(transaction.objectStore(storeName)));
+};
+
+export const idbGet = <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+
+export const idbGetAll = <T>(storeName: string): Promise<T[]> =>
+  withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const idbPut = async <T>(storeName: string, value: T): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.put(value));
+};
+
+export const idbDelete = async (storeName: string, key: IDBValidKey | IDBKeyRange): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+};
+
+export const idbClear = async (storeName: string): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.clear());
+};
+
+export const idbGetAllFromIndex = <T>(storeName: string, indexName: string, range?: IDBKeyRange): Promise<T[]> =>
+  withStore(storeName, 'readonly', store => store.index(indexName).getAll(range) as IDBRequest<T[]>);
+
+/**
+ * Deletes every record whose index value falls in a range (e.g. rows older than a cutoff).
+ * @param storeName The object store.
+ * @param indexName The index to match against.
+ * @param range The key range to delete.
+ * @returns The number of records deleted.
+ */
+export const idbDeleteFromIndex = async (storeName: string, indexName: string, range: IDBKeyRange): Promise<number> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const request = transaction.objectStore(storeName).index(indexName).openCursor(range);
+    let deleted = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        deleted++;
+        cursor.continue();
+      }
+    };
+    transaction.oncomplete = () => resolve(deleted);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Writes and deletes several records in one transaction, so either all of
+ * them land or none do.
+ * @param storeName The object store.
+ * @param puts Records to write.
+ * @param deletes Keys to delete.
+ * @returns A promise that resolves once the transaction has committed.
+ */
+export const idbBulkWrite = async <T>(storeName: string, puts: T[], deletes: IDBValidKey[] = []): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    puts.forEach(value => store.put(value));
+    deletes.forEach(key => store.delete(key));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { LEVEL_CURVE, PRESTIGE_COSMETICS, getLevelForXp, getPrestigeCosmetics, getRankTier, getXpForLevel } from './levelCurve';
+
+describe('getXpForLevel', () => {
+  it('follows the table for the first levels', () => {
+    LEVEL_CURVE.thresholds.forEach((xp, level) => expect(getXpForLevel(level)).toBe(xp));
+  });
+
+  it('keeps growing past the table in rounded steps', () => {
+    // The last table step is 2500; each level after grows it by 10%, rounded to 50
+    expect(getXpForLevel(10)).toBe(10000 + 2750);
+    expect(getXpForLevel(11)).toBe(10000 + 2750 + 3050);
+    for (let level = 10; level < 60; level++) {
+      const step = getXpForLevel(level + 1) - getXpForLevel(level);
+      expect(step % LEVEL_CURVE.roundTo).toBe(0);
+      expect(step).toBeGreaterThanOrEqual(getXpForLevel(level) - getXpForLevel(level - 1));
+    }
+  });
+});
+
+describe('getLevelForXp', () => {
+  it('is the inverse of getXpForLevel', () => {
+    for (let level = 0; level < 50; level++) {
+      const xp = getXpForLevel(level);
+      expect(getLevelForXp(xp)).toBe(level);
+      if (xp > 0) expect(getLevelForXp(xp - 1)).toBe(level - 1);
+    }
+  });
+
+  it('treats negative XP as level 0', () => {
+    expect(getLevelForXp(-10)).toBe(0);
+  });
+});
+
+describe('getRankTier', () => {
+  it('picks the highest tier reached', () => {
+    expect(getRankTier(0).name).toBe('Spark');
+    expect(getRankTier(10).name).toBe('Blaze');
+    expect(getRankTier(14).name).toBe('Blaze');
+    expect(getRankTier(100).name).toBe('Galaxy');
+  });
+});
+
+describe('getPrestigeCosmetics', () => {
+  it('repeats the last cosmetic once all are earned', () => {
+    expect(getPrestigeCosmetics(0)).toEqual([]);
+    const many = getPrestigeCosmetics(PRESTIGE_COSMETICS.length + 2);
+    expect(many).toHaveLength(PRESTIGE_COSMETICS.length + 2);
+    expect(many[many.length - 1]).toEqual(PRESTIGE_COSMETICS[PRESTIGE_COSMETICS.length - 1]);
+  });
+});
@@ -0,0 +1,90 @@
+// How much XP each level takes, the rank tiers levels belong to and the
+// cosmetics earned by prestiging.
+
+export interface LevelCurve {
+  thresholds: number[]; // Hand-set XP for the first levels, starting with 0 for level 0
+  growth: number; // Past the table, each level costs this many times the one before
+  roundTo: number; // Level costs past the table are rounded to a multiple of this
+}
+
+export interface RankTier {
+  minLevel: number;
+  name: string;
+  icon: string;
+}
+
+export interface PrestigeCosmetic {
+  name: string;
+  icon: string;
+}
+
+// The table is the original level 0-9 curve, so nobody's level changes for XP they already had.
+export const LEVEL_CURVE: LevelCurve = {
+  thresholds: [0, 100, 250, 500, 1000, 2000, 3500, 5000, 7500, 10000],
+  growth: 1.1,
+  roundTo: 50,
+};
+
+export const RANK_TIERS: RankTier[] = [
+  { minLevel: 0, name: 'Spark', icon: '✨' },
+  { minLevel: 3, name: 'Ember', icon: '🕯️' },
+  { minLevel: 6, name: 'Flame', icon: '🔥' },
+  { minLevel: 10, name: 'Blaze', icon: '☄️' },
+  { minLevel: 15, name: 'Inferno', icon: '🌋' },
+  { minLevel: 20, name: 'Star', icon: '🌟' },
+  { minLevel: 30, name: 'Supernova', icon: '💫' },
+  { minLevel: 40, name: 'Galaxy', icon: '🌌' },
+];
+
+// Prestiging starts XP again from zero, so it's only offered once a student has climbed this far.
+export const PRESTIGE_MIN_LEVEL = 20;
+
+// One per prestige; the last is kept for every prestige after that.
+export const PRESTIGE_COSMETICS: PrestigeCosmetic[] = [
+  { name: 'Bronze Laurel', icon: '🥉' },
+  { name: 'Silver Laurel', icon: '🥈' },
+  { name: 'Gold Laurel', icon: '🥇' },
+  { name: 'Diamond Laurel', icon: '💎' },
+];
+
+/**
+ * Total XP needed to reach a level.
+ * @param level The level (0 or more).
+ * @param curve The level curve.
+ */
+export const getXpForLevel = (level: number, curve: LevelCurve = LEVEL_CURVE): number => {
+  const { thresholds, growth, roundTo } = curve;
+  if (level < thresholds.length) return thresholds[Math.max(0, level)];
+  const last = thresholds.length - 1;
+  const lastStep = thresholds[last] - thresholds[last - 1];
+  let xp = thresholds[last];
+  for (let i = 1; i <= level - last; i++) {
+    xp += Math.round((lastStep * growth ** i) / roundTo) * roundTo;
+  }
+  return xp;
+};
+
+/**
+ * The level a total amount of XP reaches. There's no top level.
+ * @param xp Total XP.
+ * @param curve The level curve.
+ */
+export const getLevelForXp = (xp: number, curve: LevelCurve = LEVEL_CURVE): number => {
+  let level = 0;
+  while (xp >= getXpForLevel(level + 1, curve)) {
+    level++;
+  }
+  return level;
+};
+
+/**
+ * The rank tier a level belongs to.
+ */
+export const getRankTier = (level: number): RankTier =>
+  RANK_TIERS.reduce((tier, candidate) => (level >= candidate.minLevel ? candidate : tier), RANK_TIERS[0]);
+
+/**
+ * The cosmetics a number of prestiges has earned, in the order they were earned.
+ */
+export const getPrestigeCosmetics = (prestigeCount: number): PrestigeCosmetic[] =>
+  Array.from({ length: prestigeCount }, (_, i) => PRESTIGE_COSMETICS[Math.min(i, PRESTIGE_COSMETICS.length - 1)]);
@@ -1,7 +1,8 @@
 
-import { SavedItem, StudyRoutineInputs, NotesSummarizerInputs, HomeworkCheckerInputs, DifficultyLevel, NoteFormat, DailyAchievementState, DeadlinePressureInputs } from '../types';
+import { SavedItem, SyncConfig, SyncState, StudyRoutineInputs, NotesSummarizerInputs, HomeworkCheckerInputs, DifficultyLevel, NoteFormat, DailyAchievementState, DeadlinePressureInputs, LLMProviderSettings, UsageBudget, PromptId, PromptOverride, ActionType, XpRuleOverride, StoredApiKey, StudentProfile, VaultConfig, Leaderboard } from '../types';
+import { readRecord, writeRecord, deleteRecord } from './persistentStore';
 
-const SAVED_ITEMS_KEY = 'slsSavedItems';
+const SAVED_ITEMS_KEY = 'slsSavedItems'; // Saved items, tool inputs and achievement state live in IndexedDB (see persistentStore)
 const XP_KEY = 'slsXp'; // Renamed from FIRE_LEVEL_KEY
 const STUDY_ROUTINE_INPUTS_KEY = 'slsStudyRoutineInputs';
 const NOTES_SUMMARIZER_INPUTS_KEY = 'slsNotesSummarizerInputs';
@@ -9,35 +10,61 @@ const HOMEWORK_CHECKER_INPUTS_KEY = 'slsHomeworkCheckerInputs';
 const DEADLINE_PRESSURE_INPUTS_KEY = 'slsDeadlinePressureInputs'; // New key
 const DAILY_ACHIEVEMENT_STATE_KEY = 'slsDailyAchievementState'; // New key for gamification state
 const SOUND_ENABLED_KEY = 'slsSoundEnabled'; // New key for sound preference
+const LLM_PROVIDER_SETTINGS_KEY = 'slsLlmProviderSettings'; // Active AI backend selection
+const RECORDED_FIXTURES_KEY = 'slsRecordedFixtures'; // Responses captured for the offline fixture provider
+const RESPONSE_CACHE_ENABLED_KEY = 'slsResponseCacheEnabled'; // Whether AI responses are served from the IndexedDB cache
+const USAGE_BUDGET_KEY = 'slsUsageBudget'; // Daily token/cost limits for AI requests
+const PROMPT_OVERRIDES_KEY = 'slsPromptOverrides'; // Custom prompt text from the prompt registry settings
+const XP_RULE_OVERRIDES_KEY = 'slsXpRuleOverrides'; // Custom XP caps, cooldowns and diminishing returns from settings
+const USER_NAME_KEY = 'slsUserName'; // Name entered on the welcome screen before profiles existed
+const HAS_SEEN_ONBOARDING_KEY = 'hasSeenOnboarding';
+const PROFILES_KEY = 'slsProfiles'; // Student profiles on this device
+const ACTIVE_PROFILE_KEY = 'slsActiveProfileId';
+const VAULT_CONFIG_KEY = 'slsVaultConfig'; // Passphrase vault settings for the profile
+const SYNC_CONFIG_KEY = 'slsSyncConfig'; // Sync server connection for the profile
+const SYNC_STATE_KEY = 'slsSyncState'; // Per-record timestamps and counters from the last sync
+const LEADERBOARD_KEY = 'slsLeaderboard'; // Friends' progress codes and the group secret for the class leaderboard
+
+// Keys kept separately for each profile: saved work, progress, tool inputs and preferences.
+const PROFILE_SCOPED_RECORD_KEYS = [
+  SAVED_ITEMS_KEY, DAILY_ACHIEVEMENT_STATE_KEY,
+  STUDY_ROUTINE_INPUTS_KEY, NOTES_SUMMARIZER_INPUTS_KEY, HOMEWORK_CHECKER_INPUTS_KEY, DEADLINE_PRESSURE_INPUTS_KEY,
+];
+const PROFILE_SCOPED_LOCAL_KEYS = [
+  SOUND_ENABLED_KEY, HAS_SEEN_ONBOARDING_KEY, VAULT_CONFIG_KEY, SYNC_CONFIG_KEY, SYNC_STATE_KEY, LEADERBOARD_KEY, RECORDED_FIXTURES_KEY,
+];
+// Personal records the vault encrypts: saved work and homework answers. Mood
+// check-ins aren't persisted yet; add their key here when they are.
+const VAULT_PROTECTED_RECORD_KEYS = [SAVED_ITEMS_KEY, HOMEWORK_CHECKER_INPUTS_KEY];
+
+// The profile created from data saved before profiles existed keeps the
+// original, unsuffixed keys, so upgrading never has to move anything.
+export const LEGACY_PROFILE_ID = 'default';
+
+/**
+ * Builds the storage key for a profile's copy of a value.
+ * @param key The base key.
+ * @param profileId The profile; defaults to the active one.
+ * @returns The key suffixed with the profile ID (unchanged for the legacy profile).
+ */
+const scopeToProfile = (key: string, profileId: string | null = loadActiveProfileId()): string =>
+  profileId && profileId !== LEGACY_PROFILE_ID ? `${key}:${profileId}` : key;
+const GEMINI_API_KEY_KEY = 'slsGeminiApiKey'; // Gemini API key entered in the app, used instead of the build-time key
 
 /**
- * Loads saved items from local storage.
+ * Loads saved items from the persistent store.
  * @returns An array of SavedItem.
  */
 export const loadSavedItems = (): SavedItem[] => {
-  try {
-    const serializedItems = localStorage.getItem(SAVED_ITEMS_KEY);
-    if (serializedItems === null) {
-      return [];
-    }
-    return JSON.parse(serializedItems) as SavedItem[];
-  } catch (error) {
-    console.error("Error loading saved items from localStorage:", error);
-    return [];
-  }
+  return readRecord<SavedItem[]>(scopeToProfile(SAVED_ITEMS_KEY)) || [];
 };
 
 /**
- * Saves items to local storage.
+ * Saves items to the persistent store.
  * @param items The array of SavedItem to save.
  */
 export const saveItems = (items: SavedItem[]): void => {
-  try {
-    const serializedItems = JSON.stringify(items);
-    localStorage.setItem(SAVED_ITEMS_KEY, serializedItems);
-  } catch (error) {
-    console.error("Error saving items to localStorage:", error);
-  }
+  writeRecord(scopeToProfile(SAVED_ITEMS_KEY), items);
 };
 
 /**
@@ -70,29 +97,12 @@ export const saveXp = (xp: number): void => {
 };
 
 /**
- * Loads the full daily achievement state from local storage.
+ * Loads the full daily achievement state from the persistent store.
  * @returns The DailyAchievementState, or a default initial state if not found.
  */
 export const loadDailyAchievementState = (): DailyAchievementState => {
-  try {
-    const serializedState = localStorage.getItem(DAILY_ACHIEVEMENT_STATE_KEY);
-    if (serializedState === null) {
-      return {
-        xpState: { xp: 0, level: 0 },
-        unlockedBadges: [],
-        currentStreak: 0,
-        lastActivityDate: null,
-        dailyActionCounts: {},
-      };
-    }
-    const state = JSON.parse(serializedState) as DailyAchievementState;
-    // Ensure dailyActionCounts is always an object, not null/undefined if partially saved
-    if (!state.dailyActionCounts) {
-      state.dailyActionCounts = {};
-    }
-    return state;
-  } catch (error) {
-    console.error("Error loading daily achievement state from localStorage:", error);
+  const state = readRecord<DailyAchievementState>(scopeToProfile(DAILY_ACHIEVEMENT_STATE_KEY));
+  if (!state) {
     return {
       xpState: { xp: 0, level: 0 },
       unlockedBadges: [],
@@ -101,19 +111,19 @@ export const loadDailyAchievementState = (): DailyAchievementState => {
       dailyActionCounts: {},
     };
   }
+  // Ensure dailyActionCounts is always an object, not null/undefined if partially saved
+  if (!state.dailyActionCounts) {
+    state.dailyActionCounts = {};
+  }
+  return state;
 };
 
 /**
- * Saves the full daily achievement state to local storage.
+ * Saves the full daily achievement state to the persistent store.
  * @param state The DailyAchievementState to save.
  */
 export const saveDailyAchievementState = (state: DailyAchievementState): void => {
-  try {
-    const serializedState = JSON.stringify(state);
-    localStorage.setItem(DAILY_ACHIEVEMENT_STATE_KEY, serializedState);
-  } catch (error) {
-    console.error("Error saving daily achievement state to localStorage:", error);
-  }
+  writeRecord(scopeToProfile(DAILY_ACHIEVEMENT_STATE_KEY), state);
 };
 
 /**
@@ -122,7 +132,7 @@ export const saveDailyAchievementState = (state: DailyAchievementState): void =>
  */
 export const loadSoundEnabled = (): boolean => {
   try {
-    const serialized = localStorage.getItem(SOUND_ENABLED_KEY);
+    const serialized = localStorage.getItem(scopeToProfile(SOUND_ENABLED_KEY));
     if (serialized === null) {
       return true; // Default to sound enabled
     }
@@ -139,129 +149,552 @@ export const loadSoundEnabled = (): boolean => {
  */
 export const saveSoundEnabled = (enabled: boolean): void => {
   try {
-    localStorage.setItem(SOUND_ENABLED_KEY, JSON.stringify(enabled));
+    localStorage.setItem(scopeToProfile(SOUND_ENABLED_KEY), JSON.stringify(enabled));
   } catch (error) {
     console.error("Error saving sound enabled preference to localStorage:", error);
   }
 };
 
 /**
- * Loads study routine inputs from local storage.
+ * Loads study routine inputs from the persistent store.
  * @returns The latest study routine inputs, or defaults if not found.
  */
 export const loadStudyRoutineInputs = (): StudyRoutineInputs => {
+  return readRecord<StudyRoutineInputs>(scopeToProfile(STUDY_ROUTINE_INPUTS_KEY)) || { subjects: '', hoursPerDay: 3, difficulty: 'medium' };
+};
+
+/**
+ * Saves study routine inputs to the persistent store.
+ * @param inputs The study routine inputs to save.
+ */
+export const saveStudyRoutineInputs = (inputs: StudyRoutineInputs): void => {
+  writeRecord(scopeToProfile(STUDY_ROUTINE_INPUTS_KEY), inputs);
+};
+
+/**
+ * Loads notes summarizer inputs from the persistent store.
+ * @returns The latest notes summarizer inputs, or defaults if not found.
+ */
+export const loadNotesSummarizerInputs = (): NotesSummarizerInputs => {
+  return readRecord<NotesSummarizerInputs>(scopeToProfile(NOTES_SUMMARIZER_INPUTS_KEY)) || { notesInput: '', format: 'bullet-points' };
+};
+
+/**
+ * Saves notes summarizer inputs to the persistent store.
+ * @param inputs The notes summarizer inputs to save.
+ */
+export const saveNotesSummarizerInputs = (inputs: NotesSummarizerInputs): void => {
+  writeRecord(scopeToProfile(NOTES_SUMMARIZER_INPUTS_KEY), inputs);
+};
+
+/**
+ * Loads homework checker inputs from the persistent store.
+ * @returns The latest homework checker inputs, or defaults if not found.
+ */
+export const loadHomeworkCheckerInputs = (): HomeworkCheckerInputs => {
+  return readRecord<HomeworkCheckerInputs>(scopeToProfile(HOMEWORK_CHECKER_INPUTS_KEY)) || { question: '', userAnswer: '', rewriteRequested: false };
+};
+
+/**
+ * Saves homework checker inputs to the persistent store.
+ * @param inputs The homework checker inputs to save.
+ */
+export const saveHomeworkCheckerInputs = (inputs: HomeworkCheckerInputs): void => {
+  writeRecord(scopeToProfile(HOMEWORK_CHECKER_INPUTS_KEY), inputs);
+};
+
+/**
+ * Loads deadline pressure inputs from the persistent store.
+ * @returns The latest deadline pressure inputs, or defaults if not found.
+ */
+export const loadDeadlinePressureInputs = (): DeadlinePressureInputs => {
+  return readRecord<DeadlinePressureInputs>(scopeToProfile(DEADLINE_PRESSURE_INPUTS_KEY)) || { tasksInput: '' };
+};
+
+/**
+ * Saves deadline pressure inputs to the persistent store.
+ * @param inputs The deadline pressure inputs to save.
+ */
+export const saveDeadlinePressureInputs = (inputs: DeadlinePressureInputs): void => {
+  writeRecord(scopeToProfile(DEADLINE_PRESSURE_INPUTS_KEY), inputs);
+};
+
+/**
+ * Loads the AI provider settings from local storage.
+ * @returns The saved provider settings, defaults to the built-in Gemini provider.
+ */
+export const loadLlmProviderSettings = (): LLMProviderSettings => {
   try {
-    const serializedInputs = localStorage.getItem(STUDY_ROUTINE_INPUTS_KEY);
-    if (serializedInputs === null) {
-      return { subjects: '', hoursPerDay: 3, difficulty: 'medium' };
+    const serialized = localStorage.getItem(LLM_PROVIDER_SETTINGS_KEY);
+    if (serialized === null) {
+      return { kind: 'gemini' };
     }
-    return JSON.parse(serializedInputs) as StudyRoutineInputs;
+    return JSON.parse(serialized) as LLMProviderSettings;
   } catch (error) {
-    console.error("Error loading study routine inputs from localStorage:", error);
-    return { subjects: '', hoursPerDay: 3, difficulty: 'medium' };
+    console.error("Error loading LLM provider settings from localStorage:", error);
+    return { kind: 'gemini' };
   }
 };
 
 /**
- * Saves study routine inputs to local storage.
- * @param inputs The study routine inputs to save.
+ * Saves the AI provider settings to local storage.
+ * @param settings The provider settings to save.
  */
-export const saveStudyRoutineInputs = (inputs: StudyRoutineInputs): void => {
+export const saveLlmProviderSettings = (settings: LLMProviderSettings): void => {
   try {
-    const serializedInputs = JSON.stringify(inputs);
-    localStorage.setItem(STUDY_ROUTINE_INPUTS_KEY, serializedInputs);
+    localStorage.setItem(LLM_PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
   } catch (error) {
-    console.error("Error saving study routine inputs to localStorage:", error);
+    console.error("Error saving LLM provider settings to localStorage:", error);
   }
 };
 
 /**
- * Loads notes summarizer inputs from local storage.
- * @returns The latest notes summarizer inputs, or defaults if not found.
+ * Loads the active profile's recorded fixture responses from local storage.
+ * @returns A map of fixture key to raw response text.
  */
-export const loadNotesSummarizerInputs = (): NotesSummarizerInputs => {
+export const loadRecordedFixtures = (): Record<string, string> => {
   try {
-    const serializedInputs = localStorage.getItem(NOTES_SUMMARIZER_INPUTS_KEY);
-    if (serializedInputs === null) {
-      return { notesInput: '', format: 'bullet-points' };
+    const serialized = localStorage.getItem(scopeToProfile(RECORDED_FIXTURES_KEY));
+    if (serialized === null) {
+      return {};
     }
-    return JSON.parse(serializedInputs) as NotesSummarizerInputs;
+    return JSON.parse(serialized) as Record<string, string>;
   } catch (error) {
-    console.error("Error loading notes summarizer inputs from localStorage:", error);
-    return { notesInput: '', format: 'bullet-points' };
+    console.error("Error loading recorded fixtures from localStorage:", error);
+    return {};
   }
 };
 
 /**
- * Saves notes summarizer inputs to local storage.
- * @param inputs The notes summarizer inputs to save.
+ * Saves the active profile's recorded fixture responses to local storage.
+ * @param fixtures The map of fixture key to raw response text.
  */
-export const saveNotesSummarizerInputs = (inputs: NotesSummarizerInputs): void => {
+export const saveRecordedFixtures = (fixtures: Record<string, string>): void => {
   try {
-    const serializedInputs = JSON.stringify(inputs);
-    localStorage.setItem(NOTES_SUMMARIZER_INPUTS_KEY, serializedInputs);
+    localStorage.setItem(scopeToProfile(RECORDED_FIXTURES_KEY), JSON.stringify(fixtures));
   } catch (error) {
-    console.error("Error saving notes summarizer inputs to localStorage:", error);
+    console.error("Error saving recorded fixtures to localStorage:", error);
   }
 };
 
 /**
- * Loads homework checker inputs from local storage.
- * @returns The latest homework checker inputs, or defaults if not found.
+ * Loads the response cache preference from local storage.
+ * @returns boolean, defaults to true.
  */
-export const loadHomeworkCheckerInputs = (): HomeworkCheckerInputs => {
+export const loadResponseCacheEnabled = (): boolean => {
   try {
-    const serializedInputs = localStorage.getItem(HOMEWORK_CHECKER_INPUTS_KEY);
-    if (serializedInputs === null) {
-      return { question: '', userAnswer: '', rewriteRequested: false };
+    const serialized = localStorage.getItem(RESPONSE_CACHE_ENABLED_KEY);
+    if (serialized === null) {
+      return true; // Default to caching enabled
     }
-    return JSON.parse(serializedInputs) as HomeworkCheckerInputs;
+    return JSON.parse(serialized);
   } catch (error) {
-    console.error("Error loading homework checker inputs from localStorage:", error);
-    return { question: '', userAnswer: '', rewriteRequested: false };
+    console.error("Error loading response cache preference from localStorage:", error);
+    return true;
   }
 };
 
 /**
- * Saves homework checker inputs to local storage.
- * @param inputs The homework checker inputs to save.
+ * Saves the response cache preference to local storage.
+ * @param enabled The boolean state to save.
  */
-export const saveHomeworkCheckerInputs = (inputs: HomeworkCheckerInputs): void => {
+export const saveResponseCacheEnabled = (enabled: boolean): void => {
   try {
-    const serializedInputs = JSON.stringify(inputs);
-    localStorage.setItem(HOMEWORK_CHECKER_INPUTS_KEY, serializedInputs);
+    localStorage.setItem(RESPONSE_CACHE_ENABLED_KEY, JSON.stringify(enabled));
   } catch (error) {
-    console.error("Error saving homework checker inputs to localStorage:", error);
+    console.error("Error saving response cache preference to localStorage:", error);
   }
 };
 
 /**
- * Loads deadline pressure inputs from local storage.
- * @returns The latest deadline pressure inputs, or defaults if not found.
+ * Loads the daily AI usage budget from local storage.
+ * @returns The saved UsageBudget, defaults to no limits in warn mode.
  */
-export const loadDeadlinePressureInputs = (): DeadlinePressureInputs => {
+export const loadUsageBudget = (): UsageBudget => {
+  const defaultBudget: UsageBudget = { dailyTokenLimit: null, dailyCostLimitUsd: null, mode: 'warn' };
   try {
-    const serializedInputs = localStorage.getItem(DEADLINE_PRESSURE_INPUTS_KEY);
-    if (serializedInputs === null) {
-      return { tasksInput: '' };
+    const serialized = localStorage.getItem(USAGE_BUDGET_KEY);
+    if (serialized === null) {
+      return defaultBudget;
     }
-    return JSON.parse(serializedInputs) as DeadlinePressureInputs;
+    return { ...defaultBudget, ...JSON.parse(serialized) };
   } catch (error) {
-    console.error("Error loading deadline inputs:", error);
-    return { tasksInput: '' };
+    console.error("Error loading usage budget from localStorage:", error);
+    return defaultBudget;
   }
 };
 
 /**
- * Saves deadline pressure inputs to local storage.
- * @param inputs The deadline pressure inputs to save.
+ * Saves the daily AI usage budget to local storage.
+ * @param budget The UsageBudget to save.
  */
-export const saveDeadlinePressureInputs = (inputs: DeadlinePressureInputs): void => {
+export const saveUsageBudget = (budget: UsageBudget): void => {
+  try {
+    localStorage.setItem(USAGE_BUDGET_KEY, JSON.stringify(budget));
+  } catch (error) {
+    console.error("Error saving usage budget to localStorage:", error);
+  }
+};
+
+/**
+ * Loads custom prompt overrides from local storage.
+ * @returns A map of prompt ID to its override.
+ */
+export const loadPromptOverrides = (): Partial<Record<PromptId, PromptOverride>> => {
+  try {
+    const serialized = localStorage.getItem(PROMPT_OVERRIDES_KEY);
+    if (serialized === null) {
+      return {};
+    }
+    return JSON.parse(serialized) as Partial<Record<PromptId, PromptOverride>>;
+  } catch (error) {
+    console.error("Error loading prompt overrides from localStorage:", error);
+    return {};
+  }
+};
+
+/**
+ * Saves custom prompt overrides to local storage.
+ * @param overrides The map of prompt ID to override.
+ */
+export const savePromptOverrides = (overrides: Partial<Record<PromptId, PromptOverride>>): void => {
+  try {
+    localStorage.setItem(PROMPT_OVERRIDES_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.error("Error saving prompt overrides to localStorage:", error);
+  }
+};
+
+/**
+ * Loads custom XP rule overrides from local storage.
+ * @returns A map of action to its override.
+ */
+export const loadXpRuleOverrides = (): Partial<Record<ActionType, XpRuleOverride>> => {
+  try {
+    const serialized = localStorage.getItem(XP_RULE_OVERRIDES_KEY);
+    if (serialized === null) {
+      return {};
+    }
+    return JSON.parse(serialized) as Partial<Record<ActionType, XpRuleOverride>>;
+  } catch (error) {
+    console.error("Error loading XP rule overrides from localStorage:", error);
+    return {};
+  }
+};
+
+/**
+ * Saves custom XP rule overrides to local storage.
+ * @param overrides The map of action to override.
+ */
+export const saveXpRuleOverrides = (overrides: Partial<Record<ActionType, XpRuleOverride>>): void => {
+  try {
+    localStorage.setItem(XP_RULE_OVERRIDES_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.error("Error saving XP rule overrides to localStorage:", error);
+  }
+};
+
+/**
+ * Loads the name saved by the welcome screen before profiles existed.
+ * @returns The name, or null if there is none.
+ */
+export const loadLegacyUserName = (): string | null => {
+  try {
+    return localStorage.getItem(USER_NAME_KEY);
+  } catch (error) {
+    console.error("Error loading user name from localStorage:", error);
+    return null;
+  }
+};
+
+/**
+ * Loads the student profiles on this device from local storage.
+ * @returns An array of StudentProfile.
+ */
+export const loadProfiles = (): StudentProfile[] => {
+  try {
+    const serialized = localStorage.getItem(PROFILES_KEY);
+    if (serialized === null) {
+      return [];
+    }
+    return JSON.parse(serialized) as StudentProfile[];
+  } catch (error) {
+    console.error("Error loading profiles from localStorage:", error);
+    return [];
+  }
+};
+
+/**
+ * Saves the student profiles to local storage.
+ * @param profiles The array of StudentProfile to save.
+ */
+export const saveProfiles = (profiles: StudentProfile[]): void => {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error("Error saving profiles to localStorage:", error);
+  }
+};
+
+/**
+ * Loads the ID of the profile in use.
+ * @returns The profile ID, or null if no profile has been created yet.
+ */
+export const loadActiveProfileId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY);
+  } catch (error) {
+    console.error("Error loading active profile from localStorage:", error);
+    return null;
+  }
+};
+
+/**
+ * Saves the ID of the profile in use.
+ * @param profileId The profile ID, or null to clear it.
+ */
+export const saveActiveProfileId = (profileId: string | null): void => {
+  try {
+    if (profileId === null) {
+      localStorage.removeItem(ACTIVE_PROFILE_KEY);
+    } else {
+      localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+    }
+  } catch (error) {
+    console.error("Error saving active profile to localStorage:", error);
+  }
+};
+
+/**
+ * Loads whether the active profile has finished the onboarding tour.
+ * @returns boolean, defaults to false.
+ */
+export const loadHasSeenOnboarding = (): boolean => {
+  try {
+    return localStorage.getItem(scopeToProfile(HAS_SEEN_ONBOARDING_KEY)) !== null;
+  } catch (error) {
+    console.error("Error loading onboarding status from localStorage:", error);
+    return false;
+  }
+};
+
+/**
+ * Records that the active profile has finished the onboarding tour.
+ */
+export const saveHasSeenOnboarding = (): void => {
+  try {
+    localStorage.setItem(scopeToProfile(HAS_SEEN_ONBOARDING_KEY), 'true');
+  } catch (error) {
+    console.error("Error saving onboarding status to localStorage:", error);
+  }
+};
+
+/**
+ * Lists the active profile's record keys that the vault encrypts.
+ * @returns Persistent store keys.
+ */
+export const getVaultProtectedKeys = (): string[] => VAULT_PROTECTED_RECORD_KEYS.map(key => scopeToProfile(key));
+
+/**
+ * Loads the active profile's vault settings from local storage.
+ * @returns The VaultConfig, or null if the vault isn't set up.
+ */
+export const loadVaultConfig = (): VaultConfig | null => {
+  try {
+    const serialized = localStorage.getItem(scopeToProfile(VAULT_CONFIG_KEY));
+    if (serialized === null) {
+      return null;
+    }
+    return JSON.parse(serialized) as VaultConfig;
+  } catch (error) {
+    console.error("Error loading vault settings from localStorage:", error);
+    return null;
+  }
+};
+
+/**
+ * Saves the active profile's vault settings to local storage.
+ * @param config The VaultConfig, or null to turn the vault off.
+ */
+export const saveVaultConfig = (config: VaultConfig | null): void => {
+  try {
+    if (config === null) {
+      localStorage.removeItem(scopeToProfile(VAULT_CONFIG_KEY));
+    } else {
+      localStorage.setItem(scopeToProfile(VAULT_CONFIG_KEY), JSON.stringify(config));
+    }
+  } catch (error) {
+    console.error("Error saving vault settings to localStorage:", error);
+  }
+};
+
+/**
+ * Names the active profile's record keys that sync between devices.
+ * @returns Persistent store keys for saved work, progress and each tool's inputs.
+ */
+export const getSyncedRecordKeys = () => ({
+  savedItems: scopeToProfile(SAVED_ITEMS_KEY),
+  dailyAchievementState: scopeToProfile(DAILY_ACHIEVEMENT_STATE_KEY),
+  toolInputs: {
+    studyRoutine: scopeToProfile(STUDY_ROUTINE_INPUTS_KEY),
+    notesSummarizer: scopeToProfile(NOTES_SUMMARIZER_INPUTS_KEY),
+    homeworkChecker: scopeToProfile(HOMEWORK_CHECKER_INPUTS_KEY),
+    deadlinePressure: scopeToProfile(DEADLINE_PRESSURE_INPUTS_KEY),
+  },
+});
+
+/**
+ * Loads the active profile's sync server connection from local storage.
+ * @returns The SyncConfig, or null if sync isn't set up.
+ */
+export const loadSyncConfig = (): SyncConfig | null => {
+  try {
+    const serialized = localStorage.getItem(scopeToProfile(SYNC_CONFIG_KEY));
+    if (serialized === null) {
+      return null;
+    }
+    return JSON.parse(serialized) as SyncConfig;
+  } catch (error) {
+    console.error("Error loading sync settings from localStorage:", error);
+    return null;
+  }
+};
+
+/**
+ * Saves the active profile's sync server connection to local storage.
+ * @param config The SyncConfig, or null to stop syncing.
+ */
+export const saveSyncConfig = (config: SyncConfig | null): void => {
+  try {
+    if (config === null) {
+      localStorage.removeItem(scopeToProfile(SYNC_CONFIG_KEY));
+    } else {
+      localStorage.setItem(scopeToProfile(SYNC_CONFIG_KEY), JSON.stringify(config));
+    }
+  } catch (error) {
+    console.error("Error saving sync settings to localStorage:", error);
+  }
+};
+
+/**
+ * Loads the active profile's sync bookkeeping from local storage.
+ * @returns The SyncState, or null before the first sync.
+ */
+export const loadSyncState = (): SyncState | null => {
+  try {
+    const serialized = localStorage.getItem(scopeToProfile(SYNC_STATE_KEY));
+    if (serialized === null) {
+      return null;
+    }
+    return JSON.parse(serialized) as SyncState;
+  } catch (error) {
+    console.error("Error loading sync state from localStorage:", error);
+    return null;
+  }
+};
+
+/**
+ * Saves the active profile's sync bookkeeping to local storage.
+ * @param state The SyncState, or null to forget it.
+ */
+export const saveSyncState = (state: SyncState | null): void => {
+  try {
+    if (state === null) {
+      localStorage.removeItem(scopeToProfile(SYNC_STATE_KEY));
+    } else {
+      localStorage.setItem(scopeToProfile(SYNC_STATE_KEY), JSON.stringify(state));
+    }
+  } catch (error) {
+    console.error("Error saving sync state to localStorage:", error);
+  }
+};
+
+/**
+ * Loads the active profile's class leaderboard from local storage. The card
+ * ID is created (and saved) the first time, so it stays the same afterwards.
+ * @returns The Leaderboard, or an empty one without a group secret.
+ */
+export const loadLeaderboard = (): Leaderboard => {
+  let leaderboard: Partial<Leaderboard> = {};
+  try {
+    const serialized = localStorage.getItem(scopeToProfile(LEADERBOARD_KEY));
+    if (serialized !== null) {
+      leaderboard = JSON.parse(serialized) as Partial<Leaderboard>;
+    }
+  } catch (error) {
+    console.error("Error loading leaderboard from localStorage:", error);
+  }
+  if (leaderboard.cardId) {
+    return { cardId: leaderboard.cardId, groupSecret: leaderboard.groupSecret ?? '', codes: leaderboard.codes ?? [] };
+  }
+  const created: Leaderboard = { cardId: generateUniqueId(), groupSecret: leaderboard.groupSecret ?? '', codes: leaderboard.codes ?? [] };
+  saveLeaderboard(created);
+  return created;
+};
+
+/**
+ * Saves the active profile's class leaderboard to local storage.
+ * @param leaderboard The Leaderboard to save.
+ */
+export const saveLeaderboard = (leaderboard: Leaderboard): void => {
+  try {
+    localStorage.setItem(scopeToProfile(LEADERBOARD_KEY), JSON.stringify(leaderboard));
+  } catch (error) {
+    console.error("Error saving leaderboard to localStorage:", error);
+  }
+};
+
+/**
+ * Deletes everything stored for one profile (saved work, progress, tool inputs
+ * and preferences). The profile list itself is left to the caller.
+ * @param profileId The profile whose data to delete.
+ */
+export const deleteProfileData = (profileId: string): void => {
+  PROFILE_SCOPED_RECORD_KEYS.forEach(key => deleteRecord(scopeToProfile(key, profileId)));
+  try {
+    PROFILE_SCOPED_LOCAL_KEYS.forEach(key => localStorage.removeItem(scopeToProfile(key, profileId)));
+  } catch (error) {
+    console.error("Error deleting profile data from localStorage:", error);
+  }
+};
+
+/**
+ * Loads the Gemini API key entered in the app from local storage.
+ * @returns The stored key, or null if none was saved.
+ */
+export const loadGeminiApiKey = (): StoredApiKey | null => {
+  try {
+    const serialized = localStorage.getItem(GEMINI_API_KEY_KEY);
+    if (serialized === null) {
+      return null;
+    }
+    return JSON.parse(serialized) as StoredApiKey;
+  } catch (error) {
+    console.error("Error loading Gemini API key from localStorage:", error);
+    return null;
+  }
+};
+
+/**
+ * Saves the Gemini API key to local storage.
+ * @param storedKey The key record to save.
+ */
+export const saveGeminiApiKey = (storedKey: StoredApiKey): void => {
+  try {
+    localStorage.setItem(GEMINI_API_KEY_KEY, JSON.stringify(storedKey));
+  } catch (error) {
+    console.error("Error saving Gemini API key to localStorage:", error);
+  }
+};
+
+/**
+ * Removes the stored Gemini API key from local storage.
+ */
+export const clearGeminiApiKey = (): void => {
   try {
-    const serializedInputs = JSON.stringify(inputs);
-    localStorage.setItem(DEADLINE_PRESSURE_INPUTS_KEY, serializedInputs);
+    localStorage.removeItem(GEMINI_API_KEY_KEY);
   } catch (error) {
-    console.error("Error saving deadline inputs to localStorage:", error);
+    console.error("Error removing Gemini API key from localStorage:", error);
   }
 };
 
@@ -0,0 +1,23 @@
+// Fixed pad for the XOR scramble. Anyone with the app's source can reverse it.
+const OBFUSCATION_PAD = 'sls-spark-local-key';
+
+const xorWithPad = (input: string): string =>
+  Array.from(input, (char, i) =>
+    String.fromCharCode(char.charCodeAt(0) ^ OBFUSCATION_PAD.charCodeAt(i % OBFUSCATION_PAD.length))
+  ).join('');
+
+/**
+ * Scrambles an ASCII string (such as an API key) so it isn't readable at a
+ * glance in storage. This is obfuscation, not encryption: it keeps a key out
+ * of casual view and screenshots, nothing more.
+ * @param value The string to scramble.
+ * @returns A base64 string.
+ */
+export const obfuscate = (value: string): string => btoa(xorWithPad(value));
+
+/**
+ * Reverses `obfuscate`.
+ * @param encoded A string produced by `obfuscate`.
+ * @returns The original string.
+ */
+export const deobfuscate = (encoded: string): string => xorWithPad(atob(encoded));
@@ -0,0 +1,264 @@
+import { EncryptedRecord } from '../types';
+import { APP_DATA_STORE, idbBulkWrite, idbGetAll } from './indexedDb';
+
+// Version of the data layout in the appData store. Bump it and append a step
+// to STORAGE_MIGRATIONS whenever stored records change shape.
+export const STORAGE_SCHEMA_VERSION = 1;
+const SCHEMA_VERSION_RECORD = 'meta:schemaVersion';
+
+// Keys the app kept in localStorage before the IndexedDB store existed.
+const LEGACY_LOCAL_STORAGE_KEYS = [
+  'slsSavedItems',
+  'slsDailyAchievementState',
+  'slsStudyRoutineInputs',
+  'slsNotesSummarizerInputs',
+  'slsHomeworkCheckerInputs',
+  'slsDeadlinePressureInputs',
+];
+
+interface AppDataRecord {
+  key: string;
+  value: unknown;
+}
+
+export type StorageBackend = 'indexedDB' | 'localStorage';
+
+export interface StorageError {
+  kind: 'quota' | 'write-failed' | 'locked';
+  key: string;
+  error: unknown;
+}
+
+/**
+ * Encrypts chosen records on their way to disk (see utils/vault). Values stay
+ * in plain form in memory while a cipher is installed.
+ */
+export interface RecordCipher {
+  protects: (key: string) => boolean;
+  encrypt: (value: unknown) => Promise<EncryptedRecord>;
+  decrypt: (record: EncryptedRecord) => Promise<unknown>;
+}
+
+interface StorageMigration {
+  version: number;
+  description: string;
+  /** Transforms the stored data in place. */
+  migrate: (data: Map<string, unknown>) => void;
+  /** Runs once the migrated data has been committed, e.g. to clean up the old copy. */
+  afterCommit?: () => void;
+}
+
+type StorageErrorListener = (error: StorageError) => void;
+const storageErrorListeners = new Set<StorageErrorListener>();
+type RecordWriteListener = (key: string) => void;
+const recordWriteListeners = new Set<RecordWriteListener>();
+
+// Everything in the appData store, mirrored in memory so reads stay synchronous.
+let data = new Map<string, unknown>();
+let backend: StorageBackend = 'localStorage';
+let cipher: RecordCipher | null = null;
+// Background writes that haven't committed yet, and the latest one per key so
+// writes to the same key land in order even when encryption is involved.
+const pendingWrites = new Set<Promise<void>>();
+const writeChains = new Map<string, Promise<void>>();
+
+/**
+ * Parses a legacy localStorage entry, skipping values that aren't valid JSON.
+ */
+const readLegacyValue = (key: string): unknown => {
+  const serialized = localStorage.getItem(key);
+  if (serialized === null) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(serialized);
+  } catch (error) {
+    console.error(`Skipping unreadable localStorage entry "${key}":`, error);
+    return undefined;
+  }
+};
+
+// Ordered migrations; each runs once for data older than its version.
+const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Import saved work, achievements and tool inputs from localStorage',
+    migrate: (store) => {
+      LEGACY_LOCAL_STORAGE_KEYS.forEach(key => {
+        const value = readLegacyValue(key);
+        if (value !== undefined && !store.has(key)) {
+          store.set(key, value);
+        }
+      });
+    },
+    afterCommit: () => {
+      LEGACY_LOCAL_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
+    },
+  },
+];
+
+const isQuotaError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'QuotaExceededError';
+
+const reportStorageError = (key: string, error: unknown, kind?: StorageError['kind']): void => {
+  console.error(`Error saving "${key}" to ${backend}:`, error);
+  const storageError: StorageError = { kind: kind ?? (isQuotaError(error) ? 'quota' : 'write-failed'), key, error };
+  storageErrorListeners.forEach(listener => listener(storageError));
+};
+
+const queueWrite = (key: string, write: () => Promise<void>): void => {
+  const previous = writeChains.get(key) ?? Promise.resolve();
+  const queued = previous.then(write).catch(error => reportStorageError(key, error));
+  writeChains.set(key, queued);
+  pendingWrites.add(queued);
+  queued.finally(() => {
+    pendingWrites.delete(queued);
+    if (writeChains.get(key) === queued) writeChains.delete(key);
+  });
+};
+
+export const isEncryptedRecord = (value: unknown): value is EncryptedRecord =>
+  typeof value === 'object' && value !== null && (value as EncryptedRecord).encrypted === true;
+
+/**
+ * Loads the appData store into memory and applies pending migrations. Must
+ * finish before the app renders. Falls back to localStorage when IndexedDB is
+ * unavailable (e.g. some private browsing modes).
+ */
+export const initializePersistentStore = async (): Promise<void> => {
+  try {
+    const records = await idbGetAll<AppDataRecord>(APP_DATA_STORE);
+    const loaded = new Map(records.map(record => [record.key, record.value]));
+    const storedVersion = (loaded.get(SCHEMA_VERSION_RECORD) as number | undefined) ?? 0;
+    const pending = STORAGE_MIGRATIONS.filter(migration => migration.version > storedVersion);
+
+    if (pending.length > 0) {
+      const before = new Map(loaded);
+      pending.forEach(migration => {
+        console.info(`Storage migration ${migration.version}: ${migration.description}`);
+        migration.migrate(loaded);
+      });
+      loaded.set(SCHEMA_VERSION_RECORD, STORAGE_SCHEMA_VERSION);
+      const changed = [...loaded].filter(([key, value]) => before.get(key) !== value);
+      const removed = [...before.keys()].filter(key => !loaded.has(key));
+      await idbBulkWrite<AppDataRecord>(APP_DATA_STORE, changed.map(([key, value]) => ({ key, value })), removed);
+      pending.forEach(migration => migration.afterCommit?.());
+    }
+
+    loaded.delete(SCHEMA_VERSION_RECORD);
+    data = loaded;
+    backend = 'indexedDB';
+  } catch (error) {
+    console.error("IndexedDB storage is unavailable; falling back to localStorage:", error);
+    data = new Map();
+    // Includes per-profile copies, which are stored as "<key>:<profileId>"
+    Object.keys(localStorage)
+      .filter(key => LEGACY_LOCAL_STORAGE_KEYS.some(legacyKey => key === legacyKey || key.startsWith(`${legacyKey}:`)))
+      .forEach(key => {
+        const value = readLegacyValue(key);
+        if (value !== undefined) data.set(key, value);
+      });
+    backend = 'localStorage';
+  }
+};
+
+export const getStorageBackend = (): StorageBackend => backend;
+
+/**
+ * Reads a stored value. Returns a copy, so callers can't change the stored
+ * data without saving it.
+ * @param key The record key.
+ * @returns The value, or undefined if nothing is stored under the key.
+ */
+export const readRecord = <T>(key: string): T | undefined => {
+  const value = data.get(key);
+  // Encrypted records read as missing until the vault is unlocked
+  return value === undefined || isEncryptedRecord(value) ? undefined : structuredClone(value) as T;
+};
+
+/**
+ * Stores a value. The in-memory copy updates immediately; the write to disk
+ * happens in the background and failures are reported to subscribers.
+ * @param key The record key.
+ * @param value Any structured-cloneable value.
+ */
+export const writeRecord = <T>(key: string, value: T): void => {
+  const recordCipher = cipher?.protects(key) ? cipher : null;
+  if (!recordCipher && isEncryptedRecord(data.get(key))) {
+    // Saving now would replace encrypted data that was never decrypted
+    reportStorageError(key, new Error('The vault is locked.'), 'locked');
+    return;
+  }
+  const stored = structuredClone(value);
+  data.set(key, stored);
+  recordWriteListeners.forEach(listener => listener(key));
+  queueWrite(key, async () => {
+    const persisted = recordCipher ? await recordCipher.encrypt(stored) : stored;
+    if (backend === 'localStorage') {
+      localStorage.setItem(key, JSON.stringify(persisted));
+    } else {
+      await idbBulkWrite<AppDataRecord>(APP_DATA_STORE, [{ key, value: persisted }]);
+    }
+  });
+};
+
+export const deleteRecord = (key: string): void => {
+  data.delete(key);
+  recordWriteListeners.forEach(listener => listener(key));
+  queueWrite(key, async () => {
+    if (backend === 'localStorage') {
+      localStorage.removeItem(key);
+    } else {
+      await idbBulkWrite(APP_DATA_STORE, [], [key]);
+    }
+  });
+};
+
+/**
+ * Installs (or removes) the cipher used for protected records. Decrypts any
+ * protected records loaded from disk so they can be read again.
+ * @param recordCipher The cipher, or null to store protected records in plain form again.
+ * @throws Error if a record can't be decrypted with the cipher.
+ */
+export const setRecordCipher = async (recordCipher: RecordCipher | null): Promise<void> => {
+  if (recordCipher) {
+    for (const [key, value] of data) {
+      if (recordCipher.protects(key) && isEncryptedRecord(value)) {
+        data.set(key, await recordCipher.decrypt(value));
+      }
+    }
+  }
+  cipher = recordCipher;
+};
+
+/**
+ * Waits until every background write has committed, e.g. before reloading
+ * the page after an import.
+ */
+export const flushPendingWrites = async (): Promise<void> => {
+  await Promise.all([...pendingWrites]);
+};
+
+/**
+ * Registers a listener for failed writes, such as a full disk quota.
+ * @param listener Called with the failed write.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToStorageErrors = (listener: StorageErrorListener): (() => void) => {
+  storageErrorListeners.add(listener);
+  return () => {
+    storageErrorListeners.delete(listener);
+  };
+};
+
+/**
+ * Registers a listener for saved or deleted records, e.g. to timestamp changes for sync.
+ * @param listener Called with the record key right after the in-memory copy changes.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToRecordWrites = (listener: RecordWriteListener): (() => void) => {
+  recordWriteListeners.add(listener);
+  return () => {
+    recordWriteListeners.delete(listener);
+  };
+};
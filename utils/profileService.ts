@@ -0,0 +1,154 @@
+import { StudentProfile } from '../types';
+import {
+  LEGACY_PROFILE_ID, loadProfiles, saveProfiles, loadActiveProfileId, saveActiveProfileId,
+  loadLegacyUserName, deleteProfileData, generateUniqueId,
+} from './localStorageService';
+import { clearResponseCache } from '../services/responseCache';
+
+// sessionStorage key for the profile whose PIN was entered in this tab, so
+// reloading (e.g. after switching profiles) doesn't ask again.
+const UNLOCKED_PROFILE_SESSION_KEY = 'slsUnlockedProfileId';
+
+/**
+ * Creates the profile list on first run after upgrading: a student who went
+ * through the welcome screen before profiles existed becomes the first
+ * profile, keeping all of their data. Call once before rendering.
+ */
+export const initializeProfiles = (): void => {
+  let profiles = loadProfiles();
+  if (profiles.length === 0) {
+    const legacyName = loadLegacyUserName();
+    if (legacyName) {
+      profiles = [{ id: LEGACY_PROFILE_ID, name: legacyName, createdAt: new Date().toISOString() }];
+      saveProfiles(profiles);
+      saveActiveProfileId(LEGACY_PROFILE_ID);
+    }
+  }
+  const activeId = loadActiveProfileId();
+  if (activeId && !profiles.some(profile => profile.id === activeId)) {
+    saveActiveProfileId(profiles[0]?.id ?? null);
+  }
+};
+
+export const getProfiles = (): StudentProfile[] => loadProfiles();
+
+/**
+ * Returns the profile in use.
+ * @returns The active StudentProfile, or null before the first profile is created.
+ */
+export const getActiveProfile = (): StudentProfile | null => {
+  const activeId = loadActiveProfileId();
+  return loadProfiles().find(profile => profile.id === activeId) || null;
+};
+
+/**
+ * Adds a profile. It doesn't become active until `activateProfile` is called.
+ * @param name The student's name.
+ * @returns The new profile.
+ */
+export const createProfile = (name: string): StudentProfile => {
+  const profile: StudentProfile = { id: generateUniqueId(), name, createdAt: new Date().toISOString() };
+  saveProfiles([...loadProfiles(), profile]);
+  return profile;
+};
+
+export const renameProfile = (profileId: string, name: string): void => {
+  saveProfiles(loadProfiles().map(profile => (profile.id === profileId ? { ...profile, name } : profile)));
+};
+
+/**
+ * Makes a profile the active one. Reload the app afterwards so every tool
+ * reads the new profile's data.
+ * @param profileId The profile to switch to.
+ */
+export const activateProfile = (profileId: string): void => {
+  saveActiveProfileId(profileId);
+  markProfileUnlocked(profileId);
+};
+
+/**
+ * Deletes a profile and all of its data. If it was active, the next profile
+ * (if any) becomes active.
+ * @param profileId The profile to delete.
+ */
+export const deleteProfile = (profileId: string): void => {
+  const remaining = loadProfiles().filter(profile => profile.id !== profileId);
+  deleteProfileData(profileId);
+  clearResponseCache(profileId).catch(error => console.error("Error deleting the profile's cached answers:", error));
+  saveProfiles(remaining);
+  if (loadActiveProfileId() === profileId) {
+    saveActiveProfileId(remaining[0]?.id ?? null);
+  }
+};
+
+const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hashPin = async (salt: string, pin: string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${pin}`)));
+
+/**
+ * Sets or removes a profile's PIN.
+ * @param profileId The profile.
+ * @param pin The new PIN, or null to remove the lock.
+ */
+export const setProfilePin = async (profileId: string, pin: string | null): Promise<void> => {
+  let lock: StudentProfile['pin'];
+  if (pin) {
+    const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+    lock = { salt, hash: await hashPin(salt, pin) };
+  }
+  saveProfiles(loadProfiles().map(profile => {
+    if (profile.id !== profileId) return profile;
+    const { pin: _oldPin, ...rest } = profile;
+    return lock ? { ...rest, pin: lock } : rest;
+  }));
+};
+
+/**
+ * Checks a PIN against a profile's lock.
+ * @param profile The profile.
+ * @param pin The PIN entered.
+ * @returns True if the PIN matches or the profile has no PIN.
+ */
+export const verifyProfilePin = async (profile: StudentProfile, pin: string): Promise<boolean> => {
+  if (!profile.pin) {
+    return true;
+  }
+  return (await hashPin(profile.pin.salt, pin)) === profile.pin.hash;
+};
+
+/**
+ * Whether a profile can be used without entering its PIN in this tab.
+ * @param profile The profile.
+ * @returns True for profiles without a PIN, or whose PIN was entered this session.
+ */
+export const isProfileUnlocked = (profile: StudentProfile): boolean => {
+  if (!profile.pin) {
+    return true;
+  }
+  try {
+    return sessionStorage.getItem(UNLOCKED_PROFILE_SESSION_KEY) === profile.id;
+  } catch {
+    return false;
+  }
+};
+
+export const markProfileUnlocked = (profileId: string): void => {
+  try {
+    sessionStorage.setItem(UNLOCKED_PROFILE_SESSION_KEY, profileId);
+  } catch (error) {
+    console.error("Error saving unlocked profile to sessionStorage:", error);
+  }
+};
+
+/**
+ * Locks the active profile again, e.g. before handing the device to someone else.
+ */
+export const lockActiveProfile = (): void => {
+  try {
+    sessionStorage.removeItem(UNLOCKED_PROFILE_SESSION_KEY);
+  } catch (error) {
+    console.error("Error clearing unlocked profile from sessionStorage:", error);
+  }
+};
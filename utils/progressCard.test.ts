@@ -0,0 +1,92 @@
+import { createHmac } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { AchievementType, ProgressCard } from '../types';
+import { ProgressCodeError, buildLeaderboard, decodeProgressCode, encodeProgressCode } from './progressCard';
+
+const SECRET = 'maths-club';
+
+const makeCard = (cardId: string, name: string, level: number, issuedAt = '2026-10-19T08:00:00.000Z'): ProgressCard => ({
+  cardId, name, level, xp: level * 100, streak: 3, badges: [AchievementType.NOTES_HERO, AchievementType.FOCUS_BEAST], prestige: 0, issuedAt,
+});
+
+// Signs any payload the way encodeProgressCode does, to build codes it never would
+const signFields = (fields: unknown[]): string => {
+  const message = `SLS1.${Buffer.from(JSON.stringify(fields)).toString('base64url')}`;
+  return `${message}.${createHmac('sha256', SECRET).update(message).digest().subarray(0, 16).toString('base64url')}`;
+};
+
+const problemOf = (promise: Promise<unknown>) =>
+  promise.then(() => null, (error: ProgressCodeError) => error.problem);
+
+describe('progress codes', () => {
+  it('round-trip a card', async () => {
+    const card = makeCard('card-ana', 'Ana ✏️', 7);
+    const code = await encodeProgressCode(card, SECRET);
+    expect(code).toMatch(/^SLS1\.[\w-]+\.[\w-]{22}$/);
+    expect(await decodeProgressCode(`  ${code}\n`, SECRET)).toEqual(card);
+  });
+
+  it('match the signature computed independently', async () => {
+    const card = makeCard('card-ana', 'Ana', 7);
+    expect(await encodeProgressCode(card, SECRET)).toBe(signFields(['card-ana', 'Ana', 7, 700, 3, 0b1010, 0, Date.parse(card.issuedAt) / 1000]));
+  });
+
+  it('fail to verify when edited or checked with another secret', async () => {
+    const code = await encodeProgressCode(makeCard('card-ana', 'Ana', 7), SECRET);
+    const [prefix, payload, signature] = code.split('.');
+    const edited = `${prefix}.${Buffer.from(Buffer.from(payload, 'base64url').toString().replace('7,700', '9,900')).toString('base64url')}.${signature}`;
+    expect(await problemOf(decodeProgressCode(edited, SECRET))).toBe('signature');
+    expect(await problemOf(decodeProgressCode(code, 'chess-club'))).toBe('signature');
+  });
+
+  it('reject codes that are not progress codes', async () => {
+    expect(await problemOf(decodeProgressCode('hello', SECRET))).toBe('malformed');
+  });
+
+  it('reject signed payloads without exactly eight fields', async () => {
+    expect(await problemOf(decodeProgressCode(signFields(['card-ana', 'Ana', 7, 700, 3, 0, 0]), SECRET))).toBe('malformed');
+    expect(await problemOf(decodeProgressCode(signFields(['card-ana', 'Ana', 7, 700, 3, 0, 0, 1, 1]), SECRET))).toBe('malformed');
+    expect(await problemOf(decodeProgressCode(signFields(['card-ana', 'Ana', 7, -700, 3, 0, 0, 1]), SECRET))).toBe('malformed');
+  });
+
+  it('reject signed payloads issued past the dates a card can hold', async () => {
+    const farFuture = signFields(['card-ana', 'Ana', 7, 700, 3, 0, 0, 1e13]);
+    expect(await problemOf(decodeProgressCode(farFuture, SECRET))).toBe('malformed');
+    const rows = await buildLeaderboard([farFuture], SECRET, makeCard('card-self', 'Sam', 5));
+    expect(rows[1]).toMatchObject({ code: farFuture });
+  });
+});
+
+describe('buildLeaderboard', () => {
+  const self = makeCard('card-self', 'Sam', 5);
+
+  it('ranks verified cards and lists bad codes last', async () => {
+    const codes = [
+      await encodeProgressCode(makeCard('card-ana', 'Ana', 3), SECRET),
+      await encodeProgressCode(makeCard('card-ben', 'Ben', 8), SECRET),
+      'not a code',
+    ];
+    const rows = await buildLeaderboard(codes, SECRET, self);
+    expect(rows.map(row => ('card' in row ? row.card.name : 'error'))).toEqual(['Ben', 'Sam', 'Ana', 'error']);
+    expect(rows[1]).toMatchObject({ isSelf: true });
+  });
+
+  it("keeps only the newest code per card, and never the student's own", async () => {
+    const codes = [
+      await encodeProgressCode(makeCard('card-ana', 'Ana', 3, '2026-10-18T08:00:00.000Z'), SECRET),
+      await encodeProgressCode(makeCard('card-ana', 'Ana', 4, '2026-10-19T08:00:00.000Z'), SECRET),
+      await encodeProgressCode(makeCard('card-self', 'Sam', 2), SECRET),
+    ];
+    const rows = await buildLeaderboard(codes, SECRET, self);
+    expect(rows.map(row => 'card' in row && [row.card.name, row.card.level])).toEqual([['Sam', 5], ['Ana', 4]]);
+  });
+
+  it("keeps classmates who share the student's name", async () => {
+    const codes = [
+      await encodeProgressCode(makeCard('card-other-sam', 'Sam', 9), SECRET),
+      await encodeProgressCode(makeCard('card-third-sam', 'Sam', 1), SECRET),
+    ];
+    const rows = await buildLeaderboard(codes, SECRET, self);
+    expect(rows.map(row => 'card' in row && row.card.cardId)).toEqual(['card-other-sam', 'card-self', 'card-third-sam']);
+  });
+});
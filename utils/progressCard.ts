@@ -0,0 +1,153 @@
+import { AchievementType, DailyAchievementState, ProgressCard } from '../types';
+import { getPrestigeCount } from './xpLedger';
+
+// Progress codes look like "SLS1.<payload>.<signature>", both parts base64url.
+// The signature is an HMAC-SHA256 of "SLS1.<payload>" keyed with the group's
+// shared secret, so a code edited by hand, or made for another group, fails
+// to verify. Nothing leaves the device: codes are shared by copy/paste or QR.
+const CODE_PREFIX = 'SLS1';
+const SIGNATURE_BYTES = 16; // Truncated HMAC keeps codes short enough for a small QR code
+const MAX_NAME_LENGTH = 24;
+const CARD_FIELD_COUNT = 8; // card ID, name, level, xp, streak, badge mask, prestige, issued-at seconds
+const MAX_ISSUED_AT_SECONDS = 8.64e12; // The latest moment a Date can hold
+export const MIN_GROUP_SECRET_LENGTH = 6;
+
+// Badges are packed into a bit mask in this order; only ever append to it.
+const BADGE_ORDER: AchievementType[] = [
+  AchievementType.FIRE_MASTER,
+  AchievementType.NOTES_HERO,
+  AchievementType.HOMEWORK_LEGEND,
+  AchievementType.FOCUS_BEAST,
+  AchievementType.CONSISTENCY_KING_QUEEN,
+];
+
+export type ProgressCodeProblem = 'malformed' | 'signature';
+
+export class ProgressCodeError extends Error {
+  constructor(readonly problem: ProgressCodeProblem, message: string) {
+    super(message);
+    this.name = 'ProgressCodeError';
+  }
+}
+
+// One leaderboard line: a verified card, or a code that didn't check out.
+export type LeaderboardRow =
+  | { code: string; card: ProgressCard; isSelf: boolean }
+  | { code: string; error: ProgressCodeError };
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (encoded: string): Uint8Array =>
+  Uint8Array.from(atob(encoded.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+const sign = async (groupSecret: string, message: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(groupSecret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return toBase64Url(new Uint8Array(signature).slice(0, SIGNATURE_BYTES));
+};
+
+/**
+ * A student's current progress as a card.
+ * @param state The achievement state.
+ * @param name The name shown to friends.
+ * @param cardId The student's card ID (see Leaderboard).
+ */
+export const createProgressCard = (state: DailyAchievementState, name: string, cardId: string): ProgressCard => ({
+  cardId,
+  name: name.trim().slice(0, MAX_NAME_LENGTH),
+  level: state.xpState.level,
+  xp: state.xpState.xp,
+  streak: state.currentStreak,
+  badges: BADGE_ORDER.filter(badge => state.unlockedBadges.includes(badge)),
+  prestige: getPrestigeCount(state),
+  issuedAt: new Date().toISOString(),
+});
+
+/**
+ * Signs a card into a progress code for the group.
+ * @param card The card.
+ * @param groupSecret The secret the group shares.
+ */
+export const encodeProgressCode = async (card: ProgressCard, groupSecret: string): Promise<string> => {
+  const badgeMask = BADGE_ORDER.reduce((mask, badge, bit) => (card.badges.includes(badge) ? mask | (1 << bit) : mask), 0);
+  const fields = [card.cardId, card.name, card.level, card.xp, card.streak, badgeMask, card.prestige, Math.floor(Date.parse(card.issuedAt) / 1000)];
+  const message = `${CODE_PREFIX}.${toBase64Url(new TextEncoder().encode(JSON.stringify(fields)))}`;
+  return `${message}.${await sign(groupSecret, message)}`;
+};
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/**
+ * Checks a progress code's signature and reads its card.
+ * @param code The code, as pasted (surrounding spaces are ignored).
+ * @param groupSecret The secret the group shares.
+ * @throws ProgressCodeError if the code isn't a progress code, or was changed or made for another group.
+ */
+export const decodeProgressCode = async (code: string, groupSecret: string): Promise<ProgressCard> => {
+  const parts = code.trim().split('.');
+  if (parts.length !== 3 || parts[0] !== CODE_PREFIX) {
+    throw new ProgressCodeError('malformed', "This isn't a progress code.");
+  }
+  if (await sign(groupSecret, `${parts[0]}.${parts[1]}`) !== parts[2]) {
+    throw new ProgressCodeError('signature', "This code was changed, or made with another group's secret.");
+  }
+
+  let fields: unknown;
+  try {
+    fields = JSON.parse(new TextDecoder().decode(fromBase64Url(parts[1])));
+  } catch {
+    throw new ProgressCodeError('malformed', "This progress code can't be read.");
+  }
+  if (!Array.isArray(fields) || fields.length !== CARD_FIELD_COUNT || typeof fields[0] !== 'string' || typeof fields[1] !== 'string' || !fields.slice(2).every(isCount)) {
+    throw new ProgressCodeError('malformed', "This progress code can't be read.");
+  }
+  const [cardId, name, level, xp, streak, badgeMask, prestige, issuedAtSeconds] = fields as [string, string, ...number[]];
+  if (issuedAtSeconds > MAX_ISSUED_AT_SECONDS) {
+    throw new ProgressCodeError('malformed', "This progress code can't be read.");
+  }
+  return {
+    cardId,
+    name: name.slice(0, MAX_NAME_LENGTH),
+    level,
+    xp,
+    streak,
+    badges: BADGE_ORDER.filter((_, bit) => (badgeMask & (1 << bit)) !== 0),
+    prestige,
+    issuedAt: new Date(issuedAtSeconds * 1000).toISOString(),
+  };
+};
+
+// Prestige first, since prestiging resets XP; then level, XP and streak.
+const compareCards = (a: ProgressCard, b: ProgressCard): number =>
+  b.prestige - a.prestige || b.level - a.level || b.xp - a.xp || b.streak - a.streak || a.name.localeCompare(b.name);
+
+/**
+ * Builds the ranked table from friends' codes and the student's own card.
+ * Only the newest code per card ID is kept, and the student's own older codes
+ * give way to their live card. Codes that fail to verify are listed after the
+ * ranking so they can be removed.
+ * @param codes Friends' codes.
+ * @param groupSecret The secret the group shares.
+ * @param self The student's own card.
+ */
+export const buildLeaderboard = async (codes: string[], groupSecret: string, self: ProgressCard): Promise<LeaderboardRow[]> => {
+  const results = await Promise.all(codes.map(async (code): Promise<LeaderboardRow> => {
+    try {
+      return { code, card: await decodeProgressCode(code, groupSecret), isSelf: false };
+    } catch (error) {
+      if (error instanceof ProgressCodeError) return { code, error };
+      throw error;
+    }
+  }));
+
+  const newestByCard = new Map<string, LeaderboardRow & { card: ProgressCard }>();
+  results.forEach(row => {
+    if (!('card' in row) || row.card.cardId === self.cardId) return;
+    const existing = newestByCard.get(row.card.cardId);
+    if (!existing || row.card.issuedAt > existing.card.issuedAt) newestByCard.set(row.card.cardId, row);
+  });
+
+  const ranked = [...newestByCard.values(), { code: '', card: self, isSelf: true }].sort((a, b) => compareCards(a.card, b.card));
+  return [...ranked, ...results.filter(row => 'error' in row)];
+};
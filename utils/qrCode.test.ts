@@ -0,0 +1,50 @@
+import jsQR from 'jsqr';
+import { describe, expect, it } from 'vitest';
+import { QrCodeCapacityError, QrMatrix, encodeQrCode, reedSolomonRemainder } from './qrCode';
+
+const QUIET_ZONE = 4;
+const SCALE = 4;
+
+// Reads a matrix back with an independent decoder
+const decode = (matrix: QrMatrix): string | undefined => {
+  const side = (matrix.length + QUIET_ZONE * 2) * SCALE;
+  const pixels = new Uint8ClampedArray(side * side * 4).fill(255);
+  matrix.forEach((row, y) => row.forEach((dark, x) => {
+    if (!dark) return;
+    for (let dy = 0; dy < SCALE; dy++) {
+      for (let dx = 0; dx < SCALE; dx++) {
+        const offset = (((y + QUIET_ZONE) * SCALE + dy) * side + (x + QUIET_ZONE) * SCALE + dx) * 4;
+        pixels.fill(0, offset, offset + 3);
+      }
+    }
+  }));
+  return jsQR(pixels, side, side)?.data;
+};
+
+describe('reedSolomonRemainder', () => {
+  it('matches the worked "HELLO WORLD" example', () => {
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+});
+
+describe('encodeQrCode', () => {
+  it('picks the smallest version that fits', () => {
+    expect(encodeQrCode('x'.repeat(14))).toHaveLength(21);
+    expect(encodeQrCode('x'.repeat(15))).toHaveLength(25);
+    expect(encodeQrCode('x'.repeat(213))).toHaveLength(57);
+  });
+
+  it('throws when the text is too long for version 10', () => {
+    expect(() => encodeQrCode('x'.repeat(214))).toThrow(QrCodeCapacityError);
+  });
+
+  it.each([
+    ['a short code', 'SLS1'],
+    ['UTF-8 text', 'Ana ✏️ — nível 7'],
+    ['a progress code', `SLS1.${'WyJjYXJkLWFuYSIsIkFuYSIsNyw3MDAsMywxMCwwLDE3NjA4NjA4MDBd'.repeat(2)}.Xk3pQ9v2LmN8rT4wYz1aBc`],
+    ['the largest text that fits', 'z'.repeat(213)],
+  ])('decodes back to %s', (_, text) => {
+    expect(decode(encodeQrCode(text))).toBe(text);
+  });
+});
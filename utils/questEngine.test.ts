@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { DailyAchievementState, DailyActivityCounts } from '../types';
+import { claimQuestReward, getQuestBoards, refreshQuestBoards, rerollQuest } from './questEngine';
+
+const TODAY = '2026-10-21'; // A Wednesday
+
+const busyDay: DailyActivityCounts = {
+  studyPlansGenerated: 1, notesSummarized: 9, homeworkChecked: 9, moodUpdates: 9, decisionsMade: 9, gradesPredicted: 9,
+  focusBeastEligibleToday: false,
+};
+
+const makeState = (dailyActionCounts: DailyAchievementState['dailyActionCounts'] = {}): DailyAchievementState => ({
+  xpState: { xp: 0, level: 0 }, unlockedBadges: [], currentStreak: 1, lastActivityDate: TODAY, dailyActionCounts, xpLedger: [],
+});
+
+const dailyQuests = (state: DailyAchievementState) => getQuestBoards(state, TODAY).find(board => board.period === 'daily')!;
+
+describe('quest boards', () => {
+  it('are the same on every device for the same day and week', () => {
+    const boards = refreshQuestBoards(makeState(), TODAY).questBoards!;
+    expect(refreshQuestBoards(makeState(), TODAY).questBoards).toEqual(boards);
+    expect(boards.daily!.quests).toHaveLength(3);
+    expect(boards.weekly!.start).toBe('2026-10-19');
+  });
+
+  it('are only replaced once their period is over', () => {
+    const state = refreshQuestBoards(makeState(), TODAY);
+    expect(refreshQuestBoards(state, TODAY)).toBe(state);
+    const tomorrow = refreshQuestBoards(state, '2026-10-22');
+    expect(tomorrow.questBoards!.daily!.start).toBe('2026-10-22');
+    expect(tomorrow.questBoards!.weekly).toBe(state.questBoards!.weekly);
+  });
+
+  it('measure progress from the daily counts', () => {
+    const quests = dailyQuests(makeState({ [TODAY]: busyDay })).quests;
+    expect(quests.every(quest => quest.complete && !quest.claimed)).toBe(true);
+    expect(dailyQuests(makeState()).quests.some(quest => quest.complete)).toBe(false);
+  });
+});
+
+describe('rerollQuest', () => {
+  it('swaps an unfinished quest while rerolls last', () => {
+    const state = refreshQuestBoards(makeState(), TODAY);
+    const [first, second] = state.questBoards!.daily!.quests;
+    const rerolled = rerollQuest(state, first.id, TODAY);
+    expect(rerolled.questBoards!.daily!.quests[0].id).not.toBe(first.id);
+    expect(dailyQuests(rerolled).rerollsLeft).toBe(0);
+    expect(rerollQuest(rerolled, second.id, TODAY)).toBe(rerolled);
+  });
+
+  it("won't swap a finished quest", () => {
+    const state = refreshQuestBoards(makeState({ [TODAY]: busyDay }), TODAY);
+    expect(rerollQuest(state, state.questBoards!.daily!.quests[0].id, TODAY)).toBe(state);
+  });
+});
+
+describe('claimQuestReward', () => {
+  it('pays a finished quest once', () => {
+    const state = refreshQuestBoards(makeState({ [TODAY]: busyDay }), TODAY);
+    const quest = state.questBoards!.daily!.quests[0];
+    const claimed = claimQuestReward(state, quest.id, TODAY);
+    expect(claimed.xpState.xp).toBe(quest.xpReward);
+    expect(dailyQuests(claimed).quests[0].claimed).toBe(true);
+    expect(claimQuestReward(claimed, quest.id, TODAY)).toBe(claimed);
+  });
+
+  it('pays a slot once even when another device rerolled it', () => {
+    const state = refreshQuestBoards(makeState(), TODAY);
+    const quest = state.questBoards!.daily!.quests[0];
+    const phone = rerollQuest(state, quest.id, TODAY);
+    const laptop = claimQuestReward({ ...state, dailyActionCounts: { [TODAY]: busyDay } }, quest.id, TODAY);
+
+    const synced = { ...phone, dailyActionCounts: { [TODAY]: busyDay }, xpLedger: laptop.xpLedger, xpState: laptop.xpState };
+    expect(dailyQuests(synced).quests[0].claimed).toBe(true);
+    expect(claimQuestReward(synced, synced.questBoards!.daily!.quests[0].id, TODAY)).toBe(synced);
+  });
+
+  it("won't pay an unfinished quest", () => {
+    const state = refreshQuestBoards(makeState(), TODAY);
+    expect(claimQuestReward(state, state.questBoards!.daily!.quests[0].id, TODAY)).toBe(state);
+  });
+});
@@ -0,0 +1,281 @@
+import { ActionType, DailyAchievementState, Quest, QuestBoard, QuestGoal, QuestPeriod } from '../types';
+import { ACTION_COUNTERS, CountedField } from './activityHistory';
+import { addDaysToKey, daysBetweenKeys, getWeekStartKey } from './dateUtils';
+import { hashString } from './hash';
+import { getXpLedger, questRewardEntryId, recordQuestReward } from './xpLedger';
+
+export const QUEST_PERIODS: QuestPeriod[] = ['daily', 'weekly'];
+
+const QUESTS_PER_BOARD: Record<QuestPeriod, number> = { daily: 3, weekly: 2 };
+const REROLLS_PER_BOARD: Record<QuestPeriod, number> = { daily: 1, weekly: 1 };
+const PERIOD_DAYS: Record<QuestPeriod, number> = { daily: 1, weekly: 7 };
+// Chance a quest asks for two actions instead of one
+const TWO_GOAL_CHANCE: Record<QuestPeriod, number> = { daily: 0.5, weekly: 0.3 };
+// Coming back on several days is harder than doing something several times once
+const DAYS_GOAL_XP_MULTIPLIER = 2;
+// Tries at finding a quest whose actions aren't on the board yet
+const MAX_PICK_ATTEMPTS = 10;
+
+type Range = [min: number, max: number];
+
+// How an action is phrased and sized in quests.
+interface QuestActionSpec {
+  times: (n: number) => string; // Phrase for doing it n times, e.g. "summarize 2 notes"
+  onDays: string; // Phrase for a days goal, followed by "on n days"
+  dailyTimes: Range;
+  weeklyTimes: Range | null; // null: only ever asked for on separate days
+  weeklyDays: Range;
+  xpPerStep: number;
+}
+
+const plural = (n: number, word: string): string => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+// Quests are built from these actions; the rest aren't counted per day (see ACTION_COUNTERS).
+const QUEST_ACTIONS: Partial<Record<ActionType, QuestActionSpec>> = {
+  [ActionType.STUDY_PLAN_GENERATED]: {
+    times: () => 'make a study plan',
+    onDays: 'make a study plan',
+    dailyTimes: [1, 1], // Only counted once a day
+    weeklyTimes: null,
+    weeklyDays: [2, 4],
+    xpPerStep: 10,
+  },
+  [ActionType.NOTES_SUMMARIZED]: {
+    times: n => `summarize ${plural(n, 'note')}`,
+    onDays: 'summarize notes',
+    dailyTimes: [1, 3],
+    weeklyTimes: [4, 8],
+    weeklyDays: [3, 5],
+    xpPerStep: 10,
+  },
+  [ActionType.HOMEWORK_CHECKED]: {
+    times: n => `check ${plural(n, 'homework task')}`,
+    onDays: 'check homework',
+    dailyTimes: [1, 3],
+    weeklyTimes: [4, 8],
+    weeklyDays: [3, 5],
+    xpPerStep: 10,
+  },
+  [ActionType.MOOD_UPDATED]: {
+    times: n => `log your mood ${n === 1 ? 'once' : `${n} times`}`,
+    onDays: 'log your mood',
+    dailyTimes: [1, 2],
+    weeklyTimes: null,
+    weeklyDays: [3, 5],
+    xpPerStep: 5,
+  },
+  [ActionType.DECISION_MADE]: {
+    times: n => `make ${plural(n, 'decision')}`,
+    onDays: 'make a decision',
+    dailyTimes: [1, 2],
+    weeklyTimes: [3, 5],
+    weeklyDays: [2, 4],
+    xpPerStep: 5,
+  },
+  [ActionType.GRADE_PREDICTED]: {
+    times: n => `predict ${plural(n, 'grade')}`,
+    onDays: 'predict a grade',
+    dailyTimes: [1, 1],
+    weeklyTimes: [2, 3],
+    weeklyDays: [2, 3],
+    xpPerStep: 10,
+  },
+};
+
+const QUEST_ACTION_TYPES = Object.keys(QUEST_ACTIONS) as ActionType[];
+
+export interface QuestGoalProgress extends QuestGoal {
+  current: number; // Capped at target
+}
+
+export interface QuestStatus extends Quest {
+  goalProgress: QuestGoalProgress[];
+  complete: boolean;
+  claimed: boolean;
+}
+
+// A board as the dashboard shows it.
+export interface QuestBoardView {
+  period: QuestPeriod;
+  start: string;
+  end: string; // Last day key of the period
+  quests: QuestStatus[];
+  rerollsLeft: number;
+}
+
+/**
+ * Small seeded generator (mulberry32), so a slot gets the same quest on every
+ * device without anything being synced.
+ */
+const seededRandom = (seed: string): (() => number) => {
+  let a = parseInt(hashString(seed), 16);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pickInRange = (random: () => number, [min, max]: Range): number => min + Math.floor(random() * (max - min + 1));
+
+const periodStart = (period: QuestPeriod, today: string): string => (period === 'daily' ? today : getWeekStartKey(today));
+
+const describeGoal = (goal: QuestGoal): string => {
+  const spec = QUEST_ACTIONS[goal.action]!;
+  return goal.measure === 'times' ? spec.times(goal.target) : `${spec.onDays} on ${goal.target} days`;
+};
+
+const titleFor = (period: QuestPeriod, goals: QuestGoal[]): string => {
+  const text = `${goals.map(describeGoal).join(' and ')} ${period === 'daily' ? 'today' : 'this week'}`;
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+/**
+ * Generates the quest for a slot. Actions already on the board are avoided
+ * while there are others to choose from.
+ */
+const generateQuest = (id: string, period: QuestPeriod, taken: Set<ActionType>): Quest => {
+  const random = seededRandom(id);
+  const goalCount = random() < TWO_GOAL_CHANCE[period] ? 2 : 1;
+  const actions: ActionType[] = [];
+  for (let attempt = 0; actions.length < goalCount && attempt < MAX_PICK_ATTEMPTS * goalCount; attempt++) {
+    const action = QUEST_ACTION_TYPES[Math.floor(random() * QUEST_ACTION_TYPES.length)];
+    const isFresh = !taken.has(action) || attempt >= MAX_PICK_ATTEMPTS;
+    if (isFresh && !actions.includes(action)) actions.push(action);
+  }
+
+  const goals: QuestGoal[] = actions.map(action => {
+    const spec = QUEST_ACTIONS[action]!;
+    if (period === 'daily') {
+      return { action, measure: 'times', target: pickInRange(random, spec.dailyTimes) };
+    }
+    return spec.weeklyTimes && random() < 0.5
+      ? { action, measure: 'times', target: pickInRange(random, spec.weeklyTimes) }
+      : { action, measure: 'days', target: pickInRange(random, spec.weeklyDays) };
+  });
+  const xp = goals.reduce((total, goal) =>
+    total + goal.target * QUEST_ACTIONS[goal.action]!.xpPerStep * (goal.measure === 'days' ? DAYS_GOAL_XP_MULTIPLIER : 1), 0);
+
+  return { id, title: titleFor(period, goals), goals, xpReward: Math.round(xp / 5) * 5 };
+};
+
+// A rerolled quest's ID is its slot's plus ":r<n>". Rewards are paid per slot,
+// so a slot that devices rerolled differently still pays only once.
+const slotIdOf = (questId: string): string => questId.replace(/:r\d+$/, '');
+
+const questActions = (quests: Quest[]): Set<ActionType> =>
+  new Set(quests.flatMap(quest => quest.goals.map(goal => goal.action)));
+
+const createBoard = (period: QuestPeriod, start: string): QuestBoard => {
+  const quests: Quest[] = [];
+  for (let slot = 0; slot < QUESTS_PER_BOARD[period]; slot++) {
+    quests.push(generateQuest(`${period}:${start}:${slot}`, period, questActions(quests)));
+  }
+  return { start, quests, rerollsUsed: 0 };
+};
+
+/**
+ * Replaces boards whose day or week is over with fresh ones.
+ * @param state The achievement state.
+ * @param today Today's day key.
+ * @returns The updated state, or the same object if every board is current.
+ */
+export const refreshQuestBoards = (state: DailyAchievementState, today: string): DailyAchievementState => {
+  const stale = QUEST_PERIODS.filter(period => state.questBoards?.[period]?.start !== periodStart(period, today));
+  if (stale.length === 0) return state;
+  const questBoards = { ...state.questBoards };
+  stale.forEach(period => {
+    questBoards[period] = createBoard(period, periodStart(period, today));
+  });
+  return { ...state, questBoards };
+};
+
+const measureGoal = (state: DailyAchievementState, goal: QuestGoal, start: string, today: string): number => {
+  const field = ACTION_COUNTERS[goal.action] as CountedField;
+  let total = 0;
+  for (let i = 0; i <= daysBetweenKeys(start, today); i++) {
+    const count = state.dailyActionCounts[addDaysToKey(start, i)]?.[field] || 0;
+    total += goal.measure === 'times' ? count : Math.min(count, 1);
+  }
+  return Math.min(total, goal.target);
+};
+
+const questStatus = (state: DailyAchievementState, quest: Quest, start: string, today: string, paid: Set<string>): QuestStatus => {
+  const goalProgress = quest.goals.map(goal => ({ ...goal, current: measureGoal(state, goal, start, today) }));
+  return {
+    ...quest,
+    goalProgress,
+    complete: goalProgress.every(goal => goal.current >= goal.target),
+    claimed: paid.has(questRewardEntryId(slotIdOf(quest.id))),
+  };
+};
+
+/**
+ * Today's and this week's quests with their progress, for the quest board.
+ * @param state The achievement state.
+ * @param today Today's day key.
+ */
+export const getQuestBoards = (state: DailyAchievementState, today: string): QuestBoardView[] => {
+  const current = refreshQuestBoards(state, today);
+  const paid = new Set(getXpLedger(state).map(entry => entry.id));
+  return QUEST_PERIODS.map(period => {
+    const board = current.questBoards![period]!;
+    return {
+      period,
+      start: board.start,
+      end: addDaysToKey(board.start, PERIOD_DAYS[period] - 1),
+      quests: board.quests.map(quest => questStatus(state, quest, board.start, today, paid)),
+      rerollsLeft: Math.max(0, REROLLS_PER_BOARD[period] - board.rerollsUsed),
+    };
+  });
+};
+
+const findQuest = (state: DailyAchievementState, questId: string, today: string) => {
+  for (const period of QUEST_PERIODS) {
+    const board = state.questBoards?.[period];
+    const index = board?.quests.findIndex(quest => quest.id === questId) ?? -1;
+    if (board && index >= 0 && board.start === periodStart(period, today)) {
+      return { period, board, index };
+    }
+  }
+  return null;
+};
+
+/**
+ * Swaps a quest that isn't finished or paid yet for a new one, if the board has rerolls left.
+ * @returns The updated state, or the same object if it can't be rerolled.
+ */
+export const rerollQuest = (state: DailyAchievementState, questId: string, today: string): DailyAchievementState => {
+  const current = refreshQuestBoards(state, today);
+  const found = findQuest(current, questId, today);
+  if (!found || found.board.rerollsUsed >= REROLLS_PER_BOARD[found.period]) return state;
+  const { period, board, index } = found;
+  const status = questStatus(current, board.quests[index], board.start, today, new Set(getXpLedger(current).map(entry => entry.id)));
+  if (status.complete || status.claimed) return state;
+
+  // The quest being replaced counts as taken too, so the new one asks for something else
+  const rerollsUsed = board.rerollsUsed + 1;
+  const replacement = generateQuest(`${period}:${board.start}:${index}:r${rerollsUsed}`, period, questActions(board.quests));
+  return {
+    ...current,
+    questBoards: {
+      ...current.questBoards,
+      [period]: { ...board, rerollsUsed, quests: board.quests.map((quest, i) => (i === index ? replacement : quest)) },
+    },
+  };
+};
+
+/**
+ * Pays out a completed quest's XP.
+ * @returns The updated state, or the same object if the quest isn't complete or was already claimed.
+ */
+export const claimQuestReward = (state: DailyAchievementState, questId: string, today: string): DailyAchievementState => {
+  const current = refreshQuestBoards(state, today);
+  const found = findQuest(current, questId, today);
+  if (!found) return state;
+  const quest = found.board.quests[found.index];
+  const status = questStatus(current, quest, found.board.start, today, new Set(getXpLedger(current).map(entry => entry.id)));
+  if (!status.complete || status.claimed) return state;
+  return recordQuestReward(current, slotIdOf(quest.id), quest.xpReward);
+};
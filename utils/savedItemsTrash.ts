@@ -0,0 +1,48 @@
+import { SavedItem } from '../types';
+
+// Deleted saved work stays in the trash this long before it's purged.
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isInTrash = (item: SavedItem): boolean => Boolean(item.deletedAt);
+
+/**
+ * Moves saved items to the trash. Items already there keep their deletion time.
+ * @param items All saved items.
+ * @param ids The items to move.
+ * @returns The updated list.
+ */
+export const moveToTrash = (items: SavedItem[], ids: string[], now: Date = new Date()): SavedItem[] =>
+  items.map(item => (ids.includes(item.id) && !item.deletedAt ? { ...item, deletedAt: now.toISOString() } : item));
+
+/**
+ * Takes saved items back out of the trash.
+ * @param items All saved items.
+ * @param ids The items to restore.
+ * @returns The updated list.
+ */
+export const restoreFromTrash = (items: SavedItem[], ids: string[]): SavedItem[] =>
+  items.map(item => {
+    if (!ids.includes(item.id) || !item.deletedAt) return item;
+    const { deletedAt: _deletedAt, ...restored } = item;
+    return restored;
+  });
+
+/**
+ * Days left before a trashed item is purged.
+ * @param item A trashed item.
+ * @returns Whole days, at least 0.
+ */
+export const daysUntilPurge = (item: SavedItem, now: number = Date.now()): number =>
+  Math.max(0, Math.ceil((Date.parse(item.deletedAt ?? '') + TRASH_RETENTION_DAYS * DAY_MS - now) / DAY_MS) || 0);
+
+/**
+ * Removes items that have been in the trash longer than TRASH_RETENTION_DAYS.
+ * @param items All saved items.
+ * @returns The remaining items, or the same array if nothing expired.
+ */
+export const purgeExpiredTrash = (items: SavedItem[], now: number = Date.now()): SavedItem[] => {
+  const kept = items.filter(item => !item.deletedAt || now - Date.parse(item.deletedAt) < TRASH_RETENTION_DAYS * DAY_MS);
+  return kept.length === items.length ? items : kept;
+};
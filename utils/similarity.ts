@@ -0,0 +1,50 @@
+import { hashString } from './hash';
+
+// Values in a signature; more gives a finer similarity estimate.
+const SIGNATURE_SIZE = 16;
+// Words per shingle
+const SHINGLE_WORDS = 3;
+
+const toWords = (text: string): string[] =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s]+/gu, ' ').split(/\s+/).filter(Boolean);
+
+const toShingles = (words: string[]): string[] => {
+  if (words.length <= SHINGLE_WORDS) return [words.join(' ')];
+  const shingles = new Set<string>();
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_WORDS).join(' '));
+  }
+  return [...shingles];
+};
+
+/**
+ * Reduces text to a MinHash signature of its word shingles. Case, punctuation
+ * and spacing are ignored, so trivially edited copies get (nearly) the same
+ * signature, and the text can't be read back from it.
+ * @param text The text.
+ * @returns The signature, or null if the text has no words.
+ */
+export const fingerprintText = (text: string): string[] | null => {
+  const words = toWords(text);
+  if (words.length === 0) return null;
+  const shingles = toShingles(words);
+  return Array.from({ length: SIGNATURE_SIZE }, (_, seed) =>
+    shingles.reduce((min, shingle) => {
+      const hash = hashString(`${seed}:${shingle}`);
+      return hash < min ? hash : min;
+    }, 'ffffffff'));
+};
+
+/**
+ * Estimates how alike two texts are from their signatures.
+ * @returns Roughly the share of shingles the texts have in common, from 0 to 1.
+ */
+export const estimateSimilarity = (a: string[], b: string[]): number => {
+  const size = Math.min(a.length, b.length);
+  if (size === 0) return 0;
+  let matches = 0;
+  for (let i = 0; i < size; i++) {
+    if (a[i] === b[i]) matches++;
+  }
+  return matches / size;
+};
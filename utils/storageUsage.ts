@@ -0,0 +1,160 @@
+import { SavedItem } from '../types';
+import { loadSavedItems, loadDailyAchievementState, getSyncedRecordKeys } from './localStorageService';
+import { readRecord } from './persistentStore';
+import { isInTrash } from './savedItemsTrash';
+import { ResponseCacheEntry, listCacheEntries } from '../services/responseCache';
+import { UsageRecord, listUsageRecords } from '../services/usageTracker';
+
+// Saved items above this size, or older than this, are suggested for cleanup.
+export const LARGE_ITEM_BYTES = 20 * 1024;
+export const OLD_ITEM_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type StorageCategoryId =
+  'savedWork' | 'activityHistory' | 'xpHistory' | 'progress' | 'toolInputs' | 'responseCache' | 'usageHistory' | 'settings';
+
+export interface StorageCategoryUsage {
+  id: StorageCategoryId;
+  label: string;
+  bytes: number;
+  detail: string; // e.g. "12 items"
+}
+
+export interface StorageUsageReport {
+  categories: StorageCategoryUsage[]; // Largest first
+  totalBytes: number;
+  browserUsageBytes: number | null; // Everything this site stores, as reported by the browser
+  browserQuotaBytes: number | null;
+}
+
+export type CleanupReason = 'large' | 'old';
+
+export interface CleanupSuggestion {
+  item: SavedItem;
+  bytes: number;
+  ageDays: number;
+  reasons: CleanupReason[];
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Approximate stored size: the value's JSON as UTF-8.
+const byteSize = (value: unknown): number => new TextEncoder().encode(JSON.stringify(value) ?? '').length;
+
+const plural = (count: number, noun: string, pluralNoun = `${noun}s`): string => `${count} ${count === 1 ? noun : pluralNoun}`;
+
+const measureLocalStorage = (excludedKeys: string[]): number => {
+  try {
+    // localStorage keeps strings as UTF-16, two bytes per character
+    return Object.keys(localStorage)
+      .filter(key => !excludedKeys.includes(key))
+      .reduce((total, key) => total + (key.length + (localStorage.getItem(key)?.length ?? 0)) * 2, 0);
+  } catch (error) {
+    console.error("Error measuring localStorage:", error);
+    return 0;
+  }
+};
+
+const estimateBrowserStorage = async (): Promise<{ usage: number | null; quota: number | null }> => {
+  try {
+    const estimate = await navigator.storage?.estimate();
+    return { usage: estimate?.usage ?? null, quota: estimate?.quota ?? null };
+  } catch (error) {
+    console.error("Error estimating browser storage:", error);
+    return { usage: null, quota: null };
+  }
+};
+
+/**
+ * Measures how much space the active profile's data takes, by category.
+ * Sizes are estimates based on each value's JSON.
+ * @returns A StorageUsageReport.
+ */
+export const getStorageUsage = async (): Promise<StorageUsageReport> => {
+  const savedItems = loadSavedItems();
+  const { dailyActionCounts, activityArchive, xpLedger = [], ...progress } = loadDailyAchievementState();
+  const recordKeys = getSyncedRecordKeys();
+  const toolInputValues = Object.values(recordKeys.toolInputs).map(key => readRecord(key)).filter(value => value !== undefined);
+
+  const [cacheEntries, usageRecords, browser] = await Promise.all([
+    listCacheEntries().catch((): ResponseCacheEntry[] => []), // IndexedDB may be unavailable
+    listUsageRecords(0).catch((): UsageRecord[] => []),
+    estimateBrowserStorage(),
+  ]);
+
+  const categories: StorageCategoryUsage[] = [
+    { id: 'savedWork', label: 'Saved work', bytes: byteSize(savedItems), detail: plural(savedItems.length, 'item') },
+    {
+      id: 'activityHistory',
+      label: 'Activity history',
+      bytes: byteSize(dailyActionCounts) + (activityArchive ? byteSize(activityArchive) : 0),
+      detail: `${plural(Object.keys(dailyActionCounts).length, 'day')}${activityArchive ? ` + ${plural(activityArchive.summaries.length, 'summary', 'summaries')}` : ''}`,
+    },
+    { id: 'xpHistory', label: 'XP history', bytes: byteSize(xpLedger), detail: plural(xpLedger.length, 'award') },
+    { id: 'progress', label: 'XP & badges', bytes: byteSize(progress), detail: plural(progress.unlockedBadges.length, 'badge') },
+    { id: 'toolInputs', label: 'Tool inputs', bytes: byteSize(toolInputValues), detail: plural(toolInputValues.length, 'tool') },
+    {
+      id: 'responseCache',
+      label: 'Cached AI answers',
+      bytes: cacheEntries.reduce((total, entry) => total + entry.sizeBytes, 0),
+      detail: plural(cacheEntries.length, 'answer'),
+    },
+    { id: 'usageHistory', label: 'AI usage history', bytes: byteSize(usageRecords), detail: plural(usageRecords.length, 'request') },
+    {
+      id: 'settings',
+      label: 'Settings & other',
+      bytes: measureLocalStorage([recordKeys.savedItems, recordKeys.dailyAchievementState, ...Object.values(recordKeys.toolInputs)]),
+      detail: 'All profiles',
+    },
+  ];
+
+  return {
+    categories: categories.sort((a, b) => b.bytes - a.bytes),
+    totalBytes: categories.reduce((total, category) => total + category.bytes, 0),
+    browserUsageBytes: browser.usage,
+    browserQuotaBytes: browser.quota,
+  };
+};
+
+/**
+ * Picks saved items worth deleting or archiving: large ones and old ones.
+ * Items already in the trash are left out.
+ * @param items The saved items.
+ * @param now Current time in ms.
+ * @returns Suggestions, largest first.
+ */
+export const suggestSavedItemCleanup = (items: SavedItem[], now: number = Date.now()): CleanupSuggestion[] =>
+  items
+    .filter(item => !isInTrash(item))
+    .map(item => {
+      const bytes = byteSize(item);
+      const ageDays = Math.floor((now - (Date.parse(item.timestamp) || now)) / DAY_MS);
+      const reasons: CleanupReason[] = [];
+      if (bytes >= LARGE_ITEM_BYTES) reasons.push('large');
+      if (ageDays >= OLD_ITEM_DAYS) reasons.push('old');
+      return { item, bytes, ageDays, reasons };
+    })
+    .filter(suggestion => suggestion.reasons.length > 0)
+    .sort((a, b) => b.bytes - a.bytes);
+
+/**
+ * Downloads saved items as a Markdown file, so they can be kept outside the app.
+ * @param items The items to archive.
+ */
+export const downloadSavedItemsArchive = (items: SavedItem[]): void => {
+  const markdown = items
+    .map(item => `# ${item.title}\n\n_${item.toolName} · ${new Date(item.timestamp).toLocaleString()}_\n\n${item.content}\n`)
+    .join('\n---\n\n');
+  const blob = new Blob([markdown], { type: 'text/markdown' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `sls-saved-work-archive-${new Date().toISOString().slice(0, 10)}.md`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
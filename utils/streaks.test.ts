@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { DailyAchievementState, XpLedgerEntry } from '../types';
+import {
+  MAX_STREAK_FREEZES, STREAK_FREEZE_COST, STREAK_REPAIR_COST, advanceStreak, buyStreakFreeze, getStreakCalendar,
+  getStreakFreezeCount, repairStreak,
+} from './streaks';
+import { deriveXpState } from './xpLedger';
+
+const NOW = Date.parse('2026-10-19T09:00:00.000Z');
+const HOUR = 60 * 60 * 1000;
+
+const makeState = (xp: number, streak: Partial<DailyAchievementState> = {}): DailyAchievementState => {
+  const xpLedger: XpLedgerEntry[] = [{ id: 'earned', action: 'carriedOver', amount: xp, timestamp: '2026-10-01T10:00:00.000Z', tool: null }];
+  return {
+    xpState: deriveXpState(xpLedger), unlockedBadges: [], currentStreak: 0, lastActivityDate: null, dailyActionCounts: {},
+    xpLedger, ...streak,
+  };
+};
+
+describe('advanceStreak', () => {
+  it('starts, continues and leaves the same day alone', () => {
+    const started = advanceStreak(makeState(0), '2026-10-18', NOW);
+    expect(started.outcome).toBe('started');
+    expect(advanceStreak(started.state, '2026-10-18', NOW)).toEqual({ state: started.state, outcome: 'unchanged' });
+    const continued = advanceStreak(started.state, '2026-10-19', NOW);
+    expect(continued.outcome).toBe('continued');
+    expect(continued.state.currentStreak).toBe(2);
+  });
+
+  it('spends freezes on missed days when there are enough', () => {
+    const state = buyStreakFreeze(buyStreakFreeze(makeState(450, { currentStreak: 6, lastActivityDate: '2026-10-16' })));
+    expect(getStreakFreezeCount(state)).toBe(2);
+
+    const { state: frozen, outcome } = advanceStreak(state, '2026-10-19', NOW);
+    expect(outcome).toBe('frozen');
+    expect(frozen.currentStreak).toBe(7);
+    expect(frozen.frozenDays).toEqual(['2026-10-17', '2026-10-18']);
+    expect(getStreakFreezeCount(frozen)).toBe(0);
+  });
+
+  it('breaks the streak when freezes run short, keeping it repairable for a day', () => {
+    const state = buyStreakFreeze(makeState(450, { currentStreak: 6, lastActivityDate: '2026-10-15' }));
+    const { state: broken, outcome } = advanceStreak(state, '2026-10-19', NOW);
+    expect(outcome).toBe('broken');
+    expect(broken.currentStreak).toBe(1);
+    expect(broken.frozenDays).toBeUndefined();
+    expect(broken.brokenStreak).toEqual({
+      length: 6, missedDays: ['2026-10-16', '2026-10-17', '2026-10-18'], repairableUntil: new Date(NOW + 24 * HOUR).toISOString(),
+    });
+  });
+
+  it("doesn't offer to repair a one-day streak", () => {
+    const { state } = advanceStreak(makeState(450, { currentStreak: 1, lastActivityDate: '2026-10-15' }), '2026-10-19', NOW);
+    expect(state.brokenStreak).toBeUndefined();
+  });
+});
+
+describe('buyStreakFreeze', () => {
+  it('costs XP and stops at the most a student can hold', () => {
+    let state = makeState(450);
+    for (let i = 0; i < MAX_STREAK_FREEZES + 1; i++) state = buyStreakFreeze(state);
+    expect(getStreakFreezeCount(state)).toBe(MAX_STREAK_FREEZES);
+    expect(state.xpState.xp).toBe(450 - MAX_STREAK_FREEZES * STREAK_FREEZE_COST);
+  });
+
+  it("won't spend XP below the start of the current level", () => {
+    const state = makeState(250 + STREAK_FREEZE_COST - 1);
+    expect(buyStreakFreeze(state)).toBe(state);
+  });
+});
+
+describe('repairStreak', () => {
+  const broken = advanceStreak(makeState(450, { currentStreak: 6, lastActivityDate: '2026-10-15' }), '2026-10-19', NOW).state;
+
+  it('brings the old streak back and marks the missed days', () => {
+    const repaired = repairStreak(broken, NOW + HOUR);
+    expect(repaired.currentStreak).toBe(7);
+    expect(repaired.brokenStreak).toBeUndefined();
+    expect(repaired.repairedDays).toEqual(['2026-10-16', '2026-10-17', '2026-10-18']);
+    expect(repaired.xpState.xp).toBe(450 - STREAK_REPAIR_COST);
+    // The 19th is a Monday, so the week before ends with the repaired days
+    expect(getStreakCalendar(repaired, '2026-10-19', 2).slice(0, 8).map(day => day.status))
+      .toEqual(['none', 'none', 'none', 'none', 'repaired', 'repaired', 'repaired', 'today']);
+  });
+
+  it('does nothing once the window has passed or without enough XP', () => {
+    expect(repairStreak(broken, NOW + 25 * HOUR)).toBe(broken);
+    const xpLedger = broken.xpLedger!.map(entry => ({ ...entry, amount: 250 + STREAK_REPAIR_COST - 1 }));
+    const poor = { ...broken, xpLedger, xpState: deriveXpState(xpLedger) };
+    expect(repairStreak(poor, NOW + HOUR)).toBe(poor);
+  });
+
+  it('forgets the break when the streak next moves on after the window', () => {
+    const { state } = advanceStreak(broken, '2026-10-20', NOW + 25 * HOUR);
+    expect(state.brokenStreak).toBeUndefined();
+    expect(state.currentStreak).toBe(2);
+  });
+});
@@ -0,0 +1,147 @@
+import { BrokenStreak, DailyAchievementState } from '../types';
+import { addDaysToKey, daysBetweenKeys, getWeekStartKey } from './dateUtils';
+import { countEntry, getSpendableXp, getXpLedger, recordXpPurchase } from './xpLedger';
+
+export const STREAK_FREEZE_COST = 50;
+export const MAX_STREAK_FREEZES = 2;
+export const STREAK_REPAIR_COST = 100;
+const REPAIR_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// What opening the app on a new day did to the streak.
+export type StreakOutcome = 'unchanged' | 'started' | 'continued' | 'frozen' | 'broken';
+
+export type StreakDayStatus = 'studied' | 'frozen' | 'repaired' | 'missed' | 'today' | 'upcoming' | 'none';
+
+export interface StreakCalendarDay {
+  date: string; // Day key
+  status: StreakDayStatus;
+}
+
+/**
+ * Streak freezes the student owns: every one bought, minus the days they covered.
+ * Both sides only grow, so the count merges cleanly across devices.
+ */
+export const getStreakFreezeCount = (state: DailyAchievementState): number => {
+  const bought = getXpLedger(state).filter(entry => entry.action === 'streakFreeze').reduce((total, entry) => total + countEntry(entry), 0);
+  return Math.max(0, bought - (state.frozenDays?.length ?? 0));
+};
+
+export const canBuyStreakFreeze = (state: DailyAchievementState): boolean =>
+  getStreakFreezeCount(state) < MAX_STREAK_FREEZES && getSpendableXp(state) >= STREAK_FREEZE_COST;
+
+/**
+ * The last broken streak, if it can still be repaired.
+ */
+export const getRepairableStreak = (state: DailyAchievementState, now: number = Date.now()): BrokenStreak | null =>
+  state.brokenStreak && Date.parse(state.brokenStreak.repairableUntil) > now ? state.brokenStreak : null;
+
+export const canRepairStreak = (state: DailyAchievementState, now: number = Date.now()): boolean =>
+  getRepairableStreak(state, now) !== null && getSpendableXp(state) >= STREAK_REPAIR_COST;
+
+const withoutBrokenStreak = ({ brokenStreak: _brokenStreak, ...rest }: DailyAchievementState): DailyAchievementState => rest;
+
+/**
+ * Moves the streak on to today. Missed days are covered by freezes when there
+ * are enough for all of them; otherwise the streak restarts and the old one
+ * can be repaired for a while.
+ * @param state The achievement state.
+ * @param today Today's day key.
+ * @param now Current time in ms.
+ * @returns The updated state (the same object if nothing changed) and what happened.
+ */
+export const advanceStreak = (
+  state: DailyAchievementState,
+  today: string,
+  now: number = Date.now(),
+): { state: DailyAchievementState; outcome: StreakOutcome } => {
+  // A break that can't be repaired any more is forgotten
+  const current = state.brokenStreak && !getRepairableStreak(state, now) ? withoutBrokenStreak(state) : state;
+  const last = state.lastActivityDate;
+  if (!last) {
+    return { state: { ...current, currentStreak: 1, lastActivityDate: today }, outcome: 'started' };
+  }
+
+  const gap = daysBetweenKeys(last, today);
+  // Already counted: today, or a later day the boundary moved back from
+  if (gap <= 0) {
+    return { state: current, outcome: 'unchanged' };
+  }
+  if (gap === 1) {
+    return { state: { ...current, currentStreak: state.currentStreak + 1, lastActivityDate: today }, outcome: 'continued' };
+  }
+
+  const missedDays = Array.from({ length: gap - 1 }, (_, i) => addDaysToKey(last, i + 1));
+  if (getStreakFreezeCount(state) >= missedDays.length) {
+    return {
+      state: {
+        ...current,
+        currentStreak: state.currentStreak + 1,
+        lastActivityDate: today,
+        frozenDays: [...(state.frozenDays ?? []), ...missedDays],
+      },
+      outcome: 'frozen',
+    };
+  }
+
+  return {
+    state: {
+      ...withoutBrokenStreak(current),
+      currentStreak: 1,
+      lastActivityDate: today,
+      // A one-day streak isn't worth paying to repair
+      ...(state.currentStreak > 1 ? {
+        brokenStreak: { length: state.currentStreak, missedDays, repairableUntil: new Date(now + REPAIR_WINDOW_MS).toISOString() },
+      } : {}),
+    },
+    outcome: 'broken',
+  };
+};
+
+/**
+ * Spends XP on a streak freeze.
+ * @returns The updated state, or the same object if one can't be bought.
+ */
+export const buyStreakFreeze = (state: DailyAchievementState): DailyAchievementState =>
+  canBuyStreakFreeze(state) ? recordXpPurchase(state, 'streakFreeze', STREAK_FREEZE_COST) : state;
+
+/**
+ * Spends XP to bring back the last broken streak, adding the days since.
+ * @returns The updated state, or the same object if it can't be repaired.
+ */
+export const repairStreak = (state: DailyAchievementState, now: number = Date.now()): DailyAchievementState => {
+  const broken = getRepairableStreak(state, now);
+  if (!broken || !canRepairStreak(state, now)) {
+    return state;
+  }
+  return {
+    ...withoutBrokenStreak(recordXpPurchase(state, 'streakRepair', STREAK_REPAIR_COST)),
+    currentStreak: broken.length + state.currentStreak,
+    repairedDays: [...(state.repairedDays ?? []), ...broken.missedDays],
+  };
+};
+
+/**
+ * Lays out recent weeks for the streak calendar, Monday first.
+ * @param state The achievement state.
+ * @param today Today's day key.
+ * @param weeks Weeks to show, ending with the current one.
+ */
+export const getStreakCalendar = (state: DailyAchievementState, today: string, weeks: number = 5): StreakCalendarDay[] => {
+  const frozen = new Set(state.frozenDays ?? []);
+  const repaired = new Set(state.repairedDays ?? []);
+  const firstDay = Object.keys(state.dailyActionCounts).sort()[0] ?? today;
+  const start = addDaysToKey(getWeekStartKey(today), -(weeks - 1) * 7);
+
+  return Array.from({ length: weeks * 7 }, (_, i) => {
+    const date = addDaysToKey(start, i);
+    let status: StreakDayStatus;
+    if (date > today) status = 'upcoming';
+    else if (state.dailyActionCounts[date]) status = 'studied';
+    else if (frozen.has(date)) status = 'frozen';
+    else if (repaired.has(date)) status = 'repaired';
+    else if (date === today) status = 'today';
+    else if (date < firstDay) status = 'none';
+    else status = 'missed';
+    return { date, status };
+  });
+};
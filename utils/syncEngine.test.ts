@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { AchievementType, SavedItem, ToolName, XpLedgerEntry } from '../types';
+import { SyncDocument, mergeDocuments } from './syncEngine';
+
+const item = (id: string, title: string): SavedItem => ({
+  id, toolName: ToolName.NOTES_CLEANER, title, content: '', timestamp: '2026-10-19T08:00:00.000Z',
+});
+
+const award = (id: string, amount: number, timestamp: string): XpLedgerEntry =>
+  ({ id, action: 'carriedOver', amount, timestamp, tool: null });
+
+const makeDocument = (changes: Partial<SyncDocument>): SyncDocument => ({
+  version: 4, savedItems: {}, toolInputs: {}, counters: {}, xpLedger: [], badges: [], focusBeastDays: [], frozenDays: [], repairedDays: [],
+  progress: { level: 0, currentStreak: 0, lastActivityDate: null }, ...changes,
+});
+
+const laptop = makeDocument({
+  savedItems: {
+    notes: { value: item('notes', 'Biology (laptop)'), updatedAt: 200, deviceId: 'laptop' },
+    essay: { value: item('essay', 'Essay'), updatedAt: 100, deviceId: 'laptop' },
+  },
+  toolInputs: { studyRoutine: { value: 'laptop plan', updatedAt: 50, deviceId: 'laptop' } },
+  counters: { '2026-10-19:notesSummarized': { laptop: 3, phone: 1 } },
+  xpLedger: [award('a', 20, '2026-10-19T08:00:00.000Z'), award('b', 30, '2026-10-19T09:00:00.000Z')],
+  badges: [AchievementType.NOTES_HERO],
+  frozenDays: ['2026-10-10'],
+  progress: { level: 1, currentStreak: 4, lastActivityDate: '2026-10-19' },
+});
+
+const phone = makeDocument({
+  savedItems: {
+    notes: { value: item('notes', 'Biology (phone)'), updatedAt: 100, deviceId: 'phone' },
+    essay: { value: null, updatedAt: 300, deviceId: 'phone' },
+  },
+  toolInputs: { studyRoutine: { value: 'phone plan', updatedAt: 50, deviceId: 'phone' } },
+  counters: { '2026-10-19:notesSummarized': { laptop: 2, phone: 2 } },
+  xpLedger: [award('a', 20, '2026-10-19T08:00:00.000Z'), award('c', 10, '2026-10-18T08:00:00.000Z')],
+  badges: [AchievementType.FIRE_MASTER, AchievementType.NOTES_HERO],
+  frozenDays: ['2026-10-11'],
+  progress: { level: 0, currentStreak: 9, lastActivityDate: '2026-10-18' },
+});
+
+describe('mergeDocuments', () => {
+  const merged = mergeDocuments(laptop, phone);
+
+  it('gives the same result in either order and when repeated', () => {
+    expect(mergeDocuments(phone, laptop)).toEqual(merged);
+    expect(mergeDocuments(merged, phone)).toEqual(merged);
+    expect(mergeDocuments(laptop, null)).toBe(laptop);
+  });
+
+  it('keeps the last write per item, deletions included', () => {
+    expect(merged.savedItems.notes.value?.title).toBe('Biology (laptop)');
+    expect(merged.savedItems.essay.value).toBeNull();
+    // Same timestamp: the device ID decides, the same way everywhere
+    expect(merged.toolInputs.studyRoutine?.value).toBe('phone plan');
+  });
+
+  it("keeps each device's highest count rather than adding copies", () => {
+    expect(merged.counters['2026-10-19:notesSummarized']).toEqual({ laptop: 3, phone: 2 });
+  });
+
+  it('takes the union of ledger entries, badges and streak days', () => {
+    expect(merged.xpLedger!.map(entry => entry.id)).toEqual(['c', 'a', 'b']);
+    expect(merged.badges).toEqual([AchievementType.FIRE_MASTER, AchievementType.NOTES_HERO].sort());
+    expect(merged.frozenDays).toEqual(['2026-10-10', '2026-10-11']);
+  });
+
+  it('takes the streak from the latest activity', () => {
+    expect(merged.progress).toEqual({ level: 1, currentStreak: 4, lastActivityDate: '2026-10-19' });
+  });
+
+  it('reads XP from a version 1 counter as a carried-over entry', () => {
+    const old = makeDocument({ version: 1, xpLedger: undefined, counters: { xp: { phone: 120 } } });
+    expect(mergeDocuments(laptop, old).xpLedger).toContainEqual(expect.objectContaining({ action: 'carriedOver', amount: 120 }));
+  });
+
+  it('drops counters and Focus Beast days for days either side has compacted', () => {
+    const compacted = makeDocument({
+      counters: { '2026-07-01:notesSummarized': { laptop: 1 }, xp: { laptop: 40 } }, focusBeastDays: ['2026-07-01'], compactedBefore: '2026-07-06',
+    });
+    const old = makeDocument({
+      counters: { '2026-07-05:homeworkChecked': { phone: 2 }, '2026-07-06:homeworkChecked': { phone: 1 } }, focusBeastDays: ['2026-07-05', '2026-07-06'],
+    });
+    const pruned = mergeDocuments(compacted, old);
+    expect(pruned).toEqual(mergeDocuments(old, compacted));
+    expect(pruned.counters).toEqual({ xp: { laptop: 40 }, '2026-07-06:homeworkChecked': { phone: 1 } });
+    expect(pruned.focusBeastDays).toEqual(['2026-07-06']);
+    expect(pruned.compactedBefore).toBe('2026-07-06');
+    expect(mergeDocuments(pruned, old)).toEqual(pruned);
+  });
+});
@@ -0,0 +1,583 @@
+import { SavedItem, DailyAchievementState, DailyActivityCounts, AchievementType, SyncConfig, SyncState, SyncStamp, XpLedgerEntry, BrokenStreak } from '../types';
+import {
+  loadSavedItems, saveItems, loadDailyAchievementState, saveDailyAchievementState,
+  loadSyncConfig, saveSyncConfig, loadSyncState, saveSyncState, getSyncedRecordKeys, getVaultProtectedKeys, generateUniqueId,
+} from './localStorageService';
+import { readRecord, writeRecord, subscribeToRecordWrites } from './persistentStore';
+import { isVaultEnabled, isVaultUnlocked } from './vault';
+import { hashString } from './hash';
+import { CARRIED_OVER_ENTRY_ID, getXpLedger, mergeXpLedgers, deriveXpState } from './xpLedger';
+
+// Bump when the document layout changes; older apps refuse newer documents.
+// 2: XP comes from the ledger instead of the "xp" counter; 3: frozen and repaired streak days;
+// 4: old ledger entries folded into monthly carried-over entries
+const SYNC_DOCUMENT_VERSION = 4;
+const AUTO_SYNC_INTERVAL_MS = 60 * 1000;
+const CHANGE_SYNC_DELAY_MS = 3 * 1000; // Batches a burst of edits into one sync
+const MAX_PUSH_ATTEMPTS = 3;
+
+// Per-day counts that add up across devices; focusBeastEligibleToday is a flag and syncs as a set of days.
+const COUNTED_FIELDS = [
+  'studyPlansGenerated', 'notesSummarized', 'homeworkChecked', 'moodUpdates', 'decisionsMade', 'gradesPredicted',
+] as const;
+// Version 1 documents kept XP as a counter under this name
+const LEGACY_XP_COUNTER = 'xp';
+
+type ToolInputName = keyof ReturnType<typeof getSyncedRecordKeys>['toolInputs'];
+
+interface Stamped<T> extends SyncStamp {
+  value: T;
+}
+
+/**
+ * Everything synced for one student, as stored on the server. Each part has
+ * its own conflict rule, so merging two documents gives the same result on
+ * every device whichever order they sync in:
+ * - saved items and tool inputs: last writer wins, per item/tool (records the
+ *   vault encrypts are left out while it's on)
+ * - XP ledger: union of entries by ID
+ * - daily action counts: each device's contribution is kept, totals add up
+ * - badges, Focus Beast days and frozen/repaired streak days: union
+ * - days any device has compacted: their counters and Focus Beast days are dropped
+ * - streak (and a broken streak waiting for repair): taken from the side with the latest activity
+ */
+export interface SyncDocument {
+  version: number;
+  savedItems: Record<string, Stamped<SavedItem | null>>; // null once deleted, so the deletion syncs too
+  toolInputs: Partial<Record<ToolInputName, Stamped<unknown>>>;
+  counters: Record<string, Record<string, number>>; // "<date>:<field>" -> device ID -> contribution
+  xpLedger?: XpLedgerEntry[]; // Missing in version 1 documents
+  badges: AchievementType[];
+  focusBeastDays: string[];
+  frozenDays?: string[]; // Missing before version 3
+  repairedDays?: string[]; // Missing before version 3
+  compactedBefore?: string; // Latest activity archive cutoff of any device; missing until one compacts
+  progress: { level: number; currentStreak: number; lastActivityDate: string | null; brokenStreak?: BrokenStreak };
+}
+
+export interface SyncStatus {
+  state: 'off' | 'idle' | 'syncing' | 'error';
+  lastSyncedAt: string | null; // ISO string
+  error?: string;
+}
+
+/**
+ * Thrown when syncing fails. The message is shown to the student.
+ */
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+type SyncStatusListener = (status: SyncStatus) => void;
+const syncStatusListeners = new Set<SyncStatusListener>();
+const syncedChangeListeners = new Set<() => void>();
+
+// Worked out on first use, once the active profile is known
+let status: SyncStatus | null = null;
+let runningSync: Promise<void> | null = null;
+// Set while merged data is written back, so those writes aren't mistaken for local edits
+let applyingSyncedData = false;
+
+const currentStatus = (): SyncStatus => status ?? {
+  state: loadSyncConfig() ? 'idle' : 'off',
+  lastSyncedAt: loadSyncState()?.lastSyncedAt ?? null,
+};
+
+const setStatus = (next: SyncStatus): void => {
+  status = next;
+  syncStatusListeners.forEach(listener => listener(next));
+};
+
+const createSyncState = (): SyncState => ({ items: {}, toolInputs: {}, counters: {}, revision: 0, lastSyncedAt: null });
+
+// Notices when a record changed; the length makes collisions even less likely.
+const fingerprint = (value: unknown): string => {
+  const json = JSON.stringify(value) ?? '';
+  return `${hashString(json)}-${json.length}`;
+};
+
+// Later timestamp wins; the device ID breaks ties so every device picks the same side.
+const isNewer = (a: SyncStamp, b: SyncStamp): boolean =>
+  a.updatedAt > b.updatedAt || (a.updatedAt === b.updatedAt && a.deviceId > b.deviceId);
+
+// True for a day some device has already summarized into its activity archive.
+const isCompacted = (date: string, compactedBefore: string | undefined): boolean =>
+  compactedBefore !== undefined && date < compactedBefore;
+
+const sum = (contributions: Record<string, number> | undefined): number =>
+  Object.values(contributions ?? {}).reduce((total, value) => total + value, 0);
+
+// While the vault is on, the records it encrypts stay on this device: they
+// are neither uploaded nor overwritten, and the server keeps whatever other
+// devices sent for them.
+const isKeptOnDevice = (key: string): boolean => isVaultEnabled() && getVaultProtectedKeys().includes(key);
+
+const syncsSavedItems = (): boolean => !isKeptOnDevice(getSyncedRecordKeys().savedItems);
+
+const toolInputNames = (): ToolInputName[] => {
+  const { toolInputs } = getSyncedRecordKeys();
+  return (Object.keys(toolInputs) as ToolInputName[]).filter(name => !isKeptOnDevice(toolInputs[name]));
+};
+
+/**
+ * Timestamps saved items and tool inputs that changed since they were last
+ * seen. Records seen for the first time keep their original age (the item's
+ * creation time, or 0 for tool inputs) so data from before sync was set up
+ * never beats newer edits from another device.
+ */
+const stampLocalChanges = (state: SyncState, deviceId: string): void => {
+  const now = Date.now();
+  if (syncsSavedItems()) {
+    const localIds = new Set<string>();
+    loadSavedItems().forEach(item => {
+      localIds.add(item.id);
+      const known = state.items[item.id];
+      const itemFingerprint = fingerprint(item);
+      if (known?.fingerprint !== itemFingerprint) {
+        state.items[item.id] = { updatedAt: known ? now : Date.parse(item.timestamp) || 0, deviceId, fingerprint: itemFingerprint };
+      }
+    });
+    Object.entries(state.items).forEach(([id, known]) => {
+      if (known.fingerprint !== null && !localIds.has(id)) {
+        state.items[id] = { updatedAt: now, deviceId, fingerprint: null };
+      }
+    });
+  }
+
+  const { toolInputs } = getSyncedRecordKeys();
+  toolInputNames().forEach(name => {
+    const value = readRecord(toolInputs[name]);
+    if (value === undefined) return; // Never filled in here; don't let the defaults overwrite another device
+    const known = state.toolInputs[name];
+    const inputFingerprint = fingerprint(value);
+    if (known?.fingerprint !== inputFingerprint) {
+      state.toolInputs[name] = { updatedAt: known ? now : 0, deviceId, fingerprint: inputFingerprint };
+    }
+  });
+};
+
+/**
+ * Works out this device's share of a counter: whatever the local total holds
+ * beyond what the other devices contributed as of the last sync.
+ */
+const withOwnContribution = (
+  localTotal: number,
+  known: Record<string, number> | undefined,
+  deviceId: string,
+): Record<string, number> => {
+  const own = known?.[deviceId] ?? 0;
+  const others = sum(known) - own;
+  return { ...known, [deviceId]: Math.max(own, localTotal - others) };
+};
+
+/**
+ * Describes this device's data as a sync document.
+ * @param state Sync bookkeeping, already stamped with local changes.
+ * @param deviceId This device.
+ * @param remote The server's document; on the first sync its counters are
+ *   taken as already included in local progress, so data both devices share
+ *   (e.g. from an imported backup) isn't counted twice.
+ */
+const buildLocalDocument = (state: SyncState, deviceId: string, remote: SyncDocument | null): SyncDocument => {
+  const savedItems: SyncDocument['savedItems'] = {};
+  if (syncsSavedItems()) {
+    const itemsById = new Map(loadSavedItems().map(item => [item.id, item]));
+    Object.entries(state.items).forEach(([id, stamp]) => {
+      savedItems[id] = { value: stamp.fingerprint === null ? null : itemsById.get(id) ?? null, updatedAt: stamp.updatedAt, deviceId: stamp.deviceId };
+    });
+  }
+
+  const toolInputs: SyncDocument['toolInputs'] = {};
+  const inputKeys = getSyncedRecordKeys().toolInputs;
+  toolInputNames().forEach(name => {
+    const stamp = state.toolInputs[name];
+    const value = readRecord(inputKeys[name]);
+    if (stamp && value !== undefined) {
+      toolInputs[name] = { value, updatedAt: stamp.updatedAt, deviceId: stamp.deviceId };
+    }
+  });
+
+  const achievements = loadDailyAchievementState();
+  const baseline = state.lastSyncedAt === null && remote ? remote.counters : state.counters;
+  const counters: SyncDocument['counters'] = {};
+  const addCounter = (name: string, localTotal: number) => {
+    counters[name] = withOwnContribution(localTotal, baseline[name], deviceId);
+  };
+  Object.entries(achievements.dailyActionCounts).forEach(([date, counts]) => {
+    COUNTED_FIELDS.forEach(field => addCounter(`${date}:${field}`, counts[field] || 0));
+  });
+
+  return {
+    version: SYNC_DOCUMENT_VERSION,
+    savedItems,
+    toolInputs,
+    counters,
+    xpLedger: getXpLedger(achievements),
+    badges: achievements.unlockedBadges,
+    focusBeastDays: Object.keys(achievements.dailyActionCounts).filter(date => achievements.dailyActionCounts[date].focusBeastEligibleToday),
+    frozenDays: achievements.frozenDays ?? [],
+    repairedDays: achievements.repairedDays ?? [],
+    ...(achievements.activityArchive ? { compactedBefore: achievements.activityArchive.compactedBefore } : {}),
+    progress: {
+      level: achievements.xpState.level,
+      currentStreak: achievements.currentStreak,
+      lastActivityDate: achievements.lastActivityDate,
+      ...(achievements.brokenStreak ? { brokenStreak: achievements.brokenStreak } : {}),
+    },
+  };
+};
+
+const mergeStamped = <T>(a: Record<string, Stamped<T>>, b: Record<string, Stamped<T>>): Record<string, Stamped<T>> => {
+  const merged = { ...a };
+  Object.entries(b).forEach(([key, entry]) => {
+    if (!merged[key] || isNewer(entry, merged[key])) {
+      merged[key] = entry;
+    }
+  });
+  return merged;
+};
+
+// A version 1 document's XP, as a carried-over entry like the one its device will create when it upgrades.
+const ledgerOf = (doc: SyncDocument): XpLedgerEntry[] => {
+  if (doc.xpLedger) return doc.xpLedger;
+  const xp = sum(doc.counters[LEGACY_XP_COUNTER]);
+  return xp > 0 ? [{ id: CARRIED_OVER_ENTRY_ID, action: 'carriedOver', amount: xp, timestamp: new Date(0).toISOString(), tool: null }] : [];
+};
+
+/**
+ * Combines two sync documents. Order doesn't matter: merge(a, b) equals merge(b, a).
+ */
+export const mergeDocuments = (a: SyncDocument, b: SyncDocument | null): SyncDocument => {
+  if (!b) return a;
+  const compactedBefore = [a.compactedBefore, b.compactedBefore].filter(date => date !== undefined).sort().pop();
+  const counters: SyncDocument['counters'] = {};
+  [...new Set([...Object.keys(a.counters), ...Object.keys(b.counters)])].forEach(name => {
+    const [date, field] = name.split(':');
+    if (field && isCompacted(date, compactedBefore)) return;
+    const merged = { ...a.counters[name] };
+    Object.entries(b.counters[name] ?? {}).forEach(([deviceId, value]) => {
+      merged[deviceId] = Math.max(merged[deviceId] ?? 0, value);
+    });
+    counters[name] = merged;
+  });
+  const aDate = a.progress.lastActivityDate || '';
+  const bDate = b.progress.lastActivityDate || '';
+  const streakSource = aDate !== bDate ? (aDate > bDate ? a : b) : (a.progress.currentStreak >= b.progress.currentStreak ? a : b);
+  return {
+    version: SYNC_DOCUMENT_VERSION,
+    savedItems: mergeStamped(a.savedItems, b.savedItems),
+    toolInputs: mergeStamped(a.toolInputs as Record<string, Stamped<unknown>>, b.toolInputs as Record<string, Stamped<unknown>>),
+    counters,
+    xpLedger: mergeXpLedgers(ledgerOf(a), ledgerOf(b)),
+    badges: [...new Set([...a.badges, ...b.badges])].sort(),
+    focusBeastDays: [...new Set([...a.focusBeastDays, ...b.focusBeastDays])].filter(date => !isCompacted(date, compactedBefore)).sort(),
+    frozenDays: [...new Set([...(a.frozenDays ?? []), ...(b.frozenDays ?? [])])].sort(),
+    repairedDays: [...new Set([...(a.repairedDays ?? []), ...(b.repairedDays ?? [])])].sort(),
+    ...(compactedBefore !== undefined ? { compactedBefore } : {}),
+    progress: {
+      level: Math.max(a.progress.level, b.progress.level),
+      currentStreak: streakSource.progress.currentStreak,
+      lastActivityDate: streakSource.progress.lastActivityDate,
+      ...(streakSource.progress.brokenStreak ? { brokenStreak: streakSource.progress.brokenStreak } : {}),
+    },
+  };
+};
+
+/**
+ * Turns a merged document back into achievement state. The activity archive,
+ * day boundary, quest boards and recent input fingerprints aren't synced: each
+ * device compacts its own history, so days this device already summarized are
+ * left out, and days another device compacted first keep this device's own
+ * counts until it summarizes them too. Quests come out the same on every device anyway, and their rewards
+ * sync in the ledger.
+ */
+const toAchievementState = (doc: SyncDocument, local: DailyAchievementState): DailyAchievementState => {
+  const archive = local.activityArchive;
+  const dailyActionCounts: DailyAchievementState['dailyActionCounts'] = {};
+  const dayFor = (date: string): DailyActivityCounts => {
+    dailyActionCounts[date] ??= {
+      studyPlansGenerated: 0, notesSummarized: 0, homeworkChecked: 0,
+      moodUpdates: 0, decisionsMade: 0, gradesPredicted: 0, focusBeastEligibleToday: false,
+    };
+    return dailyActionCounts[date];
+  };
+  Object.entries(doc.counters).forEach(([name, contributions]) => {
+    const [date, field] = name.split(':') as [string, typeof COUNTED_FIELDS[number] | undefined];
+    if (field && COUNTED_FIELDS.includes(field) && !(archive && date < archive.compactedBefore)) {
+      dayFor(date)[field] = sum(contributions);
+    }
+  });
+  doc.focusBeastDays.forEach(date => {
+    if (!(archive && date < archive.compactedBefore)) dayFor(date).focusBeastEligibleToday = true;
+  });
+  Object.entries(local.dailyActionCounts).forEach(([date, counts]) => {
+    if (isCompacted(date, doc.compactedBefore)) dailyActionCounts[date] = counts;
+  });
+  const xpLedger = ledgerOf(doc);
+  return {
+    xpState: deriveXpState(xpLedger),
+    unlockedBadges: doc.badges,
+    currentStreak: doc.progress.currentStreak,
+    lastActivityDate: doc.progress.lastActivityDate,
+    dailyActionCounts,
+    ...(archive ? { activityArchive: archive } : {}),
+    xpLedger,
+    ...(local.dayStartHour !== undefined ? { dayStartHour: local.dayStartHour } : {}),
+    ...(doc.frozenDays?.length ? { frozenDays: doc.frozenDays } : {}),
+    ...(doc.repairedDays?.length ? { repairedDays: doc.repairedDays } : {}),
+    ...(doc.progress.brokenStreak ? { brokenStreak: doc.progress.brokenStreak } : {}),
+    ...(local.questBoards ? { questBoards: local.questBoards } : {}),
+    ...(local.recentInputs ? { recentInputs: local.recentInputs } : {}),
+  };
+};
+
+/**
+ * Writes a merged document into local storage and records its stamps.
+ * @returns True if anything stored locally changed.
+ */
+const applyDocument = (doc: SyncDocument, state: SyncState): boolean => {
+  let changed = false;
+  const withSavedItems = syncsSavedItems();
+  applyingSyncedData = true;
+  try {
+    const items = Object.values(doc.savedItems)
+      .map(entry => entry.value)
+      .filter((item): item is SavedItem => item !== null)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    if (withSavedItems && fingerprint(items) !== fingerprint(loadSavedItems())) {
+      saveItems(items);
+      changed = true;
+    }
+
+    const localAchievements = loadDailyAchievementState();
+    const achievements = toAchievementState(doc, localAchievements);
+    if (fingerprint(achievements) !== fingerprint(localAchievements)) {
+      saveDailyAchievementState(achievements);
+      changed = true;
+    }
+
+    const inputKeys = getSyncedRecordKeys().toolInputs;
+    toolInputNames().forEach(name => {
+      const entry = doc.toolInputs[name];
+      if (entry && fingerprint(entry.value) !== fingerprint(readRecord(inputKeys[name]))) {
+        writeRecord(inputKeys[name], entry.value);
+        changed = true;
+      }
+    });
+  } finally {
+    applyingSyncedData = false;
+  }
+
+  if (withSavedItems) {
+    Object.entries(doc.savedItems).forEach(([id, entry]) => {
+      state.items[id] = { updatedAt: entry.updatedAt, deviceId: entry.deviceId, fingerprint: entry.value === null ? null : fingerprint(entry.value) };
+    });
+  }
+  toolInputNames().forEach(name => {
+    const entry = doc.toolInputs[name];
+    if (entry) state.toolInputs[name] = { updatedAt: entry.updatedAt, deviceId: entry.deviceId, fingerprint: fingerprint(entry.value) };
+  });
+  state.counters = doc.counters;
+  state.lastSyncedAt = new Date().toISOString();
+  return changed;
+};
+
+const syncUrl = (config: SyncConfig, path: string): string => `${config.serverUrl.replace(/\/+$/, '')}${path}`;
+
+const callServer = async (config: SyncConfig, init: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(syncUrl(config, '/v1/sync'), {
+      ...init,
+      headers: { Authorization: `Bearer ${config.syncCode}`, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error("Error reaching the sync server:", error);
+    throw new SyncError('Can\'t reach the sync server. Check that it\'s running and you\'re online.');
+  }
+};
+
+const pullDocument = async (config: SyncConfig): Promise<{ revision: number; document: SyncDocument | null }> => {
+  const response = await callServer(config, { method: 'GET' });
+  if (!response.ok) {
+    throw new SyncError(`The sync server refused the request (HTTP ${response.status}).`);
+  }
+  const body = await response.json() as { revision: number; document: SyncDocument | null };
+  if (body.document && body.document.version > SYNC_DOCUMENT_VERSION) {
+    throw new SyncError('Another device synced with a newer version of the app. Update this one to keep syncing.');
+  }
+  return body;
+};
+
+/**
+ * Uploads a document on top of the given server revision.
+ * @returns The new revision, or null if another device synced first.
+ */
+const pushDocument = async (config: SyncConfig, baseRevision: number, document: SyncDocument): Promise<number | null> => {
+  const response = await callServer(config, { method: 'PUT', body: JSON.stringify({ baseRevision, document }) });
+  if (response.status === 409) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new SyncError(`The sync server refused the update (HTTP ${response.status}).`);
+  }
+  return (await response.json() as { revision: number }).revision;
+};
+
+const runSync = async (config: SyncConfig): Promise<void> => {
+  const state = loadSyncState() ?? createSyncState();
+  // Stamp edits before going online, so offline edits keep their real time
+  stampLocalChanges(state, config.deviceId);
+  saveSyncState(state);
+
+  for (let attempt = 1; attempt <= MAX_PUSH_ATTEMPTS; attempt++) {
+    const remote = await pullDocument(config);
+    stampLocalChanges(state, config.deviceId);
+    const merged = mergeDocuments(buildLocalDocument(state, config.deviceId, remote.document), remote.document);
+    const changed = applyDocument(merged, state);
+    saveSyncState(state); // Local data now includes the merge, whether or not the upload works
+    if (changed) {
+      syncedChangeListeners.forEach(listener => listener());
+    }
+    const revision = await pushDocument(config, remote.revision, merged);
+    if (revision !== null) {
+      state.revision = revision;
+      saveSyncState(state);
+      return;
+    }
+  }
+  throw new SyncError('Other devices kept syncing at the same time. Try again in a moment.');
+};
+
+export const getSyncConfig = (): SyncConfig | null => loadSyncConfig();
+
+export const getSyncStatus = (): SyncStatus => currentStatus();
+
+/**
+ * Syncs the active profile with the server now. Does nothing when sync isn't
+ * set up or the vault is locked (locked data would read as deleted).
+ * Concurrent calls share one run.
+ * @throws SyncError if the server can't be reached or refuses the data.
+ */
+export const syncNow = (): Promise<void> => {
+  const config = loadSyncConfig();
+  if (!config || (isVaultEnabled() && !isVaultUnlocked())) {
+    return Promise.resolve();
+  }
+  if (runningSync) {
+    return runningSync;
+  }
+  setStatus({ ...currentStatus(), state: 'syncing', error: undefined });
+  runningSync = runSync(config)
+    .then(() => setStatus({ state: 'idle', lastSyncedAt: loadSyncState()?.lastSyncedAt ?? null }))
+    .catch(error => {
+      console.error("Sync failed:", error);
+      setStatus({ ...currentStatus(), state: 'error', error: error instanceof SyncError ? error.message : 'Sync failed unexpectedly.' });
+      throw error;
+    })
+    .finally(() => {
+      runningSync = null;
+    });
+  return runningSync;
+};
+
+/**
+ * Creates a new random sync code to use on every device.
+ * @returns 32 hex characters.
+ */
+export const generateSyncCode = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Connects the active profile to a sync server and runs the first sync,
+ * which merges this device's data with whatever the server already has.
+ * @param serverUrl The server root, e.g. http://localhost:8787.
+ * @param syncCode The code shared by the student's devices.
+ * @throws SyncError if the server can't be reached.
+ */
+export const connectSync = async (serverUrl: string, syncCode: string): Promise<void> => {
+  const config: SyncConfig = { serverUrl: serverUrl.trim().replace(/\/+$/, ''), syncCode: syncCode.trim(), deviceId: generateUniqueId() };
+  try {
+    const response = await fetch(syncUrl(config, '/v1/health'));
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  } catch (error) {
+    console.error("Sync server health check failed:", error);
+    throw new SyncError('No sync server answered at that address.');
+  }
+  saveSyncConfig(config);
+  saveSyncState(null);
+  await syncNow();
+};
+
+/**
+ * Stops syncing on this device. Data here and on the server is left as it is.
+ */
+export const disconnectSync = (): void => {
+  saveSyncConfig(null);
+  saveSyncState(null);
+  setStatus({ state: 'off', lastSyncedAt: null });
+};
+
+/**
+ * Keeps the active profile in sync while the app is open: shortly after local
+ * changes, every minute while visible, and when coming back online or to the tab.
+ * @returns A function that stops auto-sync.
+ */
+export const startAutoSync = (): (() => void) => {
+  let changeTimer: number | undefined;
+  const trySync = () => {
+    syncNow().catch(() => { /* Reported through the sync status */ });
+  };
+  const syncedKeys = () => {
+    const keys = getSyncedRecordKeys();
+    return [keys.savedItems, keys.dailyAchievementState, ...Object.values(keys.toolInputs)];
+  };
+  const unsubscribe = subscribeToRecordWrites(key => {
+    if (applyingSyncedData || !loadSyncConfig() || !syncedKeys().includes(key)) return;
+    window.clearTimeout(changeTimer);
+    changeTimer = window.setTimeout(trySync, CHANGE_SYNC_DELAY_MS);
+  });
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') trySync();
+  };
+  const interval = window.setInterval(() => {
+    if (document.visibilityState === 'visible') trySync();
+  }, AUTO_SYNC_INTERVAL_MS);
+  window.addEventListener('online', trySync);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  trySync();
+
+  return () => {
+    unsubscribe();
+    window.clearTimeout(changeTimer);
+    window.clearInterval(interval);
+    window.removeEventListener('online', trySync);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+};
+
+/**
+ * Registers a listener for sync status changes.
+ * @param listener Called with the new status.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToSyncStatus = (listener: SyncStatusListener): (() => void) => {
+  syncStatusListeners.add(listener);
+  return () => {
+    syncStatusListeners.delete(listener);
+  };
+};
+
+/**
+ * Registers a listener for data changed by a sync, so screens can re-read it.
+ * @param listener Called after synced data was written locally.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToSyncedChanges = (listener: () => void): (() => void) => {
+  syncedChangeListeners.add(listener);
+  return () => {
+    syncedChangeListeners.delete(listener);
+  };
+};
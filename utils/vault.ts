@@ -0,0 +1,173 @@
+import { EncryptedRecord, VaultConfig } from '../types';
+import { loadVaultConfig, saveVaultConfig, getVaultProtectedKeys } from './localStorageService';
+import { RecordCipher, readRecord, writeRecord, deleteRecord, setRecordCipher, flushPendingWrites } from './persistentStore';
+import { VAULT_PRIVATE_TOOLS, purgeVaultPrivateCacheEntries } from '../services/responseCache';
+import { deleteRecordedFixtures } from '../services/providers/fixtureProvider';
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256.
+const PBKDF2_ITERATIONS = 600_000;
+const CHECK_TEXT = 'sls-vault';
+export const DEFAULT_AUTO_LOCK_MINUTES = 10;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// The derived key lives only in memory; reloading the page locks the vault.
+let vaultKey: CryptoKey | null = null;
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (encoded: string): Uint8Array => Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+
+/**
+ * Derives the AES-GCM key for a passphrase.
+ * @param passphrase The student's passphrase.
+ * @param salt The vault's salt.
+ * @param iterations PBKDF2 iteration count.
+ * @returns A non-extractable AES-GCM key.
+ */
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+const encryptValue = async (key: CryptoKey, value: unknown): Promise<EncryptedRecord> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { encrypted: true, iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+};
+
+/**
+ * Decrypts a record.
+ * @throws DOMException (OperationError) if the key is wrong or the data was tampered with.
+ */
+const decryptValue = async (key: CryptoKey, record: EncryptedRecord): Promise<unknown> => {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(record.iv) }, key, fromBase64(record.data));
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+const createCipher = (key: CryptoKey): RecordCipher => {
+  const protectedKeys = getVaultProtectedKeys();
+  return {
+    protects: recordKey => protectedKeys.includes(recordKey),
+    encrypt: value => encryptValue(key, value),
+    decrypt: record => decryptValue(key, record),
+  };
+};
+
+/**
+ * Saves every protected record again, so it's written with the current cipher
+ * (encrypted after enabling the vault, plain after disabling it).
+ */
+const rewriteProtectedRecords = async (): Promise<void> => {
+  getVaultProtectedKeys().forEach(key => {
+    const value = readRecord(key);
+    if (value !== undefined) writeRecord(key, value);
+  });
+  await flushPendingWrites();
+};
+
+export const isVaultEnabled = (): boolean => loadVaultConfig() !== null;
+
+export const isVaultUnlocked = (): boolean => vaultKey !== null;
+
+/**
+ * Turns the vault on for the active profile, encrypts its protected records
+ * and drops cached AI answers and recorded fixtures that are just as private.
+ * @param passphrase The new passphrase.
+ */
+export const enableVault = async (passphrase: string): Promise<void> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const config: VaultConfig = {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: await encryptValue(key, CHECK_TEXT),
+    autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+    createdAt: new Date().toISOString(),
+  };
+  await setRecordCipher(createCipher(key));
+  vaultKey = key;
+  saveVaultConfig(config);
+  await rewriteProtectedRecords();
+  deleteRecordedFixtures(VAULT_PRIVATE_TOOLS);
+  try {
+    await purgeVaultPrivateCacheEntries();
+  } catch (error) {
+    console.error("Error removing private answers from the response cache:", error); // IndexedDB may be unavailable
+  }
+};
+
+/**
+ * Checks a passphrase and, if it's right, decrypts the protected records.
+ * @param passphrase The passphrase entered.
+ * @returns False if the passphrase is wrong.
+ */
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  const config = loadVaultConfig();
+  if (!config) {
+    return true;
+  }
+  const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+  try {
+    if (await decryptValue(key, config.check) !== CHECK_TEXT) {
+      return false;
+    }
+  } catch {
+    return false; // AES-GCM authentication fails for a wrong key
+  }
+  await setRecordCipher(createCipher(key));
+  vaultKey = key;
+  return true;
+};
+
+/**
+ * Locks the vault: waits for pending writes, then reloads so no decrypted
+ * data is left in memory.
+ */
+export const lockVault = async (): Promise<void> => {
+  await flushPendingWrites();
+  vaultKey = null;
+  window.location.reload();
+};
+
+/**
+ * Turns the vault off and stores the protected records unencrypted again.
+ * @param passphrase The current passphrase.
+ * @returns False if the passphrase is wrong.
+ */
+export const disableVault = async (passphrase: string): Promise<boolean> => {
+  if (!(await unlockVault(passphrase))) {
+    return false;
+  }
+  await setRecordCipher(null);
+  vaultKey = null;
+  await rewriteProtectedRecords();
+  saveVaultConfig(null);
+  return true;
+};
+
+/**
+ * Last resort for a forgotten passphrase: deletes the encrypted records and
+ * turns the vault off. The data can't be recovered.
+ */
+export const resetVault = async (): Promise<void> => {
+  getVaultProtectedKeys().forEach(key => deleteRecord(key));
+  await flushPendingWrites();
+  saveVaultConfig(null);
+  vaultKey = null;
+};
+
+export const getAutoLockMinutes = (): number => loadVaultConfig()?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+
+export const setAutoLockMinutes = (minutes: number): void => {
+  const config = loadVaultConfig();
+  if (config) {
+    saveVaultConfig({ ...config, autoLockMinutes: minutes });
+  }
+};
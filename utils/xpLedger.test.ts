@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { ActionType, DailyAchievementState, ToolName, XpLedgerEntry } from '../types';
+import {
+  CARRIED_OVER_ENTRY_ID, compactXpLedger, deriveXpState, getPrestigeCount, getSavedItemLinks, getXpLedger, linkSavedItemToXpAward,
+  mergeXpLedgers, recordPrestige, recordQuestReward, recordXpAward, summarizeXpByDay, summarizeXpByTool,
+} from './xpLedger';
+
+const entry = (id: string, action: XpLedgerEntry['action'], amount: number, timestamp: string, tool: ToolName | null = null): XpLedgerEntry =>
+  ({ id, action, amount, timestamp, tool });
+
+const makeState = (xpLedger?: XpLedgerEntry[], xp = 0): DailyAchievementState => ({
+  xpState: xpLedger ? deriveXpState(xpLedger) : { xp, level: 0 },
+  unlockedBadges: [],
+  currentStreak: 0,
+  lastActivityDate: null,
+  dailyActionCounts: {},
+  ...(xpLedger ? { xpLedger } : {}),
+});
+
+describe('getXpLedger', () => {
+  it('carries XP from before the ledger over as one entry', () => {
+    const ledger = getXpLedger(makeState(undefined, 420));
+    expect(ledger).toHaveLength(1);
+    expect(ledger[0]).toMatchObject({ id: CARRIED_OVER_ENTRY_ID, action: 'carriedOver', amount: 420 });
+  });
+});
+
+describe('recordXpAward', () => {
+  it('appends the award and recalculates XP and level', () => {
+    const state = recordXpAward(recordXpAward(makeState([]), ActionType.NOTES_SUMMARIZED, 60), ActionType.HOMEWORK_CHECKED, 50);
+    expect(state.xpLedger).toHaveLength(2);
+    expect(state.xpLedger![1].tool).toBe(ToolName.HOMEWORK_CHECKER);
+    expect(state.xpState).toEqual({ xp: 110, level: 1 });
+  });
+});
+
+describe('recordQuestReward', () => {
+  it('pays each quest once', () => {
+    const once = recordQuestReward(makeState([]), 'daily:2026-10-19:0', 40);
+    expect(recordQuestReward(once, 'daily:2026-10-19:0', 40)).toBe(once);
+    expect(once.xpState.xp).toBe(40);
+  });
+});
+
+describe('linkSavedItemToXpAward', () => {
+  it("links the tool's latest unlinked award with a new entry", () => {
+    let state = recordXpAward(makeState([]), ActionType.NOTES_SUMMARIZED, 20);
+    state = recordXpAward(state, ActionType.NOTES_SUMMARIZED, 20);
+    const awards = state.xpLedger!;
+    state = linkSavedItemToXpAward(state, ToolName.NOTES_CLEANER, 'saved-1');
+    state = linkSavedItemToXpAward(state, ToolName.NOTES_CLEANER, 'saved-2');
+    expect(state.xpLedger!.slice(0, 2)).toEqual(awards);
+    expect(state.xpState).toEqual(deriveXpState(awards));
+    expect(getSavedItemLinks(state.xpLedger!)).toEqual(new Map([[awards[1].id, 'saved-1'], [awards[0].id, 'saved-2']]));
+    expect(summarizeXpByDay(state.xpLedger!)[0].entries).toHaveLength(2);
+    expect(linkSavedItemToXpAward(state, ToolName.HOMEWORK_CHECKER, 'saved-3')).toBe(state);
+  });
+});
+
+describe('mergeXpLedgers', () => {
+  const a = [entry('1', ActionType.NOTES_SUMMARIZED, 20, '2026-10-01T10:00:00.000Z'), entry('2', ActionType.HOMEWORK_CHECKED, 30, '2026-10-02T10:00:00.000Z')];
+  const b = [entry('1', ActionType.NOTES_SUMMARIZED, 20, '2026-10-01T10:00:00.000Z'), entry('3', ActionType.MOOD_UPDATED, 10, '2026-10-01T09:00:00.000Z')];
+
+  it('takes the union by ID, oldest first', () => {
+    expect(mergeXpLedgers(a, b).map(e => e.id)).toEqual(['3', '1', '2']);
+  });
+
+  it('gives the same result in either order and when repeated', () => {
+    const merged = mergeXpLedgers(a, b);
+    expect(mergeXpLedgers(b, a)).toEqual(merged);
+    expect(mergeXpLedgers(merged, b)).toEqual(merged);
+  });
+
+  it('picks the same copy of an entry on both sides', () => {
+    const larger = { ...a[0], amount: 25 };
+    expect(mergeXpLedgers([a[0]], [larger])).toEqual([larger]);
+    expect(mergeXpLedgers([larger], [a[0]])).toEqual([larger]);
+  });
+});
+
+describe('summarizeXpByTool', () => {
+  it('totals XP and awards per tool, most XP first', () => {
+    const ledger = [
+      entry('a', ActionType.NOTES_SUMMARIZED, 20, '2026-10-01T10:00:00.000Z', ToolName.NOTES_CLEANER),
+      entry('b', ActionType.HOMEWORK_CHECKED, 30, '2026-10-01T11:00:00.000Z', ToolName.HOMEWORK_CHECKER),
+      entry('c', ActionType.NOTES_SUMMARIZED, 20, '2026-10-02T10:00:00.000Z', ToolName.NOTES_CLEANER),
+    ];
+    expect(summarizeXpByTool(ledger)).toEqual([
+      { tool: ToolName.NOTES_CLEANER, xp: 40, awards: 2 },
+      { tool: ToolName.HOMEWORK_CHECKER, xp: 30, awards: 1 },
+    ]);
+  });
+});
+
+describe('compactXpLedger', () => {
+  const ledger = [
+    entry('a', ActionType.NOTES_SUMMARIZED, 20, '2026-05-03T10:00:00.000Z', ToolName.NOTES_CLEANER),
+    entry('b', ActionType.NOTES_SUMMARIZED, 15, '2026-05-20T10:00:00.000Z', ToolName.NOTES_CLEANER),
+    entry('c', 'prestige', -30, '2026-06-02T10:00:00.000Z'),
+    entry('d', ActionType.NOTES_SUMMARIZED, 20, '2026-07-25T10:00:00.000Z', ToolName.NOTES_CLEANER),
+    entry('e', ActionType.MOOD_UPDATED, 10, '2026-10-01T10:00:00.000Z', ToolName.MOOD_STRESS),
+  ];
+  const today = '2026-10-19';
+
+  it('folds whole months older than the cutoff into one entry per action', () => {
+    const compacted = compactXpLedger(makeState(ledger), today);
+    expect(compacted.xpLedger!.map(e => e.id)).toEqual([
+      `carried-over:${ActionType.NOTES_SUMMARIZED}:2026-05`, 'carried-over:prestige:2026-06', 'd', 'e',
+    ]);
+    expect(compacted.xpLedger![0]).toMatchObject({ amount: 35, tool: ToolName.NOTES_CLEANER });
+    expect(compacted.xpLedger![0].folded).toEqual([
+      { id: 'a', amount: 20, timestamp: '2026-05-03T10:00:00.000Z' }, { id: 'b', amount: 15, timestamp: '2026-05-20T10:00:00.000Z' },
+    ]);
+  });
+
+  it('keeps totals, the prestige count and per-tool awards', () => {
+    const state = makeState(ledger);
+    const compacted = compactXpLedger(state, today);
+    expect(compacted.xpState).toEqual(state.xpState);
+    expect(getPrestigeCount(compacted)).toBe(1);
+    expect(summarizeXpByTool(compacted.xpLedger!)).toEqual(summarizeXpByTool(ledger));
+  });
+
+  it('does nothing when nothing is old enough, or twice', () => {
+    const compacted = compactXpLedger(makeState(ledger), today);
+    expect(compactXpLedger(compacted, today)).toBe(compacted);
+    const recent = makeState(ledger.slice(3));
+    expect(compactXpLedger(recent, today)).toBe(recent);
+  });
+
+  it("doesn't count folded entries twice when merged with an uncompacted copy", () => {
+    const compacted = compactXpLedger(makeState(ledger), today).xpLedger!;
+    const merged = mergeXpLedgers(ledger, compacted);
+    expect(merged).toEqual(mergeXpLedgers(compacted, ledger));
+    expect(merged).toEqual(compacted);
+    expect(deriveXpState(merged).xp).toBe(deriveXpState(ledger).xp);
+  });
+
+  it('keeps XP from entries the compacted side never saw, and folds them in next time', () => {
+    const compacted = compactXpLedger(makeState(ledger), today).xpLedger!;
+    const offline = [...ledger, entry('f', ActionType.NOTES_SUMMARIZED, 25, '2026-05-28T10:00:00.000Z', ToolName.NOTES_CLEANER)];
+    const merged = mergeXpLedgers(compacted, offline);
+    expect(merged).toEqual(mergeXpLedgers(offline, compacted));
+    expect(deriveXpState(merged).xp).toBe(deriveXpState(offline).xp);
+
+    const recompacted = compactXpLedger(makeState(merged), today).xpLedger!;
+    expect(recompacted[0].folded!.map(e => e.id)).toEqual(['a', 'b', 'f']);
+    expect(deriveXpState(recompacted).xp).toBe(deriveXpState(offline).xp);
+  });
+
+  it('joins copies of a month folded from different entries', () => {
+    const laptop = compactXpLedger(makeState(ledger.filter(e => e.id !== 'b')), today).xpLedger!;
+    const phone = compactXpLedger(makeState(ledger.filter(e => e.id !== 'a')), today).xpLedger!;
+    const merged = mergeXpLedgers(laptop, phone);
+    expect(merged).toEqual(mergeXpLedgers(phone, laptop));
+    expect(merged).toEqual(compactXpLedger(makeState(ledger), today).xpLedger);
+  });
+});
+
+describe('recordPrestige', () => {
+  it('resets XP to zero once the student is high enough', () => {
+    const low = makeState([entry('a', ActionType.NOTES_SUMMARIZED, 100, '2026-10-01T10:00:00.000Z')]);
+    expect(recordPrestige(low)).toBe(low);
+
+    const high = makeState([entry('a', 'carriedOver', 200000, '2026-10-01T10:00:00.000Z')]);
+    const prestiged = recordPrestige(high);
+    expect(prestiged.xpState).toEqual({ xp: 0, level: 0 });
+    expect(getPrestigeCount(prestiged)).toBe(1);
+  });
+});
@@ -0,0 +1,306 @@
+import { ActionType, DailyAchievementState, ToolName, XpLedgerEntry, XpPurchase, XpState } from '../types';
+import { generateUniqueId } from './localStorageService';
+import { addDaysToKey, getDayKey, getTodayKey } from './dateUtils';
+import { PRESTIGE_MIN_LEVEL, getLevelForXp, getXpForLevel } from './levelCurve';
+import { KEEP_DAILY_DAYS } from './activityHistory';
+
+// Same ID on every device, so carried-over XP from synced copies is never counted twice.
+export const CARRIED_OVER_ENTRY_ID = 'carried-over';
+// Folded entries are "carried-over:<action>:<YYYY-MM>" (UTC month), the same on every device.
+const FOLDED_ENTRY_PREFIX = `${CARRIED_OVER_ENTRY_ID}:`;
+
+// The tool each action is reported by.
+const ACTION_TOOLS: Record<ActionType, ToolName> = {
+  [ActionType.STUDY_PLAN_GENERATED]: ToolName.STUDY_ROUTINE,
+  [ActionType.NOTES_SUMMARIZED]: ToolName.NOTES_CLEANER,
+  [ActionType.HOMEWORK_CHECKED]: ToolName.HOMEWORK_CHECKER,
+  [ActionType.MOOD_UPDATED]: ToolName.MOOD_STRESS,
+  [ActionType.DECISION_MADE]: ToolName.DECISION_HELPER,
+  [ActionType.GRADE_PREDICTED]: ToolName.PREDICT_MY_GRADE,
+  [ActionType.PRESSURE_CALCULATED]: ToolName.DEADLINE_PRESSURE,
+};
+
+export interface XpDaySummary {
+  date: string; // Day key, or '' for carried-over XP (from before the ledger, or folded months)
+  xp: number;
+  entries: XpLedgerEntry[]; // Newest first
+}
+
+export interface XpToolSummary {
+  tool: ToolName | null; // null for carried-over XP
+  xp: number;
+  awards: number;
+}
+
+
+/**
+ * The ledger for an achievement state. Data saved before the ledger existed
+ * gets a single carried-over entry holding its XP.
+ */
+export const getXpLedger = (state: DailyAchievementState): XpLedgerEntry[] => {
+  if (state.xpLedger) return state.xpLedger;
+  if (state.xpState.xp <= 0) return [];
+  return [{
+    id: CARRIED_OVER_ENTRY_ID,
+    action: 'carriedOver',
+    amount: state.xpState.xp,
+    timestamp: state.lastActivityDate ? `${state.lastActivityDate}T00:00:00.000Z` : new Date(0).toISOString(),
+    tool: null,
+  }];
+};
+
+const isFoldedEntry = (entry: XpLedgerEntry): boolean => entry.id.startsWith(FOLDED_ENTRY_PREFIX);
+
+// The folded entry an entry belongs in once its month is old enough
+const foldedEntryId = (entry: XpLedgerEntry): string => `${FOLDED_ENTRY_PREFIX}${entry.action}:${entry.timestamp.slice(0, 7)}`;
+
+// Links stay as they are: they're small, and the history needs them to name saved items
+const isFoldable = (entry: XpLedgerEntry): boolean =>
+  entry.action !== 'carriedOver' && entry.action !== 'savedItemLink' && !isFoldedEntry(entry);
+
+/**
+ * How many awards or purchases an entry stands for.
+ */
+export const countEntry = (entry: XpLedgerEntry): number => entry.folded?.length ?? 1;
+
+/**
+ * Totals a ledger into XP and level.
+ */
+export const deriveXpState = (ledger: XpLedgerEntry[]): XpState => {
+  const xp = ledger.reduce((total, entry) => total + entry.amount, 0);
+  return { xp, level: getLevelForXp(xp) };
+};
+
+/**
+ * Records an XP award.
+ * @param state The achievement state.
+ * @param action The action that earned it.
+ * @param amount XP awarded.
+ * @returns A copy with the entry appended and XP and level recalculated.
+ */
+export const recordXpAward = (state: DailyAchievementState, action: ActionType, amount: number): DailyAchievementState => {
+  const entry: XpLedgerEntry = {
+    id: generateUniqueId(),
+    action,
+    amount,
+    timestamp: new Date().toISOString(),
+    tool: ACTION_TOOLS[action],
+  };
+  const xpLedger = [...getXpLedger(state), entry];
+  return { ...state, xpLedger, xpState: deriveXpState(xpLedger) };
+};
+
+/**
+ * XP that can be spent without dropping below the start of the current level.
+ */
+export const getSpendableXp = (state: DailyAchievementState): number =>
+  Math.max(0, state.xpState.xp - getXpForLevel(state.xpState.level));
+
+/**
+ * Records spending XP. Check getSpendableXp first.
+ * @param state The achievement state.
+ * @param purchase What the XP was spent on.
+ * @param cost XP spent.
+ * @returns A copy with the entry appended and XP and level recalculated.
+ */
+export const recordXpPurchase = (state: DailyAchievementState, purchase: XpPurchase, cost: number): DailyAchievementState => {
+  const entry: XpLedgerEntry = {
+    id: generateUniqueId(),
+    action: purchase,
+    amount: -cost,
+    timestamp: new Date().toISOString(),
+    tool: null,
+  };
+  const xpLedger = [...getXpLedger(state), entry];
+  return { ...state, xpLedger, xpState: deriveXpState(xpLedger) };
+};
+
+/**
+ * How many times the student has prestiged. Each prestige is a ledger entry, so the count syncs with XP.
+ */
+export const getPrestigeCount = (state: DailyAchievementState): number =>
+  getXpLedger(state).filter(entry => entry.action === 'prestige').reduce((total, entry) => total + countEntry(entry), 0);
+
+export const canPrestige = (state: DailyAchievementState): boolean => state.xpState.level >= PRESTIGE_MIN_LEVEL;
+
+/**
+ * Starts XP again from zero, in exchange for the next prestige cosmetic.
+ * @returns A copy with the reset recorded, or the same state if the student can't prestige yet.
+ */
+export const recordPrestige = (state: DailyAchievementState): DailyAchievementState => {
+  if (!canPrestige(state)) return state;
+  const entry: XpLedgerEntry = {
+    id: generateUniqueId(),
+    action: 'prestige',
+    amount: -state.xpState.xp,
+    timestamp: new Date().toISOString(),
+    tool: null,
+  };
+  const xpLedger = [...getXpLedger(state), entry];
+  return { ...state, xpLedger, xpState: deriveXpState(xpLedger) };
+};
+
+// A quest's reward entry uses an ID made from its slot's, so claiming it on two devices pays once.
+export const questRewardEntryId = (slotId: string): string => `quest:${slotId}`;
+
+/**
+ * Records the XP reward for a completed quest.
+ * @param state The achievement state.
+ * @param slotId The quest's slot (its ID without any reroll suffix; see utils/questEngine).
+ * @param amount XP awarded.
+ * @returns A copy with the entry appended and XP and level recalculated, or the same state if it was already paid.
+ */
+export const recordQuestReward = (state: DailyAchievementState, slotId: string, amount: number): DailyAchievementState => {
+  const id = questRewardEntryId(slotId);
+  const ledger = getXpLedger(state);
+  if (ledger.some(entry => entry.id === id)) return state;
+  const entry: XpLedgerEntry = {
+    id,
+    action: 'questReward',
+    amount,
+    timestamp: new Date().toISOString(),
+    tool: null,
+  };
+  const xpLedger = [...ledger, entry];
+  return { ...state, xpLedger, xpState: deriveXpState(xpLedger) };
+};
+
+/**
+ * Links a newly saved item to the award for the response it was saved from:
+ * the tool's latest award that isn't linked yet. The link is a new entry
+ * worth no XP, so the award itself never changes.
+ * @returns A copy with the link appended, or the same state if no award matches.
+ */
+export const linkSavedItemToXpAward = (state: DailyAchievementState, tool: ToolName, savedItemId: string): DailyAchievementState => {
+  const ledger = getXpLedger(state);
+  const linked = new Set(ledger.map(entry => entry.awardId));
+  const award = [...ledger].reverse().find(entry =>
+    entry.tool === tool && entry.action !== 'savedItemLink' && !isFoldedEntry(entry) && !linked.has(entry.id));
+  if (!award) return state;
+  const entry: XpLedgerEntry = {
+    id: generateUniqueId(),
+    action: 'savedItemLink',
+    amount: 0,
+    timestamp: new Date().toISOString(),
+    tool,
+    awardId: award.id,
+    savedItemId,
+  };
+  return { ...state, xpLedger: [...ledger, entry] };
+};
+
+/**
+ * The saved item each award was linked to, by award ID.
+ */
+export const getSavedItemLinks = (ledger: XpLedgerEntry[]): Map<string, string> =>
+  new Map(ledger.flatMap(entry => (entry.awardId && entry.savedItemId ? [[entry.awardId, entry.savedItemId] as const] : [])));
+
+// Picks the same copy of an entry on every device: the larger award, then by content.
+const preferEntry = (a: XpLedgerEntry, b: XpLedgerEntry): XpLedgerEntry => {
+  if (a.amount !== b.amount) return a.amount > b.amount ? a : b;
+  return JSON.stringify(a) >= JSON.stringify(b) ? a : b;
+};
+
+const sortLedger = (ledger: XpLedgerEntry[]): XpLedgerEntry[] =>
+  ledger.sort((x, y) => x.timestamp.localeCompare(y.timestamp) || x.id.localeCompare(y.id));
+
+// Joins two copies of the same folded month, each entry in it counted once
+const combineFolds = (a: XpLedgerEntry, b: XpLedgerEntry): XpLedgerEntry => {
+  const folded = [...new Map([...(a.folded ?? []), ...(b.folded ?? [])].map(entry => [entry.id, entry])).values()]
+    .sort((x, y) => x.timestamp.localeCompare(y.timestamp) || x.id.localeCompare(y.id));
+  return { ...a, amount: folded.reduce((total, entry) => total + entry.amount, 0), folded };
+};
+
+/**
+ * Combines two ledgers by entry ID. Copies of a folded month are joined, and
+ * an entry is dropped only once a folded entry lists its ID, so awards one
+ * side never folded keep counting. Order doesn't matter: merge(a, b) equals
+ * merge(b, a).
+ * @returns The entries of both, oldest first.
+ */
+export const mergeXpLedgers = (a: XpLedgerEntry[], b: XpLedgerEntry[]): XpLedgerEntry[] => {
+  const byId = new Map(a.map(entry => [entry.id, entry]));
+  b.forEach(entry => {
+    const existing = byId.get(entry.id);
+    if (!existing) byId.set(entry.id, entry);
+    else byId.set(entry.id, isFoldedEntry(entry) ? combineFolds(existing, entry) : preferEntry(existing, entry));
+  });
+  const merged = [...byId.values()];
+  const foldedIds = new Set(merged.flatMap(entry => entry.folded?.map(folded => folded.id) ?? []));
+  return sortLedger(merged.filter(entry => !foldedIds.has(entry.id)));
+};
+
+/**
+ * Shrinks the ledger the way activity history is compacted: entries from
+ * months that ended more than KEEP_DAILY_DAYS ago become one carried-over
+ * entry per action and month. Each folded entry keeps its ID, amount and
+ * time on the carried-over one, so the audit trail stays. Totals, prestige
+ * count and bought freezes stay the same. Devices that fold the same month
+ * get the same entry ID, and merging joins what each of them folded.
+ * @param state The achievement state.
+ * @param today Today's day key (see utils/dateUtils).
+ * @returns A compacted copy, or the same object if nothing was old enough.
+ */
+export const compactXpLedger = (
+  state: DailyAchievementState,
+  today: string = getTodayKey(state.dayStartHour),
+): DailyAchievementState => {
+  if (!state.xpLedger) return state;
+  // Whole months only, so a month is never folded in two parts
+  const foldBefore = `${addDaysToKey(today, -KEEP_DAILY_DAYS).slice(0, 7)}-01T00:00:00.000Z`;
+  const old = new Set(state.xpLedger.filter(entry => isFoldable(entry) && entry.timestamp < foldBefore));
+  if (old.size === 0) return state;
+
+  // A month folded before can still gain entries, e.g. synced from a device that was offline
+  const folds = new Map(state.xpLedger.filter(isFoldedEntry).map(entry => [entry.id, entry]));
+  old.forEach(entry => {
+    const id = foldedEntryId(entry);
+    const fold = folds.get(id);
+    if (fold?.folded?.some(folded => folded.id === entry.id)) return; // Already counted (e.g. re-added by an import)
+    folds.set(id, {
+      id,
+      action: entry.action,
+      amount: (fold?.amount ?? 0) + entry.amount,
+      timestamp: `${entry.timestamp.slice(0, 7)}-01T00:00:00.000Z`,
+      tool: entry.tool,
+      folded: [...(fold?.folded ?? []), { id: entry.id, amount: entry.amount, timestamp: entry.timestamp }],
+    });
+  });
+
+  const xpLedger = sortLedger([...state.xpLedger.filter(entry => !old.has(entry) && !isFoldedEntry(entry)), ...folds.values()]);
+  return { ...state, xpLedger, xpState: deriveXpState(xpLedger) };
+};
+
+/**
+ * Groups a ledger by the day each award was made. Saved-item links are left
+ * out (see getSavedItemLinks).
+ * @param ledger The ledger.
+ * @param dayStartHour Local hour the student's day starts at.
+ * @returns One summary per day, newest first.
+ */
+export const summarizeXpByDay = (ledger: XpLedgerEntry[], dayStartHour?: number): XpDaySummary[] => {
+  const days = new Map<string, XpDaySummary>();
+  ledger.filter(entry => entry.action !== 'savedItemLink').forEach(entry => {
+    const date = entry.action === 'carriedOver' || isFoldedEntry(entry) ? '' : getDayKey(Date.parse(entry.timestamp), dayStartHour);
+    const day = days.get(date) ?? { date, xp: 0, entries: [] };
+    day.xp += entry.amount;
+    day.entries.unshift(entry);
+    days.set(date, day);
+  });
+  return [...days.values()].sort((a, b) => b.date.localeCompare(a.date));
+};
+
+/**
+ * Groups a ledger's awards by the tool each came from. Purchases and quest rewards are left out.
+ * @returns One summary per tool, most XP first.
+ */
+export const summarizeXpByTool = (ledger: XpLedgerEntry[]): XpToolSummary[] => {
+  const tools = new Map<ToolName | null, XpToolSummary>();
+  ledger.filter(entry => entry.amount > 0 && entry.action !== 'questReward').forEach(entry => {
+    const summary = tools.get(entry.tool) ?? { tool: entry.tool, xp: 0, awards: 0 };
+    summary.xp += entry.amount;
+    summary.awards += countEntry(entry);
+    tools.set(entry.tool, summary);
+  });
+  return [...tools.values()].sort((a, b) => b.xp - a.xp);
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { ActionType, DailyAchievementState, XpLedgerEntry } from '../types';
+import { XP_RULES, countsTowardProgress, decideXpAward, getXpRule, rememberInput, removeXpRuleOverride, saveXpRuleOverride } from './xpRules';
+import { deriveXpState } from './xpLedger';
+
+const TODAY = '2026-10-19';
+const NOON = Date.parse('2026-10-19T12:00:00');
+const MINUTE = 60 * 1000;
+
+// Awards made today, `minutesAgo` before noon
+const makeState = (action: ActionType, awards: { amount: number; minutesAgo: number }[]): DailyAchievementState => {
+  const xpLedger: XpLedgerEntry[] = awards.map(({ amount, minutesAgo }, index) => ({
+    id: `award-${index}`, action, amount, timestamp: new Date(NOON - minutesAgo * MINUTE).toISOString(), tool: null,
+  }));
+  return {
+    xpState: deriveXpState(xpLedger), unlockedBadges: [], currentStreak: 0, lastActivityDate: null, dailyActionCounts: {},
+    xpLedger, dayStartHour: 0,
+  };
+};
+
+const decide = (state: DailyAchievementState, action: ActionType, input?: string) =>
+  decideXpAward(state, { action, input, today: TODAY, now: NOON });
+
+describe('decideXpAward', () => {
+  it('awards the base XP the first time', () => {
+    expect(decide(makeState(ActionType.NOTES_SUMMARIZED, []), ActionType.NOTES_SUMMARIZED)).toEqual({ xp: 20, baseXp: 20 });
+  });
+
+  it('awards once-a-day actions once a day', () => {
+    const decision = decide(makeState(ActionType.STUDY_PLAN_GENERATED, [{ amount: 15, minutesAgo: 300 }]), ActionType.STUDY_PLAN_GENERATED);
+    expect(decision).toMatchObject({ xp: 0, reason: 'oncePerDay' });
+  });
+
+  it('holds XP back during the cooldown', () => {
+    const state = makeState(ActionType.MOOD_UPDATED, [{ amount: 10, minutesAgo: 10 }]);
+    expect(decide(state, ActionType.MOOD_UPDATED)).toMatchObject({ xp: 0, reason: 'cooldown' });
+    expect(decide(state, ActionType.MOOD_UPDATED).message).toContain('20 minutes');
+  });
+
+  it('halves each award past the diminishing limit', () => {
+    const awards = [20, 20, 20].map((amount, i) => ({ amount, minutesAgo: 60 - i }));
+    expect(decide(makeState(ActionType.NOTES_SUMMARIZED, awards), ActionType.NOTES_SUMMARIZED)).toMatchObject({ xp: 10, reason: 'diminished' });
+    const more = [...awards, { amount: 10, minutesAgo: 30 }];
+    expect(decide(makeState(ActionType.NOTES_SUMMARIZED, more), ActionType.NOTES_SUMMARIZED)).toMatchObject({ xp: 5, reason: 'diminished' });
+  });
+
+  it('stops at the daily cap', () => {
+    const awards = [10, 15].map((amount, i) => ({ amount, minutesAgo: 120 - i * 60 }));
+    const decision = decide(makeState(ActionType.PRESSURE_CALCULATED, awards), ActionType.PRESSURE_CALCULATED);
+    expect(decision).toMatchObject({ xp: 5, reason: 'dailyCap' });
+    const capped = makeState(ActionType.PRESSURE_CALCULATED, [...awards, { amount: 5, minutesAgo: 5 }]);
+    expect(decide(capped, ActionType.PRESSURE_CALCULATED)).toMatchObject({ xp: 0, reason: 'dailyCap' });
+  });
+
+  it('gives nothing for a near copy of a recent input', () => {
+    const notes = 'Photosynthesis turns light energy into chemical energy stored in glucose inside the chloroplasts of plant cells';
+    const state = rememberInput(makeState(ActionType.NOTES_SUMMARIZED, []), ActionType.NOTES_SUMMARIZED, notes, NOON);
+    expect(decide(state, ActionType.NOTES_SUMMARIZED, `${notes}.`)).toMatchObject({ xp: 0, reason: 'duplicate' });
+    expect(decide(state, ActionType.NOTES_SUMMARIZED, 'The French Revolution began in 1789 with the storming of the Bastille in Paris'))
+      .toEqual({ xp: 20, baseXp: 20 });
+  });
+});
+
+describe('countsTowardProgress', () => {
+  it('leaves repeats and cooldowns out of badges and quests, but not capped work', () => {
+    const cooling = makeState(ActionType.MOOD_UPDATED, [{ amount: 10, minutesAgo: 10 }]);
+    expect(countsTowardProgress(decide(cooling, ActionType.MOOD_UPDATED))).toBe(false);
+    const notes = 'Photosynthesis turns light energy into chemical energy stored in glucose inside the chloroplasts of plant cells';
+    const repeated = rememberInput(makeState(ActionType.NOTES_SUMMARIZED, []), ActionType.NOTES_SUMMARIZED, notes, NOON);
+    expect(countsTowardProgress(decide(repeated, ActionType.NOTES_SUMMARIZED, notes))).toBe(false);
+    const capped = makeState(ActionType.PRESSURE_CALCULATED, [10, 10, 10].map((amount, i) => ({ amount, minutesAgo: 120 - i })));
+    expect(countsTowardProgress(decide(capped, ActionType.PRESSURE_CALCULATED))).toBe(true);
+  });
+});
+
+describe('rememberInput', () => {
+  it('keeps the last ten fingerprints, and none for actions without a repeat check', () => {
+    let state = makeState(ActionType.NOTES_SUMMARIZED, []);
+    for (let i = 0; i < 12; i++) {
+      state = rememberInput(state, ActionType.NOTES_SUMMARIZED, `Chapter ${i} notes about a different topic number ${i}`, NOON);
+    }
+    expect(state.recentInputs?.[ActionType.NOTES_SUMMARIZED]).toHaveLength(10);
+    expect(rememberInput(state, ActionType.GRADE_PREDICTED, 'anything at all', NOON)).toBe(state);
+  });
+});
+
+describe('XP rule overrides', () => {
+  it('merge over the built-in rule and can switch limits off', () => {
+    saveXpRuleOverride(ActionType.NOTES_SUMMARIZED, { baseXp: 40, dailyCap: null, diminishing: { after: 1, factor: 3 } });
+    const rule = getXpRule(ActionType.NOTES_SUMMARIZED);
+    expect(rule.baseXp).toBe(40);
+    expect(rule.dailyCap).toBeUndefined();
+    expect(rule.diminishing).toEqual({ after: 1, factor: 1 }); // Clamped
+    expect(rule.cooldownMinutes).toBe(XP_RULES[ActionType.NOTES_SUMMARIZED].cooldownMinutes);
+
+    removeXpRuleOverride(ActionType.NOTES_SUMMARIZED);
+    expect(getXpRule(ActionType.NOTES_SUMMARIZED)).toEqual(XP_RULES[ActionType.NOTES_SUMMARIZED]);
+  });
+
+  it('are what decideXpAward applies', () => {
+    saveXpRuleOverride(ActionType.MOOD_UPDATED, { cooldownMinutes: null, baseXp: 12 });
+    const state = makeState(ActionType.MOOD_UPDATED, [{ amount: 10, minutesAgo: 10 }]);
+    expect(decide(state, ActionType.MOOD_UPDATED)).toEqual({ xp: 12, baseXp: 12 });
+  });
+});
@@ -0,0 +1,193 @@
+import { ActionType, DailyAchievementState, InputFingerprint, XpRuleOverride } from '../types';
+import { getDayKey } from './dateUtils';
+import { loadXpRuleOverrides, saveXpRuleOverrides } from './localStorageService';
+import { estimateSimilarity, fingerprintText } from './similarity';
+import { getXpLedger } from './xpLedger';
+
+// Fingerprints kept per action for the repeat check
+const RECENT_INPUTS_KEPT = 10;
+
+/**
+ * How an action earns XP. Everything but baseXp is optional; leaving a limit
+ * out switches it off.
+ */
+export interface XpRule {
+  label: string; // Plural name used in messages, e.g. "notes summaries"
+  baseXp: number;
+  oncePerDay?: boolean; // Only the first of the day earns XP
+  cooldownMinutes?: number; // Minimum time between two awards
+  diminishing?: { after: number; factor: number }; // Past `after` awards today, each award is worth `factor` times the one before
+  dailyCap?: number; // Most XP the action can earn in a day
+  duplicateSimilarity?: number; // Inputs at least this alike (0-1) to a recent one earn nothing
+}
+
+// Built-in rules. Settings can change any of them per action (see getXpRule).
+export const XP_RULES: Record<ActionType, XpRule> = {
+  [ActionType.STUDY_PLAN_GENERATED]: { label: 'study plans', baseXp: 15, oncePerDay: true },
+  [ActionType.NOTES_SUMMARIZED]: {
+    label: 'notes summaries', baseXp: 20, cooldownMinutes: 1, diminishing: { after: 3, factor: 0.5 }, dailyCap: 100, duplicateSimilarity: 0.75,
+  },
+  [ActionType.HOMEWORK_CHECKED]: {
+    label: 'homework checks', baseXp: 30, cooldownMinutes: 1, diminishing: { after: 3, factor: 0.5 }, dailyCap: 150, duplicateSimilarity: 0.75,
+  },
+  [ActionType.MOOD_UPDATED]: {
+    label: 'mood check-ins', baseXp: 10, cooldownMinutes: 30, diminishing: { after: 2, factor: 0.5 }, dailyCap: 30, duplicateSimilarity: 0.9,
+  },
+  [ActionType.DECISION_MADE]: {
+    label: 'decisions', baseXp: 5, cooldownMinutes: 1, diminishing: { after: 3, factor: 0.5 }, dailyCap: 25, duplicateSimilarity: 0.75,
+  },
+  [ActionType.GRADE_PREDICTED]: { label: 'grade predictions', baseXp: 5, dailyCap: 25 },
+  [ActionType.PRESSURE_CALCULATED]: { label: 'pressure checks', baseXp: 10, dailyCap: 30 },
+};
+
+const OVERRIDABLE_FIELDS = ['baseXp', 'oncePerDay', 'cooldownMinutes', 'diminishing', 'dailyCap', 'duplicateSimilarity'] as const;
+
+/**
+ * The rule an action follows: the built-in one with any override from
+ * settings on top. Overrides are read on every call so edits apply to the
+ * next action.
+ * @param action The action.
+ */
+export const getXpRule = (action: ActionType): XpRule => {
+  const override = loadXpRuleOverrides()[action];
+  const rule: Record<string, unknown> = { ...XP_RULES[action] };
+  OVERRIDABLE_FIELDS.forEach(field => {
+    const value = override?.[field];
+    if (value === null) {
+      delete rule[field];
+    } else if (value !== undefined) {
+      rule[field] = value;
+    }
+  });
+  return rule as unknown as XpRule;
+};
+
+/**
+ * Saves custom limits for an action, keeping values within sensible bounds.
+ * @param action The action.
+ * @param changes The fields to change; null switches a limit off.
+ * @returns The stored override.
+ */
+export const saveXpRuleOverride = (action: ActionType, changes: Omit<XpRuleOverride, 'updatedAt'>): XpRuleOverride => {
+  const count = (value: number) => Math.max(0, Math.round(value));
+  const share = (value: number) => Math.min(1, Math.max(0, value));
+  const override: XpRuleOverride = { updatedAt: new Date().toISOString() };
+  if (changes.baseXp !== undefined) override.baseXp = count(changes.baseXp);
+  if (changes.oncePerDay !== undefined) override.oncePerDay = changes.oncePerDay;
+  if (changes.cooldownMinutes !== undefined) override.cooldownMinutes = changes.cooldownMinutes === null ? null : count(changes.cooldownMinutes);
+  if (changes.diminishing !== undefined) {
+    override.diminishing = changes.diminishing === null ? null : { after: count(changes.diminishing.after), factor: share(changes.diminishing.factor) };
+  }
+  if (changes.dailyCap !== undefined) override.dailyCap = changes.dailyCap === null ? null : count(changes.dailyCap);
+  if (changes.duplicateSimilarity !== undefined) {
+    override.duplicateSimilarity = changes.duplicateSimilarity === null ? null : share(changes.duplicateSimilarity);
+  }
+  saveXpRuleOverrides({ ...loadXpRuleOverrides(), [action]: override });
+  return override;
+};
+
+export const removeXpRuleOverride = (action: ActionType): void => {
+  const { [action]: _removed, ...remaining } = loadXpRuleOverrides();
+  saveXpRuleOverrides(remaining);
+};
+
+export type XpWithheldReason = 'oncePerDay' | 'duplicate' | 'cooldown' | 'diminished' | 'dailyCap';
+
+export interface XpAwardDecision {
+  xp: number;
+  baseXp: number;
+  reason?: XpWithheldReason; // Why xp is less than baseXp
+  message?: string; // The reason, for the student
+}
+
+export interface XpAwardRequest {
+  action: ActionType;
+  input?: string; // What the student submitted, for the repeat check
+  today: string; // Day key
+  now?: number; // Current time in ms
+}
+
+const withheld = (rule: XpRule, xp: number, reason: XpWithheldReason, message: string): XpAwardDecision =>
+  ({ xp, baseXp: rule.baseXp, reason, message });
+
+/**
+ * Works out the XP an action earns under its rule.
+ * @param state The achievement state before the action.
+ * @param request The action and what was submitted.
+ * @returns The XP to award, with the reason if it's less than the base award.
+ */
+export const decideXpAward = (state: DailyAchievementState, request: XpAwardRequest): XpAwardDecision => {
+  const { action, input, today, now = Date.now() } = request;
+  const rule = getXpRule(action);
+  const awardsToday = getXpLedger(state).filter(entry =>
+    entry.action === action && entry.amount > 0 && getDayKey(Date.parse(entry.timestamp), state.dayStartHour) === today);
+
+  if (rule.oncePerDay && awardsToday.length > 0) {
+    return withheld(rule, 0, 'oncePerDay', `No XP this time: ${rule.label} earn XP once a day.`);
+  }
+
+  if (rule.duplicateSimilarity !== undefined && input) {
+    const signature = fingerprintText(input);
+    const isRepeat = signature && (state.recentInputs?.[action] ?? [])
+      .some(recent => estimateSimilarity(signature, recent.signature) >= rule.duplicateSimilarity!);
+    if (isRepeat) {
+      return withheld(rule, 0, 'duplicate', 'No XP this time: this is almost the same as something you submitted recently.');
+    }
+  }
+
+  if (rule.cooldownMinutes && awardsToday.length > 0) {
+    const waitMs = Date.parse(awardsToday[awardsToday.length - 1].timestamp) + rule.cooldownMinutes * 60 * 1000 - now;
+    if (waitMs > 0) {
+      const minutes = Math.ceil(waitMs / 60000);
+      return withheld(rule, 0, 'cooldown', `No XP yet: ${rule.label} earn XP again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+    }
+  }
+
+  let xp = rule.baseXp;
+  let reason: XpWithheldReason | undefined;
+  if (rule.diminishing && awardsToday.length >= rule.diminishing.after) {
+    xp = Math.floor(rule.baseXp * rule.diminishing.factor ** (awardsToday.length - rule.diminishing.after + 1));
+    reason = 'diminished';
+  }
+
+  if (rule.dailyCap !== undefined) {
+    const earnedToday = awardsToday.reduce((total, entry) => total + entry.amount, 0);
+    if (earnedToday + xp > rule.dailyCap) {
+      xp = Math.max(0, rule.dailyCap - earnedToday);
+      reason = 'dailyCap';
+    }
+  }
+
+  if (reason === 'dailyCap') {
+    return withheld(rule, xp, reason, xp > 0
+      ? `+${xp} XP: that's today's limit for ${rule.label}.`
+      : `No XP this time: you've reached today's limit for ${rule.label}. Come back tomorrow!`);
+  }
+  if (reason === 'diminished') {
+    return withheld(rule, xp, reason, xp > 0
+      ? `+${xp} XP: ${rule.label} earn less after the first ${rule.diminishing!.after} each day.`
+      : `No XP this time: you've done lots of ${rule.label} today. Try another tool!`);
+  }
+  return { xp, baseXp: rule.baseXp };
+};
+
+/**
+ * Whether an action counts towards badges and quests. Repeats and actions
+ * during a cooldown don't, so withholding their XP can't be got round that
+ * way; anything past a daily limit is still real work and does.
+ */
+export const countsTowardProgress = (decision: XpAwardDecision): boolean =>
+  decision.reason !== 'duplicate' && decision.reason !== 'cooldown';
+
+/**
+ * Keeps a fingerprint of what was submitted, so a near copy can be spotted later.
+ * @returns A copy with the fingerprint added, or the same state if there's nothing to keep.
+ */
+export const rememberInput = (state: DailyAchievementState, action: ActionType, input: string | undefined, now: number = Date.now()): DailyAchievementState => {
+  if (getXpRule(action).duplicateSimilarity === undefined || !input) return state;
+  const signature = fingerprintText(input);
+  if (!signature) return state;
+  const fingerprint: InputFingerprint = { signature, timestamp: new Date(now).toISOString() };
+  const recent = [...(state.recentInputs?.[action] ?? []), fingerprint].slice(-RECENT_INPUTS_KEPT);
+  return { ...state, recentInputs: { ...state.recentInputs, [action]: recent } };
+};
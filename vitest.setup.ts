@@ -0,0 +1,35 @@
+import { beforeEach } from 'vitest';
+
+// Node has no localStorage; settings and overrides read it, so tests get a
+// fresh in-memory one each time.
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+}
+
+beforeEach(() => {
+  globalThis.localStorage = new MemoryStorage();
+});